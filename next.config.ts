@@ -1,5 +1,6 @@
 // next.config.ts
 import type { NextConfig } from 'next';
+import { MEDIA_DEVICE_SIZES, MEDIA_IMAGE_SIZES, MEDIA_VARIANT_QUALITIES } from './src/lib/media-variants';
 
 const nextConfig: NextConfig = {
   // Enable Statically Typed Routes
@@ -44,6 +45,8 @@ const nextConfig: NextConfig = {
     return config
   },
   output: 'standalone',
+  // ffmpeg-static resolves its binary relative to its own folder, so it must not be bundled
+  serverExternalPackages: ['ffmpeg-static'],
   reactCompiler: true,
   experimental: {
     serverActions: {
@@ -79,6 +82,14 @@ const nextConfig: NextConfig = {
     },
   },
   images: {
+    // Local media is served only with the viewer's session or a signed URL (see the /api/images route).
+    // The built-in optimizer fetches images without the browser's cookies, so it could not load them;
+    // the media route resizes uploads itself and this loader points srcset entries at those variants.
+    loader: 'custom',
+    loaderFile: './src/lib/media-loader.ts',
+    imageSizes: MEDIA_IMAGE_SIZES,
+    deviceSizes: MEDIA_DEVICE_SIZES,
+    qualities: MEDIA_VARIANT_QUALITIES,
     remotePatterns: [
       {
         protocol: 'https',
@@ -22,8 +22,9 @@ export default defineConfig({
     },
   ],
 
+  // End-to-end runs use the mock providers so they need no API keys and cost nothing
   webServer: {
-    command: 'npm run dev',
+    command: 'npm run dev:mock',
     url: 'http://localhost:9002',
     reuseExistingServer: !process.env.CI,
     timeout: 120_000,
@@ -2,7 +2,7 @@ import 'dotenv/config';
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
-import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import { randomBytes, randomUUID, createCipheriv, createDecipheriv } from 'crypto';
 
 // --- Encryption Logic (Inlined) ---
 const ALGORITHM = 'aes-256-gcm';
@@ -36,6 +36,14 @@ function encrypt(text: string): string {
 const DB_DIR = path.join(process.cwd(), 'user_data', 'history');
 const DB_PATH = path.join(DB_DIR, 'history.db');
 
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(col => col.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added column ${table}.${column}`);
+  }
+}
+
 function runMigrations() {
   console.log('Running database migrations...');
   
@@ -69,7 +77,11 @@ function runMigrations() {
       error TEXT,
       webhook_url TEXT,
       image_generation_model TEXT,
-      generation_mode TEXT
+      generation_mode TEXT,
+      job_status TEXT, -- API job lifecycle: queued | running | completed | partial | failed | cancelled
+      batch_id TEXT, -- API batch this item belongs to
+      external_ref TEXT, -- caller-supplied reference (e.g. SKU) for batch items
+      classification TEXT -- Studio Mode garment classification
     );
 
     CREATE TABLE IF NOT EXISTS history_images (
@@ -78,6 +90,25 @@ function runMigrations() {
       url TEXT NOT NULL,
       type TEXT NOT NULL, -- 'edited', 'original_for_comparison', 'generated_video'
       slot_index INTEGER NOT NULL,
+      is_favorite INTEGER NOT NULL DEFAULT 0, -- user feedback on 'edited' images
+      rating INTEGER, -- 1-5 stars, NULL when unrated
+      FOREIGN KEY (history_id) REFERENCES history(id) ON DELETE CASCADE
+    );
+
+    -- The clips of a video history item; the remote video of each clip is a 'generated_video' row in history_images
+    CREATE TABLE IF NOT EXISTS history_video_slots (
+      history_id TEXT NOT NULL,
+      slot_index INTEGER NOT NULL,
+      params TEXT NOT NULL, -- JSON: the parameters the clip was generated with
+      status TEXT NOT NULL DEFAULT 'processing', -- processing | completed | failed | cancelled
+      error TEXT,
+      seed INTEGER, -- seed fal.ai used
+      local_video_url TEXT,
+      fal_request_id TEXT, -- Fal queue request, set on submission
+      fal_submitted_at INTEGER,
+      media TEXT, -- JSON: poster, preview, duration and dimensions from post-processing
+      trimmed_from TEXT, -- JSON: source slot and time range of a trimmed clip
+      PRIMARY KEY (history_id, slot_index),
       FOREIGN KEY (history_id) REFERENCES history(id) ON DELETE CASCADE
     );
 
@@ -95,7 +126,9 @@ function runMigrations() {
       gemini_api_key_3_mode TEXT DEFAULT 'global',
       fal_api_key TEXT,
       fal_api_key_mode TEXT DEFAULT 'global',
-      image_generation_model TEXT DEFAULT 'fal_nano_banana_pro'
+      image_generation_model TEXT DEFAULT 'fal_nano_banana_pro',
+      rate_limit_per_minute INTEGER, -- NULL uses the limit of the user's role
+      monthly_budget_usd REAL -- NULL means no budget
     );
 
     CREATE TABLE IF NOT EXISTS user_uploads (
@@ -106,8 +139,218 @@ function runMigrations() {
       UNIQUE(username, file_url)
     );
 
+    -- Files a user may view that no history item or upload references, e.g. background-removed or cropped images
+    CREATE TABLE IF NOT EXISTS media_owners (
+      file_url TEXT NOT NULL,
+      username TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (file_url, username),
+      FOREIGN KEY (username) REFERENCES users(username) ON DELETE CASCADE
+    );
+
+    -- Fal requests whose result has been applied, by the webhook or the reconciler; repeats are ignored
+    CREATE TABLE IF NOT EXISTS fal_request_events (
+      request_id TEXT PRIMARY KEY,
+      history_id TEXT NOT NULL,
+      source TEXT NOT NULL, -- 'webhook' | 'reconciler'
+      processed_at INTEGER NOT NULL, -- when the request was last claimed
+      applied_at INTEGER, -- set once the result is stored; unapplied claims expire
+      FOREIGN KEY (history_id) REFERENCES history(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL, -- 'image_generation', 'video_generation'
+      username TEXT NOT NULL,
+      history_id TEXT,
+      payload TEXT, -- JSON string
+      status TEXT NOT NULL DEFAULT 'queued', -- queued | processing | waiting | completed | failed | cancelled
+      priority INTEGER NOT NULL DEFAULT 0,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      external_id TEXT, -- provider request ID (e.g. Fal request_id)
+      result TEXT, -- JSON string
+      error TEXT,
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      finished_at INTEGER,
+      FOREIGN KEY (history_id) REFERENCES history(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS batches (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      webhook_url TEXT,
+      status TEXT NOT NULL DEFAULT 'processing', -- processing | completed
+      item_count INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      completed_at INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY, -- one row per delivery attempt
+      event_id TEXT NOT NULL, -- shared by every attempt of the same notification
+      history_id TEXT, -- job the notification is about
+      batch_id TEXT, -- batch the notification is about
+      endpoint_id TEXT, -- registered endpoint; NULL for one-off webhookUrl deliveries
+      event_type TEXT, -- e.g. 'image.completed'; NULL for one-off webhookUrl deliveries
+      url TEXT NOT NULL,
+      payload TEXT NOT NULL, -- exact JSON body that is signed and sent
+      attempt INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending', -- pending | sending | succeeded | failed
+      manual INTEGER NOT NULL DEFAULT 0, -- 1 when redelivered by an admin
+      scheduled_at INTEGER NOT NULL,
+      attempted_at INTEGER,
+      status_code INTEGER,
+      latency_ms INTEGER,
+      response_snippet TEXT,
+      error TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS webhook_endpoints (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      url TEXT NOT NULL,
+      description TEXT,
+      secret TEXT NOT NULL, -- encrypted signing secret
+      events TEXT NOT NULL, -- JSON array of subscribed event types
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (username) REFERENCES users(username) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      name TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the key; the key itself is never stored
+      prefix TEXT NOT NULL, -- first characters of the key, shown to identify it
+      scopes TEXT NOT NULL, -- JSON array, e.g. ["generate:image","history:read"]
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER,
+      last_used_at INTEGER,
+      revoked INTEGER NOT NULL DEFAULT 0,
+      FOREIGN KEY (username) REFERENCES users(username) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+      key TEXT PRIMARY KEY, -- 'user:<username>' or 'api_key:<id>'
+      tokens REAL NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS cost_ledger (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      history_id TEXT, -- no foreign key: spend is kept when history is deleted
+      provider TEXT NOT NULL, -- fal | gemini
+      operation TEXT NOT NULL, -- e.g. 'image_generation', 'upscale', 'video_generation'
+      model TEXT NOT NULL, -- provider endpoint or model ID
+      variant TEXT, -- model option that changes the price, e.g. the video resolution
+      amount_usd REAL NOT NULL, -- estimated cost
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS collections (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      name TEXT NOT NULL COLLATE NOCASE,
+      description TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      UNIQUE(username, name),
+      FOREIGN KEY (username) REFERENCES users(username) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS collection_items (
+      collection_id TEXT NOT NULL,
+      history_id TEXT NOT NULL,
+      added_at INTEGER NOT NULL,
+      PRIMARY KEY (collection_id, history_id),
+      FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+      FOREIGN KEY (history_id) REFERENCES history(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS history_tags (
+      history_id TEXT NOT NULL,
+      tag TEXT NOT NULL, -- normalized: lowercase, words joined by hyphens
+      PRIMARY KEY (history_id, tag),
+      FOREIGN KEY (history_id) REFERENCES history(id) ON DELETE CASCADE
+    );
+
+    -- Public review links for a history item or a collection. The URL token is signed, not stored.
+    CREATE TABLE IF NOT EXISTS share_links (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      target_type TEXT NOT NULL, -- 'history' or 'collection'
+      target_id TEXT NOT NULL,
+      label TEXT,
+      show_prompt INTEGER NOT NULL DEFAULT 0,
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (username) REFERENCES users(username) ON DELETE CASCADE
+    );
+
+    -- One row per browser that opened a link
+    CREATE TABLE IF NOT EXISTS share_link_views (
+      link_id TEXT NOT NULL,
+      visitor_id TEXT NOT NULL,
+      reviewer_name TEXT,
+      ip_address TEXT,
+      user_agent TEXT,
+      view_count INTEGER NOT NULL DEFAULT 1,
+      first_viewed_at INTEGER NOT NULL,
+      last_viewed_at INTEGER NOT NULL,
+      PRIMARY KEY (link_id, visitor_id),
+      FOREIGN KEY (link_id) REFERENCES share_links(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS share_reviews (
+      id TEXT PRIMARY KEY,
+      link_id TEXT NOT NULL,
+      history_id TEXT NOT NULL,
+      reviewer_name TEXT NOT NULL,
+      decision TEXT NOT NULL, -- 'approved' or 'rejected'
+      comment TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (link_id) REFERENCES share_links(id) ON DELETE CASCADE,
+      FOREIGN KEY (history_id) REFERENCES history(id) ON DELETE CASCADE
+    );
+
+    -- Shots generated as the clips of one video item, joined into the single clip of another
+    CREATE TABLE IF NOT EXISTS storyboards (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL,
+      shots_history_id TEXT NOT NULL,
+      result_history_id TEXT NOT NULL,
+      transition TEXT NOT NULL, -- cut | fade | fadeblack
+      status TEXT NOT NULL DEFAULT 'generating', -- generating | stitching | completed | failed | cancelled
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (username) REFERENCES users(username) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_collection_items_history_id ON collection_items(history_id);
+    CREATE INDEX IF NOT EXISTS idx_share_links_target ON share_links(target_type, target_id);
+    CREATE INDEX IF NOT EXISTS idx_share_reviews_history_id ON share_reviews(history_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_share_reviews_link_id ON share_reviews(link_id);
+    CREATE INDEX IF NOT EXISTS idx_history_tags_tag ON history_tags(tag);
+    CREATE INDEX IF NOT EXISTS idx_storyboards_shots_history_id ON storyboards(shots_history_id);
+    CREATE INDEX IF NOT EXISTS idx_storyboards_result_history_id ON storyboards(result_history_id);
+    CREATE INDEX IF NOT EXISTS idx_cost_ledger_username_created ON cost_ledger(username, created_at);
+    CREATE INDEX IF NOT EXISTS idx_cost_ledger_created ON cost_ledger(created_at);
+    CREATE INDEX IF NOT EXISTS idx_api_keys_username ON api_keys(username);
+    CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_username ON webhook_endpoints(username);
     CREATE INDEX IF NOT EXISTS idx_user_uploads_timestamp ON user_uploads(username, timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_jobs_status_priority ON jobs(status, priority DESC, created_at);
+    CREATE INDEX IF NOT EXISTS idx_jobs_history_id ON jobs(history_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, scheduled_at);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event ON webhook_deliveries(event_id, attempt);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_history_id ON webhook_deliveries(history_id);
     CREATE INDEX IF NOT EXISTS idx_history_images_history_id ON history_images(history_id, type, slot_index);
+    CREATE INDEX IF NOT EXISTS idx_history_images_url ON history_images(url);
 
     -- Performance Optimization: Prevents O(N log N) full table scans and temporary B-tree
     -- sorts when fetching paginated user history (ordered by timestamp).
@@ -118,6 +361,151 @@ function runMigrations() {
     CREATE INDEX IF NOT EXISTS idx_history_timestamp ON history(timestamp DESC);
   `);
 
+  // Add columns introduced after the initial schema (CREATE TABLE IF NOT EXISTS skips existing tables)
+  addColumnIfMissing(db, 'history', 'job_status', 'TEXT');
+  addColumnIfMissing(db, 'jobs', 'external_id', 'TEXT');
+  addColumnIfMissing(db, 'history', 'batch_id', 'TEXT');
+  addColumnIfMissing(db, 'history', 'external_ref', 'TEXT');
+  addColumnIfMissing(db, 'webhook_deliveries', 'endpoint_id', 'TEXT');
+  addColumnIfMissing(db, 'webhook_deliveries', 'event_type', 'TEXT');
+  addColumnIfMissing(db, 'users', 'rate_limit_per_minute', 'INTEGER');
+  addColumnIfMissing(db, 'users', 'monthly_budget_usd', 'REAL');
+  addColumnIfMissing(db, 'cost_ledger', 'variant', 'TEXT');
+  addColumnIfMissing(db, 'history', 'classification', 'TEXT');
+  addColumnIfMissing(db, 'history_images', 'is_favorite', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'history_images', 'rating', 'INTEGER');
+  // Legacy: the Fal request of a single-clip video, only read to copy it into history_video_slots below
+  addColumnIfMissing(db, 'history', 'fal_request_id', 'TEXT');
+  addColumnIfMissing(db, 'history', 'fal_submitted_at', 'INTEGER');
+  addColumnIfMissing(db, 'history_video_slots', 'media', 'TEXT');
+  addColumnIfMissing(db, 'history_video_slots', 'trimmed_from', 'TEXT');
+  addColumnIfMissing(db, 'fal_request_events', 'applied_at', 'INTEGER');
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_batch_id ON history(batch_id)`);
+  // Partial index for the gallery's favorites filter
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_images_favorites ON history_images(history_id) WHERE is_favorite = 1`);
+
+  // Bind videos submitted before Fal request IDs were stored on history to the request their queue job recorded
+  const boundRequests = db.prepare(`
+    UPDATE history
+    SET fal_request_id = j.external_id, fal_submitted_at = j.started_at
+    FROM (
+      -- SQLite takes the bare columns from the row with the latest created_at
+      SELECT history_id, external_id, started_at, MAX(created_at) FROM jobs
+      WHERE type = 'video_generation' AND external_id IS NOT NULL
+      GROUP BY history_id
+    ) AS j
+    WHERE j.history_id = history.id AND history.fal_request_id IS NULL
+  `).run();
+  if (boundRequests.changes > 0) {
+    console.log(`Bound ${boundRequests.changes} video(s) to their Fal request.`);
+  }
+
+  // Give videos created before clips had their own records a single slot from their item-level parameters
+  const slottedVideos = db.prepare(`
+    INSERT INTO history_video_slots (history_id, slot_index, params, status, error, seed, local_video_url, fal_request_id, fal_submitted_at)
+    SELECT id, 0,
+           json_remove(videoGenerationParams, '$.status', '$.error', '$.localVideoUrl'),
+           CASE WHEN status = 'cancelled' THEN 'cancelled' ELSE COALESCE(json_extract(videoGenerationParams, '$.status'), 'completed') END,
+           json_extract(videoGenerationParams, '$.error'),
+           CASE WHEN json_extract(videoGenerationParams, '$.status') = 'completed' THEN json_extract(videoGenerationParams, '$.seed') END,
+           json_extract(videoGenerationParams, '$.localVideoUrl'),
+           fal_request_id, fal_submitted_at
+    FROM history
+    WHERE videoGenerationParams IS NOT NULL AND json_valid(videoGenerationParams)
+      AND id NOT IN (SELECT history_id FROM history_video_slots)
+  `).run();
+  if (slottedVideos.changes > 0) {
+    console.log(`Created clip records for ${slottedVideos.changes} video(s).`);
+  }
+  // Claims from before claims were marked applied count as applied, unless their clip never left processing
+  const appliedRequests = db.prepare(`
+    UPDATE fal_request_events SET applied_at = processed_at
+    WHERE applied_at IS NULL AND request_id NOT IN (
+      SELECT fal_request_id FROM history_video_slots WHERE status = 'processing' AND fal_request_id IS NOT NULL
+    )
+  `).run();
+  if (appliedRequests.changes > 0) {
+    console.log(`Marked ${appliedRequests.changes} Fal request(s) as applied.`);
+  }
+  // Fal requests are bound to video slots now
+  db.exec(`DROP INDEX IF EXISTS idx_history_fal_request; DROP INDEX IF EXISTS idx_history_fal_request_id`);
+  // Webhooks are matched to their clip by Fal request ID
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_history_video_slots_fal_request_id ON history_video_slots(fal_request_id) WHERE fal_request_id IS NOT NULL`);
+  // Partial index for the video reconciler, which only looks at submitted clips still processing
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_video_slots_pending ON history_video_slots(fal_submitted_at) WHERE status = 'processing' AND fal_request_id IS NOT NULL`);
+  // Media access checks look clips up by their local file, poster and preview
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_video_slots_local_video_url ON history_video_slots(local_video_url)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_video_slots_poster_url ON history_video_slots(json_extract(media, '$.posterUrl'))`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_video_slots_preview_url ON history_video_slots(json_extract(media, '$.previewUrl'))`);
+  // ...and history items by their clothing image, and a video's source image and summary clip
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_original_clothing_url ON history(originalClothingUrl)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_video_source_image_url ON history(json_extract(videoGenerationParams, '$.sourceImageUrl'))`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_history_video_local_url ON history(json_extract(videoGenerationParams, '$.localVideoUrl'))`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_jobs_external_id ON jobs(external_id) WHERE external_id IS NOT NULL`);
+
+  // Full-text index over prompts, Studio classifications and tags, kept in sync by triggers on history and history_tags.
+  // Rows are keyed by history ID rather than rowid: INSERT OR REPLACE and VACUUM can change history rowids.
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS history_fts USING fts5(
+      history_id UNINDEXED, prompt, classification, tags,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS history_fts_after_insert AFTER INSERT ON history BEGIN
+      DELETE FROM history_fts WHERE history_id = new.id;
+      INSERT INTO history_fts (history_id, prompt, classification, tags)
+      VALUES (new.id, new.constructedPrompt, new.classification, '');
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS history_fts_after_update AFTER UPDATE OF constructedPrompt, classification ON history
+    WHEN old.constructedPrompt IS NOT new.constructedPrompt OR old.classification IS NOT new.classification BEGIN
+      UPDATE history_fts SET prompt = new.constructedPrompt, classification = new.classification
+      WHERE history_id = new.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS history_fts_after_delete AFTER DELETE ON history BEGIN
+      DELETE FROM history_fts WHERE history_id = old.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS history_fts_after_tag_insert AFTER INSERT ON history_tags BEGIN
+      UPDATE history_fts SET tags = (SELECT group_concat(tag, ' ') FROM history_tags WHERE history_id = new.history_id)
+      WHERE history_id = new.history_id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS history_fts_after_tag_delete AFTER DELETE ON history_tags BEGIN
+      UPDATE history_fts SET tags = COALESCE((SELECT group_concat(tag, ' ') FROM history_tags WHERE history_id = old.history_id), '')
+      WHERE history_id = old.history_id;
+    END;
+  `);
+  const unindexed = db.prepare(`
+    INSERT INTO history_fts (history_id, prompt, classification, tags)
+    SELECT id, constructedPrompt, classification,
+           COALESCE((SELECT group_concat(tag, ' ') FROM history_tags WHERE history_id = history.id), '')
+    FROM history
+    WHERE id NOT IN (SELECT history_id FROM history_fts)
+  `).run();
+  if (unindexed.changes > 0) {
+    console.log(`Indexed ${unindexed.changes} history item(s) for search.`);
+  }
+
+  // Move single per-user API keys (users.app_api_key) into api_keys with every scope.
+  // Only the hash was stored, so the prefix of these keys is unknown.
+  const legacyKeys = db.prepare(`SELECT username, app_api_key FROM users WHERE app_api_key IS NOT NULL`).all() as { username: string; app_api_key: string }[];
+  if (legacyKeys.length > 0) {
+    const insertKey = db.prepare(`
+      INSERT OR IGNORE INTO api_keys (id, username, name, key_hash, prefix, scopes, created_at)
+      VALUES (?, ?, 'Legacy key', ?, 'rf_', ?, ?)
+    `);
+    const allScopes = JSON.stringify(['generate:image', 'generate:video', 'history:read', 'history:write']);
+    db.transaction(() => {
+      for (const { username, app_api_key } of legacyKeys) {
+        insertKey.run(randomUUID(), username, app_api_key, allScopes, Date.now());
+      }
+      db.prepare(`UPDATE users SET app_api_key = NULL WHERE app_api_key IS NOT NULL`).run();
+    })();
+    console.log(`Migrated ${legacyKeys.length} legacy API key(s) to api_keys.`);
+  }
+
   // Initialize Admin User if not exists
   const adminUser = db.prepare('SELECT * FROM users WHERE username = ?').get('admin');
   if (!adminUser) {
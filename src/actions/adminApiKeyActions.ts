@@ -0,0 +1,67 @@
+// src/actions/adminApiKeyActions.ts
+'use server';
+
+import 'server-only';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { getCurrentUser } from './authActions';
+import * as dbService from '@/services/db';
+import type { ApiKey } from '@/services/db';
+import { ApiKeyCreateSchema } from '@/lib/api-schemas';
+import * as appApiKeyService from '@/services/appApiKey.service';
+
+async function verifyAdmin() {
+  const user = await getCurrentUser();
+  if (!user || user.role !== 'admin') {
+    throw new Error('Unauthorized: Admin access required.');
+  }
+  return user;
+}
+
+/**
+ * Lists the API keys of every user, or of a single user.
+ */
+export async function getAllApiKeys(username?: string): Promise<ApiKey[]> {
+  await verifyAdmin();
+  return appApiKeyService.listApiKeys(username || undefined);
+}
+
+export async function createApiKeyForUser(
+  username: string,
+  input: unknown
+): Promise<{ success: boolean; apiKey?: ApiKey; key?: string; error?: string }> {
+  const admin = await verifyAdmin();
+
+  try {
+    if (!dbService.findUserByUsername(username)) {
+      return { success: false, error: 'User not found.' };
+    }
+    const { apiKey, key } = appApiKeyService.createApiKey(username, ApiKeyCreateSchema.parse(input));
+    console.log(`Admin ${admin.username} created API key ${apiKey.id} for ${username}.`);
+    revalidatePath('/admin/api-keys');
+    return { success: true, apiKey, key };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return { success: false, error: error.issues.map(issue => issue.message).join(', ') };
+    }
+    console.error(`Error creating API key for ${username}:`, error);
+    return { success: false, error: 'Database error occurred.' };
+  }
+}
+
+export async function revokeApiKeyAsAdmin(id: string): Promise<{ success: boolean; error?: string }> {
+  const admin = await verifyAdmin();
+
+  try {
+    if (!appApiKeyService.revokeApiKey(id)) {
+      return { success: false, error: 'API key not found or already revoked.' };
+    }
+    console.log(`Admin ${admin.username} revoked API key ${id}.`);
+    revalidatePath('/admin/api-keys');
+    return { success: true };
+  } catch (error) {
+    console.error(`Error revoking API key ${id}:`, error);
+    return { success: false, error: 'Database error occurred.' };
+  }
+}
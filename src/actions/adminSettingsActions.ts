@@ -9,6 +9,8 @@ import * as settingsService from '@/services/settings.service';
 import { encrypt, decrypt } from '@/services/encryption.service';
 import * as systemPromptService from '@/services/systemPrompt.service';
 import { constructStudioPrompt, compareClothingDescriptions } from '@/ai/domain/studio-prompt';
+import * as imageModelsService from '@/services/image-models.service';
+import { BUILT_IN_IMAGE_MODELS, applyImageModelsConfig } from '@/lib/image-models';
 import { z } from 'zod';
 
 async function verifyAdmin() {
@@ -35,6 +37,20 @@ const updateSystemPromptSchema = z.object({
   prompt: z.string().min(1, 'Prompt content is required.'),
 });
 
+const updateQueueSettingsSchema = z.object({
+  globalConcurrency: z.coerce.number().int().min(1, 'Global concurrency must be at least 1.').max(50, 'Global concurrency cannot exceed 50.'),
+  perUserConcurrency: z.coerce.number().int().min(1, 'Per-user concurrency must be at least 1.').max(50, 'Per-user concurrency cannot exceed 50.'),
+});
+
+const rateLimitSchema = (label: string) =>
+  z.coerce.number().int().min(1, `${label} must be at least 1.`).max(10000, `${label} cannot exceed 10000.`);
+
+const updateRateLimitSettingsSchema = z.object({
+  userPerMinute: rateLimitSchema('User limit'),
+  adminPerMinute: rateLimitSchema('Admin limit'),
+  apiKeyPerMinute: rateLimitSchema('API key limit'),
+});
+
 // --- Form State Types for useActionState ---
 
 export type ApiKeysFormState = {
@@ -55,6 +71,30 @@ export type CacheCleanupFormState = {
   error?: string;
 };
 
+export type VideoReconcileFormState = {
+  message: string;
+  success?: boolean;
+  error?: string;
+};
+
+export type QueueSettingsFormState = {
+  message: string;
+  success?: boolean;
+  error?: string;
+};
+
+export type RateLimitSettingsFormState = {
+  message: string;
+  success?: boolean;
+  error?: string;
+};
+
+export type ImageModelsFormState = {
+  message: string;
+  success?: boolean;
+  error?: string;
+};
+
 // --- Actions ---
 
 export async function getAllSettings() {
@@ -102,6 +142,14 @@ export async function updateEncryptedSetting(key: settingsService.SettingKey, va
   }
 }
 
+/**
+ * Every registered image model, including unavailable ones, for the admin UI.
+ */
+export async function getImageModelsForAdmin() {
+  await verifyAdmin();
+  return imageModelsService.getImageModels();
+}
+
 export async function getGlobalApiKeysForDisplay() {
   await verifyAdmin();
   const settings = settingsService.getAllSettings();
@@ -371,3 +419,139 @@ export async function handleCacheCleanup(
     };
   }
 }
+
+/**
+ * Server Action that polls Fal.ai for videos stuck in processing, compatible with useActionState.
+ */
+export async function handleVideoReconcile(
+  previousState: VideoReconcileFormState | null,
+  formData: FormData
+): Promise<VideoReconcileFormState> {
+  const admin = await verifyAdmin();
+
+  try {
+    const { reconcileStuckVideos } = await import('@/services/video-reconciler.service');
+    const summary = await reconcileStuckVideos();
+    console.log(`Admin ${admin.username} reconciled stuck videos:`, summary);
+    if (summary.checked === 0) {
+      return { success: true, message: 'No stuck videos found.' };
+    }
+    return {
+      success: true,
+      message: `Checked ${summary.checked} stuck video(s): ${summary.completed} completed, ${summary.failed} failed, ${summary.pending} still pending.`,
+    };
+  } catch (error) {
+    console.error('Error reconciling stuck videos from admin panel:', error);
+    return {
+      success: false,
+      error: 'Video reconciliation failed.',
+      message: 'An error occurred while checking stuck videos.'
+    };
+  }
+}
+
+/**
+ * Server Action for updating generation queue concurrency limits, compatible with useActionState.
+ */
+export async function handleQueueSettingsUpdate(
+  previousState: QueueSettingsFormState | null,
+  formData: FormData
+): Promise<QueueSettingsFormState> {
+  await verifyAdmin();
+
+  const parsed = updateQueueSettingsSchema.safeParse({
+    globalConcurrency: formData.get('globalConcurrency'),
+    perUserConcurrency: formData.get('perUserConcurrency'),
+  });
+  if (!parsed.success) {
+    const firstError = parsed.error.issues[0]?.message ?? 'Validation failed.';
+    return { success: false, error: firstError, message: firstError };
+  }
+
+  try {
+    settingsService.setSetting('queue_global_concurrency', parsed.data.globalConcurrency.toString());
+    settingsService.setSetting('queue_per_user_concurrency', parsed.data.perUserConcurrency.toString());
+    revalidatePath('/admin/settings');
+    return { success: true, message: 'Queue limits saved.' };
+  } catch (error) {
+    console.error('Error updating queue settings:', error);
+    return {
+      success: false,
+      error: 'Failed to update queue settings.',
+      message: 'An error occurred while updating the queue settings.'
+    };
+  }
+}
+
+/**
+ * Server Action for updating the generation rate limits, compatible with useActionState.
+ */
+export async function handleRateLimitSettingsUpdate(
+  previousState: RateLimitSettingsFormState | null,
+  formData: FormData
+): Promise<RateLimitSettingsFormState> {
+  await verifyAdmin();
+
+  const parsed = updateRateLimitSettingsSchema.safeParse({
+    userPerMinute: formData.get('userPerMinute'),
+    adminPerMinute: formData.get('adminPerMinute'),
+    apiKeyPerMinute: formData.get('apiKeyPerMinute'),
+  });
+  if (!parsed.success) {
+    const firstError = parsed.error.issues[0]?.message ?? 'Validation failed.';
+    return { success: false, error: firstError, message: firstError };
+  }
+
+  try {
+    settingsService.setSetting('rate_limit_user_per_minute', parsed.data.userPerMinute.toString());
+    settingsService.setSetting('rate_limit_admin_per_minute', parsed.data.adminPerMinute.toString());
+    settingsService.setSetting('rate_limit_api_key_per_minute', parsed.data.apiKeyPerMinute.toString());
+    revalidatePath('/admin/settings');
+    return { success: true, message: 'Rate limits saved.' };
+  } catch (error) {
+    console.error('Error updating rate limit settings:', error);
+    return {
+      success: false,
+      error: 'Failed to update rate limits.',
+      message: 'An error occurred while updating the rate limits.'
+    };
+  }
+}
+
+/**
+ * Server Action for saving the image model configuration, compatible with useActionState.
+ * The configuration is validated before it is saved, so generation never sees an invalid registry.
+ */
+export async function handleImageModelsUpdate(
+  previousState: ImageModelsFormState | null,
+  formData: FormData
+): Promise<ImageModelsFormState> {
+  await verifyAdmin();
+
+  const config = ((formData.get('imageModelsConfig') as string | null) ?? '').trim();
+  let models;
+  try {
+    models = applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, config);
+  } catch (error) {
+    const message = (error as Error).message;
+    return { success: false, error: message, message };
+  }
+  if (!models.some(model => model.available)) {
+    const message = 'At least one image model must stay available.';
+    return { success: false, error: message, message };
+  }
+
+  try {
+    settingsService.setSetting('image_models_config', config);
+    revalidatePath('/admin/settings');
+    revalidatePath('/admin/users');
+    return { success: true, message: `Image models saved (${models.filter(model => model.available).length} available).` };
+  } catch (error) {
+    console.error('Error updating image model configuration:', error);
+    return {
+      success: false,
+      error: 'Failed to update image models.',
+      message: 'An error occurred while updating the image models.'
+    };
+  }
+}
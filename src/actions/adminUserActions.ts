@@ -8,7 +8,9 @@ import * as dbService from '@/services/db';
 import { getCurrentUser } from './authActions';
 import bcrypt from 'bcrypt';
 import { encrypt } from '@/services/encryption.service';
-import crypto from 'crypto';
+import { getMonthlySpend } from '@/services/cost.service';
+import { getImageModels } from '@/services/image-models.service';
+import { DEFAULT_IMAGE_MODEL_ID } from '@/lib/image-models';
 import { z } from 'zod';
 import { zfd } from 'zod-form-data';
 
@@ -38,6 +40,8 @@ const updateUserConfigSchema = zfd.formData({
   gemini_api_key_3_mode: zfd.text(z.string().optional()),
   fal_api_key_mode: zfd.text(z.string().optional()),
   image_generation_model: zfd.text(z.string().optional()),
+  rate_limit_per_minute: zfd.numeric(z.number().int().min(1, 'Rate limit must be at least 1.').max(10000, 'Rate limit cannot exceed 10000.').optional()),
+  monthly_budget_usd: zfd.numeric(z.number().min(0, 'Budget cannot be negative.').max(1000000, 'Budget cannot exceed $1,000,000.').optional()),
   gemini_api_key_1: zfd.text(z.string().optional()),
   gemini_api_key_2: zfd.text(z.string().optional()),
   gemini_api_key_3: zfd.text(z.string().optional()),
@@ -61,7 +65,10 @@ export type UserFormState = {
     gemini_api_key_2_mode: 'global' | 'user_specific';
     gemini_api_key_3_mode: 'global' | 'user_specific';
     fal_api_key_mode: 'global' | 'user_specific';
-    image_generation_model: 'fal_nano_banana_pro' | 'fal_gemini_2_5';
+    image_generation_model: string;
+    rate_limit_per_minute?: number;
+    monthly_budget_usd?: number;
+    monthly_spend_usd: number;
   };
 };
 
@@ -69,7 +76,7 @@ export type UserFormState = {
 
 export async function getAllUsers() {
   await verifyAdmin();
-  return dbService.getAllUsersFromDb();
+  return dbService.getAllUsersFromDb().map(user => ({ ...user, monthly_spend_usd: getMonthlySpend(user.username) }));
 }
 
 export async function createUser(formData: FormData) {
@@ -158,8 +165,25 @@ export async function updateUserConfiguration(formData: FormData) {
   if (gemini3Mode) { setClauses.push('gemini_api_key_3_mode = ?'); params.push(gemini3Mode); }
   const falMode = formData.get('fal_api_key_mode');
   if (falMode) { setClauses.push('fal_api_key_mode = ?'); params.push(falMode); }
-  const imageModel = formData.get('image_generation_model');
-  if (imageModel) { setClauses.push('image_generation_model = ?'); params.push(imageModel); }
+  const imageModel = parsed.data.image_generation_model;
+  if (imageModel) {
+    // A model that became unavailable may stay assigned, but cannot be newly assigned
+    const unchanged = dbService.findUserByUsername(username)?.image_generation_model === imageModel;
+    if (!unchanged && !getImageModels().some(model => model.id === imageModel && model.available)) {
+      return { success: false, error: `Image model "${imageModel}" is not available.` };
+    }
+    setClauses.push('image_generation_model = ?'); params.push(imageModel);
+  }
+  // An empty field clears the override so the role's limit applies again
+  if (formData.get('rate_limit_per_minute') !== null) {
+    setClauses.push('rate_limit_per_minute = ?');
+    params.push(parsed.data.rate_limit_per_minute ?? null);
+  }
+  // An empty field removes the budget
+  if (formData.get('monthly_budget_usd') !== null) {
+    setClauses.push('monthly_budget_usd = ?');
+    params.push(parsed.data.monthly_budget_usd ?? null);
+  }
 
   // Helper function to handle key updates.
   // Only updates the key if a NEW, NON-EMPTY value is provided.
@@ -199,30 +223,6 @@ export async function updateUserConfiguration(formData: FormData) {
   }
 }
 
-export async function generateApiKeyForUser(username: string): Promise<{ success: boolean; apiKey?: string; error?: string }> {
-  await verifyAdmin();
-
-  try {
-    // The plaintext key is returned to the caller exactly once.
-    // Only the SHA-256 hash is stored — the key cannot be retrieved later.
-    const apiKey = `rf_${crypto.randomBytes(24).toString('hex')}`;
-    const hashedKey = dbService.hashApiKey(apiKey);
-
-    const changes = dbService.setApiKeyForUserInDb(username, hashedKey);
-
-    if (changes === 0) {
-      return { success: false, error: 'User not found.' };
-    }
-
-    revalidatePath('/admin/users');
-    return { success: true, apiKey };
-
-  } catch (error) {
-    console.error(`Error generating API key for ${username}:`, error);
-    return { success: false, error: 'Database error occurred.' };
-  }
-}
-
 // --- useActionState-compatible Server Actions ---
 
 /**
@@ -247,7 +247,10 @@ export async function handleCreateUser(
         gemini_api_key_2_mode: (user.gemini_api_key_2_mode || 'global') as 'global' | 'user_specific',
         gemini_api_key_3_mode: (user.gemini_api_key_3_mode || 'global') as 'global' | 'user_specific',
         fal_api_key_mode: (user.fal_api_key_mode || 'global') as 'global' | 'user_specific',
-        image_generation_model: (user.image_generation_model || 'fal_gemini_2_5') as 'fal_nano_banana_pro' | 'fal_gemini_2_5',
+        image_generation_model: user.image_generation_model || DEFAULT_IMAGE_MODEL_ID,
+        rate_limit_per_minute: user.rate_limit_per_minute,
+        monthly_budget_usd: user.monthly_budget_usd,
+        monthly_spend_usd: getMonthlySpend(user.username),
       } : undefined
     };
   } else {
@@ -281,7 +284,10 @@ export async function handleUpdateUserConfiguration(
         gemini_api_key_2_mode: (user.gemini_api_key_2_mode || 'global') as 'global' | 'user_specific',
         gemini_api_key_3_mode: (user.gemini_api_key_3_mode || 'global') as 'global' | 'user_specific',
         fal_api_key_mode: (user.fal_api_key_mode || 'global') as 'global' | 'user_specific',
-        image_generation_model: (user.image_generation_model || 'fal_gemini_2_5') as 'fal_nano_banana_pro' | 'fal_gemini_2_5',
+        image_generation_model: user.image_generation_model || DEFAULT_IMAGE_MODEL_ID,
+        rate_limit_per_minute: user.rate_limit_per_minute,
+        monthly_budget_usd: user.monthly_budget_usd,
+        monthly_spend_usd: getMonthlySpend(user.username),
       } : undefined
     };
   } else {
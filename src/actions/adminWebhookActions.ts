@@ -0,0 +1,47 @@
+// src/actions/adminWebhookActions.ts
+'use server';
+
+import 'server-only';
+
+import { revalidatePath } from 'next/cache';
+import { getCurrentUser } from './authActions';
+import * as dbService from '@/services/db';
+import type { WebhookDelivery } from '@/services/db';
+import { redeliverWebhook } from '@/services/webhook.service';
+
+const DELIVERY_LIST_LIMIT = 200;
+
+async function verifyAdmin() {
+  const user = await getCurrentUser();
+  if (!user || user.role !== 'admin') {
+    throw new Error('Unauthorized: Admin access required.');
+  }
+  return user;
+}
+
+/**
+ * Lists the most recent webhook delivery attempts, optionally for a single job or batch.
+ */
+export async function getWebhookDeliveries(jobId?: string): Promise<WebhookDelivery[]> {
+  await verifyAdmin();
+  return dbService.getWebhookDeliveries({ jobId: jobId || undefined, limit: DELIVERY_LIST_LIMIT });
+}
+
+/**
+ * Sends the notification behind a delivery attempt again, as a new manual attempt.
+ */
+export async function redeliverWebhookAction(deliveryId: string): Promise<{ success: boolean; statusCode?: number; error?: string }> {
+  const admin = await verifyAdmin();
+
+  try {
+    const outcome = await redeliverWebhook(deliveryId);
+    console.log(`Admin ${admin.username} redelivered webhook ${deliveryId}: ${outcome.succeeded ? 'succeeded' : 'failed'}.`);
+    revalidatePath('/admin/webhooks');
+    return outcome.succeeded
+      ? { success: true, statusCode: outcome.statusCode }
+      : { success: false, statusCode: outcome.statusCode, error: outcome.error };
+  } catch (error) {
+    console.error(`Error redelivering webhook ${deliveryId}:`, error);
+    return { success: false, error: (error as Error).message };
+  }
+}
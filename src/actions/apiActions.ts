@@ -4,94 +4,222 @@
 import 'server-only';
 
 
+import crypto from 'crypto';
 import { sendWebhook } from '@/services/webhook.service';
-import { getDisplayableImageUrl } from '@/lib/utils';
-import { generateImageEdit } from "@/ai/flows/generate-image-edit";
+import { completeBatchIfFinished } from '@/services/batch.service';
+import { toAbsoluteImageUrls } from '@/services/media-access.service';
+import { generateImageEdit, type GenerationOutcome } from "@/ai/flows/generate-image-edit";
+import { queueVideoGeneration } from '@/ai/actions/generate-video.action';
+import { buildAIPrompt } from '@/lib/prompt-builder';
+import { getJobLifecycle, JOB_PRIORITY } from '@/services/job-queue.service';
+import { assertWithinBudget } from '@/services/cost.service';
+import { estimateImageGenerationCost } from '@/lib/pricing';
+import { resolveImageModel } from '@/services/image-models.service';
+import { findActiveApiJobs, findHistoryItemById, findUserByUsername, insertBatch, findUnfinishedBatchIds } from '@/services/db';
 import { addHistoryItem, updateHistoryItem } from "./historyActions";
 import type { ModelAttributes } from "@/lib/types";
+import type { ApiGenerationOptions, ApiBatchRequest, ApiVideoRequest } from "@/lib/api-schemas";
 
-interface ApiJobPayload {
+interface ApiJobPayload extends ApiGenerationOptions {
   username: string;
   imageDataUri: string;
-  parameters: ModelAttributes;
-  settingsMode: 'basic' | 'advanced';
   webhookUrl?: string;
+  batchId?: string;
+  externalRef?: string;
 }
 
 /**
- * Creates a new job record in the database with a 'processing' status.
+ * Creates a new job record in the database with a 'processing' status and a 'queued' job status.
  * @returns The new job ID (which is a history_id).
+ * @throws BudgetExceededError if the job would exceed the user's monthly budget.
  */
 export async function createApiJob(payload: ApiJobPayload): Promise<string> {
-  const { username, parameters, imageDataUri, settingsMode, webhookUrl } = payload;
+  const { username, parameters, imageDataUri, settingsMode, webhookUrl, generationMode, studioFit, aspectRatio, batchId, externalRef } = payload;
   
   // Fetch the user to get their specific image generation model
-  const { findUserByUsername } = await import('@/services/db');
-  const user = await findUserByUsername(username);
+  const user = findUserByUsername(username);
   
-  const imageGenerationModel = user?.image_generation_model || 'fal_gemini_2_5';
+  const model = resolveImageModel(user?.image_generation_model);
+  if (!model) {
+    throw new Error('No image generation model is available.');
+  }
+  const imageGenerationModel = model.id;
+  assertWithinBudget(username, estimateImageGenerationCost(model, payload));
+
+  // Mirror generateImageEdit: Studio fit and aspect ratio are stored alongside the attributes
+  const attributes = {
+    ...(parameters || {}),
+    ...(studioFit && { studioFit }),
+    ...(aspectRatio && { aspectRatio }),
+  } as ModelAttributes;
 
   const newHistoryId = await addHistoryItem({
-    attributes: parameters,
+    attributes,
     constructedPrompt: "Job created via API. Prompt to be generated.",
     originalClothingUrl: imageDataUri,
     editedImageUrls: [],
     settingsMode,
     imageGenerationModel,
     status: 'processing',
+    jobStatus: 'queued',
     username,
     webhookUrl,
+    generationMode,
+    batchId,
+    externalRef,
   });
   return newHistoryId;
 }
 
+/**
+ * Creates a batch record and one API job (history item) per garment.
+ * Items carry no webhook of their own; a single webhook is sent when the batch completes.
+ * @returns The batch ID and the jobs to start with processApiGenerationJob, in submission order.
+ * @throws BudgetExceededError before anything is created if the whole batch would exceed the user's budget.
+ */
+export async function createApiBatch(username: string, batch: ApiBatchRequest): Promise<{
+  batchId: string;
+  jobs: { jobId: string; externalRef?: string; payload: Omit<ApiJobPayload, 'username'> }[];
+}> {
+  const model = resolveImageModel(findUserByUsername(username)?.image_generation_model);
+  if (!model) {
+    throw new Error('No image generation model is available.');
+  }
+  assertWithinBudget(username, batch.items.reduce(
+    (total, item) => total + estimateImageGenerationCost(model, item.options), 0
+  ));
+
+  const batchId = crypto.randomUUID();
+  insertBatch({ id: batchId, username, webhookUrl: batch.webhookUrl, itemCount: batch.items.length });
+
+  const jobs = [];
+  for (const item of batch.items) {
+    const payload = { ...item.options, imageDataUri: item.imageDataUri, batchId, externalRef: item.externalRef };
+    const jobId = await createApiJob({ ...payload, username });
+    jobs.push({ jobId, externalRef: item.externalRef, payload });
+  }
+  console.log(`API Batch ${batchId} created with ${jobs.length} item(s) for ${username}.`);
+  return { batchId, jobs };
+}
+
+/**
+ * Video sources and motion options from a POST /api/v1/videos request, in the shape the
+ * video queue handler expects. Without a free-form prompt, the prompt is built like in the web UI.
+ */
+function toVideoInput(request: Omit<ApiVideoRequest, 'imageDataUri' | 'imageUrl' | 'sourceHistoryItemId' | 'webhookUrl'>, imageSource: string) {
+  const { prompt, cameraFixed, ...options } = request;
+  return {
+    ...options,
+    prompt: prompt ?? buildAIPrompt({ type: 'video', params: options }),
+    image_url: imageSource,
+    camera_fixed: cameraFixed,
+  };
+}
+
+/**
+ * Creates a video history item with a 'queued' job status, queues its Fal submission at API
+ * priority and follows the job in the background like an image job.
+ * @returns The job ID (which is a history_id).
+ */
+export async function createApiVideoJob(
+  username: string,
+  request: Omit<ApiVideoRequest, 'imageDataUri' | 'imageUrl' | 'sourceHistoryItemId' | 'webhookUrl'>,
+  imageSource: string,
+  webhookUrl?: string
+): Promise<string> {
+  const { historyItemId, jobIds: [queueJobId] } = await queueVideoGeneration(toVideoInput(request, imageSource), username, {
+    priority: JOB_PRIORITY.api,
+    jobStatus: 'queued',
+    clientWebhookUrl: webhookUrl,
+  });
+
+  followApiJob(historyItemId, queueJobId, username, webhookUrl).catch(error => {
+    console.error(`Failed to follow API video job ${historyItemId}:`, error);
+  });
+  return historyItemId;
+}
+
+/**
+ * Follows a queued generation job on behalf of an API request: mirrors its lifecycle into the
+ * history row's job status (queued → running → completed/partial/failed) and fires the webhook
+ * only after every image slot has settled, or once Fal has delivered the video.
+ */
+async function followApiJob(historyId: string, queueJobId: string, username: string, webhookUrl?: string): Promise<void> {
+  const { started, settled } = getJobLifecycle(queueJobId);
+
+  await started;
+  await updateHistoryItem(historyId, { jobStatus: 'running' }, username);
+
+  // The workflow has already persisted images (or the video), prompt and history status; only the job status is ours.
+  const job = await settled;
+  const video = findHistoryItemById(historyId)?.videoGenerationParams;
+  const outcome = job.status === 'completed' && !video ? job.result as GenerationOutcome : undefined;
+  const status = job.status === 'cancelled' ? 'cancelled'
+    : video ? (job.status === 'completed' ? 'completed' : 'failed')
+    : outcome?.status ?? 'failed';
+  const error = video ? (status === 'failed' ? video.error || job.error : undefined) : outcome ? outcome.error : job.error;
+
+  await updateHistoryItem(historyId, { jobStatus: status }, username);
+  console.log(`API Job ${historyId} finished with status '${status}'.`);
+
+  if (webhookUrl) {
+    try {
+      await sendWebhook(webhookUrl, {
+        status,
+        generatedImageUrls: outcome && (status === 'completed' || status === 'partial') ? toAbsoluteImageUrls(outcome.editedImageUrls) : undefined,
+        ...(video && status === 'completed' && {
+          videoUrl: video.localVideoUrl ? toAbsoluteImageUrls([video.localVideoUrl])[0] : null,
+          seed: video.seed,
+        }),
+        error,
+        historyId,
+      }, { historyId });
+    } catch (webhookErr) {
+      console.error(`Failed to send webhook for job ${historyId}:`, webhookErr);
+    }
+  }
+
+  await settleBatchItem(historyId);
+}
+
+/**
+ * Completes the item's batch (and sends the batch webhook) if this was its last unfinished item.
+ */
+async function settleBatchItem(historyId: string): Promise<void> {
+  const batchId = findHistoryItemById(historyId)?.batchId;
+  if (batchId) {
+    await completeBatchIfFinished(batchId);
+  }
+}
+
 /**
  * This function is designed to be called without 'await'.
- * It runs the full generation and updates the DB record upon completion or failure.
+ * It enqueues the generation at API priority and follows it until it settles.
  */
 export async function processApiGenerationJob(jobId: string, payload: Omit<ApiJobPayload, 'username'>, username: string): Promise<void> {
   const { webhookUrl } = payload;
   try {
-  const result = await generateImageEdit({ 
+    const { jobId: queueJobId } = await generateImageEdit({
       parameters: payload.parameters,
       settingsMode: payload.settingsMode,
       imageDataUriOrUrl: payload.imageDataUri,
-      useAIPrompt: false, // Default to false for API calls
-      useRandomization: false, // Default to false for API calls
-      removeBackground: false, // Default to false for API calls
-      upscale: false, // Default to false for API calls
-      enhanceFace: false, // Default to false for API calls
-  }, username, jobId); // Pass the existing jobId so generateImageEdit does NOT create a second history row
-
-    // Update history item with results AND the constructed prompt
-    await updateHistoryItem(jobId, {
-      editedImageUrls: result.editedImageUrls,
-      constructedPrompt: result.constructedPrompt,
-      status: 'completed',
-    }, username);
-    console.log(`API Job ${jobId} completed successfully.`);
+      generationMode: payload.generationMode,
+      studioFit: payload.studioFit,
+      aspectRatio: payload.aspectRatio,
+      prompt: payload.prompt,
+      useAIPrompt: payload.useAIPrompt,
+      useRandomization: payload.useRandomization,
+      removeBackground: payload.removeBackground,
+      upscale: payload.upscale,
+      enhanceFace: payload.enhanceFace,
+    }, username, jobId, JOB_PRIORITY.api); // Pass the existing jobId so generateImageEdit does NOT create a second history row
 
-    if (webhookUrl) {
-      // Construct absolute URLs before sending
-      const baseUrl = process.env.NEXT_PUBLIC_APP_URL!;
-      const absoluteImageUrls = result.editedImageUrls
-        .map(url => url ? (url.startsWith('http') ? url : `${baseUrl}${getDisplayableImageUrl(url)}`) : null);
-
-      try {
-        await sendWebhook(webhookUrl, {
-          status: 'completed',
-          generatedImageUrls: absoluteImageUrls,
-          historyId: jobId,
-        });
-      } catch (webhookErr) {
-        console.error(`Failed to send success webhook for job ${jobId}:`, webhookErr);
-      }
-    }
+    await followApiJob(jobId, queueJobId, username, webhookUrl);
 
   } catch (e) {
     console.error(`API Job ${jobId} failed:`, e);
     // Update history item with error status
-    await updateHistoryItem(jobId, { status: 'failed', error: (e as Error).message }, username);
+    await updateHistoryItem(jobId, { status: 'failed', jobStatus: 'failed', error: (e as Error).message }, username);
 
     if (webhookUrl) {
       try {
@@ -99,10 +227,33 @@ export async function processApiGenerationJob(jobId: string, payload: Omit<ApiJo
           status: 'failed',
           error: (e as Error).message,
           historyId: jobId,
-        });
+        }, { historyId: jobId });
       } catch (webhookErr) {
         console.error(`Failed to send error webhook for job ${jobId}:`, webhookErr);
       }
     }
+
+    await settleBatchItem(jobId);
+  }
+}
+
+/**
+ * Re-attaches job status tracking and webhook delivery for API jobs that were still
+ * queued or running when the server stopped. Called once at startup by the job worker.
+ */
+export async function resumeApiJobFollowers(): Promise<void> {
+  const activeJobs = findActiveApiJobs();
+  for (const { jobId, historyId, username, webhookUrl } of activeJobs) {
+    followApiJob(historyId, jobId, username, webhookUrl).catch(error => {
+      console.error(`Failed to resume API job ${historyId}:`, error);
+    });
+  }
+  if (activeJobs.length > 0) {
+    console.log(`Resumed tracking for ${activeJobs.length} API job(s).`);
+  }
+
+  // Batches whose last item finished (or was failed at startup) while no follower was running
+  for (const batchId of findUnfinishedBatchIds()) {
+    await completeBatchIfFinished(batchId);
   }
 }
@@ -0,0 +1,68 @@
+// src/actions/apiKeyActions.ts
+'use server';
+
+import 'server-only';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { getCurrentUser } from './authActions';
+import type { ApiKey } from '@/services/db';
+import { ApiKeyCreateSchema } from '@/lib/api-schemas';
+import * as appApiKeyService from '@/services/appApiKey.service';
+
+type ApiKeyActionResult = {
+  success: boolean;
+  apiKey?: ApiKey;
+  /** The plaintext key; only set right after creation. */
+  key?: string;
+  error?: string;
+};
+
+async function requireUser() {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  return user;
+}
+
+function toErrorResult(error: unknown): ApiKeyActionResult {
+  if (error instanceof z.ZodError) {
+    return { success: false, error: error.issues.map(issue => issue.message).join(', ') };
+  }
+  return { success: false, error: (error as Error).message };
+}
+
+/**
+ * Lists the current user's API keys, including revoked and expired ones.
+ */
+export async function getApiKeys(): Promise<ApiKey[]> {
+  const user = await requireUser();
+  return appApiKeyService.listApiKeys(user.username);
+}
+
+export async function createApiKeyAction(input: unknown): Promise<ApiKeyActionResult> {
+  try {
+    const user = await requireUser();
+    const { apiKey, key } = appApiKeyService.createApiKey(user.username, ApiKeyCreateSchema.parse(input));
+    revalidatePath('/settings');
+    return { success: true, apiKey, key };
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return toErrorResult(error);
+  }
+}
+
+export async function revokeApiKeyAction(id: string): Promise<ApiKeyActionResult> {
+  try {
+    const user = await requireUser();
+    if (!appApiKeyService.revokeApiKey(id, user.username)) {
+      return { success: false, error: 'API key not found or already revoked.' };
+    }
+    revalidatePath('/settings');
+    return { success: true };
+  } catch (error) {
+    console.error(`Error revoking API key ${id}:`, error);
+    return toErrorResult(error);
+  }
+}
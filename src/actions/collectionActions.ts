@@ -0,0 +1,140 @@
+// src/actions/collectionActions.ts
+'use server';
+
+import 'server-only';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { getCurrentUser } from './authActions';
+import type { Collection } from '@/services/db';
+import { CollectionSchema, HistoryTagsSchema } from '@/lib/collections';
+import * as collectionService from '@/services/collection.service';
+
+type CollectionActionResult = {
+  success: boolean;
+  collection?: Collection;
+  error?: string;
+};
+
+type TagsActionResult = {
+  success: boolean;
+  /** The stored tags after normalization. */
+  tags?: string[];
+  error?: string;
+};
+
+async function requireUser() {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  return user;
+}
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map(issue => issue.message).join(', ');
+  }
+  return (error as Error).message;
+}
+
+// Collections are listed on both gallery pages
+function revalidateGalleries() {
+  revalidatePath('/');
+  revalidatePath('/history');
+}
+
+/**
+ * Lists the current user's collections, most recently changed first.
+ */
+export async function getCollections(): Promise<Collection[]> {
+  const user = await requireUser();
+  return collectionService.listCollections(user.username);
+}
+
+export async function createCollectionAction(input: unknown): Promise<CollectionActionResult> {
+  try {
+    const user = await requireUser();
+    const collection = collectionService.createCollection(user.username, CollectionSchema.parse(input));
+    revalidateGalleries();
+    return { success: true, collection };
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
+
+export async function updateCollectionAction(id: string, input: unknown): Promise<CollectionActionResult> {
+  try {
+    const user = await requireUser();
+    const collection = collectionService.updateCollection(user.username, id, CollectionSchema.partial().parse(input));
+    if (!collection) {
+      return { success: false, error: 'Collection not found.' };
+    }
+    revalidateGalleries();
+    return { success: true, collection };
+  } catch (error) {
+    console.error(`Error updating collection ${id}:`, error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
+
+export async function deleteCollectionAction(id: string): Promise<CollectionActionResult> {
+  try {
+    const user = await requireUser();
+    if (!collectionService.deleteCollection(user.username, id)) {
+      return { success: false, error: 'Collection not found.' };
+    }
+    revalidateGalleries();
+    return { success: true };
+  } catch (error) {
+    console.error(`Error deleting collection ${id}:`, error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
+
+/**
+ * IDs of the current user's collections that contain the history item.
+ */
+export async function getCollectionIdsForHistoryItem(historyItemId: string): Promise<string[]> {
+  const user = await requireUser();
+  return collectionService.getCollectionIdsForItem(user.username, historyItemId);
+}
+
+/**
+ * Adds a history item to a collection, or removes it when `isMember` is false.
+ */
+export async function setCollectionMembershipAction(
+  collectionId: string,
+  historyItemId: string,
+  isMember: boolean
+): Promise<CollectionActionResult> {
+  try {
+    const user = await requireUser();
+    if (!collectionService.setCollectionMembership(user.username, collectionId, historyItemId, isMember)) {
+      return { success: false, error: 'Collection or history item not found.' };
+    }
+    revalidateGalleries();
+    return { success: true, collection: collectionService.getCollection(user.username, collectionId) ?? undefined };
+  } catch (error) {
+    console.error(`Error updating collection ${collectionId} for item ${historyItemId}:`, error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
+
+/**
+ * Replaces the tags of a history item. Tags are normalized, so "SS26 Lookbook" is stored as "ss26-lookbook".
+ */
+export async function setHistoryItemTagsAction(historyItemId: string, tags: unknown): Promise<TagsActionResult> {
+  try {
+    const user = await requireUser();
+    const normalized = HistoryTagsSchema.parse(tags);
+    if (!collectionService.setHistoryItemTags(user.username, historyItemId, normalized)) {
+      return { success: false, error: 'History item not found' };
+    }
+    return { success: true, tags: normalized };
+  } catch (error) {
+    console.error(`Error tagging history item ${historyItemId}:`, error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
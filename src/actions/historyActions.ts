@@ -3,8 +3,15 @@
 import 'server-only';
 
 import { getCurrentUser } from './authActions';
-import type { HistoryItem, ModelAttributes } from '@/lib/types';
+import type { HistoryItem, ImageFeedback, JobStatus, ModelAttributes, VideoMediaInfo, VideoSlot, VideoSlotParams } from '@/lib/types';
 import * as dbService from '@/services/db';
+import type { PaginationResult } from '@/services/db';
+import { historySearchSchema, type HistorySearchFilters } from '@/lib/history-search';
+import { ImageFeedbackUpdateSchema } from '@/lib/image-feedback';
+import { settleWaitingJob, cancelGeneration } from '@/services/job-queue.service';
+import { createVideoMedia, trimVideo } from '@/services/video-processing.service';
+import { advanceStoryboard, handleStoryboardCancellation } from '@/services/storyboard.service';
+import { MIN_TRIMMED_CLIP_SECONDS, VideoTrimRangeSchema } from '@/lib/video-variants';
 
 export async function updateHistoryItem(
   historyItemId: string,
@@ -73,12 +80,15 @@ export interface AddHistoryItemOptions {
   originalClothingUrl: string;
   editedImageUrls: (string | null)[];
   settingsMode: 'basic' | 'advanced';
-  imageGenerationModel: 'fal_nano_banana_pro' | 'fal_gemini_2_5';
-  status?: 'processing' | 'completed' | 'failed';
+  imageGenerationModel: string;
+  status?: 'processing' | 'completed' | 'failed' | 'cancelled';
+  jobStatus?: JobStatus;
   error?: string;
   username?: string;
   webhookUrl?: string;
   generationMode?: 'creative' | 'studio';
+  batchId?: string;
+  externalRef?: string;
 }
 
 export async function addHistoryItem(options: AddHistoryItemOptions): Promise<string> {
@@ -90,10 +100,13 @@ export async function addHistoryItem(options: AddHistoryItemOptions): Promise<st
     settingsMode,
     imageGenerationModel,
     status = 'completed',
+    jobStatus,
     error,
     username,
     webhookUrl,
     generationMode,
+    batchId,
+    externalRef,
   } = options;
 
   const user = username ? { username } : await getCurrentUser();
@@ -112,9 +125,12 @@ export async function addHistoryItem(options: AddHistoryItemOptions): Promise<st
     settingsMode,
     imageGenerationModel,
     status,
+    jobStatus,
     error,
     webhookUrl,
     generation_mode: generationMode,
+    batchId,
+    externalRef,
   };
   
   dbService.insertHistoryItem(newItem);
@@ -152,19 +168,27 @@ export async function addVideoToHistoryItem(
   });
 }
 
+/**
+ * Creates a video history item from a source image. `slotParams` gives the parameters of each
+ * clip when several variants are generated; by default the item has a single clip.
+ */
 export async function addStandaloneVideoHistoryItem(
   videoUrls: (string | null)[],
-  videoGenerationParams: HistoryItem['videoGenerationParams']
+  videoGenerationParams: HistoryItem['videoGenerationParams'],
+  options: Pick<AddHistoryItemOptions, 'username' | 'jobStatus' | 'webhookUrl'> & { slotParams?: VideoSlotParams[] } = {}
 ): Promise<string> {
   if (!videoGenerationParams) {
     throw new Error("videoGenerationParams are required for standalone video history.");
   }
   
-  const user = await getCurrentUser();
+  const user = options.username ? { username: options.username } : await getCurrentUser();
   if (!user) {
     throw new Error('User not authenticated');
   }
 
+  // The status, error and local video are item-level fields, not clip parameters
+  const { localVideoUrl, status, error, ...firstSlotParams } = videoGenerationParams;
+
   // For standalone video, store the source image in originalImageUrls, not editedImageUrls
   const newItem: HistoryItem = {
     id: crypto.randomUUID(),
@@ -177,7 +201,14 @@ export async function addStandaloneVideoHistoryItem(
     username: user.username,
     settingsMode: 'basic',
     generatedVideoUrls: videoUrls,
-    videoGenerationParams
+    videoGenerationParams,
+    videoSlots: (options.slotParams ?? [firstSlotParams]).map((params, slotIndex) => ({
+      slotIndex,
+      params,
+      status: videoGenerationParams.status ?? 'processing',
+    })),
+    jobStatus: options.jobStatus,
+    webhookUrl: options.webhookUrl,
   };
 
   dbService.insertHistoryItem(newItem);
@@ -233,6 +264,75 @@ export async function deleteHistoryItem(historyItemId: string): Promise<{ succes
   }
 }
 
+/**
+ * Cancels a generation that is still processing for the current user.
+ */
+export async function cancelGenerationAction(historyItemId: string): Promise<{ success: boolean; error?: string }> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'User not authenticated' };
+  }
+
+  try {
+    const result = await cancelGeneration(historyItemId, user.username);
+    if (result.success) {
+      handleStoryboardCancellation(historyItemId);
+      const { revalidatePath } = await import('next/cache');
+      revalidatePath('/history');
+    }
+    return result;
+  } catch (error) {
+    console.error(`Error cancelling history item ${historyItemId} for user ${user.username}:`, error);
+    return { success: false, error: 'Failed to cancel generation.' };
+  }
+}
+
+/**
+ * Favorites or rates one of the current user's generated images.
+ * @param slotIndex The image's `ImageFeedback.slotIndex`.
+ * @returns The image's feedback after the change.
+ */
+export async function setImageFeedbackAction(
+  historyItemId: string,
+  slotIndex: number,
+  update: unknown
+): Promise<{ success: boolean; feedback?: ImageFeedback; error?: string }> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'User not authenticated' };
+  }
+
+  const parsed = ImageFeedbackUpdateSchema.safeParse(update);
+  if (!parsed.success || !Number.isInteger(slotIndex) || slotIndex < 0) {
+    return { success: false, error: parsed.error?.issues[0].message ?? 'Invalid image slot.' };
+  }
+
+  try {
+    const item = dbService.findHistoryItemById(historyItemId);
+    if (!item || item.username !== user.username) {
+      return { success: false, error: 'History item not found' };
+    }
+    if (!dbService.updateHistoryImageFeedback(historyItemId, slotIndex, parsed.data)) {
+      return { success: false, error: 'Image not found' };
+    }
+
+    // findHistoryItemById is cached for this request, so apply the update to the previous state
+    const previous = item.imageFeedback?.find(entry => entry.slotIndex === slotIndex);
+    const feedback: ImageFeedback = {
+      slotIndex,
+      favorite: parsed.data.favorite ?? previous?.favorite ?? false,
+      rating: parsed.data.rating !== undefined ? parsed.data.rating : previous?.rating ?? null,
+    };
+
+    const { revalidatePath } = await import('next/cache');
+    revalidatePath('/history');
+    return { success: true, feedback };
+  } catch (error) {
+    console.error(`Error saving feedback for history item ${historyItemId} slot ${slotIndex}:`, error);
+    return { success: false, error: 'Failed to save image feedback.' };
+  }
+}
+
 export async function getHistoryItem(historyItemId: string): Promise<HistoryItem | null> {
   const user = await getCurrentUser();
   if (!user) {
@@ -250,37 +350,121 @@ export async function getHistoryItem(historyItemId: string): Promise<HistoryItem
 }
 
 // Compatibility functions for backward compatibility
+/**
+ * Updates one clip of a video history item: slot 0 unless `slotIndex` is given. The item-level
+ * status, seed and video summarize the item's clips.
+ */
 export async function updateVideoHistoryItem(params: {
   username: string;
   historyItemId: string;
-  videoUrls?: (string | null)[];
+  slotIndex?: number;
+  /** Remote (fal.ai) URL of the clip. */
+  videoUrl?: string | null;
   localVideoUrl?: string | null;
   seedUsed?: number | null;
-  status?: 'processing' | 'completed' | 'failed';
+  media?: VideoMediaInfo | null;
+  status?: VideoSlot['status'];
   error?: string;
   videoModel?: 'lite' | 'pro';
 }): Promise<void> {
-  const { username, historyItemId, videoUrls, localVideoUrl, seedUsed, status, error, videoModel } = params;
+  const { username, historyItemId, slotIndex = 0, videoUrl, localVideoUrl, seedUsed, media, status, error, videoModel } = params;
   // Authorization check
   const existingItem = dbService.findHistoryItemById(historyItemId);
   if (!existingItem || existingItem.username !== username) {
     console.warn(`History item ${historyItemId} not found or user ${username} is not authorized.`);
     return;
   }
-  // Construct the partial update object
-  const updatePayload: Partial<HistoryItem> = {};
-  // Only include videoGenerationParams if patch fields are present
-  const videoGenPatch: Record<string, unknown> = {};
-  if (videoModel !== undefined) videoGenPatch.videoModel = videoModel;
-  if (seedUsed !== undefined) videoGenPatch.seed = seedUsed;
-  if (localVideoUrl !== undefined) videoGenPatch.localVideoUrl = localVideoUrl;
-  if (status !== undefined) videoGenPatch.status = status;
-  if (error !== undefined) videoGenPatch.error = error;
-  if (Object.keys(videoGenPatch).length > 0) {
-    updatePayload.videoGenerationParams = videoGenPatch as any;
-  }
-  if (videoUrls) updatePayload.generatedVideoUrls = videoUrls;
-  dbService.updateHistoryItem(historyItemId, updatePayload);
+  // Results arriving after a cancellation are ignored
+  if (existingItem.status === 'cancelled') {
+    console.log(`History item ${historyItemId} was cancelled; ignoring video update.`);
+    return;
+  }
+  if (videoModel !== undefined) {
+    dbService.updateHistoryItem(historyItemId, { videoGenerationParams: { videoModel } as HistoryItem['videoGenerationParams'] });
+  }
+  const updated = dbService.updateVideoSlot(historyItemId, slotIndex, {
+    status,
+    error,
+    seed: seedUsed,
+    localVideoUrl,
+    videoUrl,
+    media,
+  });
+  if (!updated) {
+    console.warn(`History item ${historyItemId} has no video slot ${slotIndex}; ignoring video update.`);
+    return;
+  }
+
+  // A terminal status frees the queue slot the clip's job held while fal.ai was rendering
+  const falRequestId = existingItem.videoSlots?.find(slot => slot.slotIndex === slotIndex)?.falRequestId;
+  if (falRequestId && (status === 'completed' || status === 'failed')) {
+    settleWaitingJob(historyItemId, { error: status === 'failed' ? (error || 'Video generation failed') : undefined }, falRequestId);
+  }
+  // The clip may be the last shot a storyboard was waiting for
+  if (status === 'completed' || status === 'failed') {
+    advanceStoryboard(historyItemId);
+  }
+}
+
+/**
+ * Cuts one of the current user's finished clips to a time range. The result is added to the
+ * item as a new clip, next to the original.
+ * @param range `{ start, end }` in seconds; an end past the clip's length is clamped.
+ * @returns The new clip.
+ */
+export async function trimVideoClipAction(
+  historyItemId: string,
+  slotIndex: number,
+  range: unknown
+): Promise<{ success: boolean; slot?: VideoSlot; error?: string }> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'User not authenticated' };
+  }
+
+  const parsed = VideoTrimRangeSchema.safeParse(range);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+
+  try {
+    const item = dbService.findHistoryItemById(historyItemId);
+    if (!item || item.username !== user.username) {
+      return { success: false, error: 'History item not found' };
+    }
+    const source = item.videoSlots?.find(slot => slot.slotIndex === slotIndex);
+    if (!source || source.status !== 'completed' || !source.localVideoUrl) {
+      return { success: false, error: 'Only finished clips can be trimmed.' };
+    }
+
+    const start = parsed.data.start;
+    const end = Math.min(parsed.data.end, source.media?.durationSeconds ?? parsed.data.end);
+    if (end - start < MIN_TRIMMED_CLIP_SECONDS) {
+      return { success: false, error: `The trimmed clip must be at least ${MIN_TRIMMED_CLIP_SECONDS} seconds long.` };
+    }
+
+    const localVideoUrl = await trimVideo(source.localVideoUrl, start, end);
+    const media = await createVideoMedia(localVideoUrl).catch(error => {
+      console.warn(`Could not post-process video ${localVideoUrl}:`, error);
+      return undefined;
+    });
+    const trimmed: Omit<VideoSlot, 'slotIndex'> = {
+      params: source.params,
+      status: 'completed',
+      seed: source.seed,
+      localVideoUrl,
+      media,
+      trimmedFrom: { sourceSlotIndex: slotIndex, start, end },
+    };
+    const newSlotIndex = dbService.addVideoSlot(historyItemId, trimmed);
+
+    const { revalidatePath } = await import('next/cache');
+    revalidatePath('/history');
+    return { success: true, slot: { ...trimmed, slotIndex: newSlotIndex } };
+  } catch (error) {
+    console.error(`Error trimming clip ${slotIndex} of history item ${historyItemId} for user ${user.username}:`, error);
+    return { success: false, error: 'Failed to trim the video.' };
+  }
 }
 
 export async function getHistoryPaginated(
@@ -307,6 +491,34 @@ export async function getHistoryPaginated(
   );
 }
 
+/**
+ * The current user's history matching the gallery's search filters.
+ */
+export async function searchHistory(
+  filters: HistorySearchFilters,
+  page: number = 1,
+  limit: number = 10,
+  filter: 'all' | 'image' | 'video' = 'all'
+): Promise<PaginationResult> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+
+  const parsed = historySearchSchema.safeParse(filters);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues[0].message);
+  }
+
+  return dbService.searchHistoryForUser({
+    username: user.username,
+    filters: parsed.data,
+    page,
+    limit,
+    type: filter === 'all' ? undefined : filter,
+  });
+}
+
 export async function getVideoHistoryPaginated(
   page: number = 1,
   limit: number = 10
@@ -12,11 +12,23 @@ import { getBufferFromLocalPath } from '@/lib/server-fs.utils';
 import { getHistoryItem } from './historyActions';
 import { trackUserUpload } from '@/services/db';
 import { getCurrentUser } from '@/actions/authActions';
+import { grantMediaAccess } from '@/services/media-access.service';
+import { consumeGenerationQuota, getRateLimitMessage } from '@/services/rate-limit.service';
 import { z } from 'zod';
 import { zfd } from 'zod-form-data';
 
 const MAX_DIMENSION = 2048;
 
+/**
+ * Lets the current user view an edited copy of their image; the media route only serves files to their owner.
+ */
+async function grantToCurrentUser(fileUrl: string): Promise<void> {
+  const user = await getCurrentUser();
+  if (user?.username) {
+    grantMediaAccess(user.username, fileUrl);
+  }
+}
+
 type PrepareImageResult = {
   success: true;
   imageUrl: string; // e.g., /uploads/user_uploaded_clothing/user_upload_..._.png
@@ -158,6 +170,7 @@ export async function cropImage(
       'processed_images',
       'png'
     );
+    await grantToCurrentUser(relativeUrl);
 
     return {
       success: true,
@@ -326,6 +339,7 @@ export async function rotateImage(
       'processed_images',
       'png'
     );
+    await grantToCurrentUser(relativeUrl);
 
     return {
       success: true,
@@ -387,6 +401,7 @@ export async function flipImage(
       'processed_images',
       'png'
     );
+    await grantToCurrentUser(relativeUrl);
 
     return {
       success: true,
@@ -487,6 +502,15 @@ export async function generateImageAction(
 
     const data = result.data;
 
+    const rateLimit = consumeGenerationQuota(user);
+    if (!rateLimit.allowed) {
+      const rateLimitMessage = getRateLimitMessage(rateLimit);
+      return {
+        message: rateLimitMessage,
+        errors: [null, null, null].map(() => rateLimitMessage),
+      };
+    }
+
     // Build the generation input
     const generationInput: GenerateImageEditInput = {
       imageDataUriOrUrl: data.imageDataUriOrUrl,
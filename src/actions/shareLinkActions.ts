@@ -0,0 +1,135 @@
+// src/actions/shareLinkActions.ts
+'use server';
+
+import 'server-only';
+
+import crypto from 'crypto';
+import { cookies, headers } from 'next/headers';
+import { z } from 'zod';
+import { getCurrentUser } from './authActions';
+import type { ShareReview } from '@/services/db';
+import { SHARE_TARGET_TYPES, ShareLinkSchema, ShareReviewSchema, type ShareTargetType } from '@/lib/share-links';
+import * as shareLinkService from '@/services/share-link.service';
+import type { ShareLinkDetails } from '@/services/share-link.service';
+
+type ShareLinkActionResult = {
+  success: boolean;
+  share?: ShareLinkDetails;
+  error?: string;
+};
+
+type ShareReviewActionResult = {
+  success: boolean;
+  review?: ShareReview;
+  error?: string;
+};
+
+/** Identifies a reviewer's browser across visits, so views can be counted per person. */
+const VISITOR_COOKIE = 'refashion-share-visitor';
+const LINK_UNAVAILABLE = 'This link has expired or was revoked.';
+
+async function requireUser() {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  return user;
+}
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map(issue => issue.message).join(', ');
+  }
+  return (error as Error).message;
+}
+
+async function getVisitorId(): Promise<string> {
+  const cookieStore = await cookies();
+  const existing = cookieStore.get(VISITOR_COOKIE)?.value;
+  if (existing) {
+    return existing;
+  }
+  const visitorId = crypto.randomUUID();
+  cookieStore.set(VISITOR_COOKIE, visitorId, { path: '/share', httpOnly: true, sameSite: 'lax', maxAge: 60 * 60 * 24 * 365 });
+  return visitorId;
+}
+
+/**
+ * Links the current user created for a history item or collection, with their views and reviews.
+ */
+export async function getShareLinksAction(targetType: ShareTargetType, targetId: string): Promise<ShareLinkDetails[]> {
+  const user = await requireUser();
+  if (!SHARE_TARGET_TYPES.includes(targetType)) {
+    return [];
+  }
+  return shareLinkService.listShareLinks(user.username, targetType, targetId);
+}
+
+export async function createShareLinkAction(input: unknown): Promise<ShareLinkActionResult> {
+  try {
+    const user = await requireUser();
+    const share = shareLinkService.createShareLink(user.username, ShareLinkSchema.parse(input));
+    if (!share) {
+      return { success: false, error: 'History item or collection not found.' };
+    }
+    return { success: true, share };
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
+
+export async function revokeShareLinkAction(id: string): Promise<ShareLinkActionResult> {
+  try {
+    const user = await requireUser();
+    if (!shareLinkService.revokeShareLink(user.username, id)) {
+      return { success: false, error: 'Share link not found or already revoked.' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error(`Error revoking share link ${id}:`, error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
+
+/**
+ * Counts a visit to a share link. Called by the public review page, so no login is required.
+ */
+export async function recordShareViewAction(token: string): Promise<{ success: boolean }> {
+  try {
+    const link = shareLinkService.resolveShareToken(token);
+    if (!link) {
+      return { success: false };
+    }
+    const requestHeaders = await headers();
+    shareLinkService.recordShareView(link, {
+      visitorId: await getVisitorId(),
+      ipAddress: requestHeaders.get('x-forwarded-for')?.split(',')[0].trim() || requestHeaders.get('x-real-ip') || undefined,
+      userAgent: requestHeaders.get('user-agent')?.slice(0, 300) || undefined,
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Error recording share link view:', error);
+    return { success: false };
+  }
+}
+
+/**
+ * Approves or rejects a shared item. Called by the public review page, so no login is required.
+ */
+export async function submitShareReviewAction(token: string, input: unknown): Promise<ShareReviewActionResult> {
+  try {
+    const link = shareLinkService.resolveShareToken(token);
+    if (!link) {
+      return { success: false, error: LINK_UNAVAILABLE };
+    }
+    const review = shareLinkService.submitShareReview(link, await getVisitorId(), ShareReviewSchema.parse(input));
+    if (!review) {
+      return { success: false, error: 'This item is no longer shared.' };
+    }
+    return { success: true, review };
+  } catch (error) {
+    console.error('Error submitting share review:', error);
+    return { success: false, error: toErrorMessage(error) };
+  }
+}
@@ -0,0 +1,83 @@
+// src/actions/webhookEndpointActions.ts
+'use server';
+
+import 'server-only';
+
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { getCurrentUser } from './authActions';
+import type { WebhookEndpoint } from '@/services/db';
+import { WebhookEndpointSchema, WebhookEndpointUpdateSchema } from '@/lib/api-schemas';
+import * as webhookEndpointService from '@/services/webhook-endpoint.service';
+
+type WebhookEndpointActionResult = {
+  success: boolean;
+  endpoint?: WebhookEndpoint;
+  /** Only set when the signing secret was created or rotated. */
+  secret?: string;
+  error?: string;
+};
+
+async function requireUser() {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  return user;
+}
+
+function toErrorResult(error: unknown): WebhookEndpointActionResult {
+  if (error instanceof z.ZodError) {
+    return { success: false, error: error.issues.map(issue => issue.message).join(', ') };
+  }
+  return { success: false, error: (error as Error).message };
+}
+
+/**
+ * Lists the current user's registered webhook endpoints.
+ */
+export async function getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+  const user = await requireUser();
+  return webhookEndpointService.listWebhookEndpoints(user.username);
+}
+
+export async function createWebhookEndpointAction(input: unknown): Promise<WebhookEndpointActionResult> {
+  try {
+    const user = await requireUser();
+    const { endpoint, secret } = webhookEndpointService.createWebhookEndpoint(user.username, WebhookEndpointSchema.parse(input));
+    revalidatePath('/settings');
+    return { success: true, endpoint, secret };
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+    return toErrorResult(error);
+  }
+}
+
+export async function updateWebhookEndpointAction(id: string, update: unknown): Promise<WebhookEndpointActionResult> {
+  try {
+    const user = await requireUser();
+    const result = webhookEndpointService.updateWebhookEndpoint(user.username, id, WebhookEndpointUpdateSchema.parse(update));
+    if (!result) {
+      return { success: false, error: 'Webhook endpoint not found.' };
+    }
+    revalidatePath('/settings');
+    return { success: true, ...result };
+  } catch (error) {
+    console.error(`Error updating webhook endpoint ${id}:`, error);
+    return toErrorResult(error);
+  }
+}
+
+export async function deleteWebhookEndpointAction(id: string): Promise<WebhookEndpointActionResult> {
+  try {
+    const user = await requireUser();
+    if (!webhookEndpointService.deleteWebhookEndpoint(user.username, id)) {
+      return { success: false, error: 'Webhook endpoint not found.' };
+    }
+    revalidatePath('/settings');
+    return { success: true };
+  } catch (error) {
+    console.error(`Error deleting webhook endpoint ${id}:`, error);
+    return toErrorResult(error);
+  }
+}
@@ -2,7 +2,7 @@
 
 import 'server-only';
 
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from '@google/genai';
+import { HarmCategory, HarmBlockThreshold } from '@google/genai';
 import { getApiKeyForUser } from '@/services/apiKey.service';
 import type { ModelAttributes } from '@/lib/types';
 import mime from 'mime-types';
@@ -17,7 +17,7 @@ import {
 import { withGeminiRetry, AIGenerationError } from '@/lib/api-retry';
 import { getSystemPrompt } from '@/services/systemPrompt.service';
 import { createApiLogger } from '@/lib/api-logger';
-import { imageToGenerativePart } from '@/lib/ai-utils';
+import { createGeminiClient, imageToGenerativePart } from '@/lib/ai-utils';
 
 
 // Helper to format user parameters into natural conversational request for the AI
@@ -138,7 +138,7 @@ export async function generatePromptWithAI(
   });
 
   const apiKey = await getApiKeyForUser(username, 'gemini', keyIndex);
-  const ai = new GoogleGenAI({ apiKey });
+  const ai = createGeminiClient(apiKey);
   
   // Load the system instruction from database with file fallback
   const systemInstruction = await getSystemPrompt();
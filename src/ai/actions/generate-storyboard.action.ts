@@ -0,0 +1,120 @@
+// src/ai/actions/generate-storyboard.action.ts
+'use server';
+
+import 'server-only';
+
+import crypto from 'crypto';
+import { getCurrentUser } from '@/actions/authActions';
+import { addStandaloneVideoHistoryItem } from '@/actions/historyActions';
+import { queueVideoGeneration, type GenerateVideoInput } from '@/ai/actions/generate-video.action';
+import * as dbService from '@/services/db';
+import { advanceStoryboard } from '@/services/storyboard.service';
+import { consumeGenerationQuota, getRateLimitMessage } from '@/services/rate-limit.service';
+import { BudgetExceededError } from '@/services/cost.service';
+import { buildAIPrompt } from '@/lib/prompt-builder';
+import { StoryboardSchema, type StoryboardInput } from '@/lib/storyboard';
+import type { HistoryItem } from '@/lib/types';
+
+/**
+ * The generation input of each shot. Shots have no free-text prompt; it is built from the
+ * shot's motion options and the storyboard-wide fabric motion and vibe.
+ */
+function toShotInputs(storyboard: StoryboardInput): GenerateVideoInput[] {
+  return storyboard.shots.map(shot => {
+    const options = {
+      selectedPredefinedPrompt: 'custom',
+      modelMovement: shot.modelMovement,
+      cameraAction: shot.cameraAction,
+      fabricMotion: storyboard.fabricMotion,
+      aestheticVibe: storyboard.aestheticVibe,
+    };
+    return {
+      ...options,
+      prompt: buildAIPrompt({ type: 'video', params: options }),
+      image_url: shot.sourceImageUrl,
+      local_image_path: shot.sourceImageUrl,
+      resolution: storyboard.resolution,
+      duration: shot.duration,
+      seed: -1,
+      camera_fixed: false,
+      aspect_ratio: storyboard.aspectRatio,
+    };
+  });
+}
+
+/**
+ * Starts a storyboard for the current user: each shot is generated as a clip of one video
+ * history item, and once all of them have finished they are joined into the clip of a second
+ * item, which is created right away as processing.
+ * @param input A `StoryboardSchema` object; shots use images from the user's history.
+ * @returns The history item that receives the joined clip, and the one holding the shots.
+ */
+export async function generateStoryboardAction(
+  input: unknown
+): Promise<{ success: boolean; historyItemId?: string; shotsHistoryItemId?: string; error?: string }> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { success: false, error: 'User not authenticated' };
+  }
+
+  const parsed = StoryboardSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0].message };
+  }
+  const storyboard = parsed.data;
+
+  const foreignShot = storyboard.shots.findIndex(shot => !dbService.isMediaOwnedBy(user.username, shot.sourceImageUrl));
+  if (foreignShot !== -1) {
+    return { success: false, error: `The image of shot ${foreignShot + 1} was not found.` };
+  }
+
+  // Each shot is a generation of its own
+  const rateLimit = consumeGenerationQuota(user, { cost: storyboard.shots.length });
+  if (!rateLimit.allowed) {
+    return { success: false, error: getRateLimitMessage(rateLimit) };
+  }
+
+  try {
+    const shotInputs = toShotInputs(storyboard);
+    const { historyItemId: shotsHistoryItemId } = await queueVideoGeneration(shotInputs[0], user.username, { slotInputs: shotInputs });
+
+    const totalSeconds = storyboard.shots.reduce((sum, shot) => sum + Number(shot.duration), 0);
+    const resultParams: NonNullable<HistoryItem['videoGenerationParams']> = {
+      prompt: `Storyboard of ${shotInputs.length} shots:\n${shotInputs.map((shot, index) => `${index + 1}. ${shot.prompt}`).join('\n')}`,
+      resolution: storyboard.resolution,
+      videoModel: 'pro',
+      duration: String(totalSeconds),
+      seed: -1,
+      sourceImageUrl: storyboard.shots[0].sourceImageUrl,
+      selectedPredefinedPrompt: 'custom',
+      modelMovement: '',
+      fabricMotion: storyboard.fabricMotion ?? '',
+      cameraAction: '',
+      aestheticVibe: storyboard.aestheticVibe ?? '',
+      cameraFixed: false,
+      aspect_ratio: storyboard.aspectRatio,
+      status: 'processing',
+    };
+    const historyItemId = await addStandaloneVideoHistoryItem([null], resultParams, { username: user.username });
+
+    dbService.insertStoryboard({
+      id: crypto.randomUUID(),
+      username: user.username,
+      shotsHistoryId: shotsHistoryItemId,
+      resultHistoryId: historyItemId,
+      transition: storyboard.transition,
+    });
+    // In case every shot settled before the storyboard was recorded
+    advanceStoryboard(shotsHistoryItemId);
+
+    const { revalidatePath } = await import('next/cache');
+    revalidatePath('/history');
+    return { success: true, historyItemId, shotsHistoryItemId };
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return { success: false, error: error.message };
+    }
+    console.error(`Error starting a storyboard for user ${user.username}:`, error);
+    return { success: false, error: 'Failed to start the storyboard.' };
+  }
+}
@@ -4,7 +4,7 @@
 import 'server-only';
 
 // FIX: Use factory function to prevent singleton race conditions
-import { createFalClient } from '@fal-ai/client';
+import { createScopedFalClient } from '@/services/fal-api/client';
 
 import { getCurrentUser } from '@/actions/authActions';
 import { addStandaloneVideoHistoryItem, updateVideoHistoryItem } from '@/actions/historyActions';
@@ -12,6 +12,15 @@ import * as videoService from '@/services/fal-api/video.service';
 import { getBufferFromLocalPath } from '@/lib/server-fs.utils';
 import { createApiLogger } from '@/lib/api-logger';
 import { getApiKeyForUser } from '@/services/apiKey.service';
+import { enqueueJob, registerJobHandler, AWAIT_CALLBACK, JOB_PRIORITY } from '@/services/job-queue.service';
+import { setJobExternalId, setVideoSlotFalRequest } from '@/services/db';
+import { FAL_VIDEO_TIMEOUT_MS } from '@/services/video-reconciler.service';
+import { consumeGenerationQuota, getRateLimitMessage } from '@/services/rate-limit.service';
+import { assertWithinBudget, BudgetExceededError } from '@/services/cost.service';
+import { estimateVideoGenerationCost } from '@/lib/pricing';
+import { buildAIPrompt } from '@/lib/prompt-builder';
+import { VideoVariantsSchema, type VideoVariant } from '@/lib/video-variants';
+import type { JobStatus, VideoSlotParams } from '@/lib/types';
 
 export interface GenerateVideoInput {
   prompt: string;
@@ -51,7 +60,7 @@ export async function isFalVideoGenerationAvailable(): Promise<{ available: bool
 
 /**
  * Utility to upload a file to Fal Storage.
- * Refactored to use createFalClient for thread safety.
+ * Refactored to use a scoped Fal client for thread safety.
  */
 export async function uploadToFalStorage(file: File | Blob, username: string): Promise<string> {
   const logger = createApiLogger('STORAGE', 'Fal Storage Upload', {
@@ -68,9 +77,7 @@ export async function uploadToFalStorage(file: File | Blob, username: string): P
     const apiKey = await getApiKeyForUser(username, 'fal');
     
     // 2. Create Scoped Client
-    const fal = createFalClient({
-      credentials: apiKey
-    });
+    const fal = createScopedFalClient(apiKey);
 
     // 3. Upload
     const url = await fal.storage.upload(file);
@@ -83,39 +90,20 @@ export async function uploadToFalStorage(file: File | Blob, username: string): P
   }
 }
 
-// Function to start video generation with webhook support
-export async function startVideoGenerationAndCreateHistory(input: GenerateVideoInput) {
-  const user = await getCurrentUser();
-  if (!user) {
-    return { error: 'User not authenticated' };
-  }
-
-  // 1. Create history item
-  // We implicitly set videoModel to 'pro' (or specific ID) for history tracking
-  const historyVideoParams = {
-    prompt: input.prompt,
-    resolution: input.resolution || '1080p', // Default to 1080p for Pro Fast
-    videoModel: 'pro' as const, // Force logging as pro
-    duration: input.duration || '5',
-    seed: input.seed || -1,
-    sourceImageUrl: input.local_image_path || input.image_url,
-    selectedPredefinedPrompt: input.selectedPredefinedPrompt || 'custom',
-    modelMovement: input.modelMovement || '',
-    fabricMotion: input.fabricMotion || '',
-    cameraAction: input.cameraAction || '',
-    aestheticVibe: input.aestheticVibe || '',
-    cameraFixed: input.camera_fixed || false,
-    status: 'processing' as const,
-  };
-
-  const historyItemId = await addStandaloneVideoHistoryItem(
-    [null],
-    historyVideoParams
-  );
+interface VideoGenerationJobPayload {
+  input: GenerateVideoInput;
+  historyItemId: string;
+  /** The clip this job generates; absent for jobs queued before items had several clips. */
+  slotIndex?: number;
+  webhookUrl: string;
+}
 
-  // 2. Prepare webhook URL
-  const webhookUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/video/webhook?historyItemId=${historyItemId}&username=${encodeURIComponent(user.username)}`;
+const VIDEO_GENERATION_JOB = 'video_generation';
 
+// Queue handler: uploads the source image and submits one clip to fal.ai once a slot is free.
+// The slot stays occupied until the fal.ai webhook settles the job.
+registerJobHandler<VideoGenerationJobPayload>(VIDEO_GENERATION_JOB, async ({ input, historyItemId, slotIndex = 0, webhookUrl }, job, signal) => {
+  const username = job.username;
   try {
     let falPublicUrl: string;
     
@@ -126,7 +114,7 @@ export async function startVideoGenerationAndCreateHistory(input: GenerateVideoI
       console.log(`Uploading local image for video generation: ${input.image_url}`);
       const fileBuffer = await getBufferFromLocalPath(input.image_url);
       const imageBlob = new Blob([new Uint8Array(fileBuffer)]);
-      falPublicUrl = await uploadToFalStorage(imageBlob, user.username);
+      falPublicUrl = await uploadToFalStorage(imageBlob, username);
     } else {
       falPublicUrl = input.image_url;
     }
@@ -143,36 +131,190 @@ export async function startVideoGenerationAndCreateHistory(input: GenerateVideoI
       // Note: videoModel is intentionally omitted here as the service hardcodes it
     };
 
+    signal.throwIfAborted();
     const taskId = await videoService.startVideoGenerationWithWebhook(
       videoServiceInput, 
       webhookUrl, 
-      user.username
+      username,
+      historyItemId
     );
+    console.log(`Video generation submitted to fal.ai for ${historyItemId} slot ${slotIndex} (request ${taskId})`);
+    setJobExternalId(job.id, taskId);
+    // Lets the reconciler poll Fal for the result if the webhook never arrives
+    setVideoSlotFalRequest(historyItemId, slotIndex, taskId);
+
+    // Cancelled while submitting: the request now exists on fal.ai, so cancel it there too
+    if (signal.aborted) {
+      await videoService.cancelVideoGeneration(taskId, username);
+      return null;
+    }
 
     await updateVideoHistoryItem({ 
-      username: user.username, 
+      username, 
       historyItemId, 
-      videoUrls: [null],
+      slotIndex,
+      videoUrl: null,
       localVideoUrl: null,
       seedUsed: null,
       status: 'processing',
       videoModel: 'pro', // Update history to reflect actual model used
     });
 
-    return { taskId, historyItemId };
+    return AWAIT_CALLBACK;
   } catch (error: any) {
+    if (signal.aborted) {
+      throw error;
+    }
     console.error('Fal.ai submission error:', error);
     
     await updateVideoHistoryItem({ 
-      username: user.username, 
+      username, 
       historyItemId, 
-      videoUrls: [null],
+      slotIndex,
+      videoUrl: null,
       localVideoUrl: null,
       seedUsed: null,
       status: 'failed', 
       error: 'Failed to submit job to fal.ai',
       videoModel: 'pro',
     });
+    throw error;
+  }
+}, {
+  onCancelWaiting: async (job) => {
+    if (job.externalId) {
+      await videoService.cancelVideoGeneration(job.externalId, job.username);
+    }
+  },
+  // The reconciler settles the job when it completes or times out the clip. Expiring the job
+  // sooner would report a failure for a clip that can still complete; this is only a backstop.
+  waitingTimeoutMs: 2 * FAL_VIDEO_TIMEOUT_MS,
+});
+
+/**
+ * The input of each clip: one per variant, or just the input without variants. Variants that
+ * change the motion get a prompt built from their options, like in the web UI.
+ */
+function toSlotInputs(input: GenerateVideoInput, variants?: VideoVariant[]): GenerateVideoInput[] {
+  if (!variants?.length) {
+    return [input];
+  }
+  return variants.map(variant => {
+    const slotInput: GenerateVideoInput = {
+      ...input,
+      seed: variant.seed ?? input.seed,
+      duration: variant.duration ?? input.duration,
+      cameraAction: variant.cameraAction ?? input.cameraAction,
+      modelMovement: variant.modelMovement ?? input.modelMovement,
+    };
+    const changesMotion = slotInput.cameraAction !== input.cameraAction || slotInput.modelMovement !== input.modelMovement;
+    if (!changesMotion) {
+      return slotInput;
+    }
+    const custom = { ...slotInput, selectedPredefinedPrompt: 'custom' };
+    return { ...custom, prompt: buildAIPrompt({ type: 'video', params: custom }) };
+  });
+}
+
+function toVideoSlotParams(input: GenerateVideoInput): VideoSlotParams {
+  // We implicitly set videoModel to 'pro' (or specific ID) for history tracking
+  return {
+    prompt: input.prompt,
+    resolution: input.resolution || '1080p', // Default to 1080p for Pro Fast
+    videoModel: 'pro' as const, // Force logging as pro
+    duration: input.duration || '5',
+    seed: input.seed || -1,
+    sourceImageUrl: input.local_image_path || input.image_url,
+    selectedPredefinedPrompt: input.selectedPredefinedPrompt || 'custom',
+    modelMovement: input.modelMovement || '',
+    fabricMotion: input.fabricMotion || '',
+    cameraAction: input.cameraAction || '',
+    aestheticVibe: input.aestheticVibe || '',
+    cameraFixed: input.camera_fixed || false,
+    aspect_ratio: input.aspect_ratio,
+  };
+}
+
+/**
+ * Creates the video history item for the given user and queues the Fal submission of each clip.
+ * The user is passed explicitly because API requests have no session.
+ * @param options.variants One entry per clip to compare; omitted for a single clip.
+ * @param options.slotInputs The complete input of each clip, e.g. the shots of a storyboard;
+ *   replaces `input` and `variants`, except that the item shows the first clip's parameters.
+ * @returns The history item ID and the queue job ID of each clip.
+ * @throws BudgetExceededError before anything is created if the clips would exceed the user's budget.
+ * @throws If no clip could be queued; the history item is then marked as failed.
+ */
+export async function queueVideoGeneration(
+  input: GenerateVideoInput,
+  username: string,
+  options: { priority?: number; jobStatus?: JobStatus; clientWebhookUrl?: string; variants?: VideoVariant[]; slotInputs?: GenerateVideoInput[] } = {}
+): Promise<{ historyItemId: string; jobIds: string[] }> {
+  const slotInputs = options.slotInputs ?? toSlotInputs(input, options.variants);
+  assertWithinBudget(username, slotInputs.reduce((sum, slotInput) => sum + estimateVideoGenerationCost(slotInput.resolution, slotInput.duration), 0));
+
+  // 1. Create history item with a slot per clip
+  const slotParams = slotInputs.map(toVideoSlotParams);
+  const historyItemId = await addStandaloneVideoHistoryItem(
+    slotInputs.map(() => null),
+    { ...slotParams[0], status: 'processing' },
+    { username, jobStatus: options.jobStatus, webhookUrl: options.clientWebhookUrl, slotParams }
+  );
+
+  // 2. Queue the submission of each clip; they run as soon as the concurrency limits allow
+  const jobIds: string[] = [];
+  let queueError: unknown;
+  for (const [slotIndex, slotInput] of slotInputs.entries()) {
+    const webhookUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/video/webhook?historyItemId=${historyItemId}&slotIndex=${slotIndex}&username=${encodeURIComponent(username)}`;
+    try {
+      jobIds.push(enqueueJob<VideoGenerationJobPayload>({
+        type: VIDEO_GENERATION_JOB,
+        username,
+        historyId: historyItemId,
+        payload: { input: slotInput, historyItemId, slotIndex, webhookUrl },
+        priority: options.priority ?? JOB_PRIORITY.interactive,
+      }));
+    } catch (error) {
+      console.error(`Failed to queue video generation slot ${slotIndex}:`, error);
+      queueError = error;
+      await updateVideoHistoryItem({
+        username,
+        historyItemId,
+        slotIndex,
+        videoUrl: null,
+        localVideoUrl: null,
+        seedUsed: null,
+        status: 'failed',
+        error: 'Failed to queue video generation',
+      });
+    }
+  }
+  if (jobIds.length === 0) {
+    throw queueError;
+  }
+  return { historyItemId, jobIds };
+}
+
+// Function to start video generation with webhook support
+export async function startVideoGenerationAndCreateHistory(input: GenerateVideoInput, variants?: VideoVariant[]): Promise<GenerateVideoOutput> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return { error: 'User not authenticated' };
+  }
+
+  // Each variant is a generation of its own
+  const rateLimit = consumeGenerationQuota(user, { cost: variants?.length || 1 });
+  if (!rateLimit.allowed) {
+    return { error: getRateLimitMessage(rateLimit) };
+  }
+
+  try {
+    const { historyItemId } = await queueVideoGeneration(input, user.username, { variants });
+    return { historyItemId };
+  } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return { error: error.message };
+    }
     return { error: 'Failed to submit video generation job.' };
   }
 }
@@ -207,6 +349,23 @@ export async function generateVideoAction(
       return { message: 'Missing required fields', error: 'Image and prompt are required' };
     }
 
+    // Optional clips to compare, as a JSON array of variants
+    const variantsJson = formData.get('variants') as string | null;
+    let variants: VideoVariant[] | undefined;
+    if (variantsJson) {
+      let parsedJson: unknown;
+      try {
+        parsedJson = JSON.parse(variantsJson);
+      } catch {
+        return { message: 'Invalid variants', error: 'Variants must be a JSON array' };
+      }
+      const parsedVariants = VideoVariantsSchema.safeParse(parsedJson);
+      if (!parsedVariants.success) {
+        return { message: 'Invalid variants', error: parsedVariants.error.issues[0].message };
+      }
+      variants = parsedVariants.data;
+    }
+
     const videoInput: GenerateVideoInput = {
       prompt,
       image_url: imageUrl,
@@ -224,7 +383,7 @@ export async function generateVideoAction(
       aspect_ratio: aspectRatio as any,
     };
 
-    const result = await startVideoGenerationAndCreateHistory(videoInput);
+    const result = await startVideoGenerationAndCreateHistory(videoInput, variants);
 
     if (result.error) {
       return { message: 'Video generation failed to start', error: result.error };
@@ -13,6 +13,7 @@ import * as falImageService from '@/services/fal-api/image.service';
 import { saveFileFromUrl } from '@/services/storage.service';
 import { getCachedImage, setCachedImage } from './cache-manager';
 import { getCurrentUser } from '@/actions/authActions';
+import { grantMediaAccess } from '@/services/media-access.service';
 import mime from 'mime-types';
 import { getBufferFromLocalPath } from '@/lib/server-fs.utils';
 import { createApiLogger } from '@/lib/api-logger';
@@ -49,6 +50,8 @@ export async function upscaleImageAction(
         hash: imageHash,
         path: cachedEntry.path,
       });
+      // Cached results may have been created by another user
+      grantMediaAccess(user.username, cachedEntry.path);
       return { savedPath: cachedEntry.path, outputHash: cachedEntry.hash };
     }
   }
@@ -89,6 +92,7 @@ export async function upscaleImageAction(
       outputHash,
     });
     
+    grantMediaAccess(user.username, relativeUrl);
     return { savedPath: relativeUrl, outputHash };
     
   } catch (error) {
@@ -129,6 +133,8 @@ export async function faceDetailerAction(
         hash: imageHash,
         path: cachedEntry.path,
       });
+      // Cached results may have been created by another user
+      grantMediaAccess(user.username, cachedEntry.path);
       return { savedPath: cachedEntry.path, outputHash: cachedEntry.hash };
     }
   }
@@ -169,6 +175,7 @@ export async function faceDetailerAction(
       outputHash,
     });
     
+    grantMediaAccess(user.username, relativeUrl);
     return { savedPath: relativeUrl, outputHash };
 
   } catch (error) {
@@ -1,10 +1,11 @@
 import 'server-only';
-import { GoogleGenAI } from '@google/genai';
 import { getApiKeyForUser } from '@/services/apiKey.service';
 import { getSetting } from '@/services/settings.service';
 import { withGeminiRetry } from '@/lib/api-retry';
 import { createApiLogger } from '@/lib/api-logger';
-import { imageToGenerativePart } from '@/lib/ai-utils';
+import { createGeminiClient, imageToGenerativePart } from '@/lib/ai-utils';
+import { GEMINI_CALL_COST } from '@/lib/pricing';
+import { recordCost } from '@/services/cost.service';
 
 /**
  * Studio Mode: Get fit description based on the selected fit type
@@ -65,16 +66,18 @@ export function buildStudioModePrompt(
  * @param imageDataUriOrUrl - The source image (data URI, local path, or HTTPS URL)
  * @param username - Username for API key retrieval
  * @param model - Optional specific model to use. If not provided, a fallback strategy is used.
+ * @param historyId - The history item the call is charged to, if any
  * @returns A 2-5 word clothing description, or "clothing item" as fallback on failure
  */
 export async function generateClothingDescription(
   imageDataUriOrUrl: string,
   username: string,
-  model?: string
+  model?: string,
+  historyId?: string
 ): Promise<string> {
   // If a specific model is requested, use it directly without fallback
   if (model) {
-    return generateClothingDescriptionSingle(imageDataUriOrUrl, username, model);
+    return generateClothingDescriptionSingle(imageDataUriOrUrl, username, model, historyId);
   }
 
   // Fallback Strategy: Pro -> Flash -> Flash Lite
@@ -86,7 +89,7 @@ export async function generateClothingDescription(
 
   for (const fallbackModel of fallbackChain) {
     try {
-      return await generateClothingDescriptionSingle(imageDataUriOrUrl, username, fallbackModel);
+      return await generateClothingDescriptionSingle(imageDataUriOrUrl, username, fallbackModel, historyId);
     } catch (error) {
       console.warn(`Gemini model ${fallbackModel} failed, trying next fallback...`, error);
       // Continue to next model in chain
@@ -103,7 +106,8 @@ export async function generateClothingDescription(
 async function generateClothingDescriptionSingle(
   imageDataUriOrUrl: string,
   username: string,
-  model: string
+  model: string,
+  historyId?: string
 ): Promise<string> {
   const logger = createApiLogger('GEMINI_TEXT', 'Clothing Classification', {
     username,
@@ -120,7 +124,7 @@ async function generateClothingDescriptionSingle(
 
   try {
     const apiKey = await getApiKeyForUser(username, 'gemini', 1);
-    const ai = new GoogleGenAI({ apiKey });
+    const ai = createGeminiClient(apiKey);
 
     const imagePart = await imageToGenerativePart(imageDataUriOrUrl);
     logger.progress(`Image converted: ${imagePart.inlineData.mimeType}`);
@@ -139,6 +143,7 @@ async function generateClothingDescriptionSingle(
       }
       return result;
     }, 'Clothing Classification');
+    recordCost({ username, historyId, provider: 'gemini', operation: 'garment_description', model, amount: GEMINI_CALL_COST });
 
     const description = response.text?.trim() || "clothing item";
     
@@ -165,13 +170,15 @@ export async function constructStudioPrompt(
   fit: 'slim' | 'regular' | 'relaxed',
   username: string,
   templateOverride?: string,
-  model?: string
+  model?: string,
+  historyId?: string
 ): Promise<{ classification: string; finalPrompt: string }> {
   // Step 1: Generate a dynamic clothing description using AI
   const classification = await generateClothingDescription(
     imageDataUriOrUrl,
     username,
-    model
+    model,
+    historyId
   );
   
   // Step 2: Build the Studio Mode prompt and inject the clothing description
@@ -2,7 +2,6 @@
 'use server';
 
 import 'server-only';
-import { after } from 'next/server';
 
 /**
  * @fileOverview AI agent for editing an image based on a text prompt,
@@ -32,9 +31,14 @@ import type { FullUser } from '@/services/db';
 import * as dbService from '@/services/db';
 import { addHistoryItem } from '@/actions/historyActions';
 import { generateWithFalEditModel } from '@/services/fal-api/image.service';
-import { downloadAndSaveImageFromUrl } from '@/services/storage.service';
-import { removeBackgroundAction } from '@/ai/actions/remove-background.action';
-import { upscaleImageAction, faceDetailerAction } from '@/ai/actions/upscale-image.action';
+import * as falImageService from '@/services/fal-api/image.service';
+import { downloadAndSaveImageFromUrl, saveFileFromUrl } from '@/services/storage.service';
+import { publishWebhookEvent } from '@/services/webhook.service';
+import { assertWithinBudget, recordCost } from '@/services/cost.service';
+import { estimateImageGenerationCost } from '@/lib/pricing';
+import { resolveImageModel } from '@/services/image-models.service';
+import type { ImageModel } from '@/lib/image-models';
+import { toAbsoluteImageUrls } from '@/services/media-access.service';
 // Import Axios and HttpsProxyAgent for explicit proxy control
 // Axios and HttpsProxyAgent removed as they were only for Google API
 import { withGeminiRetry } from '@/lib/api-retry';
@@ -45,6 +49,9 @@ import { createApiLogger } from '@/lib/api-logger';
 // Import Studio Prompt domain service
 import { constructStudioPrompt } from '@/ai/domain/studio-prompt';
 
+// Import job queue for concurrency-limited background execution
+import { enqueueJob, getJobLifecycle, registerJobHandler, JOB_PRIORITY } from '@/services/job-queue.service';
+
 // ===== RANDOMIZATION PROBABILITY CONSTANTS =====
 /** Ethnicity and pose style — high-frequency randomization */
 const RANDOMIZATION_CHANCE_HIGH = 0.5;
@@ -120,7 +127,7 @@ const GenerateImageEditInputSchema = z.object({
   enhanceFace: z.boolean().optional().default(false).describe('Whether to enhance face details before generation.'),
   generationMode: z.enum(['creative', 'studio']).optional().describe('The generation mode: creative or studio.'),
   studioFit: z.enum(['slim', 'regular', 'relaxed']).optional().describe('The fit setting for Studio Mode.'),
-  aspectRatio: z.string().optional().describe('The aspect ratio for Nano Banana Pro (e.g., "9:16", "auto").'), // NEW
+  aspectRatio: z.string().optional().describe('The aspect ratio, for models that support one (e.g., "9:16", "auto").'), // NEW
 });
 export type GenerateImageEditInput = z.infer<typeof GenerateImageEditInputSchema>;
 
@@ -136,12 +143,12 @@ async function performSingleImageGeneration(
   user: FullUser,
   flowIdentifier: string,
   keyIndex: 1 | 2 | 3,
-  modelId: string // Changed from generationConfigOverride
+  model: ImageModel,
+  historyId: string | undefined,
+  signal?: AbortSignal
 ): Promise<SingleImageOutput> {
   const username = user.username;
-
-  // Use the passed modelId directly
-  const modelEndpoint = modelId;
+  const modelEndpoint = model.endpoint;
 
   const logger = createApiLogger('FAL_IMAGE', `Image Gen (${modelEndpoint})`, {
     username,
@@ -192,16 +199,17 @@ async function performSingleImageGeneration(
       input.prompt || '',
       publicImageUrl,
       username,
-      modelEndpoint as any, // Cast to valid enum
+      model,
       await getApiKeyForUser(username, 'fal'), // Inject User API Key
-      { aspectRatio: input.aspectRatio } // NEW: Pass options object
+      { aspectRatio: input.aspectRatio, signal } // NEW: Pass options object
     );
+    recordCost({ username, historyId, provider: 'fal', operation: 'image_generation', model: modelEndpoint, amount: model.costPerImage });
 
     logger.progress(`Downloading generated image...`);
 
     const { relativeUrl: localImageUrl } = await downloadAndSaveImageFromUrl(
       falResult.imageUrl,
-      `RefashionAI_${user.image_generation_model}_${flowIdentifier}`,
+      `RefashionAI_${model.id}_${flowIdentifier}`,
       'generated_images'
     );
 
@@ -221,29 +229,86 @@ async function performSingleImageGeneration(
 // ===== EXTRACTED WORKFLOW HELPERS =====
 
 /**
- * Persist final generation results (images and errors) to the history record.
- * Determines overall status (completed / failed) from per-slot error state.
+ * Summarise per-slot results into a single outcome (completed / partial / failed).
  */
-function saveGenerationResults(
-  historyId: string,
+function buildGenerationOutcome(
   editedImageUrls: (string | null)[],
   errors: (string | null)[],
-  constructedPrompt: string,
-  modeLabel: string
-): void {
+  constructedPrompt: string
+): GenerationOutcome {
   const allFailed = errors.every(e => e);
   const someFailed = errors.some(e => e);
-  dbService.updateHistoryItem(historyId, {
-    constructedPrompt,
+  return {
+    status: allFailed ? 'failed' : someFailed ? 'partial' : 'completed',
     editedImageUrls,
-    status: allFailed ? 'failed' : 'completed',
+    errors,
+    constructedPrompt,
     error: allFailed
       ? errors.filter(Boolean).join('; ')
       : someFailed
         ? `Partial failure: ${errors.filter(Boolean).join('; ')}`
         : undefined,
+  };
+}
+
+/**
+ * Publish `image.completed` / `image.failed` to the user's registered webhook endpoints.
+ * Skipped when the job (or its batch) has a per-request webhookUrl, which overrides them.
+ * Fire-and-forget: delivery failures are retried by the webhook service.
+ */
+function publishImageEvent(historyId: string, username: string, outcome: Pick<GenerationOutcome, 'status' | 'error'> & { editedImageUrls?: (string | null)[] }): void {
+  const item = dbService.findHistoryItemById(historyId);
+  if (!item || item.webhookUrl || (item.batchId && dbService.findBatchById(item.batchId)?.webhookUrl)) {
+    return;
+  }
+
+  const failed = outcome.status === 'failed';
+  publishWebhookEvent(username, failed ? 'image.failed' : 'image.completed', {
+    historyId,
+    status: outcome.status,
+    ...(!failed && outcome.editedImageUrls && { generatedImageUrls: toAbsoluteImageUrls(outcome.editedImageUrls) }),
+    ...(outcome.error && { error: outcome.error }),
+  }, { historyId }).catch(error => {
+    console.error(`Failed to publish webhook event for ${historyId}:`, error);
+  });
+}
+
+/**
+ * Persist final generation results (images and errors) to the history record.
+ * Partial results keep the 'completed' history status; the error column records the failed slots.
+ */
+function saveGenerationResults(historyId: string, username: string, outcome: GenerationOutcome, modeLabel: string): void {
+  dbService.updateHistoryItem(historyId, {
+    constructedPrompt: outcome.constructedPrompt,
+    editedImageUrls: outcome.editedImageUrls,
+    status: outcome.status === 'failed' ? 'failed' : 'completed',
+    error: outcome.error,
   });
   console.log(`✅ ${modeLabel}: History updated for ${historyId}`);
+  publishImageEvent(historyId, username, outcome);
+}
+
+/**
+ * Run a single Fal.ai processing step for the given user and save the result locally.
+ * Local paths are sent as data URIs; data URIs and public URLs are passed through.
+ * The user is passed explicitly because queued jobs run outside the originating request.
+ */
+async function runPipelineStep(
+  imageUrl: string,
+  username: string,
+  historyId: string | undefined,
+  step: (imageUrlOrDataUri: string, username: string, historyId?: string) => Promise<string>,
+  filePrefix: string
+): Promise<string> {
+  let source = imageUrl;
+  if (imageUrl.startsWith('/')) {
+    const buffer = await getBufferFromLocalPath(imageUrl);
+    const mimeType = mime.lookup(imageUrl) || 'image/png';
+    source = `data:${mimeType};base64,${buffer.toString('base64')}`;
+  }
+  const outputImageUrl = await step(source, username, historyId);
+  const { relativeUrl } = await saveFileFromUrl(outputImageUrl, filePrefix, 'processed_images', 'png');
+  return relativeUrl;
 }
 
 /**
@@ -252,7 +317,10 @@ function saveGenerationResults(
  */
 async function applyImageProcessingPipeline(
   imageUrl: string,
-  options: { removeBackground?: boolean; upscale?: boolean; enhanceFace?: boolean }
+  username: string,
+  historyId: string | undefined,
+  options: { removeBackground?: boolean; upscale?: boolean; enhanceFace?: boolean },
+  signal?: AbortSignal
 ): Promise<string> {
   if (!options.removeBackground && !options.upscale && !options.enhanceFace) {
     return imageUrl;
@@ -264,20 +332,19 @@ async function applyImageProcessingPipeline(
   try {
     if (options.removeBackground) {
       console.log('🎨 Step 1: Removing background...');
-      const bgResult = await removeBackgroundAction(processedUrl, undefined);
-      processedUrl = bgResult.savedPath;
+      processedUrl = await runPipelineStep(processedUrl, username, historyId, falImageService.removeBackground, 'RefashionAI_bg_removed');
       console.log(`✅ Background removed. New path: ${processedUrl}`);
     }
+    signal?.throwIfAborted();
     if (options.upscale) {
       console.log('🔍 Step 2: Upscaling image...');
-      const upscaleResult = await upscaleImageAction(processedUrl, undefined);
-      processedUrl = upscaleResult.savedPath;
+      processedUrl = await runPipelineStep(processedUrl, username, historyId, falImageService.upscaleAndEnhance, 'RefashionAI_upscaled');
       console.log(`✅ Image upscaled. New path: ${processedUrl}`);
     }
+    signal?.throwIfAborted();
     if (options.enhanceFace) {
       console.log('👤 Step 3: Enhancing face details...');
-      const faceResult = await faceDetailerAction(processedUrl, undefined);
-      processedUrl = faceResult.savedPath;
+      processedUrl = await runPipelineStep(processedUrl, username, historyId, falImageService.detailFaces, 'RefashionAI_face_enhanced');
       console.log(`✅ Face details enhanced. New path: ${processedUrl}`);
     }
     console.log('✨ Pipeline complete. Processed image ready for generation.');
@@ -358,8 +425,9 @@ async function executeStudioWorkflow(
   user: FullUser,
   historyId: string | undefined,
   imagesToGenerateCount: number,
-  modelEndpoint: string
-): Promise<void> {
+  model: ImageModel,
+  signal?: AbortSignal
+): Promise<GenerationOutcome> {
   const username = user.username;
   console.log(`🚀 Routing to Studio Mode for user ${username}`);
 
@@ -370,10 +438,18 @@ async function executeStudioWorkflow(
   const { classification, finalPrompt: studioPrompt } = await constructStudioPrompt(
     input.imageDataUriOrUrl,
     input.studioFit,
-    username
+    username,
+    undefined,
+    undefined,
+    historyId
   );
 
+  signal?.throwIfAborted();
   console.log(`🏷️ Clothing identified as: "${classification}"`);
+  if (historyId) {
+    // Stored for history search
+    dbService.updateHistoryItem(historyId, { classification });
+  }
   console.log('📝 Studio Mode Prompt constructed with dynamic clothing description.');
 
   // Parallel generation
@@ -383,9 +459,10 @@ async function executeStudioWorkflow(
         ...input,
         imageDataUriOrUrl: input.imageDataUriOrUrl,
         prompt: studioPrompt,
-      }, user, `studio-flow${i}`, i as 1 | 2 | 3, modelEndpoint);
+      }, user, `studio-flow${i}`, i as 1 | 2 | 3, model, historyId, signal);
 
-      if (historyId && result.editedImageUrl) {
+      // Late results of a cancelled job are discarded
+      if (historyId && result.editedImageUrl && !signal?.aborted) {
         dbService.updateHistoryImageSlot(historyId, i - 1, result.editedImageUrl);
         console.log(`✅ Studio Mode: Image ${i} saved to DB for ${historyId}`);
       }
@@ -411,9 +488,11 @@ async function executeStudioWorkflow(
     }
   });
 
-  if (historyId) {
-    saveGenerationResults(historyId, editedImageUrls, errors, studioPrompt, 'Studio Mode');
+  const outcome = buildGenerationOutcome(editedImageUrls, errors, studioPrompt);
+  if (historyId && !signal?.aborted) {
+    saveGenerationResults(historyId, username, outcome, 'Studio Mode');
   }
+  return outcome;
 }
 
 /**
@@ -425,18 +504,19 @@ async function executeCreativeWorkflow(
   user: FullUser,
   historyId: string | undefined,
   imagesToGenerateCount: number,
-  modelEndpoint: string
-): Promise<void> {
+  model: ImageModel,
+  signal?: AbortSignal
+): Promise<GenerationOutcome> {
   const username = user.username;
   console.log(`🎨 Routing to Creative Mode for user ${username}`);
 
   // Apply non-destructive image processing pipeline
   const processedImageUrl = input.imageDataUriOrUrl
-    ? await applyImageProcessingPipeline(input.imageDataUriOrUrl, {
+    ? await applyImageProcessingPipeline(input.imageDataUriOrUrl, username, historyId, {
         removeBackground: input.removeBackground,
         upscale: input.upscale,
         enhanceFace: input.enhanceFace,
-      })
+      }, signal)
     : input.imageDataUriOrUrl;
 
   const processedInput = { ...input, imageDataUriOrUrl: processedImageUrl };
@@ -447,11 +527,12 @@ async function executeCreativeWorkflow(
     username,
     imagesToGenerateCount
   );
+  signal?.throwIfAborted();
 
   // Log all prompts
   console.log(`\n🚀 ALL AI-GENERATED PROMPTS SUMMARY:`);
   console.log('='.repeat(100));
-  console.log(`Target Model for Generation: ${user.image_generation_model}`);
+  console.log(`Target Model for Generation: ${model.id}`);
   prompts.forEach((prompt, index) => {
     console.log(`\n📝 PROMPT ${index + 1}:`);
     if (prompt) {
@@ -474,10 +555,13 @@ async function executeCreativeWorkflow(
         user,
         `flow${index + 1}`,
         (index + 1) as 1 | 2 | 3,
-        modelEndpoint
+        model,
+        historyId,
+        signal
       );
 
-      if (historyId && result.editedImageUrl) {
+      // Late results of a cancelled job are discarded
+      if (historyId && result.editedImageUrl && !signal?.aborted) {
         dbService.updateHistoryImageSlot(historyId, index, result.editedImageUrl);
         console.log(`✅ Creative Mode: Image ${index + 1} saved to DB for ${historyId}`);
       }
@@ -504,9 +588,11 @@ async function executeCreativeWorkflow(
     }
   });
 
-  if (historyId) {
-    saveGenerationResults(historyId, editedImageUrls, errors, constructedPromptForHistory, 'Creative Mode');
+  const outcome = buildGenerationOutcome(editedImageUrls, errors, constructedPromptForHistory);
+  if (historyId && !signal?.aborted) {
+    saveGenerationResults(historyId, username, outcome, 'Creative Mode');
   }
+  return outcome;
 }
 
 
@@ -519,12 +605,99 @@ const GenerateMultipleImagesOutputSchema = z.object({
 });
 export type GenerateMultipleImagesOutput = z.infer<typeof GenerateMultipleImagesOutputSchema>;
 
+/**
+ * Final result of a background generation, reported once every slot has settled.
+ * 'partial' means at least one slot produced an image and at least one failed.
+ */
+export interface GenerationOutcome {
+  status: 'completed' | 'partial' | 'failed';
+  editedImageUrls: (string | null)[];
+  errors: (string | null)[];
+  constructedPrompt: string;
+  error?: string;
+}
+
+/**
+ * Lifecycle handles for the queued generation job.
+ * `started` resolves when a queue worker picks the job up; `completion` resolves
+ * (never rejects) once the results have been persisted to the history record.
+ */
+export interface GenerationLifecycle {
+  jobId: string;
+  started: Promise<void>;
+  completion: Promise<GenerationOutcome>;
+}
+
+interface ImageGenerationJobPayload {
+  input: GenerateImageEditInput;
+  historyId?: string;
+}
+
+const IMAGE_GENERATION_JOB = 'image_generation';
+
+/**
+ * Resolves the registry model for the user and how many images it generates.
+ * @throws Error when no image model is available.
+ */
+function resolveModelConfig(user: FullUser): { imagesToGenerateCount: number; model: ImageModel } {
+  const model = resolveImageModel(user.image_generation_model);
+  if (!model) {
+    throw new Error('No image generation model is available. Please contact an administrator.');
+  }
+  return { imagesToGenerateCount: model.defaultImageCount, model };
+}
+
+/**
+ * Builds the outcome reported for a generation that failed before any slot settled.
+ */
+function buildFailedOutcome(input: GenerateImageEditInput, imagesToGenerateCount: number, message: string): GenerationOutcome {
+  return {
+    status: 'failed',
+    editedImageUrls: Array(imagesToGenerateCount).fill(null),
+    errors: Array(imagesToGenerateCount).fill(message),
+    constructedPrompt: input.prompt || '',
+    error: message,
+  };
+}
+
+// Queue handler: runs the Studio or Creative workflow once a concurrency slot is free.
+registerJobHandler<ImageGenerationJobPayload>(IMAGE_GENERATION_JOB, async ({ input, historyId }, job, signal) => {
+  // Re-fetch the user: keys and model choice may have changed while the job was queued.
+  const user = dbService.findUserByUsername(job.username);
+  if (!user) {
+    throw new Error(`User ${job.username} not found.`);
+  }
+  const { imagesToGenerateCount, model } = resolveModelConfig(user);
+
+  try {
+    console.log(`🔄 Starting background generation for ${historyId}`);
+    return input.generationMode === 'studio'
+      ? await executeStudioWorkflow(input, user, historyId, imagesToGenerateCount, model, signal)
+      : await executeCreativeWorkflow(input, user, historyId, imagesToGenerateCount, model, signal);
+  } catch (error) {
+    if (signal.aborted) {
+      console.log(`🛑 Background generation cancelled for ${historyId}`);
+      throw error;
+    }
+    console.error(`❌ Background generation failed for ${historyId}:`, error);
+    if (historyId) {
+      dbService.updateHistoryItem(historyId, {
+        status: 'failed',
+        error: (error as Error).message
+      });
+      publishImageEvent(historyId, job.username, { status: 'failed', error: (error as Error).message });
+    }
+    throw error;
+  }
+});
+
 
 export async function generateImageEdit(
   input: GenerateImageEditInput,
   username: string,
-  existingHistoryId?: string
-): Promise<GenerateMultipleImagesOutput & { newHistoryId?: string }> {
+  existingHistoryId?: string,
+  priority: number = JOB_PRIORITY.interactive
+): Promise<GenerateMultipleImagesOutput & { newHistoryId?: string } & GenerationLifecycle> {
   if (!username) {
     throw new Error('Username is required to generate images.');
   }
@@ -535,17 +708,14 @@ export async function generateImageEdit(
     throw new Error(`User ${username} not found.`);
   }
 
-  // Determine how many images to generate based on the model
-  // Nano Banana Pro = 1 image
-  // Gemini 2.5 = 3 images
-  const imagesToGenerateCount = user.image_generation_model === 'fal_nano_banana_pro' ? 1 : 3;
+  const { imagesToGenerateCount, model } = resolveModelConfig(user);
 
-  let modelEndpoint = 'fal-ai/gemini-25-flash-image/edit';
-  if (user.image_generation_model === 'fal_nano_banana_pro') {
-    modelEndpoint = 'fal-ai/nano-banana-pro/edit';
-  }
+  console.log(`[generateImageEdit] User: ${username}, Model: ${model.id}, Count: ${imagesToGenerateCount}`);
 
-  console.log(`[generateImageEdit] User: ${username}, Model: ${user.image_generation_model}, Count: ${imagesToGenerateCount}`);
+  // API jobs (existing history items) were checked against the budget when they were created
+  if (!existingHistoryId) {
+    assertWithinBudget(username, estimateImageGenerationCost(model, input));
+  }
 
   // 1. Create initial history item EARLY (if not existing)
   let historyId = existingHistoryId;
@@ -566,7 +736,7 @@ export async function generateImageEdit(
         originalClothingUrl: input.imageDataUriOrUrl,
         editedImageUrls: [null, null, null, null],
         settingsMode: input.settingsMode || 'basic',
-        imageGenerationModel: user.image_generation_model,
+        imageGenerationModel: model.id,
         status: 'processing',
         username,
         generationMode: input.generationMode,
@@ -579,26 +749,20 @@ export async function generateImageEdit(
     }
   }
 
-  // 2. Schedule background work using Next.js 16 after()
-  after(async () => {
-    try {
-      console.log(`🔄 Starting background generation for ${historyId}`);
-
-      if (input.generationMode === 'studio') {
-        await executeStudioWorkflow(input, user, historyId, imagesToGenerateCount, modelEndpoint);
-      } else {
-        await executeCreativeWorkflow(input, user, historyId, imagesToGenerateCount, modelEndpoint);
-      }
+  // 2. Persist the work in the job queue; it starts as soon as the concurrency limits allow
+  const jobId = enqueueJob<ImageGenerationJobPayload>({
+    type: IMAGE_GENERATION_JOB,
+    username,
+    historyId,
+    payload: { input, historyId },
+    priority,
+  });
 
-    } catch (error) {
-      console.error(`❌ Background generation failed for ${historyId}:`, error);
-      if (historyId) {
-        dbService.updateHistoryItem(historyId, {
-          status: 'failed',
-          error: (error as Error).message
-        });
-      }
-    }
+  const { started, settled } = getJobLifecycle(jobId);
+  const completion = settled.then((job): GenerationOutcome => {
+    if (job.status === 'completed') return job.result as GenerationOutcome;
+    const message = job.status === 'cancelled' ? 'Generation cancelled' : job.error || 'Generation failed';
+    return buildFailedOutcome(input, imagesToGenerateCount, message);
   });
 
   // 3. Return immediate response
@@ -606,5 +770,8 @@ export async function generateImageEdit(
     editedImageUrls: [null, null, null],
     constructedPrompt: 'Processing...',
     newHistoryId: historyId,
+    jobId,
+    started,
+    completion,
   };
 }
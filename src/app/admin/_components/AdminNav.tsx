@@ -3,13 +3,15 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutDashboard, Users, Settings, History } from 'lucide-react';
+import { LayoutDashboard, Users, Settings, History, Webhook, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 const NAV_ITEMS = [
   { href: '/admin', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/admin/all-history', label: 'All History', icon: History },
   { href: '/admin/users', label: 'Users', icon: Users },
+  { href: '/admin/api-keys', label: 'API Keys', icon: KeyRound },
+  { href: '/admin/webhooks', label: 'Webhooks', icon: Webhook },
   { href: '/admin/settings', label: 'Settings', icon: Settings },
 ] as const;
 
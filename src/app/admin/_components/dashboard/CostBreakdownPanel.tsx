@@ -0,0 +1,48 @@
+// src/app/admin/_components/dashboard/CostBreakdownPanel.tsx
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { CostBreakdownData } from '@/services/analytics.service';
+import type { LucideIcon } from 'lucide-react';
+
+interface CostBreakdownPanelProps {
+  title: string;
+  data: CostBreakdownData[];
+  Icon: LucideIcon;
+}
+
+export function CostBreakdownPanel({ title, data, Icon }: CostBreakdownPanelProps) {
+  const totalAmount = data.reduce((sum, item) => sum + item.amount, 0);
+  const maxAmount = data.length > 0 ? data[0].amount : 0;
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icon className="h-5 w-5" />
+          {title}
+        </CardTitle>
+        <CardDescription>
+          ${totalAmount.toFixed(2)} estimated across {data.reduce((sum, item) => sum + item.calls, 0)} provider calls.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.length > 0 ? (
+          data.map((item) => (
+            <div key={item.key} className="space-y-1">
+              <div className="flex justify-between gap-2 text-sm">
+                <span className="font-medium truncate" title={item.key}>{item.label}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  ${item.amount.toFixed(2)} · {item.calls} calls
+                </span>
+              </div>
+              <Progress value={maxAmount > 0 ? (item.amount / maxAmount) * 100 : 0} />
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No spend in this date range.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { MAX_IMAGE_RATING } from '@/lib/image-feedback';
 import type { TopParameterUsageData } from '@/services/analytics.service';
 import type { LucideIcon } from 'lucide-react';
 
@@ -9,11 +10,14 @@ interface ParameterInsightPanelProps {
   title: string;
   data: TopParameterUsageData[];
   Icon: LucideIcon;
+  /** Whether the data is ranked by number of uses or by average image rating. */
+  metric?: 'usage' | 'rating';
 }
 
-export function ParameterInsightPanel({ title, data, Icon }: ParameterInsightPanelProps) {
+export function ParameterInsightPanel({ title, data, Icon, metric = 'usage' }: ParameterInsightPanelProps) {
   const totalCount = data.reduce((sum, item) => sum + item.count, 0);
   const maxCount = data.length > 0 ? data[0].count : 0;
+  const totalRated = data.reduce((sum, item) => sum + item.rated_count, 0);
 
   return (
     <Card variant="glass">
@@ -23,7 +27,9 @@ export function ParameterInsightPanel({ title, data, Icon }: ParameterInsightPan
           {title}
         </CardTitle>
         <CardDescription>
-          Based on {totalCount} total uses across all history.
+          {metric === 'rating'
+            ? `Based on ${totalRated} rated images across all history.`
+            : `Based on ${totalCount} total uses across all history.`}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -34,15 +40,25 @@ export function ParameterInsightPanel({ title, data, Icon }: ParameterInsightPan
                 <span className="font-medium capitalize truncate" title={item.value.replace(/_/g, ' ')}>
                   {item.value.replace(/_/g, ' ')}
                 </span>
-                <span className="text-muted-foreground">{item.count} uses</span>
+                <span className="text-muted-foreground">
+                  {metric === 'rating'
+                    ? `${item.average_rating?.toFixed(1) ?? '–'} ★ (${item.rated_count} rated, ${item.favorite_count} fav)`
+                    : `${item.count} uses`}
+                </span>
               </div>
-              <Progress value={maxCount > 0 ? (item.count / maxCount) * 100 : 0} />
+              <Progress
+                value={metric === 'rating'
+                  ? ((item.average_rating ?? 0) / MAX_IMAGE_RATING) * 100
+                  : maxCount > 0 ? (item.count / maxCount) * 100 : 0}
+              />
             </div>
           ))
         ) : (
-          <p className="text-sm text-muted-foreground text-center py-4">No data available.</p>
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {metric === 'rating' ? 'No rated images yet.' : 'No data available.'}
+          </p>
         )}
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
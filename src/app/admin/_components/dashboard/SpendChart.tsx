@@ -0,0 +1,64 @@
+// src/app/admin/_components/dashboard/SpendChart.tsx
+'use client';
+
+import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, Tooltip } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { GenerationActivityData } from '@/services/analytics.service';
+import { DollarSign } from 'lucide-react';
+
+interface SpendChartProps {
+  data: GenerationActivityData[];
+  username?: string;
+}
+
+export function SpendChart({ data, username }: SpendChartProps) {
+  return (
+    <Card variant="glass" className="h-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Daily Spend
+        </CardTitle>
+        <CardDescription>
+          Estimated provider cost per day{username ? ` for ${username}` : ''}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pl-2 pr-6 h-[350px] relative">
+        {data.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center z-10">
+            <div className="text-center text-muted-foreground">
+              <DollarSign className="mx-auto h-8 w-8 mb-2" />
+              <p>No spend in this date range.</p>
+            </div>
+          </div>
+        )}
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data}>
+            <XAxis
+              dataKey="day"
+              stroke="hsl(var(--muted-foreground))"
+              fontSize={12}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              stroke="hsl(var(--muted-foreground))"
+              fontSize={12}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: any) => `$${value}`}
+            />
+            <Tooltip
+                formatter={(value: any) => [`$${Number(value).toFixed(2)}`, 'Spend']}
+                contentStyle={{ 
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                }}
+            />
+            <Bar dataKey="cost" name="Spend" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
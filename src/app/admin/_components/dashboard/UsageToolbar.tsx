@@ -0,0 +1,100 @@
+// src/app/admin/_components/dashboard/UsageToolbar.tsx
+'use client';
+
+import { useTransition } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { CalendarRange, Download, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface UsageToolbarProps {
+  fromDay: string;
+  toDay: string;
+  username?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function buildQuery(fromDay: string, toDay: string, username?: string): string {
+  const params = new URLSearchParams({ from: fromDay, to: toDay });
+  if (username) params.set('user', username);
+  return params.toString();
+}
+
+export function UsageToolbar({ fromDay, toDay: toDayValue, username }: UsageToolbarProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const navigate = (from: string, to: string, user?: string) => {
+    startTransition(() => {
+      router.push(`/admin?${buildQuery(from, to, user)}`, { scroll: false });
+    });
+  };
+
+  const applyPreset = (days: number | 'month') => {
+    const now = Date.now();
+    const from = days === 'month' ? `${toDay(now).slice(0, 7)}-01` : toDay(now - (days - 1) * DAY_MS);
+    navigate(from, toDay(now), username);
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="space-y-1">
+        <Label htmlFor="usage-from" className="text-xs">From</Label>
+        <Input
+          id="usage-from"
+          type="date"
+          value={fromDay}
+          max={toDayValue}
+          onChange={(e) => e.target.value && navigate(e.target.value, toDayValue, username)}
+          disabled={isPending}
+          className="w-40"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="usage-to" className="text-xs">To</Label>
+        <Input
+          id="usage-to"
+          type="date"
+          value={toDayValue}
+          min={fromDay}
+          onChange={(e) => e.target.value && navigate(fromDay, e.target.value, username)}
+          disabled={isPending}
+          className="w-40"
+        />
+      </div>
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" onClick={() => applyPreset(7)} disabled={isPending}>7d</Button>
+        <Button variant="outline" size="sm" onClick={() => applyPreset(30)} disabled={isPending}>30d</Button>
+        <Button variant="outline" size="sm" onClick={() => applyPreset('month')} disabled={isPending}>
+          <CalendarRange className="mr-1 h-4 w-4" />
+          This month
+        </Button>
+      </div>
+      {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground mb-2" />}
+      <div className="flex items-center gap-2 ml-auto">
+        {username && (
+          <Badge variant="secondary" className="gap-1">
+            User: {username}
+            <Link href={`/admin?${buildQuery(fromDay, toDayValue)}`} scroll={false} aria-label="Show all users">
+              <X className="h-3 w-3" />
+            </Link>
+          </Badge>
+        )}
+        <Button asChild variant="outline" size="sm">
+          <a href={`/api/admin/cost-export?${buildQuery(fromDay, toDayValue, username)}`} download>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+}
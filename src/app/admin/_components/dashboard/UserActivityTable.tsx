@@ -15,9 +15,15 @@ import { Users } from 'lucide-react';
 
 interface UserActivityTableProps {
   userStats: UserActivityData[];
+  /** Date range of the dashboard, kept when drilling down into a user. */
+  range: { fromDay: string; toDay: string };
+  selectedUsername?: string;
 }
 
-export function UserActivityTable({ userStats }: UserActivityTableProps) {
+export function UserActivityTable({ userStats, range, selectedUsername }: UserActivityTableProps) {
+  const getDrillDownHref = (username: string) =>
+    `/admin?${new URLSearchParams({ from: range.fromDay, to: range.toDay, user: username })}`;
+
   return (
     <Card variant="glass" className="h-full">
       <CardHeader>
@@ -25,7 +31,7 @@ export function UserActivityTable({ userStats }: UserActivityTableProps) {
           <Users className="h-5 w-5" />
           User Activity
         </CardTitle>
-        <CardDescription>A summary of generation activity by user.</CardDescription>
+        <CardDescription>Generations and estimated spend by user in the selected date range.</CardDescription>
       </CardHeader>
       <CardContent>
         <Table>
@@ -34,27 +40,29 @@ export function UserActivityTable({ userStats }: UserActivityTableProps) {
               <TableHead>Username</TableHead>
               <TableHead className="text-right">Total Generations</TableHead>
               <TableHead className="text-right">Failure Rate</TableHead>
+              <TableHead className="text-right">Spend</TableHead>
               <TableHead>Last Active</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {userStats.length > 0 ? (
               userStats.map((user) => (
-                <TableRow key={user.username}>
+                <TableRow key={user.username} data-state={user.username === selectedUsername ? 'selected' : undefined}>
                   <TableCell className="font-medium">
-                    <Link href={`/admin/users?user=${user.username}`} className="hover:underline text-primary">
+                    <Link href={getDrillDownHref(user.username)} scroll={false} className="hover:underline text-primary">
                       {user.username}
                     </Link>
                   </TableCell>
                   <TableCell className="text-right">{user.total_generations}</TableCell>
                   <TableCell className="text-right">{user.failureRate}</TableCell>
+                  <TableCell className="text-right">${user.total_cost.toFixed(2)}</TableCell>
                   <TableCell className="text-sm text-muted-foreground">{user.last_active}</TableCell>
                 </TableRow>
               ))
             ) : (
               <TableRow>
-                <TableCell colSpan={4} className="h-24 text-center">
-                  No user activity yet.
+                <TableCell colSpan={5} className="h-24 text-center">
+                  No user activity in this date range.
                 </TableCell>
               </TableRow>
             )}
@@ -0,0 +1,26 @@
+// src/app/admin/api-keys/page.tsx
+import { connection } from 'next/server';
+import { KeyRound } from 'lucide-react';
+import { getAllApiKeys } from '@/actions/adminApiKeyActions';
+import { getAllUsers } from '@/actions/adminUserActions';
+import { ApiKeysCard } from '@/components/ApiKeysCard';
+import { PageHeader } from '@/components/ui/page-header';
+
+export default async function AdminApiKeysPage({ searchParams }: { searchParams: Promise<{ username?: string }> }) {
+  await connection();
+
+  const { username } = await searchParams;
+  const [apiKeys, users] = await Promise.all([getAllApiKeys(username), getAllUsers()]);
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        icon={KeyRound}
+        title="API Keys"
+        description={username ? `Scoped API v1 keys of ${username}.` : 'Scoped API v1 keys of every user.'}
+        className="text-left py-0"
+      />
+      <ApiKeysCard apiKeys={apiKeys} usernames={users.map(user => user.username)} defaultUsername={username} />
+    </div>
+  );
+}
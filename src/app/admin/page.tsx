@@ -9,7 +9,13 @@ import {
   Users,
   HardDrive,
   Palette,
-  Image as ImageIcon
+  Image as ImageIcon,
+  DollarSign,
+  Receipt,
+  Cpu,
+  Layers,
+  Star,
+  FileText,
 } from 'lucide-react';
 
 // Import granular service functions directly
@@ -18,14 +24,21 @@ import {
   getTotalMediaStorage, 
   getGenerationActivity, 
   getUserActivity, 
-  getTopParameterUsage 
+  getTopParameterUsage,
+  getSpendSummary,
+  getCostBreakdown,
+  parseDayRange,
 } from '@/services/analytics.service';
+import type { DayRange } from '@/services/analytics.service';
 
 import { KpiCard } from './_components/dashboard/KpiCard';
 import { UserActivityTable } from './_components/dashboard/UserActivityTable';
 import { ParameterInsightPanel } from './_components/dashboard/ParameterInsightPanel';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ActivityChart } from './_components/dashboard/ActivityChart';
+import { UsageToolbar } from './_components/dashboard/UsageToolbar';
+import { SpendChart } from './_components/dashboard/SpendChart';
+import { CostBreakdownPanel } from './_components/dashboard/CostBreakdownPanel';
 
 // --- Granular Data Fetching Components ---
 
@@ -71,9 +84,57 @@ async function ActivitySection() {
   return <ActivityChart initialData={activity} />;
 }
 
-async function UserStatsSection() {
-  const userStats = await getUserActivity();
-  return <UserActivityTable userStats={userStats} />;
+async function UserStatsSection({ range, username }: { range: DayRange; username?: string }) {
+  const userStats = await getUserActivity(range);
+  return <UserActivityTable userStats={userStats} range={range} selectedUsername={username} />;
+}
+
+async function SpendKpiSection({ range, username }: { range: DayRange; username?: string }) {
+  const summary = await getSpendSummary(range, username);
+  const scope = username ? `by ${username}` : 'by all users';
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      <KpiCard
+        title="Estimated Spend"
+        value={`$${summary.total_cost.toFixed(2)}`}
+        description={`Provider cost ${scope}.`}
+        Icon={DollarSign}
+      />
+      <KpiCard
+        title="Provider Calls"
+        value={summary.calls}
+        description={`Fal and Gemini calls ${scope}.`}
+        Icon={Receipt}
+      />
+      <KpiCard
+        title="Cost per Generation"
+        value={`$${summary.cost_per_generation.toFixed(3)}`}
+        description={`Across ${summary.generations} generations.`}
+        Icon={GalleryVertical}
+      />
+    </div>
+  );
+}
+
+async function SpendSection({ range, username }: { range: DayRange; username?: string }) {
+  const [activity, byModel, byOperation] = await Promise.all([
+    getGenerationActivity(range, username),
+    getCostBreakdown(range, 'model', username),
+    getCostBreakdown(range, 'operation', username),
+  ]);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
+      <div className="lg:col-span-4">
+        <SpendChart data={activity} username={username} />
+      </div>
+      <div className="lg:col-span-3 space-y-4">
+        <CostBreakdownPanel title="Spend by Model" data={byModel} Icon={Cpu} />
+        <CostBreakdownPanel title="Spend by Operation" data={byOperation} Icon={Layers} />
+      </div>
+    </div>
+  );
 }
 
 async function InsightsSection() {
@@ -90,12 +151,28 @@ async function InsightsSection() {
   );
 }
 
+async function RatingInsightsSection() {
+  const [ratedStyles, ratedBackgrounds, ratedTemplates] = await Promise.all([
+    getTopParameterUsage('fashionStyle', 5, 'rating'),
+    getTopParameterUsage('background', 5, 'rating'),
+    getTopParameterUsage('promptTemplate', 5, 'rating'),
+  ]);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      <ParameterInsightPanel title="Highest-Rated Styles" data={ratedStyles} Icon={Star} metric="rating" />
+      <ParameterInsightPanel title="Highest-Rated Backgrounds" data={ratedBackgrounds} Icon={ImageIcon} metric="rating" />
+      <ParameterInsightPanel title="Highest-Rated Prompt Templates" data={ratedTemplates} Icon={FileText} metric="rating" />
+    </div>
+  );
+}
+
 // --- Skeletons ---
 
-function KpiSkeleton() {
+function KpiSkeleton({ count = 4 }: { count?: number }) {
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-      {Array.from({ length: 4 }).map((_, i) => (
+    <div className={count === 4 ? 'grid gap-4 md:grid-cols-2 lg:grid-cols-4' : 'grid gap-4 md:grid-cols-3'}>
+      {Array.from({ length: count }).map((_, i) => (
         <div key={i} className="h-28 bg-muted/50 rounded-lg animate-pulse" style={{ animationDelay: `${i * 0.1}s` }}></div>
       ))}
     </div>
@@ -119,11 +196,28 @@ function InsightsSkeleton() {
   );
 }
 
+function RatingInsightsSkeleton() {
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      {Array.from({ length: 3 }).map((_, i) => (
+        <div key={i} className="h-[188px] bg-muted/50 rounded-lg animate-pulse" style={{ animationDelay: `${i * 0.1}s` }}></div>
+      ))}
+    </div>
+  );
+}
+
 // --- Main Page Component ---
 
-export default async function AdminDashboardPage() {
+export default async function AdminDashboardPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string; user?: string }>;
+}) {
   await connection();
 
+  const { from, to, user } = await searchParams;
+  const range = parseDayRange(from, to);
+
   return (
     <div className="space-y-6">
       <Suspense fallback={<KpiSkeleton />}>
@@ -134,10 +228,21 @@ export default async function AdminDashboardPage() {
         <ActivitySection />
       </Suspense>
 
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold tracking-tight">Usage &amp; Cost</h2>
+        <UsageToolbar fromDay={range.fromDay} toDay={range.toDay} username={user} />
+        <Suspense fallback={<KpiSkeleton count={3} />}>
+          <SpendKpiSection range={range} username={user} />
+        </Suspense>
+        <Suspense fallback={<ChartSkeleton />}>
+          <SpendSection range={range} username={user} />
+        </Suspense>
+      </section>
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
         <div className="lg:col-span-4">
           <Suspense fallback={<TableSkeleton />}>
-            <UserStatsSection />
+            <UserStatsSection range={range} username={user} />
           </Suspense>
         </div>
         <div className="lg:col-span-3">
@@ -146,6 +251,10 @@ export default async function AdminDashboardPage() {
           </Suspense>
         </div>
       </div>
+
+      <Suspense fallback={<RatingInsightsSkeleton />}>
+        <RatingInsightsSection />
+      </Suspense>
     </div>
   );
 }
\ No newline at end of file
@@ -13,11 +13,20 @@ import {
   handleApiKeysUpdate, 
   handleSystemPromptUpdate, 
   handleCacheCleanup,
+  handleVideoReconcile,
+  handleQueueSettingsUpdate,
+  handleRateLimitSettingsUpdate,
+  handleImageModelsUpdate,
   type ApiKeysFormState,
   type SystemPromptsFormState,
-  type CacheCleanupFormState
+  type CacheCleanupFormState,
+  type VideoReconcileFormState,
+  type QueueSettingsFormState,
+  type RateLimitSettingsFormState,
+  type ImageModelsFormState
 } from '@/actions/adminSettingsActions';
-import { Loader2, Video, Wand2, Sparkles, UserCheck, Trash2, KeyRound, FileText } from 'lucide-react';
+import { Loader2, Video, Wand2, Sparkles, UserCheck, Trash2, KeyRound, FileText, ListOrdered, Gauge, Cpu, RefreshCw } from 'lucide-react';
+import type { ImageModel } from '@/lib/image-models';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { StudioPromptTester } from './StudioPromptTester';
@@ -52,6 +61,7 @@ interface SettingsFormProps {
   initialSettings: Record<SettingKey, string>;
   maskedApiKeys?: { gemini1: string; gemini2: string; gemini3: string; fal: string };
   systemPromptData?: SystemPromptData;
+  imageModels?: ImageModel[];
 }
 
 // SubmitButton components using useFormStatus for pending state
@@ -75,6 +85,36 @@ function SystemPromptSubmitButton() {
   );
 }
 
+function QueueSettingsSubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListOrdered className="mr-2 h-4 w-4" />}
+      Save Queue Limits
+    </Button>
+  );
+}
+
+function RateLimitSettingsSubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Gauge className="mr-2 h-4 w-4" />}
+      Save Rate Limits
+    </Button>
+  );
+}
+
+function ImageModelsSubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Cpu className="mr-2 h-4 w-4" />}
+      Save Image Models
+    </Button>
+  );
+}
+
 function CacheCleanupSubmitButton() {
   const { pending } = useFormStatus();
   return (
@@ -85,7 +125,17 @@ function CacheCleanupSubmitButton() {
   );
 }
 
-export function SettingsForm({ initialSettings, maskedApiKeys, systemPromptData }: SettingsFormProps) {
+function VideoReconcileSubmitButton() {
+  const { pending } = useFormStatus();
+  return (
+    <Button type="submit" disabled={pending}>
+      {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+      Check Now
+    </Button>
+  );
+}
+
+export function SettingsForm({ initialSettings, maskedApiKeys, systemPromptData, imageModels = [] }: SettingsFormProps) {
   const { toast } = useToast();
   const [settings, setSettings] = useState<SettingsState>(
     Object.entries(initialSettings).reduce((acc, [key, value]) => {
@@ -104,6 +154,12 @@ export function SettingsForm({ initialSettings, maskedApiKeys, systemPromptData
     global_fal_api_key: false,
     ai_prompt_engineer_system: false,
     ai_studio_mode_prompt_template: false,
+    queue_global_concurrency: false,
+    queue_per_user_concurrency: false,
+    rate_limit_user_per_minute: false,
+    rate_limit_admin_per_minute: false,
+    rate_limit_api_key_per_minute: false,
+    image_models_config: false,
   });
   
   // Initialize useActionState for each form
@@ -115,6 +171,18 @@ export function SettingsForm({ initialSettings, maskedApiKeys, systemPromptData
   
   const initialCacheCleanupState: CacheCleanupFormState = { message: '' };
   const [cacheCleanupState, cacheCleanupAction] = useActionState(handleCacheCleanup, initialCacheCleanupState);
+
+  const initialVideoReconcileState: VideoReconcileFormState = { message: '' };
+  const [videoReconcileState, videoReconcileAction] = useActionState(handleVideoReconcile, initialVideoReconcileState);
+
+  const initialQueueSettingsState: QueueSettingsFormState = { message: '' };
+  const [queueSettingsState, queueSettingsAction] = useActionState(handleQueueSettingsUpdate, initialQueueSettingsState);
+
+  const initialRateLimitSettingsState: RateLimitSettingsFormState = { message: '' };
+  const [rateLimitSettingsState, rateLimitSettingsAction] = useActionState(handleRateLimitSettingsUpdate, initialRateLimitSettingsState);
+
+  const initialImageModelsState: ImageModelsFormState = { message: '' };
+  const [imageModelsState, imageModelsAction] = useActionState(handleImageModelsUpdate, initialImageModelsState);
   
   // Studio Prompt controlled state for testing
   const [studioPrompt, setStudioPrompt] = useState(systemPromptData?.prompts?.studio || '');
@@ -152,6 +220,38 @@ export function SettingsForm({ initialSettings, maskedApiKeys, systemPromptData
       toast({ title: 'Error', description: cacheCleanupState.error, variant: 'destructive' });
     }
   }, [cacheCleanupState, toast]);
+
+  useEffect(() => {
+    if (videoReconcileState?.success) {
+      toast({ title: 'Success', description: videoReconcileState.message });
+    } else if (videoReconcileState?.error) {
+      toast({ title: 'Error', description: videoReconcileState.error, variant: 'destructive' });
+    }
+  }, [videoReconcileState, toast]);
+
+  useEffect(() => {
+    if (queueSettingsState?.success) {
+      toast({ title: 'Success', description: queueSettingsState.message });
+    } else if (queueSettingsState?.error) {
+      toast({ title: 'Error', description: queueSettingsState.error, variant: 'destructive' });
+    }
+  }, [queueSettingsState, toast]);
+
+  useEffect(() => {
+    if (rateLimitSettingsState?.success) {
+      toast({ title: 'Success', description: rateLimitSettingsState.message });
+    } else if (rateLimitSettingsState?.error) {
+      toast({ title: 'Error', description: rateLimitSettingsState.error, variant: 'destructive' });
+    }
+  }, [rateLimitSettingsState, toast]);
+
+  useEffect(() => {
+    if (imageModelsState?.success) {
+      toast({ title: 'Success', description: imageModelsState.message });
+    } else if (imageModelsState?.error) {
+      toast({ title: 'Error', description: imageModelsState.error, variant: 'destructive' });
+    }
+  }, [imageModelsState, toast]);
   
   const handleSettingChange = async (key: SettingKey, value: boolean) => {
     setIsUpdating(prev => ({ ...prev, [key]: true }));
@@ -201,12 +301,112 @@ export function SettingsForm({ initialSettings, maskedApiKeys, systemPromptData
             </CardContent>
         </Card>
         
+        <Card variant="glass">
+          <CardHeader>
+            <CardTitle>Generation Queue</CardTitle>
+            <CardDescription>Limit how many image and video generations run at the same time. Additional requests wait in the queue.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form action={queueSettingsAction} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="globalConcurrency">Global Concurrency</Label>
+                  <Input id="globalConcurrency" name="globalConcurrency" type="number" min={1} max={50} defaultValue={initialSettings.queue_global_concurrency} />
+                  <div className="text-xs text-muted-foreground">Maximum generations running across all users.</div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="perUserConcurrency">Per-User Concurrency</Label>
+                  <Input id="perUserConcurrency" name="perUserConcurrency" type="number" min={1} max={50} defaultValue={initialSettings.queue_per_user_concurrency} />
+                  <div className="text-xs text-muted-foreground">Maximum generations running for a single user.</div>
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <QueueSettingsSubmitButton />
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card variant="glass">
+          <CardHeader>
+            <CardTitle>Rate Limits</CardTitle>
+            <CardDescription>Limit how many generations can be started per minute. Unused capacity builds up to the limit, so short bursts are allowed.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form action={rateLimitSettingsAction} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="userPerMinute">Users</Label>
+                  <Input id="userPerMinute" name="userPerMinute" type="number" min={1} max={10000} defaultValue={initialSettings.rate_limit_user_per_minute} />
+                  <div className="text-xs text-muted-foreground">Generations per minute for the user role.</div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="adminPerMinute">Admins</Label>
+                  <Input id="adminPerMinute" name="adminPerMinute" type="number" min={1} max={10000} defaultValue={initialSettings.rate_limit_admin_per_minute} />
+                  <div className="text-xs text-muted-foreground">Generations per minute for the admin role.</div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="apiKeyPerMinute">Per API Key</Label>
+                  <Input id="apiKeyPerMinute" name="apiKeyPerMinute" type="number" min={1} max={10000} defaultValue={initialSettings.rate_limit_api_key_per_minute} />
+                  <div className="text-xs text-muted-foreground">Applies to each API key, on top of its owner&apos;s limit.</div>
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground">Individual users can be given their own limit under Users.</div>
+              <div className="flex justify-end">
+                <RateLimitSettingsSubmitButton />
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card variant="glass">
+          <CardHeader>
+            <CardTitle>Image Models</CardTitle>
+            <CardDescription>Models that can be assigned to users for image generation. Changes take effect for the next generation.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form action={imageModelsAction} className="space-y-4">
+              <div className="space-y-2">
+                {imageModels.map((model) => (
+                  <div key={model.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium">{model.label} <span className="font-mono text-xs text-muted-foreground">{model.id}</span></div>
+                      <div className="text-xs text-muted-foreground font-mono truncate">{model.endpoint}</div>
+                    </div>
+                    <div className="text-xs text-muted-foreground text-right whitespace-nowrap">
+                      {model.defaultImageCount} image{model.defaultImageCount > 1 ? 's' : ''} · ${model.costPerImage.toFixed(3)}/image
+                      <div>{model.available ? 'Available' : 'Unavailable'}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="imageModelsConfig">Model Configuration (JSON)</Label>
+                <Textarea
+                  id="imageModelsConfig"
+                  name="imageModelsConfig"
+                  defaultValue={initialSettings.image_models_config}
+                  placeholder={'[\n  { "id": "fal_gemini_2_5", "available": false },\n  { "id": "my_fal_model", "label": "My Model", "endpoint": "fal-ai/my-model/edit", "defaultImageCount": 2, "costPerImage": 0.05,\n    "options": { "aspectRatio": true, "numImages": true, "outputFormats": ["png"] } }\n]'}
+                  rows={8}
+                  className="font-mono text-sm"
+                />
+                <div className="text-xs text-muted-foreground">
+                  An array of models. An entry with the ID of an existing model changes only the fields it lists; any other entry adds a Fal edit model and needs <code className="bg-muted px-1 py-0.5 rounded-sm">label</code>, <code className="bg-muted px-1 py-0.5 rounded-sm">endpoint</code>, <code className="bg-muted px-1 py-0.5 rounded-sm">defaultImageCount</code> (1-3) and <code className="bg-muted px-1 py-0.5 rounded-sm">costPerImage</code> (USD). Leave empty to use the built-in models.
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <ImageModelsSubmitButton />
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
         <Card variant="glass">
             <CardHeader>
                 <CardTitle>System Maintenance</CardTitle>
                 <CardDescription>Run maintenance tasks to keep the application running smoothly.</CardDescription>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
                 <form action={cacheCleanupAction}>
                   <div className="flex items-center justify-between p-3 border rounded-lg">
                     <div>
@@ -216,6 +416,15 @@ export function SettingsForm({ initialSettings, maskedApiKeys, systemPromptData
                     <CacheCleanupSubmitButton />
                   </div>
                 </form>
+                <form action={videoReconcileAction}>
+                  <div className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                        <Label className="font-medium">Reconcile Stuck Videos</Label>
+                        <p className="text-xs text-muted-foreground">Asks fal.ai for videos still processing 10 minutes after submission, e.g. when a webhook was lost. Runs automatically every 5 minutes.</p>
+                    </div>
+                    <VideoReconcileSubmitButton />
+                  </div>
+                </form>
             </CardContent>
         </Card>
 
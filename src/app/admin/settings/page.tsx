@@ -1,5 +1,5 @@
 // src/app/admin/settings/page.tsx
-import { getAllSettings, getGlobalApiKeysForDisplay, getSystemPromptsForAdmin } from '@/actions/adminSettingsActions';
+import { getAllSettings, getGlobalApiKeysForDisplay, getImageModelsForAdmin, getSystemPromptsForAdmin } from '@/actions/adminSettingsActions';
 import { PageHeader } from '@/components/ui/page-header';
 import { Settings } from 'lucide-react';
 import { SettingsForm } from './_components/SettingsForm';
@@ -13,6 +13,7 @@ export default async function AdminSettingsPage() {
   const initialSettings = await getAllSettings();
   const maskedApiKeys = await getGlobalApiKeysForDisplay();
   const systemPromptData = await getSystemPromptsForAdmin();
+  const imageModels = await getImageModelsForAdmin();
 
   return (
     <div className="space-y-8">
@@ -26,6 +27,7 @@ export default async function AdminSettingsPage() {
         initialSettings={initialSettings}
         maskedApiKeys={maskedApiKeys}
         systemPromptData={systemPromptData}
+        imageModels={imageModels}
       />
       <ExportTool />
     </div>
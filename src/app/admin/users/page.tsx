@@ -1,6 +1,6 @@
 // src/app/admin/users/page.tsx
 import { getAllUsers } from '@/actions/adminUserActions';
-import { getGlobalApiKeysForDisplay } from '@/actions/adminSettingsActions';
+import { getGlobalApiKeysForDisplay, getImageModelsForAdmin } from '@/actions/adminSettingsActions';
 import { UserManagementTable } from '@/components/admin/UserManagementTable';
 import { PageHeader } from '@/components/ui/page-header';
 import { Users } from 'lucide-react';
@@ -12,6 +12,7 @@ export default async function AdminUsersPage() {
 
   const initialUsers = await getAllUsers();
   const maskedGlobalKeys = await getGlobalApiKeysForDisplay();
+  const imageModels = await getImageModelsForAdmin();
 
   return (
     <div className="space-y-8">
@@ -21,7 +22,7 @@ export default async function AdminUsersPage() {
         description="Create, view, and manage user accounts and roles."
         className="text-left py-0"
       />
-      <UserManagementTable initialUsers={initialUsers} maskedGlobalKeys={maskedGlobalKeys} />
+      <UserManagementTable initialUsers={initialUsers} imageModels={imageModels} maskedGlobalKeys={maskedGlobalKeys} />
     </div>
   );
 }
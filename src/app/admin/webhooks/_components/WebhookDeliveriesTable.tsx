@@ -0,0 +1,152 @@
+// src/app/admin/webhooks/_components/WebhookDeliveriesTable.tsx
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RotateCw, Search, X } from 'lucide-react';
+import { redeliverWebhookAction } from '@/actions/adminWebhookActions';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@/services/db';
+
+interface WebhookDeliveriesTableProps {
+  deliveries: WebhookDelivery[];
+  jobId?: string;
+}
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'default',
+  pending: 'outline',
+  sending: 'secondary',
+  failed: 'destructive',
+};
+
+export function WebhookDeliveriesTable({ deliveries, jobId }: WebhookDeliveriesTableProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const result = await redeliverWebhookAction(delivery.id);
+      if (result.success) {
+        toast({ title: 'Webhook Redelivered', description: `The receiver answered with status ${result.statusCode}.` });
+      } else {
+        toast({ title: 'Redelivery Failed', description: result.error, variant: 'destructive' });
+      }
+      router.refresh();
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle>Delivery Log</CardTitle>
+        <CardDescription>
+          {jobId ? <>Attempts for job <span className="font-mono">{jobId}</span>.</> : 'Most recent attempts across all jobs.'}
+        </CardDescription>
+        <form method="get" className="flex items-center gap-2 pt-2">
+          <Input name="jobId" defaultValue={jobId} placeholder="Filter by job or batch ID" className="max-w-sm font-mono" />
+          <Button type="submit" variant="secondary" size="sm">
+            <Search className="mr-2 h-4 w-4" /> Filter
+          </Button>
+          {jobId && (
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/admin/webhooks"><X className="mr-2 h-4 w-4" /> Clear</Link>
+            </Button>
+          )}
+        </form>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Job</TableHead>
+              <TableHead>URL</TableHead>
+              <TableHead className="text-right">Attempt</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Code</TableHead>
+              <TableHead className="text-right">Latency</TableHead>
+              <TableHead>Response</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.length > 0 ? (
+              deliveries.map((delivery) => {
+                const refId = delivery.historyId || delivery.batchId;
+                return (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="whitespace-nowrap text-sm text-muted-foreground" suppressHydrationWarning>
+                      {new Date(delivery.attemptedAt ?? delivery.scheduledAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {refId ? (
+                        <Link href={`/admin/webhooks?jobId=${refId}`} className="text-primary hover:underline" title={refId}>
+                          {delivery.batchId && !delivery.historyId ? 'batch ' : ''}{refId.slice(0, 8)}
+                        </Link>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="max-w-[220px] text-xs">
+                      <p className="truncate" title={delivery.url}>{delivery.url}</p>
+                      {delivery.eventType && <p className="font-mono text-[10px] text-muted-foreground">{delivery.eventType}</p>}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {delivery.attempt}
+                      {delivery.manual && <Badge variant="outline" className="ml-2 text-[10px]">manual</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[delivery.status]} className="capitalize">{delivery.status}</Badge>
+                      {delivery.status === 'pending' && (
+                        <p className="mt-1 text-[10px] text-muted-foreground" suppressHydrationWarning>
+                          due {new Date(delivery.scheduledAt).toLocaleTimeString()}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{delivery.statusCode ?? '—'}</TableCell>
+                    <TableCell className="text-right tabular-nums">{delivery.latencyMs !== undefined ? `${delivery.latencyMs} ms` : '—'}</TableCell>
+                    <TableCell className="max-w-[240px] truncate font-mono text-xs" title={delivery.responseSnippet || delivery.error}>
+                      {delivery.error || delivery.responseSnippet || '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRedeliver(delivery)}
+                        disabled={redeliveringId !== null}
+                      >
+                        {redeliveringId === delivery.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCw className="mr-2 h-4 w-4" />
+                        )}
+                        Redeliver
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={9} className="h-24 text-center">
+                  No webhook deliveries yet.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+// src/app/admin/webhooks/page.tsx
+import { connection } from 'next/server';
+import { Webhook } from 'lucide-react';
+import { getWebhookDeliveries } from '@/actions/adminWebhookActions';
+import { PageHeader } from '@/components/ui/page-header';
+import { WebhookDeliveriesTable } from './_components/WebhookDeliveriesTable';
+
+export default async function AdminWebhooksPage({ searchParams }: { searchParams: Promise<{ jobId?: string }> }) {
+  await connection();
+
+  const { jobId } = await searchParams;
+  const deliveries = await getWebhookDeliveries(jobId);
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        icon={Webhook}
+        title="Webhook Deliveries"
+        description="Every signed delivery attempt, with its response. Failed deliveries are retried automatically."
+        className="text-left py-0"
+      />
+      <WebhookDeliveriesTable deliveries={deliveries} jobId={jobId} />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+// src/app/api/admin/cost-export/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/actions/authActions';
+import { getCostLedgerCsv, parseDayRange } from '@/services/analytics.service';
+
+/**
+ * Downloads the cost ledger of the dashboard's date range (and user, when drilled down) as CSV.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user || user.role !== 'admin') {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const range = parseDayRange(searchParams.get('from') ?? undefined, searchParams.get('to') ?? undefined);
+  const username = searchParams.get('user') || undefined;
+
+  try {
+    const csv = getCostLedgerCsv(range, username);
+    const fileName = `refashion-costs-${username ? `${username.replace(/[^\w-]/g, '_')}-` : ''}${range.fromDay}-to-${range.toDay}.csv`;
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Type': 'text/csv; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting cost ledger:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
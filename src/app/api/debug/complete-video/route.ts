@@ -13,7 +13,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
     }
 
-    const { historyItemId, localVideoUrl, remoteVideoUrl, seed } = await request.json();
+    const { historyItemId, slotIndex, localVideoUrl, remoteVideoUrl, seed } = await request.json();
 
     if (!historyItemId) {
       return NextResponse.json({ error: 'historyItemId is required' }, { status: 400 });
@@ -23,7 +23,8 @@ export async function POST(request: NextRequest) {
     await updateVideoHistoryItem({
       username: user.username,
       historyItemId,
-      videoUrls: [remoteVideoUrl || 'https://example.com/test-video.mp4'],
+      slotIndex,
+      videoUrl: remoteVideoUrl || 'https://example.com/test-video.mp4',
       localVideoUrl: localVideoUrl || '/uploads/generated_videos/test-video.mp4',
       seedUsed: seed || 12345,
       status: 'completed'
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
+import mime from 'mime-types';
 import { getFileStream } from '@/lib/server-fs.utils';
+import { MediaVariantSchema } from '@/lib/media-variants';
+import { getOrCreateImageVariant } from '@/services/storage.service';
+import { getCurrentUser } from '@/actions/authActions';
+import { canAccessMedia, verifyMediaUrl } from '@/services/media-access.service';
 
 export async function GET(
   request: NextRequest,
@@ -17,7 +22,34 @@ export async function GET(
     // Reconstruct the path. The rewrite maps /uploads/a.png -> /api/images/a.png
     const requestedPath = path.join(...filePathParts);
     const uploadsPath = `/uploads/${requestedPath}`;
+
+    // --- ACCESS CHECK ---
+    // A signed URL grants access on its own; otherwise only the owner or an admin may view the file.
+    // Unknown and foreign files both answer 404, so file names cannot be probed.
+    if (!verifyMediaUrl(uploadsPath, request.nextUrl.searchParams)) {
+      const user = await getCurrentUser();
+      if (!user) {
+        return new NextResponse('Unauthorized', { status: 401 });
+      }
+      if (!canAccessMedia(user, uploadsPath)) {
+        return new NextResponse('File not found', { status: 404 });
+      }
+    }
     
+    // --- IMAGE VARIANTS ---
+    // ?w=&format=&q= asks for a resized copy (see media-loader.ts); the access check above covers it too
+    let servedPath = uploadsPath;
+    if (request.nextUrl.searchParams.has('w')) {
+      const variant = MediaVariantSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+      if (!variant.success) {
+        return new NextResponse(variant.error.issues.map(issue => issue.message).join(' '), { status: 400 });
+      }
+      if (!String(mime.lookup(uploadsPath)).startsWith('image/')) {
+        return new NextResponse('Variants are only available for images', { status: 400 });
+      }
+      servedPath = await getOrCreateImageVariant(uploadsPath, variant.data);
+    }
+
     // --- RANGE REQUEST HANDLING ---
     // Essential for video seeking and performance
     const rangeHeader = request.headers.get('range');
@@ -38,13 +70,14 @@ export async function GET(
       }
     }
 
-    const { stream, size, contentType } = await getFileStream(uploadsPath, { start, end });
+    const { stream, size, contentType } = await getFileStream(servedPath, { start, end });
     
     // --- RESPONSE HEADERS ---
     const headers = new Headers();
     headers.set('Content-Type', contentType);
     // Immutable caching: Files are named with UUIDs, so they never change content.
-    headers.set('Cache-Control', 'public, max-age=31536000, immutable');
+    // Private: shared caches must not serve a user's media to anyone else.
+    headers.set('Cache-Control', 'private, max-age=31536000, immutable');
     // Tell the browser we support seeking
     headers.set('Accept-Ranges', 'bytes');
 
@@ -0,0 +1,36 @@
+// src/app/api/v1/batches/[batchId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api-auth';
+import { findBatchById } from '@/services/db';
+import { buildBatchSummary } from '@/services/batch.service';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ batchId: string }> }) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:read');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const { batchId } = await params;
+
+    const batch = findBatchById(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    // Verify ownership
+    if (batch.username !== user.username) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(buildBatchSummary(batch));
+
+  } catch (error) {
+    console.error('API batch status error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+// src/app/api/v1/batches/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { after } from 'next/server';
+import { authenticateApiRequest, checkApiRateLimit } from '@/lib/api-auth';
+import { createApiBatch, processApiGenerationJob } from '@/actions/apiActions';
+import { BatchRequestSchema } from '@/lib/api-schemas';
+import { BudgetExceededError } from '@/services/cost.service';
+import { z } from 'zod';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'generate:image');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user, apiKey } = auth;
+
+    // Parse and validate request body (defaults are merged into every item here)
+    const body = await request.json();
+    const batch = BatchRequestSchema.parse(body);
+
+    // Every item counts as one generation against the rate limits
+    const rateLimit = checkApiRateLimit(user, apiKey, batch.items.length);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
+    // Create the batch and one job record per item
+    const { batchId, jobs } = await createApiBatch(user.username, batch);
+
+    // Enqueue every item in the background; the job queue applies the concurrency limits
+    after(() => {
+      for (const { jobId, payload } of jobs) {
+        processApiGenerationJob(jobId, payload, user.username).catch(console.error);
+      }
+    });
+
+    // Return immediately with the batch and job IDs
+    return NextResponse.json({
+      batchId,
+      status: 'processing',
+      jobs: jobs.map(({ jobId, externalRef }) => ({ jobId, externalRef, status: 'queued' })),
+    }, { status: 202, headers: rateLimit.headers });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.issues
+      }, { status: 400 });
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({
+        error: 'Monthly budget exceeded',
+        details: error.message
+      }, { status: 402 });
+    }
+
+    console.error('API batch error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
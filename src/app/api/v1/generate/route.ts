@@ -1,57 +1,38 @@
 // src/app/api/v1/generate/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { after } from 'next/server';
-import { authenticateApiRequest } from '@/lib/api-auth';
+import { authenticateApiRequest, checkApiRateLimit } from '@/lib/api-auth';
 import { createApiJob, processApiGenerationJob } from '@/actions/apiActions';
 import { findHistoryItemById } from '@/services/db';
-import type { ModelAttributes } from '@/lib/types';
+import { GenerationOptionsSchema, refineGenerationOptions } from '@/lib/api-schemas';
+import { BudgetExceededError } from '@/services/cost.service';
 import { z } from 'zod';
 
-const ModelAttributesSchema = z.object({
-  gender: z.string(),
-  bodyShapeAndSize: z.string(),
-  ageRange: z.string(),
-  ethnicity: z.string(),
-  poseStyle: z.string(),
-  background: z.string(),
-  fashionStyle: z.string(),
-  hairStyle: z.string(),
-  modelExpression: z.string(),
-  lightingType: z.string(),
-  lightQuality: z.string(),
-  modelAngle: z.string(),
-  lensEffect: z.string(),
-  depthOfField: z.string(),
-  timeOfDay: z.string(),
-  overallMood: z.string(),
-});
-
-const GenerateRequestSchema = z.object({
+const GenerateRequestSchema = GenerationOptionsSchema.extend({
   imageDataUri: z.string().optional(),
   imageUrl: z.string().url().optional(),
   sourceHistoryItemId: z.string().optional(),
-  parameters: ModelAttributesSchema,
-  settingsMode: z.enum(['basic', 'advanced']).default('basic'),
   webhookUrl: z.string().url().optional(),
-});
+}).superRefine(refineGenerationOptions);
 
 export async function POST(request: NextRequest) {
   try {
     // Authenticate
-    const user = await authenticateApiRequest(request);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await authenticateApiRequest(request, 'generate:image');
+    if (!auth.user) {
+      return auth.response;
     }
+    const { user, apiKey } = auth;
 
     // Parse and validate request body
     const body = await request.json();
-    const validatedData = GenerateRequestSchema.parse(body);
+    const { imageDataUri, imageUrl, sourceHistoryItemId, webhookUrl, ...options } = GenerateRequestSchema.parse(body);
 
-    let imageDataSource = validatedData.imageUrl || validatedData.imageDataUri;
+    let imageDataSource = imageUrl || imageDataUri;
 
     // PHASE 3 ENHANCEMENT: Prioritize sourceHistoryItemId if provided.
-    if (validatedData.sourceHistoryItemId) {
-      const historyItem = findHistoryItemById(validatedData.sourceHistoryItemId);
+    if (sourceHistoryItemId) {
+      const historyItem = findHistoryItemById(sourceHistoryItemId);
       // Security check: ensure the item belongs to the authenticated user.
       if (historyItem && historyItem.username === user.username) {
         // Prioritize the first generated image, fall back to original clothing URL.
@@ -67,28 +48,25 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Charge the rate limits only for requests that will actually generate
+    const rateLimit = checkApiRateLimit(user, apiKey);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
+    const jobPayload = { ...options, imageDataUri: imageDataSource, webhookUrl };
+
     // Create job record
-    const jobId = await createApiJob({
-      username: user.username,
-      imageDataUri: imageDataSource,
-      parameters: validatedData.parameters as ModelAttributes,
-      settingsMode: validatedData.settingsMode,
-      webhookUrl: validatedData.webhookUrl,
-    });
+    const jobId = await createApiJob({ ...jobPayload, username: user.username });
 
     // Start processing in background using after() to ensure it survives response completion
-    after(() => processApiGenerationJob(jobId, {
-      imageDataUri: imageDataSource,
-      parameters: validatedData.parameters as ModelAttributes,
-      settingsMode: validatedData.settingsMode,
-      webhookUrl: validatedData.webhookUrl,
-    }, user.username).catch(console.error));
+    after(() => processApiGenerationJob(jobId, jobPayload, user.username).catch(console.error));
 
     // Return immediately with job ID
     return NextResponse.json({
       jobId,
-      status: 'processing'
-    }, { status: 202 });
+      status: 'queued'
+    }, { status: 202, headers: rateLimit.headers });
 
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -98,6 +76,13 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({
+        error: 'Monthly budget exceeded',
+        details: error.message
+      }, { status: 402 });
+    }
+
     console.error('API generate error:', error);
     return NextResponse.json({
       error: 'Internal server error'
@@ -0,0 +1,75 @@
+// src/app/api/v1/history/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateApiRequest } from '@/lib/api-auth';
+import { parseHistorySearchParams } from '@/lib/history-search';
+import { toAbsoluteImageUrls } from '@/services/media-access.service';
+import { searchHistoryForUser } from '@/services/db';
+import type { HistoryItem } from '@/lib/types';
+
+const PaginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  type: z.enum(['image', 'video']).optional(),
+});
+
+function toApiHistoryItem(item: HistoryItem) {
+  const video = item.videoGenerationParams;
+  return {
+    jobId: item.id,
+    createdAt: new Date(item.timestamp).toISOString(),
+    status: item.status === 'cancelled' ? 'cancelled' : video?.status ?? item.status ?? 'completed',
+    generationMode: item.generation_mode,
+    model: item.imageGenerationModel,
+    prompt: item.constructedPrompt,
+    ...(item.classification && { classification: item.classification }),
+    attributes: item.attributes,
+    tags: item.tags ?? [],
+    generatedImageUrls: toAbsoluteImageUrls(item.editedImageUrls).filter((url): url is string => !!url),
+    ...(video?.localVideoUrl && { videoUrl: toAbsoluteImageUrls([video.localVideoUrl])[0] }),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:read');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const searchParams = request.nextUrl.searchParams;
+    const filters = parseHistorySearchParams(searchParams);
+    const pagination = PaginationSchema.safeParse({
+      page: searchParams.get('page') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      type: searchParams.get('type') ?? undefined,
+    });
+    if (!filters.success || !pagination.success) {
+      const issue = (filters.error ?? pagination.error)!.issues[0];
+      return NextResponse.json({
+        error: `Invalid ${issue.path.join('.') || 'query'}: ${issue.message}`
+      }, { status: 400 });
+    }
+
+    const result = searchHistoryForUser({
+      username: user.username,
+      filters: filters.data,
+      ...pagination.data,
+    });
+
+    return NextResponse.json({
+      items: result.items.map(toApiHistoryItem),
+      totalCount: result.totalCount,
+      page: result.currentPage,
+      hasMore: result.hasMore,
+    });
+
+  } catch (error) {
+    console.error('API history search error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+// src/app/api/v1/jobs/[jobId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api-auth';
+import { findHistoryItemById } from '@/services/db';
+import { cancelGeneration } from '@/services/job-queue.service';
+import { handleStoryboardCancellation } from '@/services/storyboard.service';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:write');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const { jobId } = await params;
+
+    const historyItem = findHistoryItemById(jobId);
+    if (!historyItem || historyItem.username !== user.username) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const result = await cancelGeneration(jobId, user.username);
+    if (!result.success) {
+      // The job already finished (or was cancelled before)
+      return NextResponse.json({ jobId, error: result.error }, { status: 409 });
+    }
+    handleStoryboardCancellation(jobId);
+
+    return NextResponse.json({
+      jobId,
+      status: 'cancelled'
+    });
+
+  } catch (error) {
+    console.error('API cancel error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
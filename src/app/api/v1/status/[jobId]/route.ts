@@ -2,15 +2,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateApiRequest } from '@/lib/api-auth';
 import { findHistoryItemById } from '@/services/db';
-import { getDisplayableImageUrl } from '@/lib/utils';
+import { toAbsoluteImageUrls } from '@/services/media-access.service';
+import type { JobStatus } from '@/lib/types';
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
   try {
     // Authenticate
-    const user = await authenticateApiRequest(request);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const auth = await authenticateApiRequest(request, 'history:read');
+    if (!auth.user) {
+      return auth.response;
     }
+    const { user } = auth;
 
     // Extract jobId from params
     const { jobId } = await params;
@@ -26,13 +28,20 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Jobs created before the lifecycle column existed only carry the history (or video) status
+    // Video jobs have no generated images (an image job may have been animated later in the app)
+    const video = historyItem.editedImageUrls.some(url => !!url) ? undefined : historyItem.videoGenerationParams;
+    const legacyStatus = historyItem.status === 'cancelled' ? 'cancelled' : video?.status ?? historyItem.status;
+    const jobStatus: JobStatus = historyItem.jobStatus
+      ?? (legacyStatus === 'processing' ? 'running' : legacyStatus ?? 'completed');
+
     // Return response based on status
-    if (historyItem.status === 'processing') {
+    if (jobStatus === 'queued' || jobStatus === 'running' || jobStatus === 'cancelled') {
       return NextResponse.json({
         jobId,
-        status: 'processing'
+        status: jobStatus
       });
-    } else if (historyItem.status === 'completed') {
+    } else if (jobStatus === 'completed' || jobStatus === 'partial') {
       // Use the public app URL from environment variables for correct URL construction.
       const baseUrl = process.env.NEXT_PUBLIC_APP_URL;
       if (!baseUrl) {
@@ -40,31 +49,31 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         return NextResponse.json({ error: 'Server configuration error: App URL not set.' }, { status: 500 });
       }
 
-      // Use the getDisplayableImageUrl utility to create PROXY URLs
-      const proxiedUrls = historyItem.editedImageUrls
-        .filter((url): url is string => !!url) // Ensure we only process non-null URLs
-        .map(url => getDisplayableImageUrl(url));
-        
-      // Make sure the URLs are absolute before sending them to the external plugin
-      const absoluteImageUrls = proxiedUrls
-        .filter((url): url is string => !!url)
-        .map(url => url.startsWith('http') ? url : `${baseUrl}${url}`);
+      // Video jobs: the Fal webhook has stored the video locally along with the seed it used
+      if (video) {
+        return NextResponse.json({
+          jobId,
+          status: jobStatus,
+          videoUrl: video.localVideoUrl ? toAbsoluteImageUrls([video.localVideoUrl])[0] : null,
+          seed: video.seed,
+        });
+      }
+
+      // Signed, absolute URLs: the external plugin has no session to view the files with
+      const absoluteImageUrls = toAbsoluteImageUrls(historyItem.editedImageUrls)
+        .filter((url): url is string => !!url);
 
       return NextResponse.json({
         jobId,
-        status: 'completed',
-        generatedImageUrls: absoluteImageUrls
-      });
-    } else if (historyItem.status === 'failed') {
-      return NextResponse.json({
-        jobId,
-        status: 'failed',
-        error: historyItem.error || 'Unknown error occurred'
+        status: jobStatus,
+        generatedImageUrls: absoluteImageUrls,
+        ...(jobStatus === 'partial' && { error: historyItem.error }),
       });
     } else {
       return NextResponse.json({
         jobId,
-        status: 'unknown'
+        status: 'failed',
+        error: historyItem.error || video?.error || 'Unknown error occurred'
       });
     }
 
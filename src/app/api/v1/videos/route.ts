@@ -0,0 +1,75 @@
+// src/app/api/v1/videos/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, checkApiRateLimit } from '@/lib/api-auth';
+import { createApiVideoJob } from '@/actions/apiActions';
+import { findHistoryItemById } from '@/services/db';
+import { VideoRequestSchema } from '@/lib/api-schemas';
+import { BudgetExceededError } from '@/services/cost.service';
+import { z } from 'zod';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'generate:video');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user, apiKey } = auth;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const { imageDataUri, imageUrl, sourceHistoryItemId, webhookUrl, ...options } = VideoRequestSchema.parse(body);
+
+    let imageSource = imageUrl || imageDataUri;
+
+    // Animate a previous generation: its first image, or the garment it was made from
+    if (sourceHistoryItemId) {
+      const historyItem = findHistoryItemById(sourceHistoryItemId);
+      if (historyItem && historyItem.username === user.username) {
+        imageSource = historyItem.editedImageUrls?.find(url => !!url) || historyItem.originalClothingUrl;
+      } else {
+        return NextResponse.json({ error: 'sourceHistoryItemId not found or unauthorized' }, { status: 404 });
+      }
+    }
+
+    if (!imageSource) {
+      return NextResponse.json({
+        error: 'Either imageDataUri, imageUrl, or a valid sourceHistoryItemId is required.'
+      }, { status: 400 });
+    }
+
+    // Charge the rate limits only for requests that will actually generate
+    const rateLimit = checkApiRateLimit(user, apiKey);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
+    // Create the job; the Fal submission is queued and tracked in the background
+    const jobId = await createApiVideoJob(user.username, options, imageSource, webhookUrl);
+
+    return NextResponse.json({
+      jobId,
+      status: 'queued'
+    }, { status: 202, headers: rateLimit.headers });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.issues
+      }, { status: 400 });
+    }
+
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json({
+        error: 'Monthly budget exceeded',
+        details: error.message
+      }, { status: 402 });
+    }
+
+    console.error('API video error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
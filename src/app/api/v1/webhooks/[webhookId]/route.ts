@@ -0,0 +1,95 @@
+// src/app/api/v1/webhooks/[webhookId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api-auth';
+import { WebhookEndpointUpdateSchema } from '@/lib/api-schemas';
+import {
+  deleteWebhookEndpoint, getWebhookEndpoint, toWebhookEndpointResponse, updateWebhookEndpoint
+} from '@/services/webhook-endpoint.service';
+import { z } from 'zod';
+
+type RouteContext = { params: Promise<{ webhookId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:read');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const { webhookId } = await params;
+    const endpoint = getWebhookEndpoint(user.username, webhookId);
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(toWebhookEndpointResponse({ endpoint }));
+
+  } catch (error) {
+    console.error('API webhook fetch error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:write');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const { webhookId } = await params;
+    const body = await request.json();
+    const update = WebhookEndpointUpdateSchema.parse(body);
+
+    // A rotated secret is only returned in this response
+    const updated = updateWebhookEndpoint(user.username, webhookId, update);
+    if (!updated) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(toWebhookEndpointResponse(updated));
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.issues
+      }, { status: 400 });
+    }
+
+    console.error('API webhook update error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:write');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const { webhookId } = await params;
+    if (!deleteWebhookEndpoint(user.username, webhookId)) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ id: webhookId, deleted: true });
+
+  } catch (error) {
+    console.error('API webhook delete error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// src/app/api/v1/webhooks/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api-auth';
+import { WebhookEndpointSchema } from '@/lib/api-schemas';
+import {
+  createWebhookEndpoint, listWebhookEndpoints, toWebhookEndpointResponse
+} from '@/services/webhook-endpoint.service';
+import { z } from 'zod';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:read');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const endpoints = listWebhookEndpoints(user.username);
+    return NextResponse.json({
+      webhooks: endpoints.map(endpoint => toWebhookEndpointResponse({ endpoint })),
+    });
+
+  } catch (error) {
+    console.error('API webhook list error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authenticate
+    const auth = await authenticateApiRequest(request, 'history:write');
+    if (!auth.user) {
+      return auth.response;
+    }
+    const { user } = auth;
+
+    const body = await request.json();
+    const input = WebhookEndpointSchema.parse(body);
+
+    // The signing secret is only returned in this response
+    const created = createWebhookEndpoint(user.username, input);
+    return NextResponse.json(toWebhookEndpointResponse(created), { status: 201 });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.issues
+      }, { status: 400 });
+    }
+
+    console.error('API webhook create error:', error);
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -1,7 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { updateVideoHistoryItem } from '@/actions/historyActions';
-import { saveFileFromUrl } from '@/services/storage.service';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { verifyWebhookSignature } from '@/lib/webhook-verification';
+import { findHistoryItemById, findVideoSlotByFalRequestId } from '@/services/db';
+import { completeVideoGeneration, isRetryableCompletionError } from '@/services/video-completion.service';
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,7 +18,7 @@ export async function POST(request: NextRequest) {
     // Verify the webhook signature (CRITICAL SECURITY)
     const isValid = await verifyWebhookSignature(requestId, userId, timestamp, signature, bodyBuffer);
     
-    if (!isValid) {
+    if (!isValid || !requestId) {
       console.warn('Webhook signature verification failed');
       return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
     }
@@ -40,111 +40,36 @@ export async function POST(request: NextRequest) {
     // Extract our custom payload from query parameters
     const historyItemId = url.searchParams.get('historyItemId');
     const username = url.searchParams.get('username');
+    // Webhook URLs of videos queued before items had several clips have no slot
+    const slotIndex = Number(url.searchParams.get('slotIndex') ?? 0);
 
     if (!historyItemId || !username) {
       console.error('Webhook received incomplete params:', { historyItemId, username });
       return NextResponse.json({ error: 'Incomplete webhook parameters' }, { status: 400 });
     }
 
-    // Check if the result indicates an error (Fal.ai webhook format)
-    if (result.status === 'ERROR' || result.error) {
-      console.error('fal.ai returned error:', result.error || 'Unknown error');
-      
-      // Update history item with error status
-      await updateVideoHistoryItem({
-        username,
-        historyItemId,
-        videoUrls: [null],
-        localVideoUrl: null,
-        seedUsed: null,
-        status: 'failed',
-        error: result.error || 'Video generation failed'
-      });
-
-      return NextResponse.json({ success: true, handled: 'error' });
+    // The query string is not signed: the signed request ID must be the one bound to the clip at submission.
+    // An unbound request is rejected too, so Fal.ai retries it if it raced the submission.
+    const slot = findVideoSlotByFalRequestId(requestId);
+    const item = slot && findHistoryItemById(slot.historyId);
+    if (!slot || !item || item.id !== historyItemId || slot.slotIndex !== slotIndex || item.username !== username) {
+      console.warn(`Webhook for fal.ai request ${requestId} does not match history item ${historyItemId} slot ${slotIndex}`);
+      return NextResponse.json({ error: 'Request ID does not match the history item' }, { status: 409 });
     }
 
-    // Extract video result for successful generation (Fal.ai webhook format)
-    if (result.status !== 'OK') {
-      console.error('Unexpected status from fal.ai:', result.status);
-      
-      await updateVideoHistoryItem({
-        username,
-        historyItemId,
-        videoUrls: [null],
-        localVideoUrl: null,
-        seedUsed: null,
-        status: 'failed',
-        error: `Unexpected status: ${result.status}`
-      });
-
-      return NextResponse.json({ success: true, handled: 'unexpected_status' });
+    const handled = await completeVideoGeneration(requestId, result, { source: 'webhook', defer: after });
+    if (handled !== 'completed') {
+      return NextResponse.json({ success: true, handled });
     }
 
-    const falVideoUrl = result.payload?.video?.url;
-    const seedUsed = result.payload?.seed;
-
-    if (!falVideoUrl) {
-      console.error('No video URL in successful result:', result.payload);
-      
-      await updateVideoHistoryItem({
-        username,
-        historyItemId,
-        videoUrls: [null],
-        localVideoUrl: null,
-        seedUsed: seedUsed,
-        status: 'failed',
-        error: 'No video URL returned from fal.ai'
-      });
-
-      return NextResponse.json({ success: true, handled: 'no_video' });
-    }
-
-    // Download the video from the temporary fal.ai URL and save it locally
-    const { relativeUrl: localVideoUrl } = await saveFileFromUrl(falVideoUrl, 'RefashionAI_video', 'generated_videos', 'mp4');
-    
-    // 6. Update the history item with the final details
-    await updateVideoHistoryItem({
-      username,
-      historyItemId,
-      videoUrls: [falVideoUrl], // Store remote URL for potential future use
-      localVideoUrl: localVideoUrl,
-      seedUsed: seedUsed,
-      status: 'completed'
-    });
-
-    console.log(`Webhook processed successfully for history item ${historyItemId}`);
+    console.log(`Webhook processed successfully for history item ${historyItemId} slot ${slotIndex}`);
     return NextResponse.json({ success: true });
 
   } catch (error) {
     console.error('Error processing fal.ai webhook:', error);
-    
-    // Try to update the history item with error status if we have the params
-    try {
-      const url = new URL(request.url);
-      const historyItemId = url.searchParams.get('historyItemId');
-      const username = url.searchParams.get('username');
-      
-      if (historyItemId && username) {
-        await updateVideoHistoryItem({
-          username,
-          historyItemId,
-          videoUrls: [null],
-          localVideoUrl: null,
-          seedUsed: null,
-          status: 'failed',
-          error: 'Webhook processing failed'
-        });
-      }
-    } catch (updateError) {
-      console.error('Failed to update history item with error status:', updateError);
-    }
-    
-    // Determine if retryable
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const isRetryable = errorMessage.includes('SQLITE_BUSY') || errorMessage.includes('EACCES') || errorMessage.includes('ETIMEDOUT');
-
-    if (isRetryable) {
+    // The item is marked failed by completeVideoGeneration, or left processing for the
+    // reconciler when the webhook could not be read at all.
+    if (isRetryableCompletionError(error)) {
        console.error('Retryable error in webhook:', error);
        return NextResponse.json({ error: 'Internal Server Error - Will Retry' }, { status: 500 });
     }
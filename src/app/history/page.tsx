@@ -2,16 +2,23 @@ import { Suspense } from 'react';
 import HistoryGallery from "@/components/history-gallery";
 import { PageHeader } from "@/components/ui/page-header";
 import { History } from "lucide-react";
-import { getHistoryPaginated } from '@/actions/historyActions';
+import { searchHistory } from '@/actions/historyActions';
+import { getCollections } from '@/actions/collectionActions';
 import { Skeleton } from '@/components/ui/skeleton';
+import { getImageModels } from '@/services/image-models.service';
+import type { Collection } from '@/services/db';
+import { readHistorySearchFilters, type HistorySearchFilters } from '@/lib/history-search';
 
 // Force dynamic rendering for user-specific content
 
 
 import { connection } from 'next/server';
 
-export default async function HistoryPage() {
+export default async function HistoryPage(props: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>
+}) {
   await connection();
+  const filters = readHistorySearchFilters(await props.searchParams);
   return (
     <div className="container mx-auto max-w-7xl px-4 py-10 space-y-8">
       <PageHeader
@@ -20,21 +27,23 @@ export default async function HistoryPage() {
         description="Review your past image and video generations."
       />
       <Suspense fallback={<HistoryGallerySkeleton />}>
-        <UserHistoryLoader />
+        <UserHistoryLoader filters={filters} />
       </Suspense>
     </div>
   );
 }
 
-async function UserHistoryLoader() {
+async function UserHistoryLoader({ filters }: { filters: HistorySearchFilters }) {
   let initialHistory;
+  let initialCollections: Collection[] = [];
   try {
-    initialHistory = await getHistoryPaginated(1, 9, 'all');
+    [initialHistory, initialCollections] = await Promise.all([searchHistory(filters, 1, 9, 'all'), getCollections()]);
   } catch (error) {
     console.warn('[UserHistoryLoader] Unable to fetch history:', error instanceof Error ? error.message : String(error));
     initialHistory = { items: [], totalCount: 0, hasMore: false, currentPage: 1 };
   }
-  return <HistoryGallery initialHistory={initialHistory} />;
+  const models = getImageModels().map(({ id, label }) => ({ id, label }));
+  return <HistoryGallery initialHistory={initialHistory} models={models} initialCollections={initialCollections} />;
 }
 
 function HistoryGallerySkeleton() {
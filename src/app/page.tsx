@@ -1,35 +1,33 @@
 import { Suspense } from 'react';
 import CreationHub from '@/components/creation-hub';
 import HistoryGallery from '@/components/history-gallery';
-import { getHistoryPaginated, getRecentUploadsAction } from '@/actions/historyActions';
+import { searchHistory, getRecentUploadsAction } from '@/actions/historyActions';
+import { getCollections } from '@/actions/collectionActions';
 import { Skeleton } from '@/components/ui/skeleton';
 import { getCurrentUser } from '@/actions/authActions';
-import { findUserByUsername } from '@/services/db';
+import { findUserByUsername, type Collection } from '@/services/db';
+import { getImageModels, resolveImageModel } from '@/services/image-models.service';
+import { toImageModelSummary, type ImageModelSummary } from '@/lib/image-models';
+import { readHistorySearchFilters, type HistorySearchFilters } from '@/lib/history-search';
 
 import { connection } from 'next/server';
 
-// Simplified Server Component - no more searchParams handling
+// Simplified Server Component - searchParams only seed the history search
 export default async function CreatePage(props: {
   searchParams: Promise<{ [key: string]: string | string[] | undefined }>
 }) {
   await connection();
-  await props.searchParams; // Await params in Next.js 16
+  const searchParams = await props.searchParams; // Await params in Next.js 16
+  const historyFilters = readHistorySearchFilters(searchParams);
   
   const sessionUser = await getCurrentUser();
-  let maxImages = 3; // Default to 3
   let recentUploads: string[] = [];
-  let userModel = 'fal_gemini_2_5'; // NEW: Default
+  let imageModel: ImageModelSummary | undefined;
 
   if (sessionUser?.username) {
     const fullUser = findUserByUsername(sessionUser.username);
-    
-    if (fullUser?.image_generation_model) { // NEW: Capture model
-      userModel = fullUser.image_generation_model;
-    }
-
-    if (fullUser?.image_generation_model === 'fal_nano_banana_pro') {
-      maxImages = 1;
-    }
+    const model = resolveImageModel(fullUser?.image_generation_model);
+    imageModel = model ? toImageModelSummary(model) : undefined;
 
     // Fetch recent uploads
     try {
@@ -42,24 +40,26 @@ export default async function CreatePage(props: {
   return (
     <div className="container mx-auto max-w-7xl px-4 pb-10 space-y-8">
       {/* CreationHub now manages state entirely on the client */}
-      <CreationHub maxImages={maxImages} recentUploads={recentUploads} userModel={userModel}>
+      <CreationHub recentUploads={recentUploads} imageModel={imageModel}>
         <Suspense fallback={<HistoryGallerySkeleton />}>
-          <UserHistory />
+          <UserHistory filters={historyFilters} />
         </Suspense>
       </CreationHub>
     </div>
   );
 }
 
-async function UserHistory() {
+async function UserHistory({ filters }: { filters: HistorySearchFilters }) {
   let initialHistory;
+  let initialCollections: Collection[] = [];
   try {
-    initialHistory = await getHistoryPaginated(1, 9, 'all');
+    [initialHistory, initialCollections] = await Promise.all([searchHistory(filters, 1, 9, 'all'), getCollections()]);
   } catch (error) {
     console.warn('[UserHistory] Unable to fetch history:', error instanceof Error ? error.message : String(error));
     initialHistory = { items: [], totalCount: 0, hasMore: false, currentPage: 1 };
   }
-  return <HistoryGallery initialHistory={initialHistory} />;
+  const models = getImageModels().map(({ id, label }) => ({ id, label }));
+  return <HistoryGallery initialHistory={initialHistory} models={models} initialCollections={initialCollections} />;
 }
 
 function HistoryGallerySkeleton() {
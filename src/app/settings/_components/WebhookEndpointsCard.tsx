@@ -0,0 +1,268 @@
+// src/app/settings/_components/WebhookEndpointsCard.tsx
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, KeyRound, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import {
+  createWebhookEndpointAction, deleteWebhookEndpointAction, updateWebhookEndpointAction
+} from '@/actions/webhookEndpointActions';
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from '@/lib/api-schemas';
+import type { WebhookEndpoint } from '@/services/db';
+
+interface WebhookEndpointsCardProps {
+  endpoints: WebhookEndpoint[];
+}
+
+export function WebhookEndpointsCard({ endpoints }: WebhookEndpointsCardProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENT_TYPES]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [endpointToDelete, setEndpointToDelete] = useState<WebhookEndpoint | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusyId('new');
+    try {
+      const result = await createWebhookEndpointAction({ url, description: description || undefined, events });
+      if (result.success) {
+        setIsCreateDialogOpen(false);
+        setUrl('');
+        setDescription('');
+        setEvents([...WEBHOOK_EVENT_TYPES]);
+        setRevealedSecret(result.secret ?? null);
+        router.refresh();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUpdate = async (endpoint: WebhookEndpoint, update: { enabled?: boolean; rotateSecret?: boolean }) => {
+    setBusyId(endpoint.id);
+    try {
+      const result = await updateWebhookEndpointAction(endpoint.id, update);
+      if (result.success) {
+        if (result.secret) {
+          setRevealedSecret(result.secret);
+        }
+        router.refresh();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!endpointToDelete) return;
+    setBusyId(endpointToDelete.id);
+    try {
+      const result = await deleteWebhookEndpointAction(endpointToDelete.id);
+      if (result.success) {
+        toast({ title: 'Endpoint Deleted', description: 'Pending deliveries to this endpoint will be dropped.' });
+        router.refresh();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    } finally {
+      setEndpointToDelete(null);
+      setBusyId(null);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret);
+    toast({ title: 'Copied', description: 'The signing secret was copied to your clipboard.' });
+  };
+
+  return (
+    <>
+      <Card variant="glass">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Webhook Endpoints</CardTitle>
+            <CardDescription>
+              Registered endpoints receive signed events for your generations. A <span className="font-mono">webhookUrl</span> sent with an API request overrides them for that request.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Endpoint
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {endpoints.length > 0 ? (
+                endpoints.map((endpoint) => (
+                  <TableRow key={endpoint.id}>
+                    <TableCell className="max-w-[280px]">
+                      <p className="truncate font-mono text-xs" title={endpoint.url}>{endpoint.url}</p>
+                      {endpoint.description && <p className="truncate text-xs text-muted-foreground">{endpoint.description}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.events.map(event => (
+                          <Badge key={event} variant="outline" className="font-mono text-[10px]">{event}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={endpoint.enabled}
+                        onCheckedChange={(checked) => handleUpdate(endpoint, { enabled: checked })}
+                        disabled={busyId !== null}
+                        aria-label={`Enable ${endpoint.url}`}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleUpdate(endpoint, { rotateSecret: true })}
+                        disabled={busyId !== null}
+                        aria-label={`Rotate secret of ${endpoint.url}`}
+                        title="Rotate signing secret"
+                      >
+                        {busyId === endpoint.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEndpointToDelete(endpoint)}
+                        disabled={busyId !== null}
+                        aria-label={`Delete ${endpoint.url}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">
+                    No webhook endpoints registered.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>Add Webhook Endpoint</DialogTitle>
+              <DialogDescription>Events are sent as signed POST requests to this URL.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input id="webhook-url" type="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/hooks/refashion" required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook-description">Description</Label>
+                <Input id="webhook-description" value={description} onChange={(e) => setDescription(e.target.value)} maxLength={200} />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                {WEBHOOK_EVENT_TYPES.map(event => (
+                  <div key={event} className="flex items-center justify-between">
+                    <Label htmlFor={`event-${event}`} className="font-mono text-xs font-normal">{event}</Label>
+                    <Switch
+                      id={`event-${event}`}
+                      checked={events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={busyId !== null || events.length === 0}>
+                {busyId === 'new' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Endpoint
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={revealedSecret !== null} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Use this secret to verify the <span className="font-mono">X-Refashion-Signature</span> header. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedSecret ?? ''} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copySecret} aria-label="Copy secret">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!endpointToDelete} onOpenChange={(open) => !open && setEndpointToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this endpoint?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <span className="font-mono">{endpointToDelete?.url}</span> will no longer receive events.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+// src/app/settings/page.tsx
+import { connection } from 'next/server';
+import { Settings } from 'lucide-react';
+import { getApiKeys } from '@/actions/apiKeyActions';
+import { getWebhookEndpoints } from '@/actions/webhookEndpointActions';
+import { ApiKeysCard } from '@/components/ApiKeysCard';
+import { PageHeader } from '@/components/ui/page-header';
+import { WebhookEndpointsCard } from './_components/WebhookEndpointsCard';
+
+export default async function SettingsPage() {
+  await connection();
+
+  const [apiKeys, endpoints] = await Promise.all([getApiKeys(), getWebhookEndpoints()]);
+
+  return (
+    <div className="container mx-auto max-w-5xl px-4 py-10 space-y-8">
+      <PageHeader
+        icon={Settings}
+        title="Settings"
+        description="Manage the keys your integrations use and how they are notified about finished generations."
+      />
+      <ApiKeysCard apiKeys={apiKeys} />
+      <WebhookEndpointsCard endpoints={endpoints} />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+// src/app/share/[token]/page.tsx
+import type { Metadata } from 'next';
+import { connection } from 'next/server';
+import { Link2Off, MessageSquareText } from 'lucide-react';
+import { PageHeader } from '@/components/ui/page-header';
+import { Card, CardContent } from '@/components/ui/card';
+import { resolveShareToken, getSharedContent } from '@/services/share-link.service';
+import { SharedReview } from '../_components/SharedReview';
+
+// Review links are private to whoever received them
+export const metadata: Metadata = {
+  title: 'Review | Refashion AI',
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Public, read-only review page for a share link. Reachable without an account (see proxy.ts).
+ */
+export default async function SharePage({ params }: { params: Promise<{ token: string }> }) {
+  await connection();
+
+  const { token } = await params;
+  const link = resolveShareToken(token);
+  const content = link ? getSharedContent(link) : null;
+
+  if (!link || !content) {
+    return (
+      <div className="container mx-auto max-w-xl px-4 py-16">
+        <Card variant="glass">
+          <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+            <Link2Off className="h-10 w-10 text-muted-foreground" />
+            <h1 className="text-xl font-semibold">This link is no longer available</h1>
+            <p className="text-sm text-muted-foreground">It may have expired or been revoked. Ask the sender for a new link.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-6xl px-4 py-10 space-y-8">
+      <PageHeader
+        icon={MessageSquareText}
+        title={content.title}
+        description={content.description || 'Approve or reject each result and leave a comment for the team.'}
+      />
+      <SharedReview token={token} items={content.items} expiresAt={link.expiresAt} />
+    </div>
+  );
+}
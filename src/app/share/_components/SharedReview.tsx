@@ -0,0 +1,131 @@
+// src/app/share/_components/SharedReview.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Image from "next/image";
+import { Check, Loader2, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { getDisplayableImageUrl } from "@/lib/utils";
+import type { ReviewDecision } from "@/lib/share-links";
+import type { SharedItem } from "@/services/share-link.service";
+import { ShareReviewList } from "@/components/ShareReviewList";
+import { recordShareViewAction, submitShareReviewAction } from "@/actions/shareLinkActions";
+
+interface SharedReviewProps {
+  token: string;
+  items: SharedItem[];
+  expiresAt: number;
+}
+
+function SharedItemCard({ token, item, index, reviewerName }: { token: string; item: SharedItem; index: number; reviewerName: string }) {
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState(item.reviews);
+  const [comment, setComment] = useState("");
+  const [pendingDecision, setPendingDecision] = useState<ReviewDecision | null>(null);
+
+  const submit = async (decision: ReviewDecision) => {
+    if (!reviewerName.trim()) {
+      toast({ title: "Name Required", description: "Enter your name at the top of the page before reviewing.", variant: "destructive" });
+      return;
+    }
+    setPendingDecision(decision);
+    try {
+      const result = await submitShareReviewAction(token, { historyId: item.id, reviewerName, decision, comment: comment || undefined });
+      if (result.success && result.review) {
+        setReviews(prev => [result.review!, ...prev]);
+        setComment("");
+        toast({ title: "Thanks!", description: "Your review was sent." });
+      } else {
+        toast({ title: "Could Not Send Review", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setPendingDecision(null);
+    }
+  };
+
+  return (
+    <Card variant="glass">
+      <CardHeader>
+        <CardTitle className="text-lg">Result {index + 1}</CardTitle>
+        <p className="text-xs text-muted-foreground">{new Date(item.timestamp).toLocaleDateString()}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {item.imageUrls.map((url, i) => (
+            <a key={url} href={getDisplayableImageUrl(url) || "#"} target="_blank" rel="noopener noreferrer" className="relative aspect-[2/3] overflow-hidden rounded-lg bg-muted/30">
+              <Image src={getDisplayableImageUrl(url)!} alt={`Result ${index + 1}, image ${i + 1}`} fill className="object-cover" sizes="(max-width: 640px) 100vw, 33vw" />
+            </a>
+          ))}
+          {item.videoUrls.map(url => (
+            <video key={url} src={getDisplayableImageUrl(url)!} controls loop className="aspect-[9/16] w-full rounded-lg bg-black object-contain" />
+          ))}
+        </div>
+
+        {item.prompt && (
+          <p className="rounded-md bg-muted/50 p-3 font-mono text-xs leading-relaxed text-foreground/80">{item.prompt}</p>
+        )}
+
+        <ShareReviewList reviews={reviews} />
+
+        <div className="space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Optional comment, e.g. what to change"
+            aria-label={`Comment on result ${index + 1}`}
+            maxLength={1000}
+            rows={2}
+          />
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={() => submit("approved")} disabled={!!pendingDecision}>
+              {pendingDecision === "approved" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ThumbsUp className="mr-2 h-4 w-4" />}
+              Approve
+            </Button>
+            <Button className="flex-1" variant="destructive" onClick={() => submit("rejected")} disabled={!!pendingDecision}>
+              {pendingDecision === "rejected" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ThumbsDown className="mr-2 h-4 w-4" />}
+              Reject
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Read-only review of shared results. Anyone with the link can approve or reject each item.
+ */
+export function SharedReview({ token, items, expiresAt }: SharedReviewProps) {
+  const [reviewerName, setReviewerName] = useState("");
+
+  useEffect(() => {
+    recordShareViewAction(token).catch(() => {});
+  }, [token]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 rounded-lg border border-white/10 bg-muted/20 p-4 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1 sm:w-72">
+          <Label htmlFor="reviewer-name">Your name</Label>
+          <Input id="reviewer-name" value={reviewerName} onChange={(e) => setReviewerName(e.target.value)} placeholder="Shown with your reviews" maxLength={60} />
+        </div>
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Check className="h-3 w-3" /> Link valid until {new Date(expiresAt).toLocaleString()}
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="py-10 text-center text-muted-foreground">Nothing has been shared here yet.</p>
+      ) : (
+        items.map((item, index) => (
+          <SharedItemCard key={item.id} token={token} item={item} index={index} reviewerName={reviewerName} />
+        ))
+      )}
+    </div>
+  );
+}
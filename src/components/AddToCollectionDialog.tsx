@@ -0,0 +1,148 @@
+// src/components/AddToCollectionDialog.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Check, FolderPlus, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { HistoryItem } from "@/lib/types";
+import type { Collection } from "@/services/db";
+import {
+  createCollectionAction,
+  getCollectionIdsForHistoryItem,
+  setCollectionMembershipAction,
+} from "@/actions/collectionActions";
+
+interface AddToCollectionDialogProps {
+  /** The item to organize; the dialog is open while this is set. */
+  item: HistoryItem | null;
+  collections: Collection[];
+  onClose: () => void;
+  /** Called with a created collection or one whose item count changed. */
+  onCollectionChange: (collection: Collection) => void;
+}
+
+/**
+ * Lets the user toggle a history item's membership in each of their collections,
+ * or create a new collection that starts with the item.
+ */
+export function AddToCollectionDialog({ item, collections, onClose, onCollectionChange }: AddToCollectionDialogProps) {
+  const { toast } = useToast();
+  const [memberIds, setMemberIds] = useState<Set<string> | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const itemId = item?.id;
+  useEffect(() => {
+    if (!itemId) return;
+    let cancelled = false;
+    setMemberIds(null);
+    getCollectionIdsForHistoryItem(itemId)
+      .then(ids => { if (!cancelled) setMemberIds(new Set(ids)); })
+      .catch(() => { if (!cancelled) setMemberIds(new Set()); });
+    return () => { cancelled = true; };
+  }, [itemId]);
+
+  const setMembership = async (collection: Collection, isMember: boolean) => {
+    if (!item) return;
+    setPendingId(collection.id);
+    try {
+      const result = await setCollectionMembershipAction(collection.id, item.id, isMember);
+      if (result.success && result.collection) {
+        setMemberIds(prev => {
+          const next = new Set(prev);
+          if (isMember) next.add(collection.id); else next.delete(collection.id);
+          return next;
+        });
+        onCollectionChange(result.collection);
+      } else {
+        toast({ title: "Could Not Update Collection", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || !newName.trim()) return;
+    setIsCreating(true);
+    try {
+      const created = await createCollectionAction({ name: newName });
+      if (!created.success || !created.collection) {
+        toast({ title: "Could Not Create Collection", description: created.error, variant: "destructive" });
+        return;
+      }
+      onCollectionChange(created.collection);
+      setNewName("");
+      await setMembership(created.collection, true);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add to Collection</DialogTitle>
+          <DialogDescription>Select the collections this item belongs to.</DialogDescription>
+        </DialogHeader>
+
+        {memberIds === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : collections.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">You have no collections yet. Create one below.</p>
+        ) : (
+          <ScrollArea className="max-h-72">
+            <div className="space-y-1 pr-3">
+              {collections.map(collection => {
+                const isMember = memberIds.has(collection.id);
+                return (
+                  <button
+                    key={collection.id}
+                    type="button"
+                    aria-pressed={isMember}
+                    disabled={!!pendingId}
+                    onClick={() => setMembership(collection, !isMember)}
+                    className={cn(
+                      "flex w-full items-center gap-3 rounded-md border px-3 py-2 text-left text-sm transition-colors",
+                      isMember ? "border-primary/50 bg-primary/10" : "border-transparent hover:bg-muted/50"
+                    )}
+                  >
+                    <span className={cn("flex size-5 shrink-0 items-center justify-center rounded-sm border", isMember && "border-primary bg-primary text-primary-foreground")}>
+                      {pendingId === collection.id ? <Loader2 className="size-3 animate-spin" /> : isMember && <Check className="size-3" />}
+                    </span>
+                    <span className="flex-1 truncate">{collection.name}</span>
+                    <span className="text-xs text-muted-foreground">{collection.itemCount}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2 border-t pt-4">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection name"
+            aria-label="New collection name"
+            maxLength={60}
+          />
+          <Button type="submit" variant="secondary" disabled={isCreating || !newName.trim()}>
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FolderPlus className="mr-2 h-4 w-4" />}
+            Create
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,296 @@
+// src/components/ApiKeysCard.tsx
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Copy, Loader2, PlusCircle } from 'lucide-react';
+import { createApiKeyAction, revokeApiKeyAction } from '@/actions/apiKeyActions';
+import { createApiKeyForUser, revokeApiKeyAsAdmin } from '@/actions/adminApiKeyActions';
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/api-schemas';
+import type { ApiKey } from '@/services/db';
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+] as const;
+
+interface ApiKeysCardProps {
+  apiKeys: ApiKey[];
+  /**
+   * Admin mode: keys of several users are listed with their owner, and new keys
+   * can be created for any of these usernames.
+   */
+  usernames?: string[];
+  defaultUsername?: string;
+}
+
+function getKeyStatus(apiKey: ApiKey): { label: string; variant: 'default' | 'secondary' | 'destructive' } {
+  if (apiKey.revoked) return { label: 'Revoked', variant: 'destructive' };
+  if (apiKey.expiresAt !== undefined && apiKey.expiresAt <= Date.now()) return { label: 'Expired', variant: 'secondary' };
+  return { label: 'Active', variant: 'default' };
+}
+
+export function ApiKeysCard({ apiKeys, usernames, defaultUsername }: ApiKeysCardProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const isAdmin = usernames !== undefined;
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [owner, setOwner] = useState(defaultUsername ?? '');
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES]);
+  const [expiry, setExpiry] = useState<string>('never');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusyId('new');
+    try {
+      const input = { name, scopes, expiresInDays: expiry === 'never' ? undefined : Number(expiry) };
+      const result = isAdmin ? await createApiKeyForUser(owner, input) : await createApiKeyAction(input);
+      if (result.success) {
+        setIsCreateDialogOpen(false);
+        setName('');
+        setScopes([...API_KEY_SCOPES]);
+        setExpiry('never');
+        setRevealedKey(result.key ?? null);
+        router.refresh();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!keyToRevoke) return;
+    setBusyId(keyToRevoke.id);
+    try {
+      const result = isAdmin ? await revokeApiKeyAsAdmin(keyToRevoke.id) : await revokeApiKeyAction(keyToRevoke.id);
+      if (result.success) {
+        toast({ title: 'Key Revoked', description: `Requests using '${keyToRevoke.name}' are now rejected.` });
+        router.refresh();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    } finally {
+      setKeyToRevoke(null);
+      setBusyId(null);
+    }
+  };
+
+  const copyKey = async () => {
+    if (!revealedKey) return;
+    await navigator.clipboard.writeText(revealedKey);
+    toast({ title: 'Copied', description: 'The API key was copied to your clipboard.' });
+  };
+
+  const columnCount = isAdmin ? 8 : 7;
+
+  return (
+    <>
+      <Card variant="glass">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>API Keys</CardTitle>
+            <CardDescription>
+              Keys authenticate requests to the API v1. Each key only grants the scopes it was created with.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setIsCreateDialogOpen(true)}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Create Key
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {isAdmin && <TableHead>User</TableHead>}
+                <TableHead>Name</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys.length > 0 ? (
+                apiKeys.map((apiKey) => {
+                  const status = getKeyStatus(apiKey);
+                  return (
+                    <TableRow key={apiKey.id}>
+                      {isAdmin && <TableCell className="font-medium">{apiKey.username}</TableCell>}
+                      <TableCell>
+                        <p>{apiKey.name}</p>
+                        <p className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</p>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {apiKey.scopes.map(scope => (
+                            <Badge key={scope} variant="outline" className="font-mono text-[10px]">{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">{new Date(apiKey.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleDateString() : 'Never'}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'}
+                      </TableCell>
+                      <TableCell><Badge variant={status.variant}>{status.label}</Badge></TableCell>
+                      <TableCell className="text-right">
+                        {!apiKey.revoked && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setKeyToRevoke(apiKey)}
+                            disabled={busyId !== null}
+                            aria-label={`Revoke ${apiKey.name}`}
+                            title="Revoke key"
+                          >
+                            {busyId === apiKey.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4 text-destructive" />}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="h-24 text-center">
+                    No API keys yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreate}>
+            <DialogHeader>
+              <DialogTitle>Create API Key</DialogTitle>
+              <DialogDescription>Grant only the scopes the integration needs.</DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              {isAdmin && (
+                <div className="space-y-2">
+                  <Label htmlFor="api-key-owner">User</Label>
+                  <Select value={owner} onValueChange={setOwner}>
+                    <SelectTrigger id="api-key-owner"><SelectValue placeholder="Select a user" /></SelectTrigger>
+                    <SelectContent>
+                      {usernames.map(username => (
+                        <SelectItem key={username} value={username}>{username}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input id="api-key-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="WordPress plugin" maxLength={100} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                {API_KEY_SCOPES.map(scope => (
+                  <div key={scope} className="flex items-center justify-between">
+                    <Label htmlFor={`scope-${scope}`} className="font-mono text-xs font-normal">{scope}</Label>
+                    <Switch
+                      id={`scope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked)}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-key-expiry">Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger id="api-key-expiry"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={busyId !== null || scopes.length === 0 || (isAdmin && !owner)}>
+                {busyId === 'new' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Key
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={revealedKey !== null} onOpenChange={(open) => !open && setRevealedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>API Key Created</DialogTitle>
+            <DialogDescription>
+              Send it as <span className="font-mono">Authorization: Bearer &lt;key&gt;</span>. Copy it now, it will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedKey ?? ''} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copyKey} aria-label="Copy key">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!keyToRevoke} onOpenChange={(open) => !open && setKeyToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Integrations using &apos;{keyToRevoke?.name}&apos; ({keyToRevoke?.prefix}…) will stop working immediately. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
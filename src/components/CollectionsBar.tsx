@@ -0,0 +1,192 @@
+// src/components/CollectionsBar.tsx
+"use client";
+
+import React, { useState } from "react";
+import { FolderOpen, FolderPlus, Loader2, Pencil, Share2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { Collection } from "@/services/db";
+import { createCollectionAction, deleteCollectionAction, updateCollectionAction } from "@/actions/collectionActions";
+
+interface CollectionsBarProps {
+  collections: Collection[];
+  activeCollectionId?: string;
+  /** Switches the gallery to a collection, or back to all history with undefined. */
+  onSelect: (collectionId: string | undefined) => void;
+  onCollectionChange: (collection: Collection) => void;
+  onCollectionDelete: (collectionId: string) => void;
+  onShare?: (collection: Collection) => void;
+}
+
+function CollectionFormDialog({ collection, open, onOpenChange, onSaved }: {
+  /** The collection to edit; a new one is created when omitted. */
+  collection?: Collection;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (collection: Collection) => void;
+}) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const input = { name: String(formData.get("name") ?? ""), description: String(formData.get("description") ?? "") };
+    setIsSaving(true);
+    try {
+      const result = collection ? await updateCollectionAction(collection.id, input) : await createCollectionAction(input);
+      if (result.success && result.collection) {
+        onSaved(result.collection);
+        onOpenChange(false);
+      } else {
+        toast({ title: "Could Not Save Collection", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        {/* Keyed so the fields reset to the collection being edited */}
+        <form key={collection?.id ?? "new"} onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{collection ? "Edit Collection" : "New Collection"}</DialogTitle>
+            <DialogDescription>Group generations, e.g. for a lookbook or a client approval round.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="collection-name">Name</Label>
+              <Input id="collection-name" name="name" defaultValue={collection?.name} placeholder="SS26 lookbook" maxLength={60} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collection-description">Description</Label>
+              <Textarea id="collection-description" name="description" defaultValue={collection?.description} maxLength={200} rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {collection ? "Save" : "Create Collection"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Switches the history gallery between all items and a single collection, and manages collections.
+ */
+export function CollectionsBar({ collections, activeCollectionId, onSelect, onCollectionChange, onCollectionDelete, onShare }: CollectionsBarProps) {
+  const { toast } = useToast();
+  const [formState, setFormState] = useState<{ open: boolean; collection?: Collection }>({ open: false });
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const activeCollection = collections.find(collection => collection.id === activeCollectionId);
+
+  const handleDelete = async () => {
+    if (!activeCollection) return;
+    const result = await deleteCollectionAction(activeCollection.id);
+    if (result.success) {
+      onCollectionDelete(activeCollection.id);
+      toast({ title: "Collection Deleted", description: `"${activeCollection.name}" was deleted. Its items are still in your history.` });
+    } else {
+      toast({ title: "Could Not Delete Collection", description: result.error, variant: "destructive" });
+    }
+    setIsConfirmingDelete(false);
+  };
+
+  const pillClass = (isActive: boolean) => cn(
+    "shrink-0 rounded-full border px-3 py-1 text-sm transition-colors",
+    isActive ? "border-primary bg-primary text-primary-foreground" : "border-white/10 bg-muted/20 hover:bg-muted/50"
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 overflow-x-auto pb-1" role="tablist" aria-label="Collections">
+        <button type="button" role="tab" aria-selected={!activeCollectionId} className={pillClass(!activeCollectionId)} onClick={() => onSelect(undefined)}>
+          All history
+        </button>
+        {collections.map(collection => (
+          <button
+            key={collection.id}
+            type="button"
+            role="tab"
+            aria-selected={collection.id === activeCollectionId}
+            className={pillClass(collection.id === activeCollectionId)}
+            onClick={() => onSelect(collection.id)}
+          >
+            {collection.name}
+            <span className="ml-1.5 opacity-70">{collection.itemCount}</span>
+          </button>
+        ))}
+        <Button variant="ghost" size="sm" className="shrink-0" onClick={() => setFormState({ open: true })}>
+          <FolderPlus className="mr-2 h-4 w-4" /> New Collection
+        </Button>
+      </div>
+
+      {activeCollection && (
+        <div className="flex items-start justify-between gap-4 rounded-lg border border-white/10 bg-muted/20 p-3">
+          <div className="min-w-0">
+            <h3 className="flex items-center gap-2 font-semibold">
+              <FolderOpen className="h-4 w-4 text-primary" />
+              <span className="truncate">{activeCollection.name}</span>
+            </h3>
+            <p className="mt-0.5 text-xs text-muted-foreground">
+              {activeCollection.itemCount} {activeCollection.itemCount === 1 ? "item" : "items"}
+              {activeCollection.description && <> • {activeCollection.description}</>}
+            </p>
+          </div>
+          <div className="flex shrink-0 gap-1">
+            {onShare && (
+              <Button variant="ghost" size="icon" className="size-8" onClick={() => onShare(activeCollection)} aria-label="Share collection for review">
+                <Share2 className="size-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="size-8" onClick={() => setFormState({ open: true, collection: activeCollection })} aria-label="Edit collection">
+              <Pencil className="size-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="size-8 text-destructive hover:text-destructive" onClick={() => setIsConfirmingDelete(true)} aria-label="Delete collection">
+              <Trash2 className="size-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <CollectionFormDialog
+        collection={formState.collection}
+        open={formState.open}
+        onOpenChange={(open) => setFormState(prev => ({ ...prev, open }))}
+        onSaved={(collection) => {
+          onCollectionChange(collection);
+          if (!formState.collection) onSelect(collection.id);
+        }}
+      />
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this collection?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The collection &quot;{activeCollection?.name}&quot; will be deleted. The items in it stay in your history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive hover:bg-destructive/90">
+              Delete Collection
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
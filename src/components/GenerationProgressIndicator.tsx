@@ -4,7 +4,8 @@
 import React, { useEffect, useState, useMemo } from "react";
 import { m, AnimatePresence } from "motion/react";
 import { Progress } from "@/components/ui/progress";
-import { Loader2, Sparkles, CheckCircle2 } from "lucide-react";
+import { Loader2, Sparkles, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 
@@ -19,6 +20,10 @@ interface GenerationProgressIndicatorProps {
   message?: string;
   /** Number of images being generated */
   imageCount?: number;
+  /** When provided, a Cancel button is shown while generating */
+  onCancel?: () => void;
+  /** Whether a cancellation request is in flight */
+  isCancelling?: boolean;
 }
 
 const STAGE_MESSAGES = {
@@ -45,6 +50,8 @@ export function GenerationProgressIndicator({
   progress = 0,
   message,
   imageCount = 3,
+  onCancel,
+  isCancelling = false,
 }: GenerationProgressIndicatorProps) {
   const [simulatedProgress, setSimulatedProgress] = useState(0);
 
@@ -135,14 +142,32 @@ export function GenerationProgressIndicator({
 
               {/* Optional detailed stage info */}
               {!isComplete && (
-                <m.p
-                  className="text-xs text-muted-foreground"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  transition={{ delay: 0.5 }}
-                >
-                  This usually takes 20-30 seconds
-                </m.p>
+                <div className="flex items-center justify-between gap-3">
+                  <m.p
+                    className="text-xs text-muted-foreground"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: 0.5 }}
+                  >
+                    This usually takes 20-30 seconds
+                  </m.p>
+                  {onCancel && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={onCancel}
+                      disabled={isCancelling}
+                    >
+                      {isCancelling ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                      ) : (
+                        <XCircle className="mr-2 h-4 w-4" aria-hidden="true" />
+                      )}
+                      {isCancelling ? "Cancelling..." : "Cancel"}
+                    </Button>
+                  )}
+                </div>
               )}
             </CardContent>
           </Card>
@@ -8,15 +8,17 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { HistoryItem } from "@/lib/types";
 import { getDisplayableImageUrl } from "@/lib/utils";
-import { Eye, RefreshCw, Video, Image as ImageIcon, AlertTriangle, Loader2, PlayCircle, MoreVertical, MoreHorizontal, Trash2, Download, Sparkles } from "lucide-react";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Eye, RefreshCw, Video, Image as ImageIcon, AlertTriangle, Loader2, PlayCircle, MoreVertical, MoreHorizontal, Trash2, Download, Sparkles, XCircle, FolderPlus, FolderMinus, Share2, Clapperboard } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { m } from 'motion/react';
 import { useToast } from "@/hooks/use-toast";
 import { useGenerationSettingsStore } from "@/stores/generationSettingsStore";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import { getStoryboardSourceImage } from "@/lib/storyboard";
 
 import { useRouter } from 'next/navigation';
+import { cancelGenerationAction } from "@/actions/historyActions";
 
 
 interface HistoryCardProps {
@@ -26,6 +28,11 @@ interface HistoryCardProps {
   username?: string;
   onLoadFromHistory?: (item: HistoryItem) => void;
   onLoadFromImageUrl?: (imageUrl: string) => void;
+  onAddToCollection?: (item: HistoryItem) => void;
+  /** Set while the gallery shows a collection. */
+  onRemoveFromCollection?: (item: HistoryItem) => void;
+  onShare?: (item: HistoryItem) => void;
+  onAddToStoryboard?: (item: HistoryItem) => void;
 }
 
 // Memoize HistoryCard to prevent unnecessary re-renders when gallery updates
@@ -37,18 +44,25 @@ export default function HistoryCard({
   username,
   onLoadFromHistory,
   onLoadFromImageUrl,
+  onAddToCollection,
+  onAddToStoryboard,
+  onRemoveFromCollection,
+  onShare,
 }: HistoryCardProps) {
   const { toast } = useToast();
   const router = useRouter();
   const loadFromHistory = useGenerationSettingsStore(state => state.loadFromHistory);
   const setGenerationMode = useGenerationSettingsStore(state => state.setGenerationMode);
   const [isInView, setIsInView] = useState(false);
-  const [isLoadingAction, setIsLoadingAction] = useState<'reload' | 'send' | null>(null);
+  const [isLoadingAction, setIsLoadingAction] = useState<'reload' | 'send' | 'cancel' | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const cardRef = useRef<HTMLDivElement>(null);
   const isVideoItem = !!(item.videoGenerationParams || (item.generatedVideoUrls && item.generatedVideoUrls.some(url => !!url)));
   const primaryImageUrl = item.editedImageUrls?.[0] || item.originalClothingUrl;
   const videoUrl = item.generatedVideoUrls?.[0];
+  // Video items track their progress inside videoGenerationParams
+  const generationStatus = item.videoGenerationParams ? item.videoGenerationParams.status : item.status;
+  const isProcessing = generationStatus === 'processing';
 
 
   // IntersectionObserver for autoplay-in-view
@@ -166,6 +180,23 @@ export default function HistoryCard({
     onDeleteItem(item);
   };
 
+  const handleCancel = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    setIsLoadingAction('cancel');
+    try {
+      const result = await cancelGenerationAction(item.id);
+      if (result.success) {
+        toast({ title: "Generation Cancelled", description: "This generation has been stopped." });
+        router.refresh();
+      } else {
+        toast({ title: "Cancel Failed", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setIsLoadingAction(null);
+    }
+  };
+
   // REMOVED: useCallback
   const handleSendToCreative = async (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -271,6 +302,11 @@ export default function HistoryCard({
               {isVideoItem ? <Video className="size-3 mr-1.5" /> : <ImageIcon className="size-3 mr-1.5" />}
               {isVideoItem ? "Video" : "Image"}
             </Badge>
+            {generationStatus === 'cancelled' && (
+              <Badge variant="outline" className="text-xs font-medium shadow-sm bg-white/80 text-muted-foreground dark:bg-black/60 backdrop-blur-md">
+                Cancelled
+              </Badge>
+            )}
           </div>
 
           {/* Bottom Metadata (Layer 1: Text) - Moved before actions for logical stacking base */}
@@ -300,6 +336,16 @@ export default function HistoryCard({
               onClick={handleActionClick}
             >
               <TooltipProvider>
+                {isProcessing && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="icon" className="size-9 bg-black/40 text-white hover:bg-destructive hover:text-white backdrop-blur-md rounded-full pointer-events-auto" onClick={handleCancel} disabled={!!isLoadingAction} aria-label="Cancel generation">
+                        {isLoadingAction === 'cancel' ? <Loader2 className="size-4 animate-spin" /> : <XCircle className="size-4" />}
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Cancel</TooltipContent>
+                  </Tooltip>
+                )}
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button variant="ghost" size="icon" className="size-9 bg-black/40 text-white hover:bg-primary hover:text-white backdrop-blur-md rounded-full pointer-events-auto" onClick={handleDownload} aria-label="Download">
@@ -341,6 +387,28 @@ export default function HistoryCard({
                       <span>{isLoadingAction === 'send' ? 'Loading...' : 'Use in Creative'}</span>
                     </DropdownMenuItem>
                   )}
+
+                  {(onAddToCollection || onRemoveFromCollection || onShare || onAddToStoryboard) && <DropdownMenuSeparator />}
+                  {onAddToCollection && (
+                    <DropdownMenuItem onClick={() => onAddToCollection(item)}>
+                      <FolderPlus className="mr-2 h-4 w-4" /> Add to Collection
+                    </DropdownMenuItem>
+                  )}
+                  {onRemoveFromCollection && (
+                    <DropdownMenuItem onClick={() => onRemoveFromCollection(item)}>
+                      <FolderMinus className="mr-2 h-4 w-4" /> Remove from Collection
+                    </DropdownMenuItem>
+                  )}
+                  {onShare && (
+                    <DropdownMenuItem onClick={() => onShare(item)}>
+                      <Share2 className="mr-2 h-4 w-4" /> Share for Review
+                    </DropdownMenuItem>
+                  )}
+                  {onAddToStoryboard && (
+                    <DropdownMenuItem onClick={() => onAddToStoryboard(item)} disabled={!getStoryboardSourceImage(item)}>
+                      <Clapperboard className="mr-2 h-4 w-4" /> Add to Storyboard
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
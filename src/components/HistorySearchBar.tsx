@@ -0,0 +1,235 @@
+// src/components/HistorySearchBar.tsx
+"use client";
+
+import React, { useEffect, useState, useTransition } from "react";
+import type { Route } from "next";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Heart, Loader2, Search, SlidersHorizontal, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  GENERATION_MODES,
+  HISTORY_STATUSES,
+  SEARCHABLE_ATTRIBUTES,
+  SEARCHABLE_ATTRIBUTE_KEYS,
+  toHistorySearchParams,
+  type HistorySearchFilters,
+  type HistorySearchKey,
+} from "@/lib/history-search";
+
+export interface HistoryModelOption {
+  id: string;
+  label: string;
+}
+
+interface HistorySearchBarProps {
+  filters: HistorySearchFilters;
+  models: HistoryModelOption[];
+}
+
+// Radix Select items cannot have an empty value
+const ANY = "any";
+const SEARCH_DEBOUNCE_MS = 300;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function FilterSelect({ id, label, value, options, onChange }: {
+  id: string;
+  label: string;
+  value: string | undefined;
+  options: readonly { value: string; label: string }[];
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Select value={value ?? ANY} onValueChange={(next) => onChange(next === ANY ? undefined : next)}>
+        <SelectTrigger id={id} className="h-9"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/**
+ * Search box, filter panel and active-filter chips for the history gallery.
+ * Filters live in the URL so searches can be bookmarked and shared.
+ */
+export function HistorySearchBar({ filters, models }: HistorySearchBarProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+  const [showFilters, setShowFilters] = useState(false);
+
+  // The box follows the URL (e.g. "Clear all") but keeps what is being typed until it is applied
+  const [query, setQuery] = useState(filters.q ?? "");
+  const [appliedQuery, setAppliedQuery] = useState(filters.q ?? "");
+  if ((filters.q ?? "") !== appliedQuery) {
+    setAppliedQuery(filters.q ?? "");
+    setQuery(filters.q ?? "");
+  }
+
+  const navigate = (next: HistorySearchFilters) => {
+    const params = toHistorySearchParams(next, new URLSearchParams(searchParams.toString()));
+    const queryString = params.toString();
+    startTransition(() => {
+      router.replace(`${pathname}${queryString ? `?${queryString}` : ""}` as Route, { scroll: false });
+    });
+  };
+
+  const setFilter = (key: HistorySearchKey, value: string | undefined) => {
+    navigate({ ...filters, [key]: value });
+  };
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed === (filters.q ?? "")) return;
+    const timer = setTimeout(() => navigate({ ...filters, q: trimmed || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only typing schedules a search
+  }, [query]);
+
+  const labelFor = (key: HistorySearchKey, value: string): string => {
+    if (key === "model") return `Model: ${models.find(model => model.id === value)?.label ?? value}`;
+    if (key === "status") return `Status: ${capitalize(value)}`;
+    if (key === "generation_mode") return `Mode: ${capitalize(value)}`;
+    if (key === "from") return `From ${value}`;
+    if (key === "to") return `To ${value}`;
+    if (key === "q") return `"${value}"`;
+    if (key === "tag") return `#${value}`;
+    if (key === "collection") return value;
+    if (key === "favorites") return "Favorites";
+    const attribute = SEARCHABLE_ATTRIBUTES[key];
+    const option = (attribute.options as readonly { value: string; displayLabel: string }[]).find(o => o.value === value);
+    return `${attribute.label}: ${option?.displayLabel ?? value}`;
+  };
+
+  // The collection is picked in the collections bar, so it has no chip and survives "Clear all"
+  const activeChips = (Object.entries(filters) as [HistorySearchKey, string | undefined][])
+    .filter((entry): entry is [HistorySearchKey, string] => !!entry[1] && entry[0] !== "collection");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <form
+          className="relative flex-1"
+          role="search"
+          onSubmit={(e) => {
+            e.preventDefault();
+            navigate({ ...filters, q: query.trim() || undefined });
+          }}
+        >
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts, garments and tags..."
+            aria-label="Search history"
+            className="pl-9"
+          />
+          {isPending && <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />}
+        </form>
+        <Button
+          variant={filters.favorites ? "secondary" : "outline"}
+          onClick={() => setFilter("favorites", filters.favorites ? undefined : "true")}
+          aria-pressed={!!filters.favorites}
+        >
+          <Heart className={`mr-2 h-4 w-4 ${filters.favorites ? "fill-rose-500 text-rose-500" : ""}`} />
+          Favorites
+        </Button>
+        <Button
+          variant={showFilters ? "secondary" : "outline"}
+          onClick={() => setShowFilters(open => !open)}
+          aria-expanded={showFilters}
+        >
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Filters
+        </Button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 rounded-lg border border-white/10 bg-muted/20 p-3">
+          <div className="space-y-1">
+            <Label htmlFor="history-from" className="text-xs">From</Label>
+            <Input
+              id="history-from"
+              type="date"
+              value={filters.from ?? ""}
+              max={filters.to}
+              onChange={(e) => setFilter("from", e.target.value || undefined)}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-to" className="text-xs">To</Label>
+            <Input
+              id="history-to"
+              type="date"
+              value={filters.to ?? ""}
+              min={filters.from}
+              onChange={(e) => setFilter("to", e.target.value || undefined)}
+              className="h-9"
+            />
+          </div>
+          <FilterSelect
+            id="history-status"
+            label="Status"
+            value={filters.status}
+            options={HISTORY_STATUSES.map(status => ({ value: status, label: capitalize(status) }))}
+            onChange={(value) => setFilter("status", value)}
+          />
+          <FilterSelect
+            id="history-mode"
+            label="Mode"
+            value={filters.generation_mode}
+            options={GENERATION_MODES.map(mode => ({ value: mode, label: capitalize(mode) }))}
+            onChange={(value) => setFilter("generation_mode", value)}
+          />
+          <FilterSelect
+            id="history-model"
+            label="Model"
+            value={filters.model}
+            options={models.map(model => ({ value: model.id, label: model.label }))}
+            onChange={(value) => setFilter("model", value)}
+          />
+          {SEARCHABLE_ATTRIBUTE_KEYS.map(key => (
+            <FilterSelect
+              key={key}
+              id={`history-${key}`}
+              label={SEARCHABLE_ATTRIBUTES[key].label}
+              value={filters[key]}
+              options={SEARCHABLE_ATTRIBUTES[key].options.map(option => ({ value: option.value, label: option.displayLabel }))}
+              onChange={(value) => setFilter(key, value)}
+            />
+          ))}
+        </div>
+      )}
+
+      {activeChips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {activeChips.map(([key, value]) => (
+            <Badge key={key} variant="secondary" className="gap-1">
+              {labelFor(key, value)}
+              <button type="button" onClick={() => setFilter(key, undefined)} aria-label={`Remove filter ${labelFor(key, value)}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => navigate({ collection: filters.collection })}>
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
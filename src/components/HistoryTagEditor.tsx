@@ -0,0 +1,93 @@
+// src/components/HistoryTagEditor.tsx
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_TAGS_PER_ITEM, normalizeTag } from "@/lib/collections";
+import { setHistoryItemTagsAction } from "@/actions/collectionActions";
+
+interface HistoryTagEditorProps {
+  historyItemId: string;
+  tags: string[];
+  /** Called with the stored tags after every successful change. */
+  onTagsChange: (tags: string[]) => void;
+  /** Makes each tag a link that filters the gallery by it. */
+  onTagSelect?: (tag: string) => void;
+}
+
+export function HistoryTagEditor({ historyItemId, tags, onTagsChange, onTagSelect }: HistoryTagEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveTags = async (next: string[]) => {
+    setIsSaving(true);
+    try {
+      const result = await setHistoryItemTagsAction(historyItemId, next);
+      if (result.success && result.tags) {
+        onTagsChange(result.tags);
+      } else {
+        toast({ title: "Could Not Save Tags", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Commas separate several tags typed at once
+    const added = draft.split(",").map(normalizeTag).filter((tag): tag is string => !!tag && !tags.includes(tag));
+    if (added.length === 0) {
+      setDraft("");
+      return;
+    }
+    await saveTags([...tags, ...added]);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {onTagSelect ? (
+                <button type="button" onClick={() => onTagSelect(tag)} title={`Show items tagged "${tag}"`}>#{tag}</button>
+              ) : (
+                <span>#{tag}</span>
+              )}
+              <button
+                type="button"
+                onClick={() => saveTags(tags.filter(t => t !== tag))}
+                disabled={isSaving}
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No tags yet.</p>
+      )}
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={tags.length >= MAX_TAGS_PER_ITEM ? "Tag limit reached" : "Add tags, e.g. ss26, approved"}
+          aria-label="Add tags"
+          disabled={tags.length >= MAX_TAGS_PER_ITEM}
+          className="h-8 text-xs"
+        />
+        <Button type="submit" variant="outline" size="sm" className="h-8" disabled={isSaving || !draft.trim()} aria-label="Add tag">
+          {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+        </Button>
+      </form>
+    </div>
+  );
+}
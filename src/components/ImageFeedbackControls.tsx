@@ -0,0 +1,78 @@
+// src/components/ImageFeedbackControls.tsx
+"use client";
+
+import React, { useState } from "react";
+import { Heart, Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { ImageFeedback } from "@/lib/types";
+import { MAX_IMAGE_RATING, type ImageFeedbackUpdate } from "@/lib/image-feedback";
+import { setImageFeedbackAction } from "@/actions/historyActions";
+
+interface ImageFeedbackControlsProps {
+  historyItemId: string;
+  feedback: ImageFeedback;
+  /** Called with the stored feedback after every successful change. */
+  onFeedbackChange: (feedback: ImageFeedback) => void;
+  /** Light icons for use on top of an image. */
+  overlay?: boolean;
+  className?: string;
+}
+
+/**
+ * Favorite toggle and 1-5 star rating for one generated image. Clicking the current rating clears it.
+ */
+export function ImageFeedbackControls({ historyItemId, feedback, onFeedbackChange, overlay = false, className }: ImageFeedbackControlsProps) {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const [hoverRating, setHoverRating] = useState<number | null>(null);
+
+  const save = async (update: ImageFeedbackUpdate) => {
+    setIsSaving(true);
+    try {
+      const result = await setImageFeedbackAction(historyItemId, feedback.slotIndex, update);
+      if (result.success && result.feedback) {
+        onFeedbackChange(result.feedback);
+      } else {
+        toast({ title: "Could Not Save Feedback", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shownRating = hoverRating ?? feedback.rating ?? 0;
+  const idleColor = overlay ? "text-white/70" : "text-muted-foreground";
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <button
+        type="button"
+        onClick={() => save({ favorite: !feedback.favorite })}
+        disabled={isSaving}
+        aria-pressed={feedback.favorite}
+        aria-label={feedback.favorite ? "Remove from favorites" : "Add to favorites"}
+        title={feedback.favorite ? "Remove from favorites" : "Add to favorites"}
+        className="transition-transform hover:scale-110 disabled:opacity-50"
+      >
+        <Heart className={cn("h-4 w-4", feedback.favorite ? "fill-rose-500 text-rose-500" : idleColor)} />
+      </button>
+      <div className="flex items-center" role="group" aria-label="Rating" onMouseLeave={() => setHoverRating(null)}>
+        {Array.from({ length: MAX_IMAGE_RATING }, (_, i) => i + 1).map(value => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => save({ rating: feedback.rating === value ? null : value })}
+            onMouseEnter={() => setHoverRating(value)}
+            disabled={isSaving}
+            aria-pressed={feedback.rating === value}
+            aria-label={`Rate ${value} of ${MAX_IMAGE_RATING}`}
+            className="px-0.5 disabled:opacity-50"
+          >
+            <Star className={cn("h-4 w-4", value <= shownRating ? "fill-amber-400 text-amber-400" : idleColor)} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
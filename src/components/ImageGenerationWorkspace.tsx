@@ -9,16 +9,16 @@ import { generateImageAction, type ImageGenerationFormState } from '@/actions/im
 import { ImageResultsDisplay } from './ImageResultsDisplay';
 import { GenerationProgressIndicator } from './GenerationProgressIndicator';
 import { useStoreSubmission } from '@/hooks/useStoreSubmission';
+import { MAX_IMAGE_COUNT, type ImageModelSummary } from '@/lib/image-models';
 
 export function ImageGenerationWorkspace({
   onLoadImageUrl,
-  maxImages = 3,
-  userModel,
+  imageModel,
 }: {
   onLoadImageUrl?: (imageUrl: string) => void;
-  maxImages?: number;
-  userModel?: string;
+  imageModel?: ImageModelSummary;
 }) {
+  const maxImages = imageModel?.defaultImageCount ?? MAX_IMAGE_COUNT;
   const generationMode = useGenerationSettingsStore(state => state.generationMode);
   const resultsRef = useRef<HTMLDivElement>(null);
 
@@ -56,15 +56,13 @@ export function ImageGenerationWorkspace({
             {generationMode === 'creative' ? (
               <ImageParameters
                 isPending={isPending}
-                maxImages={maxImages}
-                userModel={userModel}
+                imageModel={imageModel}
                 onSubmit={submit}
               />
             ) : (
               <StudioParameters
                 isPending={isPending}
-                maxImages={maxImages}
-                userModel={userModel}
+                imageModel={imageModel}
                 onSubmit={submit}
               />
             )}
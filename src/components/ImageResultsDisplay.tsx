@@ -9,17 +9,23 @@ import Image from 'next/image';
 import { getDisplayableImageUrl } from '@/lib/utils';
 import { ImageViewerModal } from './ImageViewerModal';
 import { ImageResultSkeleton } from './ImageResultSkeleton';
+import { GenerationProgressIndicator } from './GenerationProgressIndicator';
+import { ImageFeedbackControls } from './ImageFeedbackControls';
 import { useGenerationSettingsStore } from '@/stores/generationSettingsStore';
 import { useImageStore } from '@/stores/imageStore';
 import { useSmartPolling } from '@/hooks/useSmartPolling';
 import { useShallow } from 'zustand/react/shallow';
-import type { ModelAttributes } from '@/lib/types';
+import type { ImageFeedback, ModelAttributes } from '@/lib/types';
+import { applyImageFeedback } from '@/lib/image-feedback';
+import { cancelGenerationAction } from '@/actions/historyActions';
+import { useToast } from '@/hooks/use-toast';
 
 /** Shape of polling response from /api/history/[id]/status */
 interface PollingResultData {
-  status?: 'processing' | 'completed' | 'failed';
+  status?: 'processing' | 'completed' | 'failed' | 'cancelled';
   error?: string;
   editedImageUrls?: (string | null)[];
+  imageFeedback?: ImageFeedback[];
   videoUrl?: string;
   localVideoUrl?: string;
 }
@@ -62,8 +68,12 @@ export function ImageResultsDisplay({
 
   // Local State
   const [resultData, setResultData] = useState<PollingResultData | null>(null);
-  const [pollingStatus, setPollingStatus] = useState<'idle' | 'processing' | 'completed' | 'failed'>('idle');
+  const [pollingStatus, setPollingStatus] = useState<'idle' | 'processing' | 'completed' | 'failed' | 'cancelled'>('idle');
   const [localErrors, setLocalErrors] = useState<string[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // Favorites and ratings given here; polling stops once the result completes
+  const [feedbackChanges, setFeedbackChanges] = useState<ImageFeedback[]>([]);
+  const { toast } = useToast();
 
   // Viewer State
   const [isImageViewerOpen, setIsImageViewerOpen] = useState(false);
@@ -77,6 +87,8 @@ export function ImageResultsDisplay({
       setPollingStatus('processing');
       setResultData(null);
       setLocalErrors([]);
+      setIsCancelling(false);
+      setFeedbackChanges([]);
     }
   }
 
@@ -92,6 +104,8 @@ export function ImageResultsDisplay({
         } else if (data.status === 'failed') {
           setPollingStatus('failed');
           setLocalErrors([data.error || 'Generation failed']);
+        } else if (data.status === 'cancelled') {
+          setPollingStatus('cancelled');
         }
       },
       onFailure: (err) => {
@@ -123,6 +137,23 @@ export function ImageResultsDisplay({
     if (onLoadImageUrl) onLoadImageUrl(url);
   };
 
+  const handleFeedbackChange = (feedback: ImageFeedback) => {
+    setFeedbackChanges(prev => applyImageFeedback(prev, feedback));
+  };
+
+  const handleCancel = async () => {
+    if (!currentResultId) return;
+    setIsCancelling(true);
+    const result = await cancelGenerationAction(currentResultId);
+    if (result.success) {
+      setPollingStatus('cancelled');
+      toast({ title: 'Generation Cancelled', description: 'The remaining images will not be generated.' });
+    } else {
+      toast({ title: 'Cancel Failed', description: result.error, variant: 'destructive' });
+    }
+    setIsCancelling(false);
+  };
+
   // Render Empty State
   if (!currentResultId && pollingStatus === 'idle') {
     return null;
@@ -160,6 +191,9 @@ export function ImageResultsDisplay({
 
   // === IMAGE MODE RENDER ===
   const urls = resultData?.editedImageUrls || [];
+  const imageFeedback = (resultData?.imageFeedback ?? []).map(entry =>
+    feedbackChanges.find(change => change.slotIndex === entry.slotIndex) ?? entry
+  );
   const displayCount = urls.length > 0 ? urls.length : maxImages;
   const isSingleImage = displayCount === 1;
 
@@ -169,7 +203,7 @@ export function ImageResultsDisplay({
     const isLoading = pollingStatus === 'processing' && !url;
     const isError = pollingStatus === 'failed';
 
-    if (pollingStatus === 'completed' && !url && !isError) return null;
+    if ((pollingStatus === 'completed' || pollingStatus === 'cancelled') && !url && !isError) return null;
 
     return (
       <m.div
@@ -200,6 +234,15 @@ export function ImageResultsDisplay({
               <Button size="icon" variant="secondary" aria-label="Download image" onClick={() => handleDownload(url, index)}><Download className="h-4 w-4" /></Button>
               <Button size="icon" variant="secondary" aria-label="Use as input" onClick={() => handleUseAsInput(url)}><RefreshCw className="h-4 w-4" /></Button>
             </div>
+            {currentResultId && imageFeedback[index] && (
+              <ImageFeedbackControls
+                overlay
+                className={`absolute bottom-2 left-2 rounded-full bg-black/50 px-2 py-1 backdrop-blur-xs transition-opacity ${imageFeedback[index].favorite || imageFeedback[index].rating ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                historyItemId={currentResultId}
+                feedback={imageFeedback[index]}
+                onFeedbackChange={handleFeedbackChange}
+              />
+            )}
           </>
         )}
       </m.div>
@@ -216,6 +259,19 @@ export function ImageResultsDisplay({
           <CardDescription>Your AI-generated fashion model images.</CardDescription>
         </CardHeader>
         <CardContent>
+          {pollingStatus === 'processing' && (
+            <div className="mb-4">
+              <GenerationProgressIndicator
+                isGenerating
+                imageCount={displayCount}
+                onCancel={handleCancel}
+                isCancelling={isCancelling}
+              />
+            </div>
+          )}
+          {pollingStatus === 'cancelled' && (
+            <p className="mb-4 text-sm text-muted-foreground">Generation cancelled.</p>
+          )}
           {isSingleImage ? (
             /* Single image: flex-center the cell — no grid, no auto-margin asymmetry */
             <div className="flex justify-center">
@@ -236,7 +292,8 @@ export function ImageResultsDisplay({
           isOpen={isImageViewerOpen}
           onClose={() => setIsImageViewerOpen(false)}
           initialImageUrl={selectedImageUrl}
-          item={{ id: currentResultId || 'preview', timestamp: 0, constructedPrompt: '', originalClothingUrl: '', editedImageUrls: urls, attributes: {} as ModelAttributes, username: '' }}
+          item={{ id: currentResultId || 'preview', timestamp: 0, constructedPrompt: '', originalClothingUrl: '', editedImageUrls: urls, imageFeedback, attributes: {} as ModelAttributes, username: '' }}
+          actions={currentResultId ? { onFeedbackChange: (_item, feedback) => handleFeedbackChange(feedback) } : undefined}
         />
       )}
     </>
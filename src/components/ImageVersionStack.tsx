@@ -2,13 +2,14 @@
 "use client";
 
 import React from "react";
+import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Camera, Crop as CropIcon, Wand2, Sparkles, UserCheck, Clock, Loader2 } from "lucide-react";
 import { useImageStore } from "@/stores/imageStore";
-import { cn } from "@/lib/utils";
+import { cn, getDisplayableImageUrl } from "@/lib/utils";
 
 const getVersionIcon = (label: string) => {
   if (label.includes("Original")) return <Camera className="h-4 w-4" />;
@@ -104,6 +105,18 @@ export default function ImageVersionStack() {
                   )}
                 </div>
 
+                {version.imageUrl && (
+                  <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded-md bg-muted">
+                    <Image
+                      src={getDisplayableImageUrl(version.imageUrl) || ''}
+                      alt=""
+                      fill
+                      sizes="40px"
+                      className="object-cover object-top"
+                    />
+                  </div>
+                )}
+
                 <div className="min-w-0 flex-1">
                   <div className="flex items-center gap-2">
                     <span className={cn("truncate font-medium", isActive && "text-primary")}>
@@ -7,12 +7,14 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Download, Copy, RefreshCw, Sparkles, UserCheck,
-  ChevronLeft, ChevronRight, Info, Video as VideoIcon, Loader2
+  ChevronLeft, ChevronRight, Info, Video as VideoIcon, Loader2, FolderPlus
 } from "lucide-react";
 import { getDisplayableImageUrl, cn } from "@/lib/utils";
-import type { HistoryItem } from "@/lib/types";
+import type { HistoryItem, ImageFeedback } from "@/lib/types";
 import { useToast } from "@/hooks/use-toast";
 import { ParameterSection, ParameterRow } from "./ParameterDisplay";
+import { HistoryTagEditor } from "./HistoryTagEditor";
+import { ImageFeedbackControls } from "./ImageFeedbackControls";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { m, AnimatePresence } from "motion/react";
 
@@ -21,6 +23,12 @@ export interface ImageProcessingActions {
   onFaceDetail?: (index: number) => void;
   onSendToVideo?: (url: string, prompt: string) => void;
   onReloadConfig?: (item: HistoryItem) => void;
+  onAddToCollection?: (item: HistoryItem) => void;
+  /** Enables tag editing; called with the stored tags after each change. */
+  onTagsChange?: (item: HistoryItem, tags: string[]) => void;
+  onTagSelect?: (tag: string) => void;
+  /** Enables favoriting and rating; called with the stored feedback after each change. */
+  onFeedbackChange?: (item: HistoryItem, feedback: ImageFeedback) => void;
 }
 
 export interface ImageProcessingState {
@@ -113,7 +121,7 @@ export function ImageViewerModal({
   actions,
   processingState,
 }: ImageViewerModalProps) {
-  const { onReloadConfig, onUpscale, onFaceDetail, onSendToVideo } = actions ?? {};
+  const { onReloadConfig, onUpscale, onFaceDetail, onSendToVideo, onAddToCollection, onTagsChange, onTagSelect, onFeedbackChange } = actions ?? {};
   const {
     isUpscalingSlot,
     isFaceRetouchingSlot,
@@ -201,6 +209,14 @@ export function ImageViewerModal({
         <p className="text-sm text-muted-foreground">
           {new Date(item.timestamp).toLocaleString()} • ID: {item.id.slice(0, 8)}
         </p>
+        {onFeedbackChange && (
+          <ImageFeedbackControls
+            className="mt-3"
+            historyItemId={item.id}
+            feedback={item.imageFeedback?.[currentImage.index] ?? { slotIndex: currentImage.index, favorite: false, rating: null }}
+            onFeedbackChange={(feedback) => onFeedbackChange(item, feedback)}
+          />
+        )}
       </div>
 
       <ParameterSection title="Prompt & Config">
@@ -224,6 +240,24 @@ export function ImageViewerModal({
         )}
       </ParameterSection>
 
+      {(onTagsChange || onAddToCollection) && (
+        <ParameterSection title="Tags & Collections">
+          {onTagsChange && (
+            <HistoryTagEditor
+              historyItemId={item.id}
+              tags={item.tags ?? []}
+              onTagsChange={(tags) => onTagsChange(item, tags)}
+              onTagSelect={onTagSelect}
+            />
+          )}
+          {onAddToCollection && (
+            <Button variant="outline" size="sm" className="w-full mt-3" onClick={() => onAddToCollection(item)}>
+              <FolderPlus className="mr-2 h-3 w-3" /> Add to Collection
+            </Button>
+          )}
+        </ParameterSection>
+      )}
+
       {/* Conditionally display parameters based on generation mode */}
       {!isStudioMode && item.attributes && Object.keys(item.attributes).length > 0 ? (
         <ParameterSection title="Generation Parameters">
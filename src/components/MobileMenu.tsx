@@ -62,6 +62,19 @@ export function MobileMenu() {
                   History
                 </Link>
               </SheetClose>
+              {user?.isLoggedIn && (
+                <SheetClose asChild>
+                  <Link
+                    href="/settings"
+                    className={cn(
+                      'flex items-center gap-2 px-2 py-2 text-lg font-medium hover:text-primary transition-colors',
+                      pathname.startsWith('/settings') ? 'text-primary font-semibold' : 'text-muted-foreground'
+                    )}
+                  >
+                    Settings
+                  </Link>
+                </SheetClose>
+              )}
               <div className="px-2 py-2">
                 <ThemeToggleImproved />
               </div>
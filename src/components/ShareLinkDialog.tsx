@@ -0,0 +1,226 @@
+// src/components/ShareLinkDialog.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Ban, Copy, Eye, Link2, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { SHARE_LINK_EXPIRY_DAYS, type ShareTargetType } from "@/lib/share-links";
+import type { ShareLinkDetails } from "@/services/share-link.service";
+import { ShareReviewList } from "@/components/ShareReviewList";
+import { createShareLinkAction, getShareLinksAction, revokeShareLinkAction } from "@/actions/shareLinkActions";
+
+export interface ShareTarget {
+  type: ShareTargetType;
+  id: string;
+  /** Shown in the dialog title, e.g. the collection name. */
+  name?: string;
+}
+
+interface ShareLinkDialogProps {
+  /** What to share; the dialog is open while this is set. */
+  target: ShareTarget | null;
+  onClose: () => void;
+}
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+function ShareLinkStatus({ share }: { share: ShareLinkDetails }) {
+  if (share.link.revokedAt) return <Badge variant="secondary">Revoked</Badge>;
+  if (!share.active) return <Badge variant="secondary">Expired</Badge>;
+  return <Badge>Active</Badge>;
+}
+
+function ShareLinkEntry({ share, onRevoked }: { share: ShareLinkDetails; onRevoked: (share: ShareLinkDetails) => void }) {
+  const { toast } = useToast();
+  const [isRevoking, setIsRevoking] = useState(false);
+  const totalViews = share.views.reduce((sum, view) => sum + view.viewCount, 0);
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(getShareUrl(share.token));
+    toast({ title: "Link Copied", description: "Anyone with this link can review until it expires." });
+  };
+
+  const revoke = async () => {
+    setIsRevoking(true);
+    try {
+      const result = await revokeShareLinkAction(share.link.id);
+      if (result.success) {
+        onRevoked({ ...share, active: false, link: { ...share.link, revokedAt: Date.now() } });
+      } else {
+        toast({ title: "Could Not Revoke Link", description: result.error, variant: "destructive" });
+      }
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <li className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <ShareLinkStatus share={share} />
+        <span className="flex-1 truncate text-sm font-medium">{share.link.label || "Review link"}</span>
+        {share.active && (
+          <>
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={copyUrl} aria-label="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={revoke} disabled={isRevoking} aria-label="Revoke link">
+              {isRevoking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+            </Button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Created {new Date(share.link.createdAt).toLocaleDateString()}
+        {" · "}
+        {share.link.revokedAt
+          ? `revoked ${new Date(share.link.revokedAt).toLocaleDateString()}`
+          : `${share.active ? "expires" : "expired"} ${new Date(share.link.expiresAt).toLocaleDateString()}`}
+        {share.link.showPrompt && " · prompt visible"}
+      </p>
+
+      {share.views.length > 0 && (
+        <div className="space-y-1">
+          <p className="flex items-center gap-1 text-xs font-medium">
+            <Eye className="h-3 w-3" /> {share.views.length} {share.views.length === 1 ? "visitor" : "visitors"}, {totalViews} {totalViews === 1 ? "view" : "views"}
+          </p>
+          <ul className="space-y-0.5 text-xs text-muted-foreground">
+            {share.views.map(view => (
+              <li key={view.visitorId} className="flex gap-2">
+                <span className="font-medium text-foreground/80">{view.reviewerName || "Anonymous"}</span>
+                <span>{view.viewCount}×, last {new Date(view.lastViewedAt).toLocaleString()}</span>
+                {view.ipAddress && <span className="ml-auto truncate" title={view.userAgent}>{view.ipAddress}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ShareReviewList reviews={share.reviews} />
+    </li>
+  );
+}
+
+/**
+ * Creates public review links for a history item or collection, and shows who opened
+ * each link and what they thought. Links can be revoked at any time.
+ */
+export function ShareLinkDialog({ target, onClose }: ShareLinkDialogProps) {
+  const { toast } = useToast();
+  const [shares, setShares] = useState<ShareLinkDetails[] | null>(null);
+  const [label, setLabel] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(String(SHARE_LINK_EXPIRY_DAYS[1]));
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const targetType = target?.type;
+  const targetId = target?.id;
+  useEffect(() => {
+    if (!targetType || !targetId) return;
+    let cancelled = false;
+    setShares(null);
+    getShareLinksAction(targetType, targetId)
+      .then(links => { if (!cancelled) setShares(links); })
+      .catch(() => { if (!cancelled) setShares([]); });
+    return () => { cancelled = true; };
+  }, [targetType, targetId]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target) return;
+    setIsCreating(true);
+    try {
+      const result = await createShareLinkAction({
+        targetType: target.type,
+        targetId: target.id,
+        label: label || undefined,
+        expiresInDays: Number(expiresInDays),
+        showPrompt,
+      });
+      if (!result.success || !result.share) {
+        toast({ title: "Could Not Create Link", description: result.error, variant: "destructive" });
+        return;
+      }
+      const share = result.share;
+      setShares(prev => [share, ...(prev ?? [])]);
+      setLabel("");
+      await navigator.clipboard.writeText(getShareUrl(share.token)).catch(() => {});
+      toast({ title: "Link Created", description: "The review link was copied to your clipboard." });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoked = (revoked: ShareLinkDetails) => {
+    setShares(prev => prev?.map(share => share.link.id === revoked.link.id ? revoked : share) ?? null);
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share for Review{target?.name ? `: ${target.name}` : ""}</DialogTitle>
+          <DialogDescription>Anyone with a link can view the results and approve or reject them, without an account.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-3 border-b pb-4">
+          <div className="flex gap-2">
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label, e.g. the client's name"
+              aria-label="Link label"
+              maxLength={60}
+            />
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger className="w-32" aria-label="Link expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_LINK_EXPIRY_DAYS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days === 1 ? "1 day" : `${days} days`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Switch id="share-show-prompt" checked={showPrompt} onCheckedChange={setShowPrompt} />
+              <Label htmlFor="share-show-prompt" className="text-sm font-normal">Show prompt</Label>
+            </div>
+            <Button type="submit" disabled={isCreating}>
+              {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+              Create Link
+            </Button>
+          </div>
+        </form>
+
+        {shares === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : shares.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">No review links yet.</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <ul className="space-y-3 pr-3">
+              {shares.map(share => (
+                <ShareLinkEntry key={share.link.id} share={share} onRevoked={handleRevoked} />
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
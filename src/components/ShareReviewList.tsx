@@ -0,0 +1,29 @@
+// src/components/ShareReviewList.tsx
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import type { ShareReview } from "@/services/db";
+
+/**
+ * Approve/reject reviews left through share links, newest first.
+ */
+export function ShareReviewList({ reviews }: { reviews: ShareReview[] }) {
+  if (reviews.length === 0) return null;
+  return (
+    <ul className="space-y-2">
+      {reviews.map(review => (
+        <li key={review.id} className="rounded-md bg-muted/30 p-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Badge variant={review.decision === "approved" ? "default" : "destructive"}>
+              {review.decision === "approved" ? "Approved" : "Rejected"}
+            </Badge>
+            <span className="font-medium">{review.reviewerName}</span>
+            <span className="ml-auto text-xs text-muted-foreground">{new Date(review.createdAt).toLocaleString()}</span>
+          </div>
+          {review.comment && <p className="mt-1 whitespace-pre-wrap text-muted-foreground">{review.comment}</p>}
+        </li>
+      ))}
+    </ul>
+  );
+}
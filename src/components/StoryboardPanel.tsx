@@ -0,0 +1,192 @@
+// src/components/StoryboardPanel.tsx
+"use client";
+
+import React, { useState, useTransition } from "react";
+import Image from "next/image";
+import { ArrowDown, ArrowUp, Clapperboard, Loader2, Trash2, X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useGenerationSettingsStore } from "@/stores/generationSettingsStore";
+import { generateStoryboardAction } from "@/ai/actions/generate-storyboard.action";
+import { getDisplayableImageUrl } from "@/lib/utils";
+import { CAMERA_ACTION_OPTIONS, MODEL_MOVEMENT_OPTIONS } from "@/lib/prompt-options";
+import {
+  MIN_STORYBOARD_SHOTS,
+  STORYBOARD_TRANSITIONS,
+  STORYBOARD_TRANSITION_LABELS,
+  type StoryboardShotInput,
+  type StoryboardTransition,
+} from "@/lib/storyboard";
+
+/** A shot as it is being planned, before the storyboard is generated. */
+export interface StoryboardShotDraft extends StoryboardShotInput {
+  id: string;
+  historyItemId: string;
+}
+
+const SHOT_DURATIONS = ['3', '4', '5', '6', '8', '10', '12'] as const;
+
+interface StoryboardPanelProps {
+  shots: StoryboardShotDraft[];
+  onShotsChange: (shots: StoryboardShotDraft[]) => void;
+}
+
+/**
+ * A tray listing the shots picked from the history, and a dialog to order them, choose each
+ * shot's motion and start the storyboard.
+ */
+export function StoryboardPanel({ shots, onShotsChange }: StoryboardPanelProps) {
+  const { toast } = useToast();
+  const incrementGenerationCount = useGenerationSettingsStore(state => state.incrementGenerationCount);
+  const [isOpen, setIsOpen] = useState(false);
+  const [transition, setTransition] = useState<StoryboardTransition>('fade');
+  const [isPending, startTransition] = useTransition();
+
+  if (shots.length === 0) {
+    return null;
+  }
+
+  const updateShot = (id: string, update: Partial<StoryboardShotDraft>) => {
+    onShotsChange(shots.map(shot => shot.id === id ? { ...shot, ...update } : shot));
+  };
+
+  const moveShot = (index: number, offset: -1 | 1) => {
+    const reordered = [...shots];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onShotsChange(reordered);
+  };
+
+  const totalSeconds = shots.reduce((sum, shot) => sum + Number(shot.duration), 0);
+
+  const handleGenerate = () => {
+    startTransition(async () => {
+      const result = await generateStoryboardAction({
+        shots: shots.map(({ sourceImageUrl, modelMovement, cameraAction, duration }) => ({ sourceImageUrl, modelMovement, cameraAction, duration })),
+        transition,
+      });
+      if (result.success) {
+        toast({ title: "Storyboard started", description: `${shots.length} shots are being generated and will be joined into one video.` });
+        onShotsChange([]);
+        setIsOpen(false);
+        incrementGenerationCount();
+      } else {
+        toast({ title: "Could Not Start Storyboard", description: result.error, variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <>
+      <div className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-2 rounded-full border bg-background/95 px-4 py-2 shadow-lg backdrop-blur-sm">
+        <Clapperboard className="size-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Storyboard · {shots.length} {shots.length === 1 ? 'shot' : 'shots'}</span>
+        <Button size="sm" variant="secondary" onClick={() => setIsOpen(true)}>Edit</Button>
+        <Button size="icon" variant="ghost" className="size-7" aria-label="Clear storyboard" onClick={() => onShotsChange([])}>
+          <X className="size-4" />
+        </Button>
+      </div>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Storyboard</DialogTitle>
+            <DialogDescription>
+              Each shot is generated from its image, then the shots are joined in this order into one video of about {totalSeconds} seconds.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ScrollArea className="max-h-[55vh] pr-3">
+            <ol className="space-y-3">
+              {shots.map((shot, index) => (
+                <li key={shot.id} className="flex gap-3 rounded-lg border p-3">
+                  <div className="relative h-24 w-16 shrink-0 overflow-hidden rounded-md bg-muted">
+                    <Image
+                      src={getDisplayableImageUrl(shot.sourceImageUrl) || '/placeholder.png'}
+                      alt={`Shot ${index + 1}`}
+                      fill
+                      sizes="64px"
+                      className="object-cover object-top"
+                    />
+                  </div>
+                  <div className="grid flex-1 grid-cols-2 gap-2">
+                    <div className="col-span-2 flex items-center justify-between">
+                      <span className="text-sm font-semibold">Shot {index + 1}</span>
+                      <div className="flex items-center gap-1">
+                        <Button size="icon" variant="ghost" className="size-7" aria-label="Move up" disabled={index === 0} onClick={() => moveShot(index, -1)}>
+                          <ArrowUp className="size-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="size-7" aria-label="Move down" disabled={index === shots.length - 1} onClick={() => moveShot(index, 1)}>
+                          <ArrowDown className="size-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="size-7" aria-label="Remove shot" onClick={() => onShotsChange(shots.filter(s => s.id !== shot.id))}>
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Model Movement</Label>
+                      <Select value={shot.modelMovement} onValueChange={(value) => updateShot(shot.id, { modelMovement: value as StoryboardShotDraft['modelMovement'] })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {MODEL_MOVEMENT_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value} className="text-xs">{option.displayLabel}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Camera Action</Label>
+                      <Select value={shot.cameraAction} onValueChange={(value) => updateShot(shot.id, { cameraAction: value as StoryboardShotDraft['cameraAction'] })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {CAMERA_ACTION_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value} className="text-xs">{option.displayLabel}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Length</Label>
+                      <Select value={shot.duration} onValueChange={(value) => updateShot(shot.id, { duration: value as StoryboardShotDraft['duration'] })}>
+                        <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {SHOT_DURATIONS.map(duration => (
+                            <SelectItem key={duration} value={duration} className="text-xs">{duration} seconds</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Transition</Label>
+            <Select value={transition} onValueChange={(value) => setTransition(value as StoryboardTransition)}>
+              <SelectTrigger className="h-9 text-sm"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {STORYBOARD_TRANSITIONS.map(value => (
+                  <SelectItem key={value} value={value}>{STORYBOARD_TRANSITION_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>Close</Button>
+            <Button onClick={handleGenerate} disabled={shots.length < MIN_STORYBOARD_SHOTS || isPending}>
+              {isPending ? <Loader2 className="mr-2 size-4 animate-spin" /> : <Clapperboard className="mr-2 size-4" />}
+              Generate Storyboard
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+
+interface ComparisonClip {
+  slotIndex: number;
+  url: string;
+}
+
+interface SyncedVideoComparisonProps {
+  clips: ComparisonClip[];
+  className?: string;
+}
+
+// Followers drifting further than this from the leader are snapped back to its position
+const MAX_DRIFT_SECONDS = 0.15;
+
+/**
+ * Plays clips side by side. The first clip has the controls; playing, pausing, seeking and
+ * changing the speed on it is mirrored on the others so the clips stay frame-aligned.
+ */
+export function SyncedVideoComparison({ clips, className }: SyncedVideoComparisonProps) {
+  const videoRefs = useRef<(HTMLVideoElement | null)[]>([]);
+
+  useEffect(() => {
+    const [leader, ...followers] = videoRefs.current.slice(0, clips.length);
+    if (!leader) return;
+
+    const eachFollower = (apply: (video: HTMLVideoElement) => void) => {
+      followers.forEach(video => video && apply(video));
+    };
+
+    const playFollower = (video: HTMLVideoElement) => {
+      video.play().catch((error) => {
+        if (error.name !== "AbortError") console.error("Video play failed:", error);
+      });
+    };
+
+    const syncTime = () => eachFollower(video => {
+      // Shorter clips hold their last frame until the leader loops, instead of looping early
+      const target = Math.min(leader.currentTime, video.duration || Infinity);
+      if (Math.abs(video.currentTime - target) > MAX_DRIFT_SECONDS) {
+        video.currentTime = target;
+      }
+      if (!leader.paused && video.paused && target < video.duration) {
+        playFollower(video);
+      }
+    });
+    const play = () => eachFollower(playFollower);
+    const pause = () => eachFollower(video => video.pause());
+    const rateChange = () => eachFollower(video => { video.playbackRate = leader.playbackRate; });
+
+    leader.addEventListener('play', play);
+    leader.addEventListener('pause', pause);
+    leader.addEventListener('seeked', syncTime);
+    leader.addEventListener('timeupdate', syncTime);
+    leader.addEventListener('ratechange', rateChange);
+
+    return () => {
+      leader.removeEventListener('play', play);
+      leader.removeEventListener('pause', pause);
+      leader.removeEventListener('seeked', syncTime);
+      leader.removeEventListener('timeupdate', syncTime);
+      leader.removeEventListener('ratechange', rateChange);
+    };
+  }, [clips]);
+
+  return (
+    <div className={cn("grid h-full w-full gap-2", clips.length > 2 ? "grid-cols-2 grid-rows-2" : "grid-cols-2", className)}>
+      {clips.map((clip, index) => (
+        <div key={clip.slotIndex} className="relative min-h-0 flex items-center justify-center">
+          <video
+            ref={(el) => { videoRefs.current[index] = el; }}
+            src={clip.url}
+            controls={index === 0}
+            autoPlay
+            loop={index === 0}
+            muted
+            playsInline
+            className="max-h-full max-w-full object-contain rounded-md"
+          />
+          <span className="absolute left-2 top-2 rounded-full bg-black/70 px-2 py-0.5 text-xs font-medium text-white">
+            Variant {clip.slotIndex + 1}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/button";
 import { Eye, PlayCircle, Clock, AlertCircle, CheckCircle } from "lucide-react";
 import { getDisplayableImageUrl, cn } from "@/lib/utils";
 import { VideoPlaybackModal } from "@/components/VideoPlaybackModal";
+import { VideoVariantSwitcher } from "@/components/VideoVariantSwitcher";
+import { getVideoSlots } from "@/lib/video-variants";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { m, AnimatePresence } from "motion/react";
 
@@ -21,12 +23,20 @@ export function VideoHistoryCard({ item }: VideoHistoryCardProps) {
   const [isInView, setIsInView] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const cardRef = useRef<HTMLDivElement>(null);
+  const slots = getVideoSlots(item);
+  const [activeSlotIndex, setActiveSlotIndex] = useState(
+    () => slots.find(slot => slot.status === "completed")?.slotIndex ?? 0
+  );
+  const activeSlot = slots.find(slot => slot.slotIndex === activeSlotIndex);
+  // The clip's poster frame once post-processing has run, otherwise the source image
   const thumbnailUrl = getDisplayableImageUrl(
-    item.videoGenerationParams?.sourceImageUrl || item.originalClothingUrl || ""
+    activeSlot?.media?.posterUrl || item.videoGenerationParams?.sourceImageUrl || item.originalClothingUrl || ""
+  );
+  const videoUrl = getDisplayableImageUrl(
+    activeSlot?.localVideoUrl || item.generatedVideoUrls?.[activeSlotIndex] || ""
   );
-  const videoUrl = getDisplayableImageUrl(item.generatedVideoUrls?.[0] || "");
-  const status = (item.videoGenerationParams as any)?.status;
-  const error = (item.videoGenerationParams as any)?.error;
+  const status = activeSlot?.status ?? item.videoGenerationParams?.status;
+  const error = activeSlot?.error ?? item.videoGenerationParams?.error;
 
   // IntersectionObserver for autoplay-in-view
   useEffect(() => {
@@ -145,6 +155,15 @@ export function VideoHistoryCard({ item }: VideoHistoryCardProps) {
                 )}
               />
             )}
+            {/* Variant switcher for items with several clips */}
+            {slots.length > 1 && (
+              <VideoVariantSwitcher
+                slots={slots}
+                activeSlotIndex={activeSlotIndex}
+                onSelect={setActiveSlotIndex}
+                className="absolute bottom-2 left-2 z-10"
+              />
+            )}
             {/* Status overlay */}
             {status && (
               <div className="absolute right-2 top-2 rounded-full bg-black/70 p-1.5">
@@ -200,11 +219,18 @@ export function VideoHistoryCard({ item }: VideoHistoryCardProps) {
           </div>
           <p className="text-xs text-muted-foreground">
             {new Date(item.timestamp).toLocaleDateString()}
+            {slots.length > 1 && ` · ${slots.length} variants`}
           </p>
         </CardFooter>
       </Card>
       <AnimatePresence>
-        {isModalOpen && <VideoPlaybackModal item={item} onClose={() => setIsModalOpen(false)} />}
+        {isModalOpen && (
+          <VideoPlaybackModal
+            item={item}
+            initialSlotIndex={activeSlotIndex}
+            onClose={() => setIsModalOpen(false)}
+          />
+        )}
       </AnimatePresence>
     </m.div>
   );
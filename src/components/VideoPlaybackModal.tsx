@@ -1,28 +1,71 @@
 "use client";
 
-import React from 'react';
-import type { HistoryItem } from '@/lib/types';
+import React, { useRef, useState } from 'react';
+import type { HistoryItem, VideoSlot } from '@/lib/types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { ParameterSection, ParameterRow } from './ParameterDisplay';
 import { Button } from '@/components/ui/button';
-import { Download, Copy, X } from 'lucide-react';
+import { Download, Copy, X, Columns2, Film } from 'lucide-react';
 import { getDisplayableImageUrl } from '@/lib/utils';
+import { getVideoSlots } from '@/lib/video-variants';
+import { VideoVariantSwitcher } from './VideoVariantSwitcher';
+import { SyncedVideoComparison } from './SyncedVideoComparison';
+import { VideoTrimPanel } from './VideoTrimPanel';
+import { useGenerationSettingsStore } from '@/stores/generationSettingsStore';
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 interface VideoPlaybackModalProps {
   item: HistoryItem;
+  /** The clip shown first for items with several variants. */
+  initialSlotIndex?: number;
   onClose: () => void;
 }
 
-export function VideoPlaybackModal({ item, onClose }: VideoPlaybackModalProps) {
+export function VideoPlaybackModal({ item, initialSlotIndex = 0, onClose }: VideoPlaybackModalProps) {
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const [activeSlotIndex, setActiveSlotIndex] = useState(initialSlotIndex);
+  const [isComparing, setIsComparing] = useState(false);
+  // Clips trimmed while the modal is open, until the gallery reloads the item
+  const [trimmedSlots, setTrimmedSlots] = useState<VideoSlot[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const incrementGenerationCount = useGenerationSettingsStore(state => state.incrementGenerationCount);
 
-  const downloadUrl = getDisplayableImageUrl(item.videoGenerationParams?.localVideoUrl || null);
-  const playbackUrl = getDisplayableImageUrl(item.videoGenerationParams?.localVideoUrl || item.generatedVideoUrls?.[0] || '');
+  const itemSlots = getVideoSlots(item);
+  const slots = [
+    ...itemSlots,
+    ...trimmedSlots.filter(trimmed => !itemSlots.some(slot => slot.slotIndex === trimmed.slotIndex)),
+  ];
+  const activeSlot = slots.find(slot => slot.slotIndex === activeSlotIndex) ?? slots[0];
+  const params = activeSlot?.params ?? item.videoGenerationParams;
+  const slotVideoUrl = (slotIndex: number) => {
+    const slot = slots.find(s => s.slotIndex === slotIndex);
+    return getDisplayableImageUrl(slot?.localVideoUrl || item.generatedVideoUrls?.[slotIndex] || '');
+  };
+
+  const downloadUrl = getDisplayableImageUrl(activeSlot?.localVideoUrl || item.videoGenerationParams?.localVideoUrl || null);
+  const previewUrl = getDisplayableImageUrl(activeSlot?.media?.previewUrl || null);
+  const posterUrl = getDisplayableImageUrl(activeSlot?.media?.posterUrl || null) || undefined;
+  const media = activeSlot?.media;
+  const playbackUrl = activeSlot?.status === 'completed' || slots.length <= 1
+    ? slotVideoUrl(activeSlot?.slotIndex ?? 0)
+    : null;
+  const comparisonClips = slots
+    .filter(slot => slot.status === 'completed')
+    .map(slot => ({ slotIndex: slot.slotIndex, url: slotVideoUrl(slot.slotIndex) }))
+    .filter((clip): clip is { slotIndex: number; url: string } => Boolean(clip.url));
+  const canCompare = comparisonClips.length > 1;
+  const showComparison = isComparing && canCompare;
+
+  const handleTrimmed = (slot: VideoSlot) => {
+    setTrimmedSlots(previous => [...previous, slot]);
+    setActiveSlotIndex(slot.slotIndex);
+    setIsComparing(false);
+    incrementGenerationCount();
+  };
 
   const handleCopy = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -57,13 +100,13 @@ export function VideoPlaybackModal({ item, onClose }: VideoPlaybackModalProps) {
           <ParameterSection title="Full Prompt">
             <div className="relative">
               <p className="text-xs leading-relaxed text-foreground/80 pr-8 whitespace-pre-wrap wrap-break-word">
-                {item.videoGenerationParams?.prompt || item.constructedPrompt}
+                {params?.prompt || item.constructedPrompt}
               </p>
               <Button
                 variant="ghost"
                 size="icon"
                 className="absolute top-0 right-0 size-6 hover:bg-background/10"
-                onClick={() => handleCopy(item.videoGenerationParams?.prompt || item.constructedPrompt)}
+                onClick={() => handleCopy(params?.prompt || item.constructedPrompt)}
               >
                 <Copy className="size-3" />
               </Button>
@@ -71,24 +114,59 @@ export function VideoPlaybackModal({ item, onClose }: VideoPlaybackModalProps) {
           </ParameterSection>
 
           <ParameterSection title="Generation Parameters">
-            <ParameterRow label="Seed" value={item.videoGenerationParams?.seed || 'N/A'} />
-            <ParameterRow label="Resolution" value={item.videoGenerationParams?.resolution || 'N/A'} />
-            <ParameterRow label="Duration" value={`${item.videoGenerationParams?.duration || 'N/A'}s`} />
-            <ParameterRow label="Fixed Camera" value={item.videoGenerationParams?.cameraFixed ? 'Yes' : 'No'} />
-            {item.videoGenerationParams?.modelMovement && (
-              <ParameterRow label="Model Movement" value={item.videoGenerationParams.modelMovement} />
+            {slots.length > 1 && activeSlot && (
+              <ParameterRow label="Variant" value={`${activeSlot.slotIndex + 1} of ${slots.length}`} />
             )}
-            {item.videoGenerationParams?.fabricMotion && (
-              <ParameterRow label="Fabric Motion" value={item.videoGenerationParams.fabricMotion} />
+            {activeSlot?.status === 'failed' && (
+              <ParameterRow label="Error" value={activeSlot.error || 'Generation failed'} />
             )}
-            {item.videoGenerationParams?.cameraAction && (
-              <ParameterRow label="Camera Action" value={item.videoGenerationParams.cameraAction} />
+            <ParameterRow label="Seed" value={(activeSlot?.seed ?? params?.seed) || 'N/A'} />
+            <ParameterRow label="Resolution" value={params?.resolution || 'N/A'} />
+            <ParameterRow label="Duration" value={`${params?.duration || 'N/A'}s`} />
+            <ParameterRow label="Fixed Camera" value={params?.cameraFixed ? 'Yes' : 'No'} />
+            {params?.modelMovement && (
+              <ParameterRow label="Model Movement" value={params.modelMovement} />
             )}
-            {item.videoGenerationParams?.aestheticVibe && (
-              <ParameterRow label="Aesthetic Vibe" value={item.videoGenerationParams.aestheticVibe} />
+            {params?.fabricMotion && (
+              <ParameterRow label="Fabric Motion" value={params.fabricMotion} />
+            )}
+            {params?.cameraAction && (
+              <ParameterRow label="Camera Action" value={params.cameraAction} />
+            )}
+            {params?.aestheticVibe && (
+              <ParameterRow label="Aesthetic Vibe" value={params.aestheticVibe} />
             )}
           </ParameterSection>
 
+          {(media?.durationSeconds !== undefined || activeSlot?.trimmedFrom) && (
+            <ParameterSection title="Clip">
+              {media?.durationSeconds !== undefined && (
+                <ParameterRow label="Length" value={`${media.durationSeconds}s`} />
+              )}
+              {media?.width && media.height && (
+                <ParameterRow label="Dimensions" value={`${media.width} × ${media.height}`} />
+              )}
+              {activeSlot?.trimmedFrom && (
+                <ParameterRow
+                  label="Trimmed From"
+                  value={`Variant ${activeSlot.trimmedFrom.sourceSlotIndex + 1}, ${activeSlot.trimmedFrom.start}s – ${activeSlot.trimmedFrom.end}s`}
+                />
+              )}
+            </ParameterSection>
+          )}
+
+          {activeSlot?.status === 'completed' && activeSlot.localVideoUrl && !showComparison && (
+            <ParameterSection title="Trim">
+              <VideoTrimPanel
+                key={activeSlot.slotIndex}
+                historyItemId={item.id}
+                slot={activeSlot}
+                getPlayhead={() => videoRef.current?.currentTime}
+                onTrimmed={handleTrimmed}
+              />
+            </ParameterSection>
+          )}
+
           <ParameterSection title="Metadata">
             <ParameterRow label="Created" value={new Date(item.timestamp).toLocaleString()} />
             <ParameterRow label="User" value={item.username} />
@@ -103,7 +181,15 @@ export function VideoPlaybackModal({ item, onClose }: VideoPlaybackModalProps) {
           <X className="size-4 sm:mr-2" />
           <span className="hidden sm:inline">Close</span>
         </Button>
-        <a href={downloadUrl || '#'} download={`RefashionAI_video_${item.id.slice(0, 8)}.mp4`}>
+        {previewUrl && (
+          <a href={previewUrl} download={`RefashionAI_preview_${item.id.slice(0, 8)}${slots.length > 1 ? `_v${activeSlotIndex + 1}` : ''}.webm`}>
+            <Button variant="outline" title="Download the short looping preview">
+              <Film className="size-4 sm:mr-2" />
+              <span className="hidden sm:inline">Preview</span>
+            </Button>
+          </a>
+        )}
+        <a href={downloadUrl || '#'} download={`RefashionAI_video_${item.id.slice(0, 8)}${slots.length > 1 ? `_v${activeSlotIndex + 1}` : ''}.mp4`}>
           <Button disabled={!downloadUrl}>
             <Download className="size-4 sm:mr-2" />
             <span className="hidden sm:inline">Download</span>
@@ -113,6 +199,31 @@ export function VideoPlaybackModal({ item, onClose }: VideoPlaybackModalProps) {
     </div>
   );
 
+  // Variant switcher and compare toggle, shown above the player for items with several clips
+  const VariantControls = slots.length > 1 && (
+    <div className="flex items-center justify-between gap-2 px-3 py-2 bg-black/40 shrink-0">
+      <VideoVariantSwitcher
+        slots={slots}
+        activeSlotIndex={activeSlot?.slotIndex ?? 0}
+        onSelect={(slotIndex) => {
+          setActiveSlotIndex(slotIndex);
+          setIsComparing(false);
+        }}
+      />
+      <Button
+        variant={showComparison ? 'secondary' : 'ghost'}
+        size="sm"
+        className="h-7 text-xs"
+        disabled={!canCompare}
+        onClick={() => setIsComparing(!isComparing)}
+        title={canCompare ? 'Play the finished variants side by side' : 'At least two finished variants are needed to compare'}
+      >
+        <Columns2 className="size-3.5 mr-1" />
+        Compare
+      </Button>
+    </div>
+  );
+
   // Mobile Render: Sheet (Bottom Drawer)
   if (isMobile) {
     return (
@@ -121,11 +232,16 @@ export function VideoPlaybackModal({ item, onClose }: VideoPlaybackModalProps) {
           side="bottom" 
           className="h-[85vh] p-0 flex flex-col bg-background/95 backdrop-blur-xl border-t border-white/10 rounded-t-xl overflow-hidden"
         >
+          {VariantControls}
           {/* Mobile Video Player Area (Top) */}
           <div className="w-full h-[35vh] bg-black flex items-center justify-center shrink-0">
-            {playbackUrl ? (
+            {showComparison ? (
+              <SyncedVideoComparison clips={comparisonClips} className="p-1" />
+            ) : playbackUrl ? (
               <video
+                ref={videoRef}
                 src={playbackUrl}
+                poster={posterUrl}
                 controls
                 playsInline
                 className="w-full h-full object-contain"
@@ -152,21 +268,28 @@ export function VideoPlaybackModal({ item, onClose }: VideoPlaybackModalProps) {
         className="max-w-7xl w-[95vw] h-[90vh] p-0 gap-0 bg-background/80 backdrop-blur-xl border-white/10 overflow-hidden grid grid-cols-[1fr_400px]"
       >
         {/* Desktop Media Area */}
-        <div className="relative flex-1 min-h-0 bg-black/20 flex items-center justify-center p-4 overflow-hidden">
-          {playbackUrl ? (
-            <video
-              src={playbackUrl}
-              controls
-              autoPlay
-              loop
-              muted
-              className="w-full max-w-full max-h-full object-contain rounded-md shadow-2xl"
-            />
-          ) : (
-            <div className="flex items-center justify-center text-muted-foreground">
-              <p>Video not available</p>
-            </div>
-          )}
+        <div className="flex flex-col min-h-0 bg-black/20 overflow-hidden">
+          {VariantControls}
+          <div className="relative flex-1 min-h-0 flex items-center justify-center p-4 overflow-hidden">
+            {showComparison ? (
+              <SyncedVideoComparison clips={comparisonClips} />
+            ) : playbackUrl ? (
+              <video
+                ref={videoRef}
+                src={playbackUrl}
+                poster={posterUrl}
+                controls
+                autoPlay
+                loop
+                muted
+                className="w-full max-w-full max-h-full object-contain rounded-md shadow-2xl"
+              />
+            ) : (
+              <div className="flex items-center justify-center text-muted-foreground">
+                <p>{activeSlot?.status === 'processing' ? 'This variant is still processing' : 'Video not available'}</p>
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Desktop Sidebar Area */}
@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useState, useTransition } from 'react';
+import type { VideoSlot } from '@/lib/types';
+import { trimVideoClipAction } from '@/actions/historyActions';
+import { MIN_TRIMMED_CLIP_SECONDS } from '@/lib/video-variants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Scissors } from 'lucide-react';
+
+interface VideoTrimPanelProps {
+  historyItemId: string;
+  slot: VideoSlot;
+  /** Current position of the player showing the clip, in seconds. */
+  getPlayhead: () => number | undefined;
+  onTrimmed: (slot: VideoSlot) => void;
+}
+
+const formatSeconds = (seconds: number) => String(Math.round(seconds * 10) / 10);
+
+export function VideoTrimPanel({ historyItemId, slot, getPlayhead, onTrimmed }: VideoTrimPanelProps) {
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const duration = slot.media?.durationSeconds;
+  const [start, setStart] = useState('0');
+  const [end, setEnd] = useState(duration ? formatSeconds(duration) : '');
+
+  const startValue = Number(start);
+  const endValue = Number(end);
+  const isValid = start !== '' && end !== '' && startValue >= 0 && endValue - startValue >= MIN_TRIMMED_CLIP_SECONDS;
+
+  const setFromPlayhead = (setter: (value: string) => void) => {
+    const playhead = getPlayhead();
+    if (playhead !== undefined) setter(formatSeconds(playhead));
+  };
+
+  const handleTrim = () => {
+    startTransition(async () => {
+      const result = await trimVideoClipAction(historyItemId, slot.slotIndex, { start: startValue, end: endValue });
+      if (result.success && result.slot) {
+        toast({ title: 'Trimmed version saved', description: `Saved as variant ${result.slot.slotIndex + 1}.` });
+        onTrimmed(result.slot);
+      } else {
+        toast({ title: 'Trim failed', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {([
+          ['Start', start, setStart],
+          ['End', end, setEnd],
+        ] as const).map(([label, value, setter]) => (
+          <div key={label} className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`trim-${label.toLowerCase()}`} className="text-xs">{label} (s)</Label>
+              <button
+                type="button"
+                className="text-[10px] text-muted-foreground hover:text-foreground"
+                onClick={() => setFromPlayhead(setter)}
+              >
+                Use playhead
+              </button>
+            </div>
+            <Input
+              id={`trim-${label.toLowerCase()}`}
+              type="number"
+              min={0}
+              max={duration}
+              step={0.1}
+              value={value}
+              onChange={(e) => setter(e.target.value)}
+              className="h-8 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+      <Button size="sm" className="w-full" disabled={!isValid || isPending} onClick={handleTrim}>
+        {isPending ? <Loader2 className="size-4 mr-2 animate-spin" /> : <Scissors className="size-4 mr-2" />}
+        Save Trimmed Version
+      </Button>
+    </div>
+  );
+}
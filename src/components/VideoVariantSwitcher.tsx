@@ -0,0 +1,48 @@
+"use client";
+
+import React from 'react';
+import type { VideoSlot } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface VideoVariantSwitcherProps {
+  slots: VideoSlot[];
+  activeSlotIndex: number;
+  onSelect: (slotIndex: number) => void;
+  className?: string;
+}
+
+const STATUS_DOT: Record<VideoSlot['status'], string> = {
+  processing: 'bg-blue-500 animate-pulse',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-muted-foreground',
+};
+
+export function VideoVariantSwitcher({ slots, activeSlotIndex, onSelect, className }: VideoVariantSwitcherProps) {
+  return (
+    <div role="tablist" aria-label="Video variants" className={cn("flex items-center gap-1", className)}>
+      {slots.map(slot => (
+        <button
+          key={slot.slotIndex}
+          type="button"
+          role="tab"
+          aria-selected={slot.slotIndex === activeSlotIndex}
+          title={slot.status === 'failed' ? slot.error || 'Generation failed' : `Variant ${slot.slotIndex + 1}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelect(slot.slotIndex);
+          }}
+          className={cn(
+            "flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium transition-colors",
+            slot.slotIndex === activeSlotIndex
+              ? "bg-primary text-primary-foreground"
+              : "bg-black/60 text-white/80 hover:bg-black/80"
+          )}
+        >
+          <span className={cn("size-1.5 rounded-full", STATUS_DOT[slot.status])} />
+          {slot.slotIndex + 1}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 
 import { useState, useEffect, useActionState } from 'react';
 import { useFormStatus } from 'react-dom';
+import Link from 'next/link';
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow
 } from '@/components/ui/table';
@@ -22,11 +23,11 @@ import {
   handleCreateUser,
   handleUpdateUserConfiguration,
   deleteUser,
-  generateApiKeyForUser,
   type UserFormState
 } from '@/actions/adminUserActions';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Card, CardContent } from '@/components/ui/card';
+import type { ImageModel } from '@/lib/image-models';
 
 type User = {
   username: string;
@@ -36,11 +37,15 @@ type User = {
   gemini_api_key_2_mode: 'global' | 'user_specific';
   gemini_api_key_3_mode: 'global' | 'user_specific';
   fal_api_key_mode: 'global' | 'user_specific';
-  image_generation_model: 'fal_nano_banana_pro' | 'fal_gemini_2_5';
+  image_generation_model: string;
+  rate_limit_per_minute?: number | null;
+  monthly_budget_usd?: number | null;
+  monthly_spend_usd: number;
 };
 
 interface UserManagementTableProps {
   initialUsers: User[];
+  imageModels: Pick<ImageModel, 'id' | 'label' | 'defaultImageCount' | 'available'>[];
   maskedGlobalKeys: {
     gemini1: string;
     gemini2: string;
@@ -70,7 +75,7 @@ function UpdateUserSubmitButton() {
   );
 }
 
-export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserManagementTableProps) {
+export function UserManagementTable({ initialUsers, imageModels, maskedGlobalKeys }: UserManagementTableProps) {
   const { toast } = useToast();
   const [users, setUsers] = useState<User[]>(initialUsers);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -78,7 +83,6 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
   const [userToEdit, setUserToEdit] = useState<User | null>(null);
   const [editedUserConfig, setEditedUserConfig] = useState<User | null>(null);
-  const [generatedApiKey, setGeneratedApiKey] = useState<string | null>(null);
 
   // Initialize useActionState for forms
   const initialCreateUserState: UserFormState = { message: '' };
@@ -141,17 +145,12 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
     setIsSubmitting(false);
   }
 
-  const handleGenerateKey = async () => {
-    if (!userToEdit) return;
-    setIsSubmitting(true);
-    const result = await generateApiKeyForUser(userToEdit.username);
-    if (result.success && result.apiKey) {
-      setGeneratedApiKey(result.apiKey);
-      toast({ title: 'API Key Generated', description: `A new key has been generated for ${userToEdit.username}.` });
-    } else {
-      toast({ title: 'Error', description: result.error, variant: 'destructive' });
-    }
-    setIsSubmitting(false);
+  const getImageModelLabel = (modelId: string) =>
+    imageModels.find(model => model.id === modelId)?.label ?? modelId;
+
+  const getSpendSummary = (user: User) => {
+    const spent = `$${user.monthly_spend_usd.toFixed(2)}`;
+    return user.monthly_budget_usd != null ? `${spent} / $${user.monthly_budget_usd.toFixed(2)}` : spent;
   };
 
   const getApiKeyModeSummary = (user: User) => {
@@ -220,6 +219,7 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
                 <TableHead>Role</TableHead>
                 <TableHead>API Key Mode</TableHead>
                 <TableHead>Image Model</TableHead>
+                <TableHead>Spend This Month</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -230,8 +230,9 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
                   <TableCell className="capitalize">{user.role}</TableCell>
                   <TableCell>{getApiKeyModeSummary(user)}</TableCell>
                   <TableCell>
-                    {user.image_generation_model === 'fal_gemini_2_5' ? 'Fal Gemini 2.5' : 'Nano Banana Pro'}
+                    {getImageModelLabel(user.image_generation_model)}
                   </TableCell>
+                  <TableCell>{getSpendSummary(user)}</TableCell>
                   <TableCell className="text-right">
                     <Button variant="ghost" size="icon" onClick={() => setUserToEdit(user)} disabled={isSubmitting} aria-label={`Edit ${user.username}`}>
                       <Edit className="h-4 w-4" />
@@ -256,7 +257,8 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
                 <p className="font-medium">{user.username}</p>
                 <p className="text-sm text-muted-foreground capitalize">Role: {user.role}</p>
                 <p className="text-sm text-muted-foreground">Keys: {getApiKeyModeSummary(user)}</p>
-                <p className="text-sm text-muted-foreground">Model: {user.image_generation_model === 'fal_gemini_2_5' ? 'Fal 2.5' : 'Banana Pro'}</p>
+                <p className="text-sm text-muted-foreground">Model: {getImageModelLabel(user.image_generation_model)}</p>
+                <p className="text-sm text-muted-foreground">Spend: {getSpendSummary(user)}</p>
               </div>
               <div className="flex items-center">
                 <Button variant="ghost" size="icon" onClick={() => setUserToEdit(user)} disabled={isSubmitting} aria-label={`Edit ${user.username}`}>
@@ -304,11 +306,45 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
                     <SelectValue placeholder="Select a model" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="fal_nano_banana_pro">Nano Banana Pro (1 Image)</SelectItem>
-                    <SelectItem value="fal_gemini_2_5">Fal Gemini 2.5 (3 Images)</SelectItem>
+                    {imageModels
+                      .filter(model => model.available || model.id === userToEdit?.image_generation_model)
+                      .map(model => (
+                        <SelectItem key={model.id} value={model.id} disabled={!model.available}>
+                          {model.label} ({model.defaultImageCount} Image{model.defaultImageCount > 1 ? 's' : ''}){!model.available && ' - unavailable'}
+                        </SelectItem>
+                      ))}
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-rate-limit">Rate Limit (generations per minute)</Label>
+                <Input
+                  key={userToEdit?.username}
+                  id="edit-rate-limit"
+                  name="rate_limit_per_minute"
+                  type="number"
+                  min={1}
+                  max={10000}
+                  defaultValue={userToEdit?.rate_limit_per_minute ?? ''}
+                  placeholder="Role default"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-monthly-budget">Monthly Budget (USD)</Label>
+                <Input
+                  key={userToEdit?.username}
+                  id="edit-monthly-budget"
+                  name="monthly_budget_usd"
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  defaultValue={userToEdit?.monthly_budget_usd ?? ''}
+                  placeholder="No budget"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Generations that would exceed the budget are refused. Spent this month: ${(userToEdit?.monthly_spend_usd ?? 0).toFixed(2)}
+                </p>
+              </div>
               <Accordion type="multiple" className="w-full">
                 {[1, 2, 3].map(i => (
                   <AccordionItem key={i} value={`gemini-${i}`}>
@@ -354,10 +390,10 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
                 </AccordionItem>
               </Accordion>
               <div className="pt-4 border-t">
-                <Label>External API Key</Label>
-                <p className="text-xs text-muted-foreground pb-2">Generate a key for integrations like WordPress.</p>
-                <Button type="button" variant="secondary" onClick={handleGenerateKey} disabled={isSubmitting}>
-                  Generate New API Key
+                <Label>External API Keys</Label>
+                <p className="text-xs text-muted-foreground pb-2">Scoped keys for integrations like WordPress.</p>
+                <Button asChild variant="secondary">
+                  <Link href={`/admin/api-keys?username=${encodeURIComponent(editedUserConfig?.username ?? '')}`}>Manage API Keys</Link>
                 </Button>
               </div>
             </div>
@@ -384,27 +420,6 @@ export function UserManagementTable({ initialUsers, maskedGlobalKeys }: UserMana
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-
-      <AlertDialog open={!!generatedApiKey} onOpenChange={() => setGeneratedApiKey(null)}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>API Key Generated</AlertDialogTitle>
-            <AlertDialogDescription>
-              Copy this key and store it securely. You will not see it again.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <div className="p-4 bg-muted rounded-md font-mono text-sm break-all">{generatedApiKey}</div>
-          <AlertDialogFooter>
-            <AlertDialogAction onClick={() => {
-              navigator.clipboard.writeText(generatedApiKey || '');
-              toast({ title: 'Copied!' });
-              setGeneratedApiKey(null);
-            }}>
-              Copy & Close
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
     </>
   );
 }
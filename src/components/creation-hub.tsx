@@ -16,18 +16,17 @@ import { useShallow } from 'zustand/react/shallow';
 import { useImageStore } from '@/stores/imageStore';
 import { Sparkles, Camera, Grid3x3, Image as ImageIcon, Video } from 'lucide-react';
 import { COMMON_VARIANTS } from "@/lib/motion-constants";
+import type { ImageModelSummary } from '@/lib/image-models';
 
 // Wrap the component content that uses useSearchParams
 function CreationHubContent({
   children,
-  maxImages = 3,
   recentUploads = [],
-  userModel, // NEW
+  imageModel,
 }: {
   children: React.ReactNode;
-  maxImages?: number;
   recentUploads?: string[];
-  userModel?: string; // NEW
+  imageModel?: ImageModelSummary;
 }) {
   const { toast } = useToast();
   const searchParams = useSearchParams();
@@ -213,8 +212,7 @@ function CreationHubContent({
           {/* Unified workspace with both modes and results display */}
           <ImageGenerationWorkspace
             onLoadImageUrl={handleLoadFromImageUrl}
-            maxImages={maxImages}
-            userModel={userModel} // NEW
+            imageModel={imageModel}
           />
         </TabsContent>
 
@@ -236,7 +234,7 @@ function CreationHubContent({
 }
 
 // The main export now wraps the content in Suspense
-export default function CreationHub(props: { children: React.ReactNode; maxImages?: number; recentUploads?: string[]; userModel?: string }) {
+export default function CreationHub(props: { children: React.ReactNode; recentUploads?: string[]; imageModel?: ImageModelSummary }) {
   return (
     <Suspense fallback={<div>Loading...</div>}>
       <CreationHubContent {...props} />
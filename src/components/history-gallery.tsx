@@ -1,11 +1,12 @@
 // src/components/history-gallery.tsx
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef, useOptimistic, startTransition, lazy, Suspense } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef, useOptimistic, startTransition, lazy, Suspense } from "react";
 import { m, AnimatePresence, LayoutGroup } from "motion/react";
 import { Button } from "@/components/ui/button";
-import { getHistoryPaginated, deleteHistoryItem } from "@/actions/historyActions";
-import type { HistoryItem } from "@/lib/types";
+import { searchHistory, deleteHistoryItem } from "@/actions/historyActions";
+import type { HistoryItem, ImageFeedback } from "@/lib/types";
+import { applyImageFeedback } from "@/lib/image-feedback";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2, AlertTriangle, ImageIcon } from "lucide-react";
 import HistoryCard from "./HistoryCard";
@@ -17,6 +18,17 @@ import { useGenerationSettingsStore } from "@/stores/generationSettingsStore";
 import { useImageStore } from "@/stores/imageStore";
 import { COMMON_VARIANTS } from "@/lib/motion-constants";
 import { usePathname, useSearchParams } from 'next/navigation';
+import type { Route } from "next";
+import { readHistorySearchFilters, hasActiveHistoryFilters, toHistorySearchParams, type HistorySearchFilters } from "@/lib/history-search";
+import { HistorySearchBar, type HistoryModelOption } from "./HistorySearchBar";
+import { CollectionsBar } from "./CollectionsBar";
+import { AddToCollectionDialog } from "./AddToCollectionDialog";
+import { ShareLinkDialog, type ShareTarget } from "./ShareLinkDialog";
+import { StoryboardPanel, type StoryboardShotDraft } from "./StoryboardPanel";
+import { getStoryboardSourceImage, MAX_STORYBOARD_SHOTS } from "@/lib/storyboard";
+import { CAMERA_ACTION_OPTIONS, MODEL_MOVEMENT_OPTIONS } from "@/lib/prompt-options";
+import { getCollections, setCollectionMembershipAction } from "@/actions/collectionActions";
+import type { Collection } from "@/services/db";
 
 // Lazy load modals for better initial page load performance
 const ImageViewerModal = lazy(() => import('./ImageViewerModal').then(m => ({ default: m.ImageViewerModal })));
@@ -33,13 +45,22 @@ interface PaginatedResult {
 
 export default function HistoryGallery({
   initialHistory,
+  models = [],
+  initialCollections = [],
 }: {
   initialHistory: PaginatedResult;
+  /** Image models offered by the model filter. */
+  models?: HistoryModelOption[];
+  initialCollections?: Collection[];
 }) {
   const { toast } = useToast();
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
+
+  // Search filters come from the URL; the key changes only when a filter does
+  const filtersKey = toHistorySearchParams(readHistorySearchFilters(searchParams)).toString();
+  const filters = useMemo(() => readHistorySearchFilters(new URLSearchParams(filtersKey)), [filtersKey]);
   
   // Read history filter directly from Zustand store
   const historyFilter = useGenerationSettingsStore(state => state.historyFilter);
@@ -52,6 +73,10 @@ export default function HistoryGallery({
   const [detailItem, setDetailItem] = useState<HistoryItem | null>(null);
   const [itemToDelete, setItemToDelete] = useState<HistoryItem | null>(null);
   const [isPreparingVideo, setIsPreparingVideo] = useState(false);
+  const [collections, setCollections] = useState<Collection[]>(initialCollections);
+  const [itemForCollections, setItemForCollections] = useState<HistoryItem | null>(null);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [storyboardShots, setStoryboardShots] = useState<StoryboardShotDraft[]>([]);
 
   // State is now initialized from server-provided props
   const [historyItems, setHistoryItems] = useState<HistoryItem[]>(initialHistory.items);
@@ -73,14 +98,14 @@ export default function HistoryGallery({
   // Function to refresh the history (can be called internally)
   const refreshHistory = useCallback(async () => {
     try {
-      const result = await getHistoryPaginated(1, 9, historyFilter);
+      const result = await searchHistory(filters, 1, 9, historyFilter);
       setHistoryItems(result.items);
       setCurrentPage(result.currentPage + 1);
       setHasMore(result.hasMore);
     } catch (err) {
       console.error('Failed to refresh history:', err);
     }
-  }, [historyFilter]);
+  }, [filters, historyFilter]);
 
   // Listen for generation count changes and refresh history
   useEffect(() => {
@@ -96,7 +121,7 @@ export default function HistoryGallery({
     const loadFilteredHistory = async () => {
       setIsLoadingMore(true);
       try {
-        const result = await getHistoryPaginated(1, 9, historyFilter);
+        const result = await searchHistory(filters, 1, 9, historyFilter);
         setHistoryItems(result.items);
         setCurrentPage(result.currentPage + 1);
         setHasMore(result.hasMore);
@@ -112,21 +137,21 @@ export default function HistoryGallery({
     };
     
     // Skip on initial render (we already have initialHistory prop)
-    // But run whenever historyFilter changes after that
+    // But run whenever historyFilter or the search filters change after that
     if (isInitialRender.current) {
       isInitialRender.current = false;
       return;
     }
     
     loadFilteredHistory();
-  }, [historyFilter, toast]);
+  }, [filters, historyFilter, toast]);
 
   const handleLoadMore = useCallback(async () => {
     if (!hasMore || isLoadingMore) return;
     setIsLoadingMore(true);
     try {
       // Use a server action for pagination
-      const result = await getHistoryPaginated(currentPage, 9, historyFilter);
+      const result = await searchHistory(filters, currentPage, 9, historyFilter);
       setHistoryItems(prevItems => [...prevItems, ...result.items]);
       setCurrentPage(prev => prev + 1);
       setHasMore(result.hasMore);
@@ -139,7 +164,7 @@ export default function HistoryGallery({
     } finally {
       setIsLoadingMore(false);
     }
-  }, [hasMore, isLoadingMore, currentPage, historyFilter, toast]);
+  }, [hasMore, isLoadingMore, currentPage, filters, historyFilter, toast]);
 
 
   // React Compiler auto-memoizes this function
@@ -168,6 +193,8 @@ export default function HistoryGallery({
     if (result.success) {
       // On success, sync the real state to match the optimistic one
       setHistoryItems(prevItems => prevItems.filter(item => item.id !== itemToDelete.id));
+      // The item may have been in collections; refresh their counts
+      getCollections().then(setCollections).catch(() => {});
       toast({
         title: "Item Deleted",
         description: "The history item has been permanently removed.",
@@ -184,6 +211,70 @@ export default function HistoryGallery({
     setItemToDelete(null); // Close dialog regardless of outcome
   };
 
+  // Filters other than the search bar's (collection view, tag links) also live in the URL
+  const navigateToFilters = (next: HistorySearchFilters) => {
+    const queryString = toHistorySearchParams(next, new URLSearchParams(searchParams.toString())).toString();
+    router.replace(`${pathname}${queryString ? `?${queryString}` : ""}` as Route, { scroll: false });
+  };
+
+  const handleCollectionChange = (collection: Collection) => {
+    setCollections(prev => prev.some(c => c.id === collection.id)
+      ? prev.map(c => c.id === collection.id ? collection : c)
+      : [collection, ...prev]);
+  };
+
+  const handleCollectionDelete = (collectionId: string) => {
+    setCollections(prev => prev.filter(c => c.id !== collectionId));
+    if (filters.collection === collectionId) {
+      navigateToFilters({ ...filters, collection: undefined });
+    }
+  };
+
+  const handleRemoveFromCollection = async (item: HistoryItem) => {
+    if (!filters.collection) return;
+    const result = await setCollectionMembershipAction(filters.collection, item.id, false);
+    if (result.success && result.collection) {
+      setHistoryItems(prevItems => prevItems.filter(i => i.id !== item.id));
+      handleCollectionChange(result.collection);
+    } else {
+      toast({ title: "Could Not Update Collection", description: result.error, variant: "destructive" });
+    }
+  };
+
+  const handleAddToStoryboard = (item: HistoryItem) => {
+    const sourceImageUrl = getStoryboardSourceImage(item);
+    if (!sourceImageUrl) return;
+    if (storyboardShots.length >= MAX_STORYBOARD_SHOTS) {
+      toast({ title: "Storyboard Is Full", description: `A storyboard has at most ${MAX_STORYBOARD_SHOTS} shots.`, variant: "destructive" });
+      return;
+    }
+    setStoryboardShots(prevShots => [...prevShots, {
+      id: crypto.randomUUID(),
+      historyItemId: item.id,
+      sourceImageUrl,
+      modelMovement: MODEL_MOVEMENT_OPTIONS[0].value,
+      cameraAction: CAMERA_ACTION_OPTIONS[0].value,
+      duration: '5',
+    }]);
+  };
+
+  const handleTagsChange = (item: HistoryItem, tags: string[]) => {
+    const updated = { ...item, tags };
+    setHistoryItems(prevItems => prevItems.map(i => i.id === item.id ? updated : i));
+    setDetailItem(current => current?.id === item.id ? updated : current);
+  };
+
+  const handleFeedbackChange = (item: HistoryItem, feedback: ImageFeedback) => {
+    const withFeedback = (i: HistoryItem) => ({ ...i, imageFeedback: applyImageFeedback(i.imageFeedback, feedback) });
+    setHistoryItems(prevItems => prevItems.map(i => i.id === item.id ? withFeedback(i) : i));
+    setDetailItem(current => current?.id === item.id ? withFeedback(current) : current);
+  };
+
+  const handleTagSelect = (tag: string) => {
+    setDetailItem(null);
+    navigateToFilters({ ...filters, tag });
+  };
+
   // Handler for "Animate" button in modal
   const handleSendToVideo = useCallback(async (imageUrl: string, prompt: string) => {
     setIsPreparingVideo(true);
@@ -273,6 +364,18 @@ export default function HistoryGallery({
 
   return (
     <>
+      <div className="space-y-4">
+        <CollectionsBar
+          collections={collections}
+          activeCollectionId={filters.collection}
+          onSelect={(collection) => navigateToFilters({ ...filters, collection })}
+          onCollectionChange={handleCollectionChange}
+          onCollectionDelete={handleCollectionDelete}
+          onShare={(collection) => setShareTarget({ type: 'collection', id: collection.id, name: collection.name })}
+        />
+        <HistorySearchBar filters={filters} models={models} />
+      </div>
+
       <div className="relative min-h-[400px]">
         <AnimatePresence mode="wait">
           {/* STATE 1: Initial Loading Skeleton */}
@@ -289,7 +392,11 @@ export default function HistoryGallery({
                 <CardContent className="py-16 flex flex-col items-center justify-center text-center">
                   <ImageIcon className="h-16 w-16 text-muted-foreground/50 mb-4" />
                   <h3 className="text-xl font-semibold">No History Found</h3>
-                  <p className="text-muted-foreground mt-1">Creations for this filter will appear here.</p>
+                  <p className="text-muted-foreground mt-1">
+                    {filters.collection && !hasActiveHistoryFilters({ ...filters, collection: undefined })
+                      ? "This collection is empty. Add items with \"Add to Collection\" in a card's menu."
+                      : hasActiveHistoryFilters(filters) ? "No creations match your search." : "Creations for this filter will appear here."}
+                  </p>
                 </CardContent>
               </Card>
             </m.div>
@@ -325,6 +432,10 @@ export default function HistoryGallery({
                             item={item}
                             onViewDetails={handleViewDetails}
                             onDeleteItem={handleDeleteRequest}
+                            onAddToCollection={setItemForCollections}
+                            onRemoveFromCollection={filters.collection ? handleRemoveFromCollection : undefined}
+                            onShare={(shared) => setShareTarget({ type: 'history', id: shared.id })}
+                            onAddToStoryboard={handleAddToStoryboard}
                           />
                         </m.div>
                       ))}
@@ -352,6 +463,10 @@ export default function HistoryGallery({
                           actions={{
                             onReloadConfig: handleReloadConfig,
                             onSendToVideo: handleSendToVideo,
+                            onAddToCollection: setItemForCollections,
+                            onTagsChange: handleTagsChange,
+                            onTagSelect: handleTagSelect,
+                            onFeedbackChange: handleFeedbackChange,
                           }}
                           processingState={{
                             isPreparingVideo,
@@ -377,6 +492,17 @@ export default function HistoryGallery({
         </div>
       )}
 
+      <AddToCollectionDialog
+        item={itemForCollections}
+        collections={collections}
+        onClose={() => setItemForCollections(null)}
+        onCollectionChange={handleCollectionChange}
+      />
+
+      <ShareLinkDialog target={shareTarget} onClose={() => setShareTarget(null)} />
+
+      <StoryboardPanel shots={storyboardShots} onShotsChange={setStoryboardShots} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!itemToDelete} onOpenChange={(isOpen) => !isOpen && setItemToDelete(null)}>
         <AlertDialogContent>
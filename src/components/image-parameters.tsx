@@ -27,6 +27,7 @@ import { m } from 'motion/react';
 import { MOTION_TRANSITIONS } from '@/lib/motion-constants';
 import { ProcessingPipelineSection } from '@/components/ProcessingPipelineSection';
 import { ParameterAccordionSections } from '@/components/ParameterAccordionSections';
+import { MAX_IMAGE_COUNT, type ImageModelSummary } from '@/lib/image-models';
 
 const PARAMETER_CONFIG = {
   gender: { options: GENDER_OPTIONS, defaultVal: GENDER_OPTIONS[0].value },
@@ -49,12 +50,11 @@ const PARAMETER_CONFIG = {
 
 interface ImageParametersProps {
   isPending: boolean;
-  maxImages?: number;
-  userModel?: string;
+  imageModel?: ImageModelSummary;
   onSubmit: () => void;
 }
 
-export default function ImageParameters({ isPending, maxImages = 3, userModel, onSubmit }: ImageParametersProps) {
+export default function ImageParameters({ isPending, imageModel, onSubmit }: ImageParametersProps) {
   const { toast } = useToast();
   const { versions, activeVersionId } = useImageStore();
   const activeImage = activeVersionId ? versions[activeVersionId] : null;
@@ -97,7 +97,8 @@ export default function ImageParameters({ isPending, maxImages = 3, userModel, o
     }))
   );
 
-  const isNanoBanana = userModel === 'fal_nano_banana_pro';
+  const maxImages = imageModel?.defaultImageCount ?? MAX_IMAGE_COUNT;
+  const supportsAspectRatio = !!imageModel?.options.aspectRatio;
 
   // Local State
   const [useRandomization, setUseRandomization] = useState<boolean>(true);
@@ -178,7 +179,10 @@ export default function ImageParameters({ isPending, maxImages = 3, userModel, o
               <Palette className="h-6 w-6 text-primary" />
               Image Generation Settings
             </CardTitle>
-            <CardDescription>{useRandomization ? 'Using automatic style randomization.' : 'Fine-tune every detail.'}</CardDescription>
+            <CardDescription>
+              {useRandomization ? 'Using automatic style randomization.' : 'Fine-tune every detail.'}
+              {imageModel && ` Model: ${imageModel.label}.`}
+            </CardDescription>
           </div>
         </CardHeader>
 
@@ -195,8 +199,8 @@ export default function ImageParameters({ isPending, maxImages = 3, userModel, o
             )}
           </Button>
 
-          {/* Aspect Ratio - Only for Nano Banana */}
-          {isNanoBanana && (
+          {/* Aspect Ratio - Only for models that accept one */}
+          {supportsAspectRatio && (
             <div className="mt-4 p-4 rounded-lg bg-muted/30 border border-muted/30">
               <Label htmlFor="creative-aspect-ratio" className="mb-2 block text-sm font-medium">Aspect Ratio</Label>
               <Select value={studioAspectRatio} onValueChange={setStudioAspectRatio} disabled={isPending || !preparedImageUrl}>
@@ -12,15 +12,15 @@ import { useShallow } from 'zustand/react/shallow';
 import { m, AnimatePresence } from 'motion/react';
 import { COMMON_VARIANTS } from '@/lib/motion-constants';
 import { ASPECT_RATIOS } from '@/lib/prompt-options';
+import { MAX_IMAGE_COUNT, type ImageModelSummary } from '@/lib/image-models';
 
 interface StudioParametersProps {
   isPending: boolean;
-  maxImages?: number;
-  userModel?: string;
+  imageModel?: ImageModelSummary;
   onSubmit: () => void; // NEW Prop
 }
 
-export default function StudioParameters({ isPending, maxImages = 3, userModel, onSubmit }: StudioParametersProps) {
+export default function StudioParameters({ isPending, imageModel, onSubmit }: StudioParametersProps) {
   const { versions, activeVersionId } = useImageStore();
   const activeImage = activeVersionId ? versions[activeVersionId] : null;
   const isImageReady = !!activeImage?.imageUrl;
@@ -34,7 +34,8 @@ export default function StudioParameters({ isPending, maxImages = 3, userModel,
     }))
   );
 
-  const isNanoBanana = userModel === 'fal_nano_banana_pro';
+  const maxImages = imageModel?.defaultImageCount ?? MAX_IMAGE_COUNT;
+  const supportsAspectRatio = !!imageModel?.options.aspectRatio;
 
   return (
     <>
@@ -45,7 +46,10 @@ export default function StudioParameters({ isPending, maxImages = 3, userModel,
           <CardTitle className="text-xl flex items-center gap-2">
             <Sparkles className="h-6 w-6 text-primary" /> Studio Mode Settings
           </CardTitle>
-          <CardDescription>Generate consistent, product-focused shots.</CardDescription>
+          <CardDescription>
+            Generate consistent, product-focused shots.
+            {imageModel && ` Model: ${imageModel.label}.`}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <AnimatePresence>
@@ -77,7 +81,7 @@ export default function StudioParameters({ isPending, maxImages = 3, userModel,
                   </SelectContent>
                 </Select>
               </div>
-              {isNanoBanana && (
+              {supportsAspectRatio && (
                 <div className="space-y-2">
                   <Label htmlFor="aspect-ratio-select">Aspect Ratio</Label>
                   <Select value={studioAspectRatio} onValueChange={setStudioAspectRatio} disabled={!isImageReady || isPending}>
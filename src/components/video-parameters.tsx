@@ -10,16 +10,17 @@ import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useImageStore } from "@/stores/imageStore";
-import { useGenerationSettingsStore, type VideoParameters as VideoParamsType } from "@/stores/generationSettingsStore";
+import { useGenerationSettingsStore, type VideoParameters as VideoParamsType, type VideoVariantSettings } from "@/stores/generationSettingsStore";
 import {
   PREDEFINED_PROMPTS, MODEL_MOVEMENT_OPTIONS, FABRIC_MOTION_OPTIONS_VIDEO,
   CAMERA_ACTION_OPTIONS, AESTHETIC_VIBE_OPTIONS,
 } from "@/lib/prompt-options";
-import { AlertTriangle, Info, Loader2, PaletteIcon, Shuffle, Video, MonitorPlay } from "lucide-react";
+import { AlertTriangle, Info, Loader2, PaletteIcon, Plus, Shuffle, Video, MonitorPlay, X } from "lucide-react";
 import { usePromptManager } from "@/hooks/usePromptManager";
 import type { BaseGenerationParams } from "@/lib/prompt-builder";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { calculateVideoCost, formatPrice, VideoDuration, VideoResolution } from "@/lib/pricing";
+import { MAX_VIDEO_VARIANTS } from "@/lib/video-variants";
 import { m, AnimatePresence } from 'motion/react';
 import { COMMON_VARIANTS } from '@/lib/motion-constants';
 import { ImageResultsDisplay } from './ImageResultsDisplay';
@@ -47,6 +48,8 @@ export default function VideoParameters() {
   const videoSettings = useGenerationSettingsStore(state => state.videoSettings);
   const setVideoSettings = useGenerationSettingsStore(state => state.setVideoSettings);
   const setActiveVideoPrompt = useGenerationSettingsStore(state => state.setActiveVideoPrompt);
+  const videoVariants = useGenerationSettingsStore(state => state.videoVariants);
+  const setVideoVariants = useGenerationSettingsStore(state => state.setVideoVariants);
 
   // --- Submission Hook ---
   const { submit, isPending } = useStoreSubmission<VideoGenerationFormState>(
@@ -133,6 +136,24 @@ export default function VideoParameters() {
     }
   };
 
+  // Variants start from the main settings with a random seed
+  const addVariant = () => {
+    setVideoVariants([...videoVariants, {
+      seed: "-1",
+      duration: videoSettings.duration,
+      cameraAction: videoSettings.cameraAction,
+      modelMovement: videoSettings.modelMovement,
+    }]);
+  };
+
+  const updateVariant = (index: number, changes: Partial<VideoVariantSettings>) => {
+    setVideoVariants(videoVariants.map((variant, i) => i === index ? { ...variant, ...changes } : variant));
+  };
+
+  const removeVariant = (index: number) => {
+    setVideoVariants(videoVariants.filter((_, i) => i !== index));
+  };
+
   return (
     <div className="space-y-6">
       <Card variant="glass" className="overflow-hidden">
@@ -314,6 +335,84 @@ export default function VideoParameters() {
 
                   </AccordionContent>
                 </AccordionItem>
+
+                {/* 3. VARIANTS */}
+                <AccordionItem value="variants">
+                  <AccordionTrigger className="text-sm">
+                    {videoVariants.length > 0 ? `Variants (${videoVariants.length + 1} clips)` : 'Variants'}
+                  </AccordionTrigger>
+                  <AccordionContent className="pt-4 space-y-3">
+                    <p className="text-xs text-muted-foreground">
+                      Generate extra clips from the same image with another seed, motion or duration, and compare them side by side.
+                    </p>
+                    {videoVariants.map((variant, index) => (
+                      <div key={index} className="rounded-lg border border-border/50 p-3 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-medium">Variant {index + 2}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeVariant(index)}
+                            disabled={commonFormDisabled}
+                            className="h-7 w-7"
+                            title="Remove Variant"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          {renderSelect("Camera Action", variant.cameraAction, (v) => updateVariant(index, { cameraAction: v }), CAMERA_ACTION_OPTIONS)}
+                          {renderSelect("Model Movement", variant.modelMovement, (v) => updateVariant(index, { modelMovement: v }), MODEL_MOVEMENT_OPTIONS)}
+                          <div>
+                            <Label className="text-sm font-medium mb-1.5 block">Duration</Label>
+                            <Select
+                              value={variant.duration}
+                              onValueChange={(v) => updateVariant(index, { duration: v as VideoDuration })}
+                              disabled={commonFormDisabled}
+                            >
+                              <SelectTrigger className="bg-background/50 h-9 text-sm"><SelectValue /></SelectTrigger>
+                              <SelectContent>
+                                {['5', '10'].map(d => (
+                                  <SelectItem key={d} value={d}>{d} seconds</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label className="text-sm font-medium mb-1.5 block">Seed</Label>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                value={variant.seed}
+                                onChange={(e) => updateVariant(index, { seed: e.target.value })}
+                                placeholder="-1 for random"
+                                disabled={commonFormDisabled}
+                                className="h-9 text-sm bg-background/50"
+                              />
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() => updateVariant(index, { seed: "-1" })}
+                                disabled={commonFormDisabled}
+                                className="h-9 w-9"
+                                title="Randomize Seed"
+                              >
+                                <Shuffle className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={addVariant}
+                      disabled={commonFormDisabled || videoVariants.length >= MAX_VIDEO_VARIANTS - 1}
+                    >
+                      <Plus className="h-4 w-4 mr-1" /> Add Variant
+                    </Button>
+                  </AccordionContent>
+                </AccordionItem>
               </Accordion>
             </div>
           </CardContent>
@@ -349,7 +448,7 @@ export default function VideoParameters() {
             isGenerating={isPending}
             stage="processing"
             message="Generating video animation..."
-            imageCount={1}
+            imageCount={videoVariants.length + 1}
           />
         )}
         <ImageResultsDisplay maxImages={1} />
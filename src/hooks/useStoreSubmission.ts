@@ -4,6 +4,7 @@ import { useActionState, useEffect, useRef, startTransition } from 'react';
 import { useGenerationSettingsStore } from '@/stores/generationSettingsStore';
 import { useImageStore } from '@/stores/imageStore';
 import { useToast } from '@/hooks/use-toast';
+import type { VideoVariant } from '@/lib/video-variants';
 
 // Type definition for the Server Action
 type ActionFunction<S> = (prevState: Awaited<S>, formData: FormData) => S | Promise<S>;
@@ -74,6 +75,17 @@ export function useStoreSubmission<T extends { message: string; error?: string;
             if (value !== undefined && value !== null) formData.append(key, String(value));
         });
 
+        // Extra clips to compare; the first variant is the main video settings
+        if (submissionType === 'video' && genState.videoVariants.length > 0) {
+            const variants: VideoVariant[] = [{}, ...genState.videoVariants.map(variant => ({
+                seed: Number.isNaN(parseInt(variant.seed, 10)) ? -1 : parseInt(variant.seed, 10),
+                duration: variant.duration,
+                cameraAction: variant.cameraAction,
+                modelMovement: variant.modelMovement,
+            }))];
+            formData.append('variants', JSON.stringify(variants));
+        }
+
         // 6. Append Flags
         // FIX: Only append checkbox fields if true. zfd.checkbox() interprets missing keys as false.
         // Sending "false" string causes Zod validation errors ("Invalid input").
@@ -0,0 +1,31 @@
+// src/instrumentation.ts
+// Runs once when the Next.js server starts.
+
+export async function register() {
+  // The job queue uses SQLite and Node APIs; skip the Edge runtime.
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { isMockProviderMode } = await import('@/lib/provider-mode');
+  if (isMockProviderMode()) {
+    console.warn('PROVIDER_MODE=mock: Fal.ai and Gemini are replaced by local fakes; no real generations will run.');
+  }
+
+  // Importing these modules registers their job handlers with the queue
+  await import('@/ai/flows/generate-image-edit');
+  await import('@/ai/actions/generate-video.action');
+  await import('@/services/storyboard.service');
+
+  const { startJobWorker } = await import('@/services/job-queue.service');
+  startJobWorker();
+
+  const { startWebhookRetryWorker } = await import('@/services/webhook.service');
+  startWebhookRetryWorker();
+
+  const { startVideoReconcilerWorker } = await import('@/services/video-reconciler.service');
+  startVideoReconcilerWorker();
+
+  const { resumeApiJobFollowers } = await import('@/actions/apiActions');
+  await resumeApiJobFollowers();
+}
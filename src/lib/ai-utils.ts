@@ -1,6 +1,16 @@
 import 'server-only';
 import mime from 'mime-types';
+import { GoogleGenAI } from '@google/genai';
 import { getBufferFromLocalPath } from '@/lib/server-fs.utils';
+import { isMockProviderMode } from '@/lib/provider-mode';
+import { createMockGeminiClient } from '@/services/mock-provider/gemini';
+
+/**
+ * A Gemini client for the given key, or the local mock in `PROVIDER_MODE=mock`.
+ */
+export function createGeminiClient(apiKey: string): GoogleGenAI {
+  return isMockProviderMode() ? createMockGeminiClient() : new GoogleGenAI({ apiKey });
+}
 
 /**
  * Helper to convert an image path/URI to the format the GoogleGenAI SDK needs.
@@ -1,29 +1,88 @@
 // src/lib/api-auth.ts
 import 'server-only';
 
-import { NextRequest } from 'next/server';
-import { findUserByApiKey } from '@/services/db';
+import { NextRequest, NextResponse } from 'next/server';
+import { findUserByUsername } from '@/services/db';
+import type { ApiKey } from '@/services/db';
+import { hasScope, verifyApiKey } from '@/services/appApiKey.service';
+import { consumeGenerationQuota, getRateLimitMessage, type RateLimitResult } from '@/services/rate-limit.service';
+import type { ApiKeyScope } from '@/lib/api-schemas';
 import type { SessionUser } from '@/lib/types';
 
-export async function authenticateApiRequest(request: NextRequest): Promise<SessionUser | null> {
+/**
+ * Either the authenticated user, or the error response the route should return as is.
+ */
+export type ApiAuthResult =
+  | { user: SessionUser; apiKey: ApiKey; response?: never }
+  | { user: null; apiKey?: never; response: NextResponse };
+
+/**
+ * Authenticates a v1 request by its Bearer key and checks that the key grants `scope`.
+ * Unknown, revoked and expired keys get 401; keys without the scope get 403.
+ */
+export async function authenticateApiRequest(request: NextRequest, scope: ApiKeyScope): Promise<ApiAuthResult> {
+  const unauthorized = { user: null, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
   const authHeader = request.headers.get('Authorization');
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return null;
+    return unauthorized;
   }
-  const apiKey = authHeader.slice(7);
-  if (!apiKey) {
-    return null;
+  const key = authHeader.slice(7);
+  if (!key) {
+    return unauthorized;
+  }
+
+  const apiKey = verifyApiKey(key);
+  const user = apiKey && findUserByUsername(apiKey.username);
+  if (!apiKey || !user) {
+    return unauthorized;
   }
 
-  const user = findUserByApiKey(apiKey);
-  
-  if (user) {
+  if (!hasScope(apiKey, scope)) {
     return {
+      user: null,
+      response: NextResponse.json({ error: `API key is missing the '${scope}' scope` }, { status: 403 }),
+    };
+  }
+
+  return {
+    user: {
       username: user.username,
       role: user.role as 'admin' | 'user',
       isLoggedIn: true,
+    },
+    apiKey,
+  };
+}
+
+function toRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+}
+
+/**
+ * Charges `cost` generations to the rate limits of the key and of its user.
+ * @returns The X-RateLimit-* headers for the accepted response, or the 429 response to return as is.
+ */
+export function checkApiRateLimit(
+  user: SessionUser,
+  apiKey: ApiKey,
+  cost: number = 1
+): { headers: Record<string, string>; response?: never } | { headers?: never; response: NextResponse } {
+  const result = consumeGenerationQuota(user, { apiKeyId: apiKey.id, cost });
+  const headers = toRateLimitHeaders(result);
+
+  if (!result.allowed) {
+    return {
+      response: NextResponse.json(
+        { error: 'Rate limit exceeded', details: getRateLimitMessage(result) },
+        // Retrying cannot help a request larger than the limit
+        { status: 429, headers: result.exceedsLimit ? headers : { ...headers, 'Retry-After': String(result.retryAfterSeconds) } }
+      ),
     };
   }
-  
-  return null;
+  return { headers };
 }
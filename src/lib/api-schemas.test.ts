@@ -0,0 +1,110 @@
+import { GenerationOptionsSchema, refineGenerationOptions, BatchRequestSchema, VideoRequestSchema } from './api-schemas';
+
+const RefinedSchema = GenerationOptionsSchema.superRefine(refineGenerationOptions);
+
+const validParameters = {
+  gender: 'female',
+  bodyShapeAndSize: 'default',
+  ageRange: 'default',
+  ethnicity: 'default',
+  poseStyle: 'default',
+  background: 'studio_white',
+  fashionStyle: 'ecommerce_product',
+  hairStyle: 'default',
+  modelExpression: 'default',
+  lightingType: 'default',
+  lightQuality: 'default',
+  modelAngle: 'front_facing',
+  lensEffect: 'default',
+  depthOfField: 'default',
+  timeOfDay: 'default',
+  overallMood: 'default',
+};
+
+describe('GenerationOptionsSchema', () => {
+  it('should apply defaults for a minimal creative request', () => {
+    const result = RefinedSchema.parse({ parameters: validParameters });
+    expect(result.generationMode).toBe('creative');
+    expect(result.settingsMode).toBe('basic');
+    expect(result.useAIPrompt).toBe(false);
+    expect(result.removeBackground).toBe(false);
+  });
+
+  it('should reject parameter values that are not in prompt-options', () => {
+    const result = RefinedSchema.safeParse({ parameters: { ...validParameters, background: 'outer_space' } });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject unknown aspect ratios', () => {
+    expect(RefinedSchema.safeParse({ parameters: validParameters, aspectRatio: '7:3' }).success).toBe(false);
+    expect(RefinedSchema.safeParse({ parameters: validParameters, aspectRatio: '9:16' }).success).toBe(true);
+  });
+
+  it('should require studioFit in studio mode but not parameters', () => {
+    expect(RefinedSchema.safeParse({ generationMode: 'studio' }).success).toBe(false);
+    expect(RefinedSchema.safeParse({ generationMode: 'studio', studioFit: 'slim' }).success).toBe(true);
+  });
+
+  it('should accept a manual prompt instead of parameters in creative mode', () => {
+    expect(RefinedSchema.safeParse({}).success).toBe(false);
+    expect(RefinedSchema.safeParse({ prompt: 'A model on a runway' }).success).toBe(true);
+  });
+
+  it('should require parameters when randomization is enabled', () => {
+    const result = RefinedSchema.safeParse({ prompt: 'A model on a runway', useRandomization: true });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('BatchRequestSchema', () => {
+  it('should merge item overrides over the batch defaults', () => {
+    const result = BatchRequestSchema.parse({
+      defaults: { parameters: validParameters, removeBackground: true },
+      items: [
+        { imageUrl: 'https://example.com/a.png', externalRef: 'SKU-1' },
+        { imageUrl: 'https://example.com/b.png', overrides: { parameters: { background: 'urban_street_day' }, removeBackground: false } },
+      ],
+    });
+
+    expect(result.items[0]).toMatchObject({ imageDataUri: 'https://example.com/a.png', externalRef: 'SKU-1' });
+    expect(result.items[0].options.removeBackground).toBe(true);
+    expect(result.items[1].options.removeBackground).toBe(false);
+    expect(result.items[1].options.parameters).toEqual({ ...validParameters, background: 'urban_street_day' });
+  });
+
+  it('should report errors against the item whose merged options are invalid', () => {
+    const result = BatchRequestSchema.safeParse({
+      defaults: { generationMode: 'studio', studioFit: 'regular' },
+      items: [
+        { imageUrl: 'https://example.com/a.png' },
+        { imageUrl: 'https://example.com/b.png', overrides: { studioFit: 'baggy' } },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['items', 1, 'studioFit']);
+  });
+
+  it('should require an image for every item', () => {
+    const result = BatchRequestSchema.safeParse({
+      defaults: { prompt: 'A model on a beach' },
+      items: [{ externalRef: 'SKU-1' }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('VideoRequestSchema', () => {
+  it('should apply the web UI defaults', () => {
+    const result = VideoRequestSchema.parse({ sourceHistoryItemId: 'job-1', modelMovement: 'elegant_turn_profile' });
+
+    expect(result).toMatchObject({ resolution: '1080p', duration: '5', seed: -1, cameraFixed: false });
+  });
+
+  it('should reject unknown motion options', () => {
+    const result = VideoRequestSchema.safeParse({ imageUrl: 'https://example.com/a.png', cameraAction: 'barrel_roll' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['cameraAction']);
+  });
+});
@@ -0,0 +1,227 @@
+// src/lib/api-schemas.ts
+// Zod schemas shared by the public API v1 routes.
+// Option values are validated against the canonical lists in prompt-options.ts.
+
+import { z } from 'zod';
+import {
+  FASHION_STYLE_OPTIONS, GENDER_OPTIONS, AGE_RANGE_OPTIONS, ETHNICITY_OPTIONS,
+  BODY_SHAPE_AND_SIZE_OPTIONS, HAIR_STYLE_OPTIONS, MODEL_EXPRESSION_OPTIONS,
+  POSE_STYLE_OPTIONS, BACKGROUND_OPTIONS, TIME_OF_DAY_OPTIONS, OVERALL_MOOD_OPTIONS,
+  LIGHTING_TYPE_OPTIONS, LIGHT_QUALITY_OPTIONS, LENS_EFFECT_OPTIONS,
+  DEPTH_OF_FIELD_OPTIONS, MODEL_ANGLE_OPTIONS, ASPECT_RATIOS,
+  PREDEFINED_PROMPTS, MODEL_MOVEMENT_OPTIONS, FABRIC_MOTION_OPTIONS_VIDEO,
+  CAMERA_ACTION_OPTIONS, AESTHETIC_VIBE_OPTIONS,
+} from '@/lib/prompt-options';
+
+/**
+ * Builds a Zod enum from one of the `*_OPTIONS` lists, preserving the literal value union.
+ */
+function optionEnum<const T extends readonly { value: string }[]>(options: T) {
+  return z.enum(options.map(option => option.value) as [T[number]['value'], ...T[number]['value'][]]);
+}
+
+export const ModelAttributesSchema = z.object({
+  gender: optionEnum(GENDER_OPTIONS),
+  bodyShapeAndSize: optionEnum(BODY_SHAPE_AND_SIZE_OPTIONS),
+  ageRange: optionEnum(AGE_RANGE_OPTIONS),
+  ethnicity: optionEnum(ETHNICITY_OPTIONS),
+  poseStyle: optionEnum(POSE_STYLE_OPTIONS),
+  background: optionEnum(BACKGROUND_OPTIONS),
+  fashionStyle: optionEnum(FASHION_STYLE_OPTIONS),
+  hairStyle: optionEnum(HAIR_STYLE_OPTIONS),
+  modelExpression: optionEnum(MODEL_EXPRESSION_OPTIONS),
+  lightingType: optionEnum(LIGHTING_TYPE_OPTIONS),
+  lightQuality: optionEnum(LIGHT_QUALITY_OPTIONS),
+  modelAngle: optionEnum(MODEL_ANGLE_OPTIONS),
+  lensEffect: optionEnum(LENS_EFFECT_OPTIONS),
+  depthOfField: optionEnum(DEPTH_OF_FIELD_OPTIONS),
+  timeOfDay: optionEnum(TIME_OF_DAY_OPTIONS),
+  overallMood: optionEnum(OVERALL_MOOD_OPTIONS),
+});
+
+export const AspectRatioSchema = optionEnum(ASPECT_RATIOS);
+
+/**
+ * Generation options accepted by the API. Mirrors `GenerateImageEditInput` so that
+ * API jobs can reach every feature exposed in the web UI.
+ */
+export const GenerationOptionsSchema = z.object({
+  parameters: ModelAttributesSchema.optional(),
+  settingsMode: z.enum(['basic', 'advanced']).default('basic'),
+  generationMode: z.enum(['creative', 'studio']).default('creative'),
+  studioFit: z.enum(['slim', 'regular', 'relaxed']).optional(),
+  aspectRatio: AspectRatioSchema.optional(),
+  prompt: z.string().trim().min(1).max(4000).optional(),
+  useAIPrompt: z.boolean().default(false),
+  useRandomization: z.boolean().default(false),
+  removeBackground: z.boolean().default(false),
+  upscale: z.boolean().default(false),
+  enhanceFace: z.boolean().default(false),
+});
+
+export type ApiGenerationOptions = z.infer<typeof GenerationOptionsSchema>;
+
+/**
+ * Cross-field rules shared by every endpoint that accepts generation options.
+ * Creative Mode needs parameters unless a manual prompt overrides them; Studio Mode needs a fit.
+ */
+export function refineGenerationOptions(options: Partial<ApiGenerationOptions>, ctx: z.RefinementCtx): void {
+  if (options.generationMode === 'studio') {
+    if (!options.studioFit) {
+      ctx.addIssue({ code: 'custom', path: ['studioFit'], message: 'studioFit is required when generationMode is "studio"' });
+    }
+    return;
+  }
+
+  if (!options.parameters && !options.prompt) {
+    ctx.addIssue({ code: 'custom', path: ['parameters'], message: 'parameters are required in creative mode unless a prompt is provided' });
+  }
+  if (options.useRandomization && !options.parameters) {
+    ctx.addIssue({ code: 'custom', path: ['useRandomization'], message: 'useRandomization requires parameters' });
+  }
+}
+
+/** Upper bound on items per POST /api/v1/batches request. */
+export const MAX_BATCH_ITEMS = 100;
+
+const RefinedGenerationOptionsSchema = GenerationOptionsSchema.superRefine(refineGenerationOptions);
+
+/** Raw option objects; they are only validated once defaults and overrides are merged. */
+const RawOptionsSchema = z.record(z.string(), z.unknown());
+
+export const BatchItemSchema = z.object({
+  imageUrl: z.string().url().optional(),
+  imageDataUri: z.string().optional(),
+  externalRef: z.string().trim().min(1).max(200).optional(),
+  overrides: RawOptionsSchema.optional(),
+}).refine(item => item.imageUrl || item.imageDataUri, {
+  message: 'Either imageUrl or imageDataUri is required',
+  path: ['imageUrl'],
+});
+
+/**
+ * Layers an item's overrides on top of the batch defaults. `parameters` are merged
+ * field by field so that an item can change e.g. only the background.
+ */
+export function mergeBatchOptions(defaults: Record<string, unknown>, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const merged = { ...defaults, ...overrides };
+  if (isObject(defaults.parameters) && isObject(overrides.parameters)) {
+    merged.parameters = { ...defaults.parameters, ...overrides.parameters };
+  }
+  return merged;
+}
+
+/**
+ * Body of POST /api/v1/batches. Each item is validated with its merged options, so
+ * errors point at the item (`items.3.parameters.gender`) that ends up invalid.
+ */
+export const BatchRequestSchema = z.object({
+  defaults: RawOptionsSchema.default({}),
+  items: z.array(BatchItemSchema).min(1).max(MAX_BATCH_ITEMS),
+  webhookUrl: z.string().url().optional(),
+}).transform((batch, ctx) => {
+  const items = batch.items.map((item, index) => {
+    const result = RefinedGenerationOptionsSchema.safeParse(mergeBatchOptions(batch.defaults, item.overrides));
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ code: 'custom', message: issue.message, path: ['items', index, ...issue.path] });
+      }
+      return null;
+    }
+    return {
+      imageDataUri: (item.imageUrl || item.imageDataUri)!,
+      externalRef: item.externalRef,
+      options: result.data,
+    };
+  });
+
+  if (items.some(item => item === null)) {
+    return z.NEVER;
+  }
+  return {
+    webhookUrl: batch.webhookUrl,
+    items: items.filter(item => item !== null),
+  };
+});
+
+export type ApiBatchRequest = z.infer<typeof BatchRequestSchema>;
+
+/**
+ * Body of POST /api/v1/videos. Mirrors the video panel of the web UI: either a free-form
+ * `prompt`, a `selectedPredefinedPrompt`, or the structured motion options the prompt is built from.
+ */
+export const VideoRequestSchema = z.object({
+  imageDataUri: z.string().optional(),
+  imageUrl: z.string().url().optional(),
+  sourceHistoryItemId: z.string().optional(),
+  prompt: z.string().trim().min(1).max(4000).optional(),
+  selectedPredefinedPrompt: optionEnum(PREDEFINED_PROMPTS).optional(),
+  modelMovement: optionEnum(MODEL_MOVEMENT_OPTIONS).optional(),
+  fabricMotion: optionEnum(FABRIC_MOTION_OPTIONS_VIDEO).optional(),
+  cameraAction: optionEnum(CAMERA_ACTION_OPTIONS).optional(),
+  aestheticVibe: optionEnum(AESTHETIC_VIBE_OPTIONS).optional(),
+  resolution: z.enum(['480p', '720p', '1080p']).default('1080p'),
+  duration: z.enum(['2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12']).default('5'),
+  // -1 lets Fal pick a random seed
+  seed: z.number().int().min(-1).default(-1),
+  cameraFixed: z.boolean().default(false),
+  aspect_ratio: z.enum(['21:9', '16:9', '4:3', '1:1', '3:4', '9:16', 'auto']).optional(),
+  webhookUrl: z.string().url().optional(),
+});
+
+export type ApiVideoRequest = z.infer<typeof VideoRequestSchema>;
+
+/**
+ * Permissions an API key can be granted. Routes declare the scope they need when
+ * authenticating (see authenticateApiRequest).
+ */
+export const API_KEY_SCOPES = [
+  'generate:image',
+  'generate:video',
+  'history:read',
+  'history:write',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const ApiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).transform(scopes => [...new Set(scopes)]),
+  /** Omit for a key that never expires. */
+  expiresInDays: z.number().int().min(1).max(3650).optional(),
+});
+
+export type ApiKeyInput = z.infer<typeof ApiKeyCreateSchema>;
+
+/** Events that registered webhook endpoints can subscribe to. */
+export const WEBHOOK_EVENT_TYPES = [
+  'image.completed',
+  'image.failed',
+  'video.completed',
+  'video.failed',
+  'batch.completed',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export const WebhookEndpointSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), 'url must use http or https'),
+  description: z.string().trim().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).transform(events => [...new Set(events)]),
+  enabled: z.boolean().default(true),
+});
+
+export const WebhookEndpointUpdateSchema = z.object({
+  url: WebhookEndpointSchema.shape.url.optional(),
+  description: z.string().trim().max(200).nullable().optional(),
+  events: WebhookEndpointSchema.shape.events.optional(),
+  enabled: z.boolean().optional(),
+  /** Replaces the signing secret; the new secret is returned once. */
+  rotateSecret: z.boolean().optional(),
+});
+
+export type WebhookEndpointInput = z.infer<typeof WebhookEndpointSchema>;
+export type WebhookEndpointUpdate = z.infer<typeof WebhookEndpointUpdateSchema>;
@@ -0,0 +1,23 @@
+import { HistoryTagsSchema, MAX_TAGS_PER_ITEM, normalizeTag } from './collections';
+
+describe('history tags', () => {
+  it('normalizes tags to lowercase words joined by hyphens', () => {
+    expect(normalizeTag('  SS26 Lookbook ')).toBe('ss26-lookbook');
+    expect(normalizeTag('#client_x')).toBe('client_x');
+    expect(normalizeTag('Été / Approved!')).toBe('été-approved');
+    expect(normalizeTag(' -- ')).toBeNull();
+  });
+
+  it('truncates long tags without leaving a trailing hyphen', () => {
+    expect(normalizeTag(`${'a'.repeat(31)} b`)).toBe('a'.repeat(31));
+  });
+
+  it('de-duplicates and sorts a set of tags', () => {
+    expect(HistoryTagsSchema.parse(['Approved', 'ss26 lookbook', 'approved', '!!'])).toEqual(['approved', 'ss26-lookbook']);
+  });
+
+  it('limits the number of tags per item', () => {
+    const tags = Array.from({ length: MAX_TAGS_PER_ITEM + 1 }, (_, i) => `tag-${i}`);
+    expect(HistoryTagsSchema.safeParse(tags).success).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+// src/lib/collections.ts
+// Validation for history collections and tags, shared by server actions and the gallery UI.
+
+import { z } from 'zod';
+
+export const MAX_TAGS_PER_ITEM = 20;
+export const MAX_TAG_LENGTH = 32;
+
+export const CollectionSchema = z.object({
+  name: z.string().trim().min(1, 'Collection name is required.').max(60, 'Collection names are limited to 60 characters.'),
+  description: z.string().trim().max(200, 'Descriptions are limited to 200 characters.').optional(),
+});
+
+export type CollectionInput = z.infer<typeof CollectionSchema>;
+
+/**
+ * Lowercases a tag and joins its words with hyphens, so "SS26 Lookbook" and "ss26-lookbook" are the same tag.
+ * @returns null when nothing usable is left.
+ */
+export function normalizeTag(tag: string): string | null {
+  const normalized = tag
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N}_-]+/gu, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH)
+    .replace(/-+$/, '');
+  return normalized || null;
+}
+
+/** A full set of tags for one item: normalized, de-duplicated and sorted. */
+export const HistoryTagsSchema = z.array(z.string().max(100))
+  .transform(tags => [...new Set(tags.map(normalizeTag).filter((tag): tag is string => !!tag))].sort())
+  .refine(tags => tags.length <= MAX_TAGS_PER_ITEM, `Items can have at most ${MAX_TAGS_PER_ITEM} tags.`);
@@ -0,0 +1,42 @@
+import { parseHistorySearchParams, readHistorySearchFilters, toFtsQuery, toHistorySearchParams, toTimestampRange } from './history-search';
+
+describe('history search filters', () => {
+  it('reads filters from URL parameters and ignores unrelated ones', () => {
+    const filters = readHistorySearchFilters(new URLSearchParams('tab=history&q=%20red%20dress%20&status=failed&background=studio_white&from='));
+    expect(filters).toEqual({ q: 'red dress', status: 'failed', background: 'studio_white' });
+  });
+
+  it('reads filters from a page searchParams object', () => {
+    expect(readHistorySearchFilters({ model: 'fal_gemini_2_5', status: ['failed', 'completed'] })).toEqual({ model: 'fal_gemini_2_5' });
+  });
+
+  it('normalizes the tag filter like stored tags', () => {
+    expect(readHistorySearchFilters(new URLSearchParams('tag=%20SS26%20Lookbook'))).toEqual({ tag: 'ss26-lookbook' });
+    expect(readHistorySearchFilters(new URLSearchParams('tag=--&status=failed'))).toEqual({ status: 'failed' });
+  });
+
+  it('rejects invalid filters', () => {
+    expect(parseHistorySearchParams(new URLSearchParams('status=deleted')).success).toBe(false);
+    expect(parseHistorySearchParams(new URLSearchParams('from=2026-03-10&to=2026-03-01')).success).toBe(false);
+    expect(parseHistorySearchParams(new URLSearchParams("fashionStyle=x' OR 1=1")).success).toBe(false);
+    expect(readHistorySearchFilters(new URLSearchParams('status=deleted'))).toEqual({});
+  });
+
+  it('writes filters back into the URL, keeping other parameters', () => {
+    const params = toHistorySearchParams({ q: 'linen', generation_mode: 'studio' }, new URLSearchParams('tab=history&status=failed'));
+    expect(params.toString()).toBe('tab=history&q=linen&generation_mode=studio');
+  });
+
+  it('quotes every word as a prefix term for FTS5', () => {
+    expect(toFtsQuery('slim-fit "dress" OR')).toBe('"slim-fit"* "dress"* "OR"*');
+    expect(toFtsQuery('  - * ')).toBeNull();
+    expect(toFtsQuery(undefined)).toBeNull();
+  });
+
+  it('converts inclusive days to a timestamp range', () => {
+    expect(toTimestampRange({ from: '2026-03-01', to: '2026-03-01' })).toEqual({
+      from: Date.UTC(2026, 2, 1),
+      to: Date.UTC(2026, 2, 2),
+    });
+  });
+});
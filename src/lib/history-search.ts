@@ -0,0 +1,147 @@
+// src/lib/history-search.ts
+import { z } from 'zod';
+import {
+  BACKGROUND_OPTIONS,
+  FASHION_STYLE_OPTIONS,
+  GENDER_OPTIONS,
+  LIGHTING_TYPE_OPTIONS,
+  OVERALL_MOOD_OPTIONS,
+  POSE_STYLE_OPTIONS,
+  TIME_OF_DAY_OPTIONS,
+} from '@/lib/prompt-options';
+import { normalizeTag } from '@/lib/collections';
+
+export const HISTORY_STATUSES = ['processing', 'completed', 'failed', 'cancelled'] as const;
+export const GENERATION_MODES = ['creative', 'studio'] as const;
+
+/**
+ * Generation attributes that history can be filtered by, matched against `history.attributes`.
+ * The keys double as URL parameter names.
+ */
+export const SEARCHABLE_ATTRIBUTES = {
+  fashionStyle: { label: 'Style', options: FASHION_STYLE_OPTIONS },
+  background: { label: 'Background', options: BACKGROUND_OPTIONS },
+  gender: { label: 'Gender', options: GENDER_OPTIONS },
+  poseStyle: { label: 'Pose', options: POSE_STYLE_OPTIONS },
+  lightingType: { label: 'Lighting', options: LIGHTING_TYPE_OPTIONS },
+  timeOfDay: { label: 'Time of Day', options: TIME_OF_DAY_OPTIONS },
+  overallMood: { label: 'Mood', options: OVERALL_MOOD_OPTIONS },
+} as const;
+
+export type SearchableAttribute = keyof typeof SEARCHABLE_ATTRIBUTES;
+
+export const SEARCHABLE_ATTRIBUTE_KEYS = Object.keys(SEARCHABLE_ATTRIBUTES) as SearchableAttribute[];
+
+const daySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD.');
+const attributeValueSchema = z.string().regex(/^[a-z0-9_]{1,64}$/, 'Attribute values are option IDs such as "studio_white".');
+
+/**
+ * History search filters. Field names are the URL parameter names used by the
+ * gallery and GET /api/v1/history. Dates are inclusive UTC days.
+ * `collection` limits results to one of the user's collections (the gallery's collection view).
+ * `tag` is normalized like stored tags, so "SS26 Lookbook" finds "ss26-lookbook"; nothing usable means no filter.
+ * `favorites=true` keeps items with at least one favorited image.
+ */
+export const historySearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  from: daySchema.optional(),
+  to: daySchema.optional(),
+  status: z.enum(HISTORY_STATUSES).optional(),
+  generation_mode: z.enum(GENERATION_MODES).optional(),
+  model: z.string().regex(/^[a-z0-9_]{1,64}$/, 'Unknown model ID.').optional(),
+  collection: z.uuid('Unknown collection.').optional(),
+  tag: z.string().max(200).transform(tag => normalizeTag(tag) ?? undefined).optional(),
+  favorites: z.literal('true', 'Use favorites=true to show favorites only.').optional(),
+  fashionStyle: attributeValueSchema.optional(),
+  background: attributeValueSchema.optional(),
+  gender: attributeValueSchema.optional(),
+  poseStyle: attributeValueSchema.optional(),
+  lightingType: attributeValueSchema.optional(),
+  timeOfDay: attributeValueSchema.optional(),
+  overallMood: attributeValueSchema.optional(),
+}).refine(filters => !filters.from || !filters.to || filters.from <= filters.to, {
+  message: '"from" must not be after "to".',
+  path: ['from'],
+});
+
+export type HistorySearchFilters = z.infer<typeof historySearchSchema>;
+
+export type HistorySearchKey = keyof HistorySearchFilters;
+
+const FILTER_KEYS: HistorySearchKey[] = ['q', 'from', 'to', 'status', 'generation_mode', 'model', 'collection', 'tag', 'favorites', ...SEARCHABLE_ATTRIBUTE_KEYS];
+
+/** URL parameters, or a page's `searchParams` object. */
+type SearchParamsSource = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function getParam(params: SearchParamsSource, key: string): string | undefined {
+  if (params instanceof URLSearchParams) {
+    return params.get(key) ?? undefined;
+  }
+  const value = params[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Reads the search filters from URL parameters; empty parameters are ignored.
+ */
+export function parseHistorySearchParams(params: SearchParamsSource): ReturnType<typeof historySearchSchema.safeParse> {
+  const raw: Record<string, string> = {};
+  for (const key of FILTER_KEYS) {
+    const value = getParam(params, key)?.trim();
+    if (value) {
+      raw[key] = value;
+    }
+  }
+  return historySearchSchema.safeParse(raw);
+}
+
+/**
+ * The filters in the URL, or none when the URL holds an invalid filter (e.g. an edited link).
+ */
+export function readHistorySearchFilters(params: SearchParamsSource): HistorySearchFilters {
+  return parseHistorySearchParams(params).data ?? {};
+}
+
+/**
+ * Writes the filters into a copy of `base`, keeping unrelated parameters (such as the active tab).
+ */
+export function toHistorySearchParams(filters: HistorySearchFilters, base?: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams(base);
+  for (const key of FILTER_KEYS) {
+    const value = filters[key];
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  }
+  return params;
+}
+
+export function hasActiveHistoryFilters(filters: HistorySearchFilters): boolean {
+  return FILTER_KEYS.some(key => !!filters[key]);
+}
+
+/**
+ * Turns free text into an FTS5 query: every word must match, as a prefix, in any indexed column.
+ * Quoting each word keeps FTS5 operators and punctuation in user input from being interpreted.
+ * @returns null when the text contains nothing searchable.
+ */
+export function toFtsQuery(text: string | undefined): string | null {
+  const terms = (text ?? '')
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, ''))
+    .filter(term => /[\p{L}\p{N}]/u.test(term));
+  return terms.length > 0 ? terms.map(term => `"${term}"*`).join(' ') : null;
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of the filter's day range in ms since epoch.
+ */
+export function toTimestampRange(filters: Pick<HistorySearchFilters, 'from' | 'to'>): { from?: number; to?: number } {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  return {
+    from: filters.from ? Date.parse(`${filters.from}T00:00:00Z`) : undefined,
+    to: filters.to ? Date.parse(`${filters.to}T00:00:00Z`) + DAY_MS : undefined,
+  };
+}
@@ -0,0 +1,25 @@
+// src/lib/image-feedback.ts
+import { z } from 'zod';
+import type { ImageFeedback } from '@/lib/types';
+
+export const MAX_IMAGE_RATING = 5;
+
+/**
+ * A change to an image's feedback. Omitted fields are left as they are; a null rating clears it.
+ */
+export const ImageFeedbackUpdateSchema = z.object({
+  favorite: z.boolean().optional(),
+  rating: z.number().int().min(1, 'Ratings are 1 to 5 stars.').max(MAX_IMAGE_RATING, 'Ratings are 1 to 5 stars.').nullable().optional(),
+}).refine(update => update.favorite !== undefined || update.rating !== undefined, {
+  message: 'Nothing to update.',
+});
+
+export type ImageFeedbackUpdate = z.infer<typeof ImageFeedbackUpdateSchema>;
+
+/**
+ * Replaces the entry for `feedback.slotIndex`, keeping the list in slot order.
+ */
+export function applyImageFeedback(list: ImageFeedback[] | undefined, feedback: ImageFeedback): ImageFeedback[] {
+  return [...(list ?? []).filter(entry => entry.slotIndex !== feedback.slotIndex), feedback]
+    .sort((a, b) => a.slotIndex - b.slotIndex);
+}
@@ -0,0 +1,43 @@
+import { BUILT_IN_IMAGE_MODELS, applyImageModelsConfig } from './image-models';
+
+describe('applyImageModelsConfig', () => {
+  it('should return the built-in models for an empty configuration', () => {
+    expect(applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, '  ')).toBe(BUILT_IN_IMAGE_MODELS);
+  });
+
+  it('should change only the listed fields of a built-in model', () => {
+    const models = applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, JSON.stringify([
+      { id: 'fal_gemini_2_5', available: false, options: { aspectRatio: true } },
+    ]));
+    const gemini = models.find(model => model.id === 'fal_gemini_2_5')!;
+
+    expect(gemini.available).toBe(false);
+    expect(gemini.endpoint).toBe('fal-ai/gemini-25-flash-image/edit');
+    expect(gemini.options).toEqual({ aspectRatio: true, numImages: true, outputFormats: ['png', 'jpeg'] });
+  });
+
+  it('should add complete new models with default options', () => {
+    const models = applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, JSON.stringify([
+      { id: 'fal_flux_kontext', label: 'FLUX Kontext', endpoint: 'fal-ai/flux-pro/kontext', defaultImageCount: 2, costPerImage: 0.04 },
+    ]));
+
+    expect(models).toHaveLength(BUILT_IN_IMAGE_MODELS.length + 1);
+    expect(models.at(-1)).toEqual({
+      id: 'fal_flux_kontext',
+      label: 'FLUX Kontext',
+      provider: 'fal',
+      endpoint: 'fal-ai/flux-pro/kontext',
+      defaultImageCount: 2,
+      costPerImage: 0.04,
+      available: true,
+      options: { aspectRatio: false, numImages: true, outputFormats: ['png'] },
+    });
+  });
+
+  it('should reject invalid JSON, incomplete models and out-of-range image counts', () => {
+    expect(() => applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, '{')).toThrow('not valid JSON');
+    expect(() => applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, '[{"id":"new_model","label":"New"}]')).toThrow('new_model');
+    expect(() => applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, '[{"id":"fal_gemini_2_5","defaultImageCount":4}]')).toThrow('defaultImageCount');
+    expect(() => applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, '[{"id":"Bad ID"}]')).toThrow('lowercase');
+  });
+});
@@ -0,0 +1,124 @@
+// src/lib/image-models.ts
+import { z } from 'zod';
+
+/** Image slots of a generation; each slot gets its own prompt and Fal call. */
+export const MAX_IMAGE_COUNT = 3;
+
+export const DEFAULT_IMAGE_MODEL_ID = 'fal_gemini_2_5';
+
+const imageModelOptionsSchema = z.object({
+  /** The endpoint accepts `aspect_ratio` (e.g. "3:4"). */
+  aspectRatio: z.boolean(),
+  /** The endpoint accepts `num_images`; one image is requested per call. */
+  numImages: z.boolean(),
+  /** Accepted `output_format` values, preferred first. Empty when the endpoint has no such option. */
+  outputFormats: z.array(z.enum(['png', 'jpeg', 'webp'])),
+});
+
+export const imageModelSchema = z.object({
+  /** Stored in `users.image_generation_model` and on history items. */
+  id: z.string().regex(/^[a-z0-9_]{1,64}$/, 'Model IDs may only contain lowercase letters, digits and underscores.'),
+  label: z.string().min(1),
+  provider: z.literal('fal'),
+  /** Fal endpoint ID of an edit model that takes a prompt and `image_urls`. */
+  endpoint: z.string().min(1),
+  defaultImageCount: z.number().int().min(1).max(MAX_IMAGE_COUNT),
+  /** Estimated USD per generated image, used for budgets and the cost ledger. */
+  costPerImage: z.number().min(0),
+  /** Unavailable models can no longer be assigned or used; their users fall back to the default model. */
+  available: z.boolean(),
+  options: imageModelOptionsSchema,
+});
+
+export type ImageModel = z.infer<typeof imageModelSchema>;
+
+/** What the generation UI needs to know about the user's model. */
+export type ImageModelSummary = Pick<ImageModel, 'id' | 'label' | 'defaultImageCount' | 'options'>;
+
+/**
+ * One entry of the `image_models_config` setting: a new model, or changes to the model with the same ID.
+ */
+const imageModelConfigEntrySchema = imageModelSchema
+  .omit({ options: true })
+  .partial()
+  .extend({
+    id: imageModelSchema.shape.id,
+    options: imageModelOptionsSchema.partial().optional(),
+  });
+
+export type ImageModelConfigEntry = z.infer<typeof imageModelConfigEntrySchema>;
+
+export const BUILT_IN_IMAGE_MODELS: ImageModel[] = [
+  {
+    id: 'fal_nano_banana_pro',
+    label: 'Nano Banana Pro',
+    provider: 'fal',
+    endpoint: 'fal-ai/nano-banana-pro/edit',
+    defaultImageCount: 1,
+    costPerImage: 0.15,
+    available: true,
+    options: { aspectRatio: true, numImages: true, outputFormats: ['png', 'jpeg', 'webp'] },
+  },
+  {
+    id: 'fal_gemini_2_5',
+    label: 'Fal Gemini 2.5',
+    provider: 'fal',
+    endpoint: 'fal-ai/gemini-25-flash-image/edit',
+    defaultImageCount: 3,
+    costPerImage: 0.039,
+    available: true,
+    options: { aspectRatio: false, numImages: true, outputFormats: ['png', 'jpeg'] },
+  },
+];
+
+/**
+ * Applies the `image_models_config` setting (a JSON array) to the built-in models.
+ * Entries with a known ID change only the fields they list; other entries add a model and must be complete.
+ * @throws Error describing the first invalid entry.
+ */
+export function applyImageModelsConfig(builtIns: ImageModel[], configJson: string): ImageModel[] {
+  if (!configJson.trim()) {
+    return builtIns;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(configJson);
+  } catch {
+    throw new Error('Image model configuration is not valid JSON.');
+  }
+
+  const parsed = z.array(imageModelConfigEntrySchema).safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid image model configuration at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  const models = [...builtIns];
+  for (const entry of parsed.data) {
+    const index = models.findIndex(model => model.id === entry.id);
+    const base = index >= 0 ? models[index] : undefined;
+    const result = imageModelSchema.safeParse({
+      provider: 'fal',
+      available: true,
+      ...base,
+      ...entry,
+      options: { aspectRatio: false, numImages: true, outputFormats: ['png'], ...base?.options, ...entry.options },
+    });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Image model "${entry.id}" is missing or has an invalid ${issue.path.join('.')}: ${issue.message}`);
+    }
+
+    if (index >= 0) {
+      models[index] = result.data;
+    } else {
+      models.push(result.data);
+    }
+  }
+  return models;
+}
+
+export function toImageModelSummary(model: ImageModel): ImageModelSummary {
+  return { id: model.id, label: model.label, defaultImageCount: model.defaultImageCount, options: model.options };
+}
@@ -0,0 +1,15 @@
+// src/lib/media-loader.ts
+import type { ImageLoaderProps } from 'next/image';
+import { DEFAULT_MEDIA_VARIANT_QUALITY, getMediaVariantUrl } from '@/lib/media-variants';
+
+/**
+ * next/image loader (see `images.loaderFile` in next.config.ts). Uploaded images are resized by the
+ * media route, which checks the viewer's session, so the srcset entries are variants of the original.
+ * Other images (static assets, Fal URLs before they are downloaded) are used as they are.
+ */
+export default function mediaLoader({ src, width, quality }: ImageLoaderProps): string {
+  if (!src.startsWith('/uploads/')) {
+    return src;
+  }
+  return getMediaVariantUrl(src, { w: width, format: 'webp', q: quality ?? DEFAULT_MEDIA_VARIANT_QUALITY });
+}
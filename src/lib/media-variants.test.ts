@@ -0,0 +1,23 @@
+import { MediaVariantSchema, getMediaVariantUrl } from './media-variants';
+import mediaLoader from './media-loader';
+
+describe('media variants', () => {
+  it('points srcset entries for uploads at resized copies', () => {
+    expect(mediaLoader({ src: '/uploads/generated_images/a.png', width: 384 })).toBe('/uploads/generated_images/a.png?w=384&format=webp&q=75');
+    expect(mediaLoader({ src: '/uploads/generated_images/a.png', width: 1080, quality: 90 })).toBe('/uploads/generated_images/a.png?w=1080&format=webp&q=90');
+    expect(mediaLoader({ src: '/placeholder.png', width: 384 })).toBe('/placeholder.png');
+    expect(mediaLoader({ src: 'https://v3.fal.media/files/a.png', width: 384 })).toBe('https://v3.fal.media/files/a.png');
+  });
+
+  it('keeps the signature of a signed URL', () => {
+    expect(getMediaVariantUrl('/uploads/a.png?expires=1&signature=abc', { w: 256, format: 'avif', q: 75 }))
+      .toBe('/uploads/a.png?expires=1&signature=abc&w=256&format=avif&q=75');
+  });
+
+  it('accepts only configured widths, formats and qualities', () => {
+    expect(MediaVariantSchema.parse({ w: '640', expires: '1' })).toEqual({ w: 640, format: 'webp', q: 75 });
+    expect(MediaVariantSchema.safeParse({ w: '641' }).success).toBe(false);
+    expect(MediaVariantSchema.safeParse({ w: '640', format: 'gif' }).success).toBe(false);
+    expect(MediaVariantSchema.safeParse({ w: '640', q: '100' }).success).toBe(false);
+  });
+});
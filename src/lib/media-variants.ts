@@ -0,0 +1,40 @@
+// src/lib/media-variants.ts
+import { z } from 'zod';
+
+/**
+ * The widths next/image builds srcset entries from (Next's defaults), and the only widths the
+ * media route resizes to, so the variant cache stays bounded. next.config.ts uses these lists.
+ */
+export const MEDIA_IMAGE_SIZES = [32, 48, 64, 96, 128, 256, 384];
+export const MEDIA_DEVICE_SIZES = [640, 750, 828, 1080, 1200, 1920, 2048, 3840];
+export const MEDIA_VARIANT_WIDTHS = [...MEDIA_IMAGE_SIZES, ...MEDIA_DEVICE_SIZES];
+
+/** Qualities an <Image> may ask for; 75 is next/image's default, 90 is used for full-size viewing. */
+export const MEDIA_VARIANT_QUALITIES = [75, 90];
+export const DEFAULT_MEDIA_VARIANT_QUALITY = 75;
+
+export const MEDIA_VARIANT_FORMATS = ['webp', 'avif', 'jpeg'] as const;
+export type MediaVariantFormat = typeof MEDIA_VARIANT_FORMATS[number];
+
+/**
+ * Query parameters of a resized copy of an uploaded image, e.g. `/uploads/a.png?w=384&format=webp&q=75`.
+ */
+export const MediaVariantSchema = z.object({
+  w: z.coerce.number().int().refine(width => MEDIA_VARIANT_WIDTHS.includes(width), {
+    message: `Width must be one of ${MEDIA_VARIANT_WIDTHS.join(', ')}.`,
+  }),
+  format: z.enum(MEDIA_VARIANT_FORMATS, { message: `Format must be one of ${MEDIA_VARIANT_FORMATS.join(', ')}.` }).default('webp'),
+  q: z.coerce.number().int().refine(quality => MEDIA_VARIANT_QUALITIES.includes(quality), {
+    message: `Quality must be one of ${MEDIA_VARIANT_QUALITIES.join(', ')}.`,
+  }).default(DEFAULT_MEDIA_VARIANT_QUALITY),
+});
+
+export type MediaVariant = z.infer<typeof MediaVariantSchema>;
+
+/**
+ * URL of a resized copy of an uploaded image. Keeps existing query parameters such as a signature.
+ */
+export function getMediaVariantUrl(url: string, { w, format, q }: MediaVariant): string {
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}w=${w}&format=${format}&q=${q}`;
+}
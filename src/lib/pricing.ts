@@ -1,4 +1,5 @@
 // src/lib/pricing.ts
+import type { ImageModel } from '@/lib/image-models';
 
 export type VideoModel = 'lite' | 'pro';
 export type VideoResolution = '480p' | '720p' | '1080p';
@@ -37,6 +38,53 @@ export function calculateVideoCost(
   return basePrice * durationMultiplier;
 }
 
+/**
+ * Estimates the cost of a video from the generation queue, which always uses the Pro model.
+ * Resolutions without a Pro price are estimated at the 1080p price, so the estimate errs high.
+ */
+export function estimateVideoGenerationCost(resolution: string = '1080p', duration: string = '5'): number {
+  const basePrice = PRICING_DATA.pro[resolution as VideoResolution] ?? PRICING_DATA.pro['1080p']!;
+  return basePrice * (parseInt(duration, 10) / 5);
+}
+
+// Estimated prices per call (USD) of the Fal processing endpoints; generation models carry their own price
+const FAL_IMAGE_PRICING: Record<string, number> = {
+  'fal-ai/rembg': 0.002,
+  'comfy/opj161/sd-ultimateface': 0.05,
+  'comfy/opj161/face-detailer': 0.03,
+};
+
+/** Estimated price of one Gemini vision call (a short prompt, one image, a few words back). */
+export const GEMINI_CALL_COST = 0.001;
+
+/**
+ * Estimated price of one call to a Fal image endpoint; unknown endpoints are priced
+ * like the most expensive known one.
+ */
+export function getFalImageCost(endpoint: string): number {
+  return FAL_IMAGE_PRICING[endpoint] ?? Math.max(...Object.values(FAL_IMAGE_PRICING));
+}
+
+/**
+ * Estimates the cost of an image generation: every image of the user's model, the
+ * optional processing steps (Creative Mode) or the garment classification (Studio Mode).
+ */
+export function estimateImageGenerationCost(
+  model: Pick<ImageModel, 'costPerImage' | 'defaultImageCount'>,
+  options: { generationMode?: 'creative' | 'studio'; removeBackground?: boolean; upscale?: boolean; enhanceFace?: boolean }
+): number {
+  let cost = model.defaultImageCount * model.costPerImage;
+
+  if (options.generationMode === 'studio') {
+    cost += GEMINI_CALL_COST;
+  } else {
+    if (options.removeBackground) cost += getFalImageCost('fal-ai/rembg');
+    if (options.upscale) cost += getFalImageCost('comfy/opj161/sd-ultimateface');
+    if (options.enhanceFace) cost += getFalImageCost('comfy/opj161/face-detailer');
+  }
+  return cost;
+}
+
 /**
  * Formats a price number into a display-friendly string (e.g., "~$0.18").
  * @returns A formatted string or an empty string if the price is null.
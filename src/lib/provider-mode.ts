@@ -0,0 +1,18 @@
+// src/lib/provider-mode.ts
+
+/**
+ * `PROVIDER_MODE=mock` replaces Fal.ai and Gemini with local fakes (see src/services/mock-provider/)
+ * so the app can be developed and end-to-end tested offline and without API keys.
+ */
+export function isMockProviderMode(): boolean {
+  return process.env.PROVIDER_MODE === 'mock';
+}
+
+/**
+ * Simulated provider latency for mock mode, overridable per kind of call.
+ */
+export function getMockProviderDelayMs(kind: 'image' | 'text' | 'video'): number {
+  const defaults = { image: 1500, text: 300, video: 5000 };
+  const override = Number(process.env[`MOCK_${kind.toUpperCase()}_DELAY_MS`]);
+  return Number.isFinite(override) && override >= 0 ? override : defaults[kind];
+}
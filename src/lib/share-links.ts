@@ -0,0 +1,33 @@
+// src/lib/share-links.ts
+import { z } from 'zod';
+
+export const SHARE_TARGET_TYPES = ['history', 'collection'] as const;
+export type ShareTargetType = typeof SHARE_TARGET_TYPES[number];
+
+/** Lifetimes offered when creating a link, in days. */
+export const SHARE_LINK_EXPIRY_DAYS = [1, 7, 30] as const;
+
+export const REVIEW_DECISIONS = ['approved', 'rejected'] as const;
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+export const ShareLinkSchema = z.object({
+  targetType: z.enum(SHARE_TARGET_TYPES),
+  targetId: z.string().min(1).max(64),
+  /** Who the link is for, e.g. a client name, so the owner can tell links apart. */
+  label: z.string().trim().max(60, 'Labels are at most 60 characters.').optional(),
+  expiresInDays: z.number().int().min(1).max(90),
+  showPrompt: z.boolean().default(false),
+});
+
+export type ShareLinkInput = z.infer<typeof ShareLinkSchema>;
+
+export const ReviewerNameSchema = z.string().trim().min(1, 'Please enter your name.').max(60, 'Names are at most 60 characters.');
+
+export const ShareReviewSchema = z.object({
+  historyId: z.string().min(1).max(64),
+  reviewerName: ReviewerNameSchema,
+  decision: z.enum(REVIEW_DECISIONS),
+  comment: z.string().trim().max(1000, 'Comments are at most 1000 characters.').optional(),
+});
+
+export type ShareReviewInput = z.infer<typeof ShareReviewSchema>;
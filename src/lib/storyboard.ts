@@ -0,0 +1,64 @@
+// src/lib/storyboard.ts
+import { z } from 'zod';
+import type { HistoryItem } from '@/lib/types';
+import {
+  AESTHETIC_VIBE_OPTIONS,
+  CAMERA_ACTION_OPTIONS,
+  FABRIC_MOTION_OPTIONS_VIDEO,
+  MODEL_MOVEMENT_OPTIONS,
+} from '@/lib/prompt-options';
+
+export const MIN_STORYBOARD_SHOTS = 2;
+export const MAX_STORYBOARD_SHOTS = 6;
+
+/** How consecutive shots are joined. The names of the fades are ffmpeg xfade transitions. */
+export const STORYBOARD_TRANSITIONS = ['cut', 'fade', 'fadeblack'] as const;
+export type StoryboardTransition = typeof STORYBOARD_TRANSITIONS[number];
+
+export const STORYBOARD_TRANSITION_LABELS: Record<StoryboardTransition, string> = {
+  cut: 'Hard cut',
+  fade: 'Crossfade',
+  fadeblack: 'Fade through black',
+};
+
+/** Length of a fade between two shots, in seconds. */
+export const STORYBOARD_TRANSITION_SECONDS = 0.5;
+
+export type StoryboardStatus = 'generating' | 'stitching' | 'completed' | 'failed' | 'cancelled';
+
+const optionValues = <T extends readonly { value: string }[]>(options: T) =>
+  options.map(option => option.value) as [T[number]['value'], ...T[number]['value'][]];
+
+export const StoryboardShotSchema = z.object({
+  /** A stored image of the user's, e.g. a generated image or the source image of a video. */
+  sourceImageUrl: z.string().startsWith('/uploads/', 'Shots must use images from your history.'),
+  modelMovement: z.enum(optionValues(MODEL_MOVEMENT_OPTIONS)),
+  cameraAction: z.enum(optionValues(CAMERA_ACTION_OPTIONS)),
+  duration: z.enum(['3', '4', '5', '6', '7', '8', '9', '10', '11', '12']).default('5'),
+});
+
+export const StoryboardSchema = z.object({
+  shots: z.array(StoryboardShotSchema)
+    .min(MIN_STORYBOARD_SHOTS, `A storyboard needs at least ${MIN_STORYBOARD_SHOTS} shots.`)
+    .max(MAX_STORYBOARD_SHOTS, `A storyboard has at most ${MAX_STORYBOARD_SHOTS} shots.`),
+  transition: z.enum(STORYBOARD_TRANSITIONS).default('fade'),
+  resolution: z.enum(['480p', '720p', '1080p']).default('1080p'),
+  aspectRatio: z.enum(['16:9', '4:3', '1:1', '3:4', '9:16']).default('9:16'),
+  /** Applied to every shot. */
+  fabricMotion: z.enum(optionValues(FABRIC_MOTION_OPTIONS_VIDEO)).optional(),
+  aestheticVibe: z.enum(optionValues(AESTHETIC_VIBE_OPTIONS)).optional(),
+});
+
+export type StoryboardShotInput = z.infer<typeof StoryboardShotSchema>;
+export type StoryboardInput = z.infer<typeof StoryboardSchema>;
+
+/**
+ * The image a history item contributes as a storyboard shot: the first generated image,
+ * or the source image for videos. Null if the item has no usable image.
+ */
+export function getStoryboardSourceImage(item: HistoryItem): string | null {
+  const url = item.videoGenerationParams
+    ? item.videoGenerationParams.sourceImageUrl
+    : item.editedImageUrls.find(Boolean);
+  return url?.startsWith('/uploads/') ? url : null;
+}
@@ -16,6 +16,63 @@ export interface SessionData {
   user?: SessionUser;
 }
 
+/**
+ * Lifecycle of a job submitted through the public API. Tracked separately from
+ * `HistoryItem.status`, which the web UI uses for its own polling.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
+/**
+ * A user's verdict on one generated image. `slotIndex` identifies the image in
+ * history_images; it differs from the array index when earlier slots failed.
+ */
+export interface ImageFeedback {
+  slotIndex: number;
+  favorite: boolean;
+  /** 1-5 stars, or null when unrated. */
+  rating: number | null;
+}
+
+/** The parameters one clip of a video history item was generated with. */
+export type VideoSlotParams = Omit<NonNullable<HistoryItem['videoGenerationParams']>, 'localVideoUrl' | 'status' | 'error' | 'media'>;
+
+/** What post-processing learned about a stored clip, and the derived files it created. */
+export interface VideoMediaInfo {
+  /** Still frame shown before the clip plays. */
+  posterUrl?: string;
+  /** Short, silent, looping WebM for lightweight previews. */
+  previewUrl?: string;
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+}
+
+/** The part of another clip a trimmed clip was cut from, in seconds. */
+export interface VideoTrim {
+  sourceSlotIndex: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * One clip of a video history item. Items generated with variants have one slot per variant;
+ * `slotIndex` matches the clip's position in `generatedVideoUrls`.
+ */
+export interface VideoSlot {
+  slotIndex: number;
+  params: VideoSlotParams;
+  status: 'processing' | 'completed' | 'failed' | 'cancelled';
+  error?: string;
+  /** The seed fal.ai used, once the clip has finished. */
+  seed?: number;
+  localVideoUrl?: string;
+  /** Fal queue request ID, once the clip has been submitted. */
+  falRequestId?: string;
+  media?: VideoMediaInfo;
+  /** Set for clips created by trimming another clip of the item. */
+  trimmedFrom?: VideoTrim;
+}
+
 export interface HistoryItem {
   id: string;
   timestamp: number;
@@ -28,6 +85,10 @@ export interface HistoryItem {
   settingsMode?: 'basic' | 'advanced';
   generation_mode?: 'creative' | 'studio';
   generatedVideoUrls?: (string | null)[];
+  /**
+   * Parameters of the first clip. The status, error, seed, local video and media details of a
+   * multi-clip item summarize its slots (see `videoSlots`).
+   */
   videoGenerationParams?: {
     prompt: string;
     resolution: string;
@@ -43,14 +104,30 @@ export interface HistoryItem {
     cameraFixed: boolean;
     // Webhook-related fields
     localVideoUrl?: string | null;
+    status?: 'processing' | 'completed' | 'failed' | 'cancelled';
+    error?: string;
+    media?: VideoMediaInfo;
     // Persisted UI state
     selectedPredefinedPrompt?: string;
     aspect_ratio?: string;
   };
-  status?: 'processing' | 'completed' | 'failed';
+  status?: 'processing' | 'completed' | 'failed' | 'cancelled';
+  jobStatus?: JobStatus;
   error?: string;
   webhookUrl?: string;
-  imageGenerationModel?: 'fal_nano_banana_pro' | 'fal_gemini_2_5';
+  /** The clips of a video item, in slot order. */
+  videoSlots?: VideoSlot[];
+  /** Set for items created through POST /api/v1/batches. */
+  batchId?: string;
+  /** Caller-supplied reference (e.g. a SKU) for batch items. */
+  externalRef?: string;
+  imageGenerationModel?: string;
+  /** Garment classification Gemini produced for a Studio Mode generation. */
+  classification?: string;
+  /** User tags, normalized and sorted (see normalizeTag in collections.ts). */
+  tags?: string[];
+  /** Favorite flag and rating of each edited image, in the same order as `editedImageUrls`. */
+  imageFeedback?: ImageFeedback[];
 }
 
 export interface ModelAttributes {
@@ -11,6 +11,8 @@ export function cn(...inputs: ClassValue[]) {
  * REFACTOR: Now returns the direct /uploads/ path.
  * The rewrite rule in next.config.ts handles mapping /uploads/* to /api/images/*.
  * This decouples the frontend from the specific API implementation.
+ * The media route serves local files only to their owner or an admin; viewers without
+ * a session need a signed URL (see media-access.service).
  */
 export function getDisplayableImageUrl(originalPath: string | null): string | null {
   if (!originalPath) return null;
@@ -0,0 +1,57 @@
+// src/lib/video-variants.ts
+import { z } from 'zod';
+import type { HistoryItem, VideoSlot } from '@/lib/types';
+
+/** Most clips one video generation can produce for side-by-side comparison. */
+export const MAX_VIDEO_VARIANTS = 4;
+
+/**
+ * What one clip changes relative to the video settings. Omitted fields use the settings.
+ */
+export const VideoVariantSchema = z.object({
+  seed: z.number().int().min(-1).optional(),
+  duration: z.enum(['2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12']).optional(),
+  cameraAction: z.string().min(1).optional(),
+  modelMovement: z.string().min(1).optional(),
+});
+
+export const VideoVariantsSchema = z.array(VideoVariantSchema)
+  .min(1)
+  .max(MAX_VIDEO_VARIANTS, `At most ${MAX_VIDEO_VARIANTS} variants can be generated at once.`);
+
+export type VideoVariant = z.infer<typeof VideoVariantSchema>;
+
+/** Shortest clip trimming may produce, in seconds. */
+export const MIN_TRIMMED_CLIP_SECONDS = 0.5;
+
+/** A time range within a clip, in seconds. */
+export const VideoTrimRangeSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive(),
+}).refine(range => range.end - range.start >= MIN_TRIMMED_CLIP_SECONDS, {
+  message: `The trimmed clip must be at least ${MIN_TRIMMED_CLIP_SECONDS} seconds long.`,
+});
+
+export type VideoTrimRange = z.infer<typeof VideoTrimRangeSchema>;
+
+/**
+ * The clips of a video history item, in slot order. Items loaded without slot records
+ * get a single slot built from their item-level parameters.
+ */
+export function getVideoSlots(item: HistoryItem): VideoSlot[] {
+  if (item.videoSlots?.length) {
+    return item.videoSlots;
+  }
+  if (!item.videoGenerationParams) {
+    return [];
+  }
+  const { localVideoUrl, status, error, ...params } = item.videoGenerationParams;
+  return [{
+    slotIndex: 0,
+    params,
+    status: item.status === 'cancelled' ? 'cancelled' : status ?? 'completed',
+    error,
+    seed: params.seed,
+    localVideoUrl: localVideoUrl ?? undefined,
+  }];
+}
@@ -2,6 +2,8 @@
 import 'server-only';
 
 import crypto from 'crypto';
+import { isMockProviderMode } from '@/lib/provider-mode';
+import { getMockWebhookJwks } from '@/services/mock-provider/fal';
 
 // DER prefix for Ed25519 SPKI public keys (12 bytes) — used to wrap raw 32-byte keys
 // for Node.js crypto.createPublicKey().
@@ -13,6 +15,11 @@ let jwksCache: any[] = [];
 let jwksCacheTime = 0;
 
 async function fetchJwks(): Promise<any[]> {
+  // The mock Fal client signs its deliveries with a key generated by this process
+  if (isMockProviderMode()) {
+    return getMockWebhookJwks();
+  }
+
   const currentTime = Date.now();
   if (jwksCache.length === 0 || (currentTime - jwksCacheTime) > JWKS_CACHE_DURATION) {
     // CACHE-STRATEGY: Policy: Dynamic - This fetches cryptographic keys from an external API that change over time.
@@ -21,7 +21,7 @@ export async function proxy(request: NextRequest) {
         status: 204,
         headers: {
           'Access-Control-Allow-Origin': origin,
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+          'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
           'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         },
       });
@@ -60,9 +60,10 @@ export async function proxy(request: NextRequest) {
 
   // Allow access to login page and public assets/API routes
   if (pathname.startsWith('/login') || 
+      pathname.startsWith('/share/') || // Public review links; the token is checked by the page
       pathname.startsWith('/_next/') || 
       pathname.startsWith('/api/') || 
-      pathname.startsWith('/uploads/') || // Allow access to uploaded files
+      pathname.startsWith('/uploads/') || // The media route checks ownership or a signed URL itself
       pathname.includes('.')) { // Allows requests for static files like .png, .css
     
     const response = NextResponse.next();
@@ -0,0 +1,132 @@
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { getCostBreakdown, getCostLedgerCsv, getTopParameterUsage, getUserActivity, parseDayRange } from '../analytics.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+const DAY = Date.UTC(2024, 4, 10);
+
+describe('analytics.service cost reporting', () => {
+  let db: Database.Database;
+
+  const addCost = (id: string, username: string, model: string, variant: string | null, amount: number, createdAt = DAY) => {
+    db.prepare(`
+      INSERT INTO cost_ledger (id, username, history_id, provider, operation, model, variant, amount_usd, created_at)
+      VALUES (?, ?, NULL, 'fal', ?, ?, ?, ?, ?)
+    `).run(id, username, variant ? 'video_generation' : 'image_generation', model, variant, amount, createdAt);
+  };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT);
+      CREATE TABLE history (id TEXT PRIMARY KEY, username TEXT, timestamp INTEGER, status TEXT, videoGenerationParams TEXT);
+      CREATE TABLE cost_ledger (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, history_id TEXT, provider TEXT NOT NULL,
+        operation TEXT NOT NULL, model TEXT NOT NULL, variant TEXT, amount_usd REAL NOT NULL, created_at INTEGER NOT NULL
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should parse inclusive UTC days and fall back to the last 30 days', () => {
+    expect(parseDayRange('2024-05-01', '2024-05-10')).toEqual({
+      from: Date.UTC(2024, 4, 1),
+      to: Date.UTC(2024, 4, 11),
+      fromDay: '2024-05-01',
+      toDay: '2024-05-10',
+    });
+    expect(parseDayRange('2024-05-10', '2024-05-01').fromDay).toBe('2024-05-01');
+    expect(parseDayRange('bogus', undefined, DAY)).toMatchObject({ fromDay: '2024-04-11', toDay: '2024-05-10' });
+  });
+
+  it('should break spend down by model and video resolution within the range', () => {
+    const seedance = 'fal-ai/bytedance/seedance/v1/pro/fast/image-to-video';
+    addCost('a', 'alice', 'fal-ai/nano-banana-pro/edit', null, 0.15);
+    addCost('b', 'alice', seedance, '720p', 0.3);
+    addCost('c', 'bob', seedance, '1080p', 0.6);
+    addCost('d', 'bob', seedance, '1080p', 0.6, DAY - 40 * 24 * 60 * 60 * 1000);
+
+    const range = parseDayRange('2024-05-01', '2024-05-31');
+    expect(getCostBreakdown(range, 'model')).toEqual([
+      { key: `${seedance}:1080p`, label: 'Seedance (1080p)', calls: 1, amount: 0.6 },
+      { key: `${seedance}:720p`, label: 'Seedance (720p)', calls: 1, amount: 0.3 },
+      { key: 'fal-ai/nano-banana-pro/edit', label: 'Nano Banana Pro', calls: 1, amount: 0.15 },
+    ]);
+    expect(getCostBreakdown(range, 'operation', 'alice').map(row => row.label)).toEqual(['Video Generation', 'Image Generation']);
+    const userActivity = getUserActivity(range);
+    expect(userActivity.map(row => row.username)).toEqual(['bob', 'alice']);
+    expect(userActivity[1].total_cost).toBeCloseTo(0.45);
+  });
+
+  it('should export the ledger as CSV with quoted and neutralised fields', () => {
+    addCost('a', '=cmd', 'fal-ai/rembg', null, 0.002);
+    addCost('b', 'alice', 'model, with comma', null, 0.1);
+
+    const lines = getCostLedgerCsv(parseDayRange('2024-05-10', '2024-05-10')).trim().split('\r\n');
+    expect(lines[0]).toBe('created_at,username,history_id,provider,operation,model,variant,amount_usd');
+    expect(lines[1]).toBe("2024-05-10T00:00:00.000Z,'=cmd,,fal,image_generation,fal-ai/rembg,,0.002000");
+    expect(lines[2]).toContain('"model, with comma"');
+  });
+});
+
+describe('analytics.service parameter insights', () => {
+  let db: Database.Database;
+
+  const addGeneration = (id: string, attributes: object, ratings: (number | null)[], mode = 'creative', settingsMode = 'basic') => {
+    db.prepare(`INSERT INTO history (id, attributes, generation_mode, settingsMode) VALUES (?, ?, ?, ?)`)
+      .run(id, JSON.stringify(attributes), mode, settingsMode);
+    ratings.forEach((rating, slot) => {
+      db.prepare(`INSERT INTO history_images (history_id, url, type, slot_index, is_favorite, rating) VALUES (?, ?, 'edited', ?, ?, ?)`)
+        .run(id, `/uploads/${id}_${slot}.png`, slot, rating === 5 ? 1 : 0, rating);
+    });
+  };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE history (id TEXT PRIMARY KEY, attributes TEXT, generation_mode TEXT, settingsMode TEXT);
+      CREATE TABLE history_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, history_id TEXT NOT NULL, url TEXT NOT NULL, type TEXT NOT NULL,
+        slot_index INTEGER NOT NULL, is_favorite INTEGER NOT NULL DEFAULT 0, rating INTEGER
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+    addGeneration('a', { fashionStyle: 'streetwear' }, [2, null]);
+    addGeneration('b', { fashionStyle: 'streetwear' }, [3]);
+    addGeneration('c', { fashionStyle: 'streetwear' }, []);
+    addGeneration('d', { fashionStyle: 'bohemian' }, [5, 4]);
+    addGeneration('e', { fashionStyle: 'minimalist' }, [null]);
+    addGeneration('f', { fashionStyle: 'default' }, [5]);
+    addGeneration('g', { studioFit: 'slim' }, [4], 'studio');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should rank values by usage with their rating summary', () => {
+    expect(getTopParameterUsage('fashionStyle')).toEqual([
+      { value: 'streetwear', count: 3, rated_count: 2, average_rating: 2.5, favorite_count: 0 },
+      { value: 'bohemian', count: 1, rated_count: 2, average_rating: 4.5, favorite_count: 1 },
+      { value: 'minimalist', count: 1, rated_count: 0, average_rating: null, favorite_count: 0 },
+    ]);
+  });
+
+  it('should rank rated values and prompt templates by average rating', () => {
+    expect(getTopParameterUsage('fashionStyle', 5, 'rating').map(row => row.value)).toEqual(['bohemian', 'streetwear']);
+    expect(getTopParameterUsage('promptTemplate', 5, 'rating')).toEqual([
+      { value: 'studio_slim', count: 1, rated_count: 1, average_rating: 4, favorite_count: 0 },
+      { value: 'creative_basic', count: 6, rated_count: 5, average_rating: 3.8, favorite_count: 2 },
+    ]);
+    expect(() => getTopParameterUsage('toString' as never)).toThrow('Invalid parameter');
+  });
+});
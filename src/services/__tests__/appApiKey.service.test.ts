@@ -0,0 +1,62 @@
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { createApiKey, hasScope, listApiKeys, revokeApiKey, verifyApiKey } from '../appApiKey.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+describe('appApiKey.service', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE, prefix TEXT NOT NULL, scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL, expires_at INTEGER, last_used_at INTEGER,
+        revoked INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should store only the hash and resolve the key with its scopes', () => {
+    const { apiKey, key } = createApiKey('alice', { name: 'WordPress', scopes: ['generate:image'] });
+
+    expect(key).toMatch(/^rf_[0-9a-f]{48}$/);
+    expect(apiKey.prefix).toBe(key.slice(0, 10));
+    expect(db.prepare('SELECT key_hash FROM api_keys').get()).not.toEqual({ key_hash: key });
+
+    const verified = verifyApiKey(key);
+    expect(verified).toMatchObject({ id: apiKey.id, username: 'alice' });
+    expect(listApiKeys('alice')[0].lastUsedAt).toBeDefined();
+    expect(hasScope(verified!, 'generate:image')).toBe(true);
+    expect(hasScope(verified!, 'generate:video')).toBe(false);
+    expect(verifyApiKey('rf_unknown')).toBeNull();
+  });
+
+  it('should reject revoked and expired keys', () => {
+    const revoked = createApiKey('alice', { name: 'Old', scopes: ['history:read'] });
+    const expired = createApiKey('alice', { name: 'Short-lived', scopes: ['history:read'], expiresInDays: 1 });
+    db.prepare('UPDATE api_keys SET expires_at = ? WHERE id = ?').run(Date.now() - 1, expired.apiKey.id);
+
+    expect(revokeApiKey(revoked.apiKey.id, 'bob')).toBe(false);
+    expect(revokeApiKey(revoked.apiKey.id, 'alice')).toBe(true);
+    expect(revokeApiKey(revoked.apiKey.id, 'alice')).toBe(false);
+
+    expect(verifyApiKey(revoked.key)).toBeNull();
+    expect(verifyApiKey(expired.key)).toBeNull();
+    expect(listApiKeys('alice')).toHaveLength(2);
+    expect(listApiKeys('bob')).toHaveLength(0);
+  });
+});
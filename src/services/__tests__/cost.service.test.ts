@@ -0,0 +1,56 @@
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { assertWithinBudget, BudgetExceededError, getMonthlySpend, getMonthStart, recordCost } from '../cost.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+describe('cost.service', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE users (username TEXT PRIMARY KEY, password_hash TEXT, role TEXT, monthly_budget_usd REAL);
+      CREATE TABLE cost_ledger (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, history_id TEXT, provider TEXT NOT NULL,
+        operation TEXT NOT NULL, model TEXT NOT NULL, variant TEXT, amount_usd REAL NOT NULL, created_at INTEGER NOT NULL
+      );
+      INSERT INTO users (username, role, monthly_budget_usd) VALUES ('alice', 'user', 1.0), ('bob', 'user', NULL);
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should start the budget month on the first day (UTC)', () => {
+    expect(getMonthStart(Date.UTC(2024, 2, 15, 12))).toBe(Date.UTC(2024, 2, 1));
+  });
+
+  it('should only count this month towards the spend', () => {
+    recordCost({ username: 'alice', historyId: 'h1', provider: 'fal', operation: 'image_generation', model: 'fal-ai/nano-banana-pro/edit', amount: 0.15 });
+    db.prepare(`INSERT INTO cost_ledger VALUES ('old', 'alice', NULL, 'fal', 'upscale', 'x', NULL, 5, ?)`).run(getMonthStart() - 1);
+
+    expect(getMonthlySpend('alice')).toBeCloseTo(0.15);
+  });
+
+  it('should refuse work that would exceed the budget', () => {
+    recordCost({ username: 'alice', provider: 'fal', operation: 'video_generation', model: 'seedance', amount: 0.9 });
+
+    expect(() => assertWithinBudget('alice', 0.05)).not.toThrow();
+    expect(() => assertWithinBudget('alice', 0.15)).toThrow(BudgetExceededError);
+  });
+
+  it('should never refuse users without a budget', () => {
+    recordCost({ username: 'bob', provider: 'gemini', operation: 'garment_description', model: 'gemini', amount: 100 });
+
+    expect(() => assertWithinBudget('bob', 100)).not.toThrow();
+  });
+});
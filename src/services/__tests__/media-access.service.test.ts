@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('media-access.service', () => {
+  let db: Database.Database;
+  let mediaAccess: typeof import('../media-access.service');
+
+  beforeAll(async () => {
+    process.env.ENCRYPTION_SECRET = '0123456789abcdef0123456789abcdef';
+    mediaAccess = await import('../media-access.service');
+  });
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE history (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, originalClothingUrl TEXT, videoGenerationParams TEXT
+      );
+      CREATE TABLE history_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, history_id TEXT NOT NULL, url TEXT NOT NULL, type TEXT NOT NULL
+      );
+      CREATE TABLE history_video_slots (history_id TEXT NOT NULL, slot_index INTEGER NOT NULL, local_video_url TEXT, media TEXT);
+      CREATE TABLE user_uploads (username TEXT NOT NULL, file_url TEXT NOT NULL, timestamp INTEGER, UNIQUE(username, file_url));
+      CREATE TABLE media_owners (
+        file_url TEXT NOT NULL, username TEXT NOT NULL, created_at INTEGER NOT NULL, PRIMARY KEY (file_url, username)
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('accepts signed URLs until they expire and rejects altered ones', () => {
+    const now = Date.UTC(2026, 2, 10, 15);
+    const signed = new URL(mediaAccess.signMediaUrl('/uploads/generated_images/a.png', now), 'https://example.com');
+    const expires = Number(signed.searchParams.get('expires'));
+
+    expect(signed.pathname).toBe('/uploads/generated_images/a.png');
+    expect(expires).toBeGreaterThanOrEqual(now + DAY_MS);
+    expect(mediaAccess.signMediaUrl('/uploads/generated_images/a.png', now + 60_000)).toBe(`${signed.pathname}${signed.search}`);
+
+    expect(mediaAccess.verifyMediaUrl('/uploads/generated_images/a.png', signed.searchParams, now)).toBe(true);
+    expect(mediaAccess.verifyMediaUrl('/uploads/generated_images/b.png', signed.searchParams, now)).toBe(false);
+    expect(mediaAccess.verifyMediaUrl('/uploads/generated_images/a.png', signed.searchParams, expires)).toBe(false);
+
+    signed.searchParams.set('expires', String(expires + DAY_MS));
+    expect(mediaAccess.verifyMediaUrl('/uploads/generated_images/a.png', signed.searchParams, now)).toBe(false);
+    expect(mediaAccess.verifyMediaUrl('/uploads/generated_images/a.png', new URLSearchParams(), now)).toBe(false);
+    expect(mediaAccess.signMediaUrl('https://v3.fal.media/a.png')).toBe('https://v3.fal.media/a.png');
+  });
+
+  it('serves media only to the user a record ties it to, or to admins', () => {
+    db.prepare('INSERT INTO history VALUES (?, ?, ?, ?)').run('h1', 'alice', '/uploads/user_uploaded_clothing/source.png',
+      JSON.stringify({ sourceImageUrl: '/uploads/generated_images/still.png', localVideoUrl: '/uploads/generated_videos/clip.mp4' }));
+    db.prepare('INSERT INTO history_images (history_id, url, type) VALUES (?, ?, ?)').run('h1', '/uploads/generated_images/result.png', 'edited');
+    db.prepare('INSERT INTO user_uploads VALUES (?, ?, ?)').run('alice', '/uploads/user_uploaded_clothing/upload.png', Date.now());
+    mediaAccess.grantMediaAccess('alice', '/uploads/processed_images/cropped.png');
+
+    const alice = { username: 'alice', role: 'user' as const };
+    const bob = { username: 'bob', role: 'user' as const };
+    for (const url of [
+      '/uploads/user_uploaded_clothing/source.png',
+      '/uploads/generated_images/still.png',
+      '/uploads/generated_videos/clip.mp4',
+      '/uploads/generated_images/result.png',
+      '/uploads/user_uploaded_clothing/upload.png',
+      '/uploads/processed_images/cropped.png',
+    ]) {
+      expect(mediaAccess.canAccessMedia(alice, url)).toBe(true);
+      expect(mediaAccess.canAccessMedia(bob, url)).toBe(false);
+    }
+
+    expect(mediaAccess.canAccessMedia(alice, '/uploads/processed_images/orphan.png')).toBe(false);
+    expect(mediaAccess.canAccessMedia({ username: 'root', role: 'admin' }, '/uploads/processed_images/orphan.png')).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+import { createMockFalClient } from '../mock-provider/fal';
+import { createMockGeminiClient } from '../mock-provider/gemini';
+import { verifyWebhookSignature } from '@/lib/webhook-verification';
+
+jest.mock('server-only', () => ({}));
+
+const ENDPOINT = 'fal-ai/bytedance/seedance/v1/pro/fast/image-to-video';
+
+describe('mock provider mode', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    process.env.PROVIDER_MODE = 'mock';
+    process.env.MOCK_IMAGE_DELAY_MS = '0';
+    process.env.MOCK_TEXT_DELAY_MS = '0';
+    process.env.MOCK_VIDEO_DELAY_MS = '0';
+    global.fetch = fetchMock;
+    fetchMock.mockResolvedValue({ status: 200 });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.PROVIDER_MODE;
+    fetchMock.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  async function waitForDelivery() {
+    for (let i = 0; i < 100 && fetchMock.mock.calls.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  }
+
+  it('returns the same placeholder image for the same request', async () => {
+    const fal = createMockFalClient();
+    const input = { prompt: 'red dress', image_urls: ['https://example.com/a.png'] };
+
+    const first: any = await fal.subscribe('fal-ai/gemini-25-flash-image/edit', { input });
+    const second: any = await fal.subscribe('fal-ai/gemini-25-flash-image/edit', { input });
+    const other: any = await fal.subscribe('fal-ai/gemini-25-flash-image/edit', { input: { ...input, prompt: 'blue dress' } });
+
+    expect(first.data.images[0].url).toMatch(/^data:image\/png;base64,/);
+    expect(second.data.images[0].url).toBe(first.data.images[0].url);
+    expect(other.data.images[0].url).not.toBe(first.data.images[0].url);
+  });
+
+  it('delivers video results as webhooks that pass signature verification', async () => {
+    const fal = createMockFalClient();
+    const { request_id } = await fal.queue.submit(ENDPOINT, {
+      input: { prompt: 'walk', image_url: 'https://example.com/a.png', seed: 42 },
+      webhookUrl: 'http://localhost:9002/api/video/webhook?historyItemId=h1&username=alice',
+    });
+    await waitForDelivery();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain('/api/video/webhook?historyItemId=h1');
+    const body = JSON.parse(init.body);
+    expect(body).toMatchObject({ request_id, status: 'OK', payload: { seed: 42 } });
+    expect(body.payload.video.url).toMatch(/^data:video\/mp4;base64,/);
+
+    const headers = init.headers;
+    const verify = (payload: string) => verifyWebhookSignature(
+      headers['X-Fal-Webhook-Request-Id'],
+      headers['X-Fal-Webhook-User-Id'],
+      headers['X-Fal-Webhook-Timestamp'],
+      headers['X-Fal-Webhook-Signature'],
+      Buffer.from(payload, 'utf-8')
+    );
+    await expect(verify(init.body)).resolves.toBe(true);
+    await expect(verify(init.body.replace('"OK"', '"ERROR"'))).resolves.toBe(false);
+
+    const status: any = await fal.queue.status(ENDPOINT, { requestId: request_id });
+    expect(status.status).toBe('COMPLETED');
+  });
+
+  it('does not deliver cancelled video requests', async () => {
+    process.env.MOCK_VIDEO_DELAY_MS = '50';
+    const fal = createMockFalClient();
+    const { request_id } = await fal.queue.submit(ENDPOINT, {
+      input: { prompt: 'walk', image_url: 'https://example.com/a.png' },
+      webhookUrl: 'http://localhost:9002/api/video/webhook',
+    });
+    await fal.queue.cancel(ENDPOINT, { requestId: request_id });
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('answers Gemini prompt requests with the given parameters and classifications with a garment', async () => {
+    const gemini = createMockGeminiClient();
+
+    const prompt = await gemini.models.generateContent({
+      model: 'gemini-2.5-pro',
+      config: { systemInstruction: [{ text: 'system' }] },
+      contents: [{ role: 'user', parts: [{ text: 'Please create the perfect prompt:\n```\ngender: female\n```' }] }],
+    });
+    const classification = await gemini.models.generateContent({
+      model: 'gemini-flash-lite-latest',
+      contents: [{ role: 'user', parts: [{ text: 'Classify this clothing item' }] }],
+    });
+
+    expect(prompt.text).toContain('gender: female');
+    expect(classification.text).toMatch(/\w+ \w+/);
+  });
+});
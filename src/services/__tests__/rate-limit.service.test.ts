@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { consumeGenerationQuota, getRateLimitMessage } from '../rate-limit.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+jest.mock('@/services/settings.service', () => ({
+  getIntegerSetting: jest.fn((key: string) => ({ rate_limit_user_per_minute: 20, rate_limit_api_key_per_minute: 10 })[key]),
+}));
+
+describe('rate-limit.service', () => {
+  let db: Database.Database;
+  const alice = { username: 'alice', role: 'user' as const };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE users (username TEXT PRIMARY KEY, role TEXT, rate_limit_per_minute INTEGER);
+      CREATE TABLE rate_limit_buckets (key TEXT PRIMARY KEY, tokens REAL NOT NULL, updated_at INTEGER NOT NULL);
+      INSERT INTO users (username, role) VALUES ('alice', 'user');
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('charges every item of a batch', () => {
+    expect(consumeGenerationQuota(alice, { apiKeyId: 'k1', cost: 8 })).toMatchObject({ allowed: true, remaining: 2 });
+
+    const rejected = consumeGenerationQuota(alice, { apiKeyId: 'k1', cost: 8 });
+    expect(rejected).toMatchObject({ allowed: false, exceedsLimit: false });
+    expect(rejected.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  it('rejects a batch larger than the limit without charging it', () => {
+    const rejected = consumeGenerationQuota(alice, { apiKeyId: 'k1', cost: 11 });
+    expect(rejected).toMatchObject({ allowed: false, exceedsLimit: true, retryAfterSeconds: 0 });
+    expect(getRateLimitMessage(rejected)).toMatch(/split it into smaller requests/);
+
+    expect(consumeGenerationQuota(alice, { apiKeyId: 'k1', cost: 10 }).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { insertHistoryItem, insertCollection, addHistoryItemToCollection } from '@/services/db';
+import type { HistoryItem, ModelAttributes } from '@/lib/types';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+describe('share-link.service', () => {
+  // One database for the suite: the history repository caches prepared statements
+  const db = new Database(':memory:');
+  let shareLinks: typeof import('../share-link.service');
+
+  function addItem(id: string, username = 'alice') {
+    insertHistoryItem({
+      id,
+      username,
+      timestamp: Date.now(),
+      constructedPrompt: `Prompt for ${id}`,
+      originalClothingUrl: '/uploads/a.png',
+      editedImageUrls: [`/uploads/${id}.png`],
+      settingsMode: 'basic',
+      attributes: {} as ModelAttributes,
+      status: 'completed',
+    } as HistoryItem);
+  }
+
+  beforeAll(async () => {
+    process.env.ENCRYPTION_SECRET = '0123456789abcdef0123456789abcdef';
+    shareLinks = await import('../share-link.service');
+    db.exec(`
+      CREATE TABLE history (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, timestamp INTEGER NOT NULL, constructedPrompt TEXT,
+        originalClothingUrl TEXT, settingsMode TEXT, attributes TEXT, videoGenerationParams TEXT,
+        status TEXT DEFAULT 'completed', error TEXT, webhook_url TEXT, image_generation_model TEXT,
+        generation_mode TEXT, job_status TEXT, batch_id TEXT, external_ref TEXT, classification TEXT
+      );
+      CREATE TABLE history_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, history_id TEXT NOT NULL, url TEXT NOT NULL,
+        type TEXT NOT NULL, slot_index INTEGER NOT NULL, is_favorite INTEGER NOT NULL DEFAULT 0, rating INTEGER
+      );
+      CREATE TABLE history_video_slots (
+        history_id TEXT NOT NULL, slot_index INTEGER NOT NULL, params TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'processing',
+        error TEXT, seed INTEGER, local_video_url TEXT, fal_request_id TEXT, fal_submitted_at INTEGER, media TEXT, trimmed_from TEXT,
+        PRIMARY KEY (history_id, slot_index)
+      );
+      CREATE TABLE collections (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, name TEXT NOT NULL COLLATE NOCASE, description TEXT,
+        created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, UNIQUE(username, name)
+      );
+      CREATE TABLE collection_items (
+        collection_id TEXT NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        history_id TEXT NOT NULL REFERENCES history(id) ON DELETE CASCADE,
+        added_at INTEGER NOT NULL, PRIMARY KEY (collection_id, history_id)
+      );
+      CREATE TABLE user_uploads (username TEXT, file_url TEXT, timestamp INTEGER);
+      CREATE TABLE history_tags (history_id TEXT NOT NULL, tag TEXT NOT NULL, PRIMARY KEY (history_id, tag));
+      CREATE TABLE share_links (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, target_type TEXT NOT NULL, target_id TEXT NOT NULL,
+        label TEXT, show_prompt INTEGER NOT NULL DEFAULT 0, expires_at INTEGER NOT NULL, revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE share_link_views (
+        link_id TEXT NOT NULL REFERENCES share_links(id) ON DELETE CASCADE, visitor_id TEXT NOT NULL,
+        reviewer_name TEXT, ip_address TEXT, user_agent TEXT, view_count INTEGER NOT NULL DEFAULT 1,
+        first_viewed_at INTEGER NOT NULL, last_viewed_at INTEGER NOT NULL, PRIMARY KEY (link_id, visitor_id)
+      );
+      CREATE TABLE share_reviews (
+        id TEXT PRIMARY KEY, link_id TEXT NOT NULL REFERENCES share_links(id) ON DELETE CASCADE,
+        history_id TEXT NOT NULL REFERENCES history(id) ON DELETE CASCADE, reviewer_name TEXT NOT NULL,
+        decision TEXT NOT NULL, comment TEXT, created_at INTEGER NOT NULL
+      );
+    `);
+    db.pragma('foreign_keys = ON');
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  beforeEach(() => {
+    db.exec('DELETE FROM share_links; DELETE FROM collections; DELETE FROM history;');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  it('resolves only untampered, unexpired and unrevoked tokens', () => {
+    addItem('item-1');
+    expect(shareLinks.createShareLink('bob', { targetType: 'history', targetId: 'item-1', expiresInDays: 7, showPrompt: false })).toBeNull();
+
+    const share = shareLinks.createShareLink('alice', { targetType: 'history', targetId: 'item-1', expiresInDays: 7, showPrompt: false })!;
+    const [id, expiresAt, signature] = share.token.split('.');
+
+    expect(shareLinks.resolveShareToken(share.token)?.id).toBe(share.link.id);
+    expect(shareLinks.resolveShareToken(`${id}.${Number(expiresAt) + 1000}.${signature}`)).toBeNull();
+    expect(shareLinks.resolveShareToken(`${id}.${expiresAt}.${signature.slice(1)}x`)).toBeNull();
+    expect(shareLinks.resolveShareToken(share.token, Number(expiresAt))).toBeNull();
+
+    expect(shareLinks.revokeShareLink('bob', share.link.id)).toBe(false);
+    expect(shareLinks.revokeShareLink('alice', share.link.id)).toBe(true);
+    expect(shareLinks.resolveShareToken(share.token)).toBeNull();
+    expect(shareLinks.listShareLinks('alice', 'history', 'item-1')[0].active).toBe(false);
+  });
+
+  it('shows a collection and accepts reviews only for its items', () => {
+    addItem('shared');
+    addItem('unshared');
+    insertCollection({ id: 'col-1', username: 'alice', name: 'Spring lookbook' });
+    addHistoryItemToCollection('col-1', 'shared');
+
+    const { link } = shareLinks.createShareLink('alice', { targetType: 'collection', targetId: 'col-1', expiresInDays: 1, showPrompt: true })!;
+    const content = shareLinks.getSharedContent(link)!;
+    expect(content.title).toBe('Spring lookbook');
+    expect(content.items).toEqual([expect.objectContaining({ id: 'shared', imageUrls: [expect.stringMatching(/^\/uploads\/shared\.png\?expires=\d+&signature=/)], prompt: 'Prompt for shared' })]);
+
+    shareLinks.recordShareView(link, { visitorId: 'visitor-1', ipAddress: '10.0.0.1' });
+    shareLinks.recordShareView(link, { visitorId: 'visitor-1', ipAddress: '10.0.0.2' });
+
+    expect(shareLinks.submitShareReview(link, 'visitor-1', { historyId: 'unshared', reviewerName: 'Client', decision: 'approved' })).toBeNull();
+    const review = shareLinks.submitShareReview(link, 'visitor-1', { historyId: 'shared', reviewerName: 'Client', decision: 'rejected', comment: 'Brighter, please' });
+    expect(review).toMatchObject({ historyId: 'shared', decision: 'rejected', comment: 'Brighter, please' });
+
+    const [details] = shareLinks.listShareLinks('alice', 'collection', 'col-1');
+    expect(details.views).toEqual([expect.objectContaining({ visitorId: 'visitor-1', reviewerName: 'Client', viewCount: 2, ipAddress: '10.0.0.2' })]);
+    expect(details.reviews).toHaveLength(1);
+    expect(shareLinks.getSharedContent(link)!.items[0].reviews).toHaveLength(1);
+  });
+
+  it('shows the stored file of every finished clip, including trimmed ones', () => {
+    const params = { prompt: 'Walk', sourceImageUrl: '/uploads/a.png', status: 'completed' } as NonNullable<HistoryItem['videoGenerationParams']>;
+    insertHistoryItem({
+      id: 'video',
+      username: 'alice',
+      timestamp: Date.now(),
+      constructedPrompt: 'Walk',
+      originalClothingUrl: '/uploads/a.png',
+      editedImageUrls: [],
+      generatedVideoUrls: ['https://v3.fal.media/files/clip.mp4'],
+      settingsMode: 'basic',
+      attributes: {} as ModelAttributes,
+      videoGenerationParams: params,
+      videoSlots: [
+        { slotIndex: 0, params, status: 'completed', localVideoUrl: '/uploads/generated_videos/clip.mp4' },
+        { slotIndex: 1, params, status: 'completed', localVideoUrl: '/uploads/generated_videos/clip_trim.mp4', trimmedFrom: { sourceSlotIndex: 0, start: 1, end: 3 } },
+        { slotIndex: 2, params, status: 'processing' },
+      ],
+      status: 'completed',
+    } as HistoryItem);
+
+    const { link } = shareLinks.createShareLink('alice', { targetType: 'history', targetId: 'video', expiresInDays: 1, showPrompt: false })!;
+    expect(shareLinks.getSharedContent(link)!.items[0].videoUrls).toEqual([
+      expect.stringMatching(/^\/uploads\/generated_videos\/clip\.mp4\?expires=\d+&signature=/),
+      expect.stringMatching(/^\/uploads\/generated_videos\/clip_trim\.mp4\?expires=\d+&signature=/),
+    ]);
+  });
+});
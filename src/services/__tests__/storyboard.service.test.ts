@@ -0,0 +1,116 @@
+/**
+ * @jest-environment node
+ */
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { enqueueJob, registerJobHandler } from '@/services/job-queue.service';
+import { createVideoMedia, stitchVideos } from '@/services/video-processing.service';
+import { advanceStoryboard, handleStoryboardCancellation } from '../storyboard.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+jest.mock('@/services/job-queue.service', () => ({
+  enqueueJob: jest.fn().mockReturnValue('job-1'),
+  registerJobHandler: jest.fn(),
+  JOB_PRIORITY: { interactive: 10, api: 0 },
+}));
+
+jest.mock('@/services/video-processing.service', () => ({
+  createVideoMedia: jest.fn(),
+  stitchVideos: jest.fn(),
+}));
+
+describe('storyboard.service', () => {
+  // Registered when the module loads, before the mocks are cleared
+  const [, stitchHandler] = (registerJobHandler as jest.Mock).mock.calls.find(([type]) => type === 'storyboard_stitch');
+  let db: Database.Database;
+
+  const storyboardStatus = () => (db.prepare(`SELECT status FROM storyboards WHERE id = 'sb1'`).get() as { status: string }).status;
+  const resultSlot = () => db.prepare(`SELECT status, error, local_video_url FROM history_video_slots WHERE history_id = 'result'`).get();
+  const setShot = (slotIndex: number, status: string, error: string | null = null) => {
+    db.prepare(`UPDATE history_video_slots SET status = ?, error = ?, local_video_url = ? WHERE history_id = 'shots' AND slot_index = ?`)
+      .run(status, error, status === 'completed' ? `/uploads/generated_videos/shot${slotIndex}.mp4` : null, slotIndex);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE history (id TEXT PRIMARY KEY, videoGenerationParams TEXT);
+      CREATE TABLE history_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, history_id TEXT NOT NULL, url TEXT NOT NULL, type TEXT NOT NULL, slot_index INTEGER NOT NULL
+      );
+      CREATE TABLE history_video_slots (
+        history_id TEXT NOT NULL, slot_index INTEGER NOT NULL, params TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'processing',
+        error TEXT, seed INTEGER, local_video_url TEXT, fal_request_id TEXT, fal_submitted_at INTEGER, media TEXT, trimmed_from TEXT,
+        PRIMARY KEY (history_id, slot_index)
+      );
+      CREATE TABLE storyboards (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, shots_history_id TEXT NOT NULL, result_history_id TEXT NOT NULL,
+        transition TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'generating', created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+      );
+      INSERT INTO history (id, videoGenerationParams) VALUES ('shots', '{"status":"processing"}'), ('result', '{"status":"processing"}');
+      INSERT INTO history_video_slots (history_id, slot_index, params) VALUES ('shots', 0, '{}'), ('shots', 1, '{}'), ('result', 0, '{}');
+      INSERT INTO storyboards (id, username, shots_history_id, result_history_id, transition, created_at, updated_at)
+      VALUES ('sb1', 'alice', 'shots', 'result', 'fade', 1, 1);
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('queues the stitching once, after the last shot has finished', () => {
+    setShot(0, 'completed');
+    advanceStoryboard('shots');
+    expect(enqueueJob).not.toHaveBeenCalled();
+
+    setShot(1, 'completed');
+    advanceStoryboard('shots');
+    advanceStoryboard('shots');
+    expect(enqueueJob).toHaveBeenCalledTimes(1);
+    expect(enqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'storyboard_stitch', username: 'alice', historyId: 'result', payload: { storyboardId: 'sb1' },
+    }));
+    expect(storyboardStatus()).toBe('stitching');
+  });
+
+  it('fails the joined clip when a shot could not be generated', () => {
+    setShot(0, 'completed');
+    setShot(1, 'failed', 'Content policy');
+    advanceStoryboard('shots');
+
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(storyboardStatus()).toBe('failed');
+    expect(resultSlot()).toEqual({ status: 'failed', error: 'Shot 2 failed: Content policy', local_video_url: null });
+  });
+
+  it('cancels the storyboard with its joined clip', () => {
+    handleStoryboardCancellation('result');
+    expect(storyboardStatus()).toBe('cancelled');
+
+    setShot(0, 'completed');
+    setShot(1, 'completed');
+    advanceStoryboard('shots');
+    expect(enqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('stores the joined shots as the clip of the storyboard item', async () => {
+    setShot(0, 'completed');
+    setShot(1, 'completed');
+    db.prepare(`UPDATE storyboards SET status = 'stitching'`).run();
+    (stitchVideos as jest.Mock).mockResolvedValue('/uploads/generated_videos/storyboard.mp4');
+    (createVideoMedia as jest.Mock).mockResolvedValue({ durationSeconds: 9.5 });
+
+    await stitchHandler({ storyboardId: 'sb1' }, { username: 'alice' }, new AbortController().signal);
+
+    expect(stitchVideos).toHaveBeenCalledWith(['/uploads/generated_videos/shot0.mp4', '/uploads/generated_videos/shot1.mp4'], 'fade');
+    expect(resultSlot()).toEqual({ status: 'completed', error: null, local_video_url: '/uploads/generated_videos/storyboard.mp4' });
+    expect(storyboardStatus()).toBe('completed');
+  });
+});
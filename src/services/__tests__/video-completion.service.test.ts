@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { updateVideoHistoryItem } from '@/actions/historyActions';
+import { saveFileFromUrl } from '@/services/storage.service';
+import { createVideoMedia } from '@/services/video-processing.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+jest.mock('@/actions/historyActions', () => ({
+  updateVideoHistoryItem: jest.fn(),
+}));
+
+jest.mock('@/services/storage.service', () => ({
+  saveFileFromUrl: jest.fn(),
+}));
+
+jest.mock('@/services/video-processing.service', () => ({
+  createVideoMedia: jest.fn(),
+}));
+
+jest.mock('@/services/webhook.service', () => ({
+  publishWebhookEvent: jest.fn().mockResolvedValue(undefined),
+}));
+
+const RESULT = { status: 'OK' as const, payload: { video: { url: 'https://v3.fal.media/files/clip.mp4' }, seed: 42 } };
+
+describe('video-completion.service', () => {
+  // One database for the suite: the history repository caches prepared statements
+  const db = new Database(':memory:');
+  let completeVideoGeneration: typeof import('../video-completion.service').completeVideoGeneration;
+
+  beforeAll(async () => {
+    process.env.ENCRYPTION_SECRET = '0123456789abcdef0123456789abcdef';
+    ({ completeVideoGeneration } = await import('../video-completion.service'));
+    db.exec(`
+      CREATE TABLE history (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, timestamp INTEGER NOT NULL, constructedPrompt TEXT,
+        originalClothingUrl TEXT, settingsMode TEXT, attributes TEXT, videoGenerationParams TEXT,
+        status TEXT DEFAULT 'completed', error TEXT, webhook_url TEXT, image_generation_model TEXT,
+        generation_mode TEXT, job_status TEXT, batch_id TEXT, external_ref TEXT, classification TEXT
+      );
+      CREATE TABLE history_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, history_id TEXT NOT NULL, url TEXT NOT NULL,
+        type TEXT NOT NULL, slot_index INTEGER NOT NULL, is_favorite INTEGER NOT NULL DEFAULT 0, rating INTEGER
+      );
+      CREATE TABLE history_video_slots (
+        history_id TEXT NOT NULL, slot_index INTEGER NOT NULL, params TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'processing',
+        error TEXT, seed INTEGER, local_video_url TEXT, fal_request_id TEXT, fal_submitted_at INTEGER, media TEXT, trimmed_from TEXT,
+        PRIMARY KEY (history_id, slot_index)
+      );
+      CREATE TABLE history_tags (history_id TEXT NOT NULL, tag TEXT NOT NULL, PRIMARY KEY (history_id, tag));
+      CREATE TABLE user_uploads (username TEXT, file_url TEXT, timestamp INTEGER);
+      CREATE TABLE fal_request_events (
+        request_id TEXT PRIMARY KEY, history_id TEXT NOT NULL, source TEXT NOT NULL, processed_at INTEGER NOT NULL, applied_at INTEGER
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  beforeEach(() => {
+    db.exec(`DELETE FROM history; DELETE FROM history_video_slots; DELETE FROM fal_request_events;`);
+    db.prepare(`
+      INSERT INTO history (id, username, timestamp, videoGenerationParams, status)
+      VALUES ('h1', 'alice', ?, '{"status":"processing"}', 'completed')
+    `).run(Date.now());
+    const insertSlot = db.prepare(`
+      INSERT INTO history_video_slots (history_id, slot_index, params, status, fal_request_id, fal_submitted_at)
+      VALUES ('h1', ?, '{}', ?, ?, ?)
+    `);
+    insertSlot.run(0, 'processing', 'req-1', Date.now());
+    insertSlot.run(1, 'processing', 'req-2', Date.now());
+    insertSlot.run(2, 'completed', 'req-3', Date.now());
+    (saveFileFromUrl as jest.Mock).mockResolvedValue({ relativeUrl: '/uploads/generated_videos/clip.mp4' });
+    (createVideoMedia as jest.Mock).mockResolvedValue({ posterUrl: '/uploads/video_posters/clip.jpg', durationSeconds: 5.04, width: 1080, height: 1920 });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  it('applies each Fal request once, whoever delivers it', async () => {
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'webhook' })).resolves.toBe('completed');
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'webhook' })).resolves.toBe('duplicate');
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'reconciler' })).resolves.toBe('duplicate');
+    await expect(completeVideoGeneration('req-other', RESULT, { source: 'webhook' })).resolves.toBe('unknown_request');
+
+    expect(saveFileFromUrl).toHaveBeenCalledTimes(1);
+    expect(updateVideoHistoryItem).toHaveBeenCalledTimes(1);
+    expect(updateVideoHistoryItem).toHaveBeenCalledWith(expect.objectContaining({
+      username: 'alice',
+      historyItemId: 'h1',
+      slotIndex: 0,
+      localVideoUrl: '/uploads/generated_videos/clip.mp4',
+      seedUsed: 42,
+      status: 'completed',
+    }));
+  });
+
+  it('creates the poster and preview after the clip is stored', async () => {
+    const deferred: (() => Promise<void>)[] = [];
+    const slotMedia = () => (db.prepare(`SELECT media FROM history_video_slots WHERE history_id = 'h1' AND slot_index = 0`).get() as { media: string | null }).media;
+
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'webhook', defer: task => deferred.push(task) })).resolves.toBe('completed');
+    expect(updateVideoHistoryItem).toHaveBeenCalledWith(expect.not.objectContaining({ media: expect.anything() }));
+    expect(createVideoMedia).not.toHaveBeenCalled();
+
+    await Promise.all(deferred.map(task => task()));
+    expect(createVideoMedia).toHaveBeenCalledWith('/uploads/generated_videos/clip.mp4');
+    expect(JSON.parse(slotMedia()!)).toEqual({ posterUrl: '/uploads/video_posters/clip.jpg', durationSeconds: 5.04, width: 1080, height: 1920 });
+  });
+
+  it('keeps the clip completed when post-processing fails', async () => {
+    const deferred: (() => Promise<void>)[] = [];
+    (createVideoMedia as jest.Mock).mockRejectedValueOnce(new Error('ffmpeg failed (exit code 1)'));
+
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'webhook', defer: task => deferred.push(task) })).resolves.toBe('completed');
+    await expect(Promise.all(deferred.map(task => task()))).resolves.toBeDefined();
+    expect(updateVideoHistoryItem).toHaveBeenCalledTimes(1);
+    expect(updateVideoHistoryItem).toHaveBeenCalledWith(expect.objectContaining({
+      localVideoUrl: '/uploads/generated_videos/clip.mp4',
+      status: 'completed',
+    }));
+  });
+
+  it('fills the slot each request was submitted for', async () => {
+    await expect(completeVideoGeneration('req-2', RESULT, { source: 'webhook' })).resolves.toBe('completed');
+    await expect(completeVideoGeneration('req-3', RESULT, { source: 'reconciler' })).resolves.toBe('settled');
+
+    expect(updateVideoHistoryItem).toHaveBeenCalledTimes(1);
+    expect(updateVideoHistoryItem).toHaveBeenCalledWith(expect.objectContaining({
+      historyItemId: 'h1',
+      slotIndex: 1,
+      videoUrl: 'https://v3.fal.media/files/clip.mp4',
+      status: 'completed',
+    }));
+  });
+
+  it('lets a retry apply the request after a transient failure', async () => {
+    (saveFileFromUrl as jest.Mock).mockRejectedValueOnce(new Error('connect ETIMEDOUT'));
+
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'webhook' })).rejects.toThrow('ETIMEDOUT');
+    expect(updateVideoHistoryItem).not.toHaveBeenCalled();
+
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'webhook' })).resolves.toBe('completed');
+  });
+
+  it('takes over a claim that was never applied once it is stale', async () => {
+    const claim = db.prepare(`INSERT INTO fal_request_events (request_id, history_id, source, processed_at) VALUES (?, 'h1', 'webhook', ?)`);
+    // A webhook died while storing req-1 hours ago; one for req-2 is still in progress
+    claim.run('req-1', Date.now() - 3 * 60 * 60 * 1000);
+    claim.run('req-2', Date.now() - 60 * 1000);
+    const timedOut = { status: 'ERROR' as const, error: 'Timed out waiting for fal.ai' };
+
+    await expect(completeVideoGeneration('req-2', timedOut, { source: 'reconciler' })).resolves.toBe('duplicate');
+    await expect(completeVideoGeneration('req-1', timedOut, { source: 'reconciler' })).resolves.toBe('error');
+    expect(updateVideoHistoryItem).toHaveBeenCalledTimes(1);
+    expect(updateVideoHistoryItem).toHaveBeenCalledWith(expect.objectContaining({ slotIndex: 0, status: 'failed', error: 'Timed out waiting for fal.ai' }));
+
+    expect(db.prepare(`SELECT source, applied_at IS NOT NULL AS applied FROM fal_request_events WHERE request_id = 'req-1'`).get())
+      .toEqual({ source: 'reconciler', applied: 1 });
+    await expect(completeVideoGeneration('req-1', RESULT, { source: 'webhook' })).resolves.toBe('duplicate');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import { buildStitchFilter, parseVideoProbe } from '../video-processing.service';
+
+jest.mock('server-only', () => ({}));
+
+jest.mock('@/services/storage.service', () => ({
+  resolveUploadPath: jest.fn(),
+  saveFileFromBuffer: jest.fn(),
+}));
+
+describe('video-processing.service', () => {
+  it('reads the duration and frame size from the ffmpeg input summary', () => {
+    const stderr = [
+      "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from '/app/uploads/generated_videos/a.mp4':",
+      '  Duration: 00:00:05.04, start: 0.000000, bitrate: 4012 kb/s',
+      '  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(tv, bt709, progressive), 1080x1920 [SAR 1:1 DAR 9:16], 4008 kb/s, 24 fps',
+      'At least one output file must be specified',
+    ].join('\n');
+
+    expect(parseVideoProbe(stderr)).toEqual({ durationSeconds: 5.04, width: 1080, height: 1920 });
+  });
+
+  it('leaves out what the summary does not contain', () => {
+    expect(parseVideoProbe('  Duration: 00:01:02.50, start: 0.000000')).toEqual({ durationSeconds: 62.5 });
+    expect(parseVideoProbe('/app/uploads/a.mp4: Invalid data found when processing input')).toEqual({});
+  });
+
+  it('joins clips with a hard cut after fitting them to the first frame size', () => {
+    const filter = buildStitchFilter([
+      { durationSeconds: 5, width: 1080, height: 1920 },
+      { durationSeconds: 4, width: 720, height: 1280 },
+    ], 'cut');
+
+    expect(filter.split(';')).toEqual([
+      '[0:v]scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=24,format=yuv420p,settb=AVTB[v0]',
+      '[1:v]scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=24,format=yuv420p,settb=AVTB[v1]',
+      '[v0][v1]concat=n=2:v=1:a=0[out]',
+    ]);
+  });
+
+  it('chains fades that start before the end of everything joined so far', () => {
+    const filter = buildStitchFilter([
+      { durationSeconds: 5, width: 1080, height: 1920 },
+      { durationSeconds: 4, width: 1080, height: 1920 },
+      { durationSeconds: 6, width: 1080, height: 1920 },
+    ], 'fadeblack');
+
+    expect(filter.split(';').slice(3)).toEqual([
+      '[v0][v1]xfade=transition=fadeblack:duration=0.5:offset=4.500[x1]',
+      '[x1][v2]xfade=transition=fadeblack:duration=0.5:offset=8.000[out]',
+    ]);
+  });
+});
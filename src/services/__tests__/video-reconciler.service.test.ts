@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { getVideoGenerationResult } from '@/services/fal-api/video.service';
+import { completeVideoGeneration } from '@/services/video-completion.service';
+import { reconcileStuckVideos } from '../video-reconciler.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+jest.mock('@/services/fal-api/video.service', () => ({
+  getVideoGenerationResult: jest.fn(),
+}));
+
+jest.mock('@/services/video-completion.service', () => ({
+  completeVideoGeneration: jest.fn(),
+}));
+
+const NOW = Date.UTC(2026, 9, 1, 12);
+const MINUTE_MS = 60 * 1000;
+
+describe('video-reconciler.service', () => {
+  let db: Database.Database;
+
+  const insertVideo = (id: string, status: string, falRequestId: string | null, submittedMinutesAgo: number) => {
+    db.prepare(`
+      INSERT INTO history (id, username, timestamp, videoGenerationParams, status)
+      VALUES (?, 'alice', ?, ?, 'completed')
+    `).run(id, NOW, JSON.stringify({ status }));
+    db.prepare(`
+      INSERT INTO history_video_slots (history_id, slot_index, params, status, fal_request_id, fal_submitted_at)
+      VALUES (?, 0, '{}', ?, ?, ?)
+    `).run(id, status, falRequestId, NOW - submittedMinutesAgo * MINUTE_MS);
+  };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE history (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, timestamp INTEGER NOT NULL, videoGenerationParams TEXT,
+        status TEXT DEFAULT 'completed'
+      );
+      CREATE TABLE history_video_slots (
+        history_id TEXT NOT NULL, slot_index INTEGER NOT NULL, params TEXT NOT NULL, status TEXT NOT NULL,
+        fal_request_id TEXT, fal_submitted_at INTEGER, media TEXT, trimmed_from TEXT, PRIMARY KEY (history_id, slot_index)
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('settles finished Fal requests through the webhook path and leaves running ones alone', async () => {
+    insertVideo('done', 'processing', 'req-done', 15);
+    insertVideo('running', 'processing', 'req-running', 15);
+    insertVideo('recent', 'processing', 'req-recent', 2);
+    insertVideo('unsubmitted', 'processing', null, 15);
+    insertVideo('finished', 'completed', 'req-finished', 15);
+
+    const outcome = { status: 'OK' as const, payload: { video: { url: 'https://fal.media/v.mp4' }, seed: 7 } };
+    (getVideoGenerationResult as jest.Mock).mockImplementation(async (requestId: string) => requestId === 'req-done' ? outcome : null);
+    (completeVideoGeneration as jest.Mock).mockResolvedValue('completed');
+
+    await expect(reconcileStuckVideos(NOW)).resolves.toEqual({ checked: 2, completed: 1, failed: 0, pending: 1 });
+    expect(getVideoGenerationResult).toHaveBeenCalledTimes(2);
+    expect(completeVideoGeneration).toHaveBeenCalledTimes(1);
+    expect(completeVideoGeneration).toHaveBeenCalledWith('req-done', outcome, { source: 'reconciler' });
+  });
+
+  it('fails requests Fal has not finished after the timeout, even when polling fails', async () => {
+    insertVideo('lost', 'processing', 'req-lost', 3 * 60);
+    (getVideoGenerationResult as jest.Mock).mockRejectedValue(new Error('Request not found'));
+    (completeVideoGeneration as jest.Mock).mockResolvedValue('error');
+
+    await expect(reconcileStuckVideos(NOW)).resolves.toEqual({ checked: 1, completed: 0, failed: 1, pending: 0 });
+    expect(completeVideoGeneration).toHaveBeenCalledWith('req-lost', { status: 'ERROR', error: 'Timed out waiting for fal.ai' }, { source: 'reconciler' });
+  });
+});
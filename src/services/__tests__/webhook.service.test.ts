@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { getDb } from '@/services/db/connection';
+import { getWebhookDeliveries } from '@/services/db';
+import { signWebhookPayload, sendWebhook, redeliverWebhook, publishWebhookEvent } from '../webhook.service';
+
+jest.mock('@/services/db/connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+const PAYLOAD = { status: 'completed' as const, historyId: 'job-1', generatedImageUrls: [] };
+
+describe('webhook.service', () => {
+  let db: Database.Database;
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    process.env.WEBHOOK_SECRET = 'test-secret';
+    process.env.ENCRYPTION_SECRET = '0123456789abcdef0123456789abcdef';
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY, event_id TEXT NOT NULL, history_id TEXT, batch_id TEXT,
+        endpoint_id TEXT, event_type TEXT, url TEXT NOT NULL, payload TEXT NOT NULL, attempt INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending', manual INTEGER NOT NULL DEFAULT 0,
+        scheduled_at INTEGER NOT NULL, attempted_at INTEGER, status_code INTEGER,
+        latency_ms INTEGER, response_snippet TEXT, error TEXT, created_at INTEGER NOT NULL
+      );
+      CREATE TABLE webhook_endpoints (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, url TEXT NOT NULL, description TEXT,
+        secret TEXT NOT NULL, events TEXT NOT NULL, enabled INTEGER NOT NULL DEFAULT 1,
+        created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    db.close();
+    fetchMock.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify(PAYLOAD);
+    const expected = crypto.createHmac('sha256', 'test-secret').update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload(body, 1700000000, 'test-secret')).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it('should send a signed request and record the attempt', async () => {
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    await sendWebhook('https://example.com/hook', PAYLOAD, { historyId: 'job-1' });
+
+    const [, init] = fetchMock.mock.calls[0];
+    const [, timestamp] = /^t=(\d+),v1=/.exec(init.headers['X-Refashion-Signature'])!;
+    expect(init.headers['X-Refashion-Signature']).toBe(signWebhookPayload(init.body, Number(timestamp), 'test-secret'));
+    expect(init.headers).not.toHaveProperty('X-Refashion-Secret');
+
+    const [delivery] = getWebhookDeliveries({ jobId: 'job-1', limit: 10 });
+    expect(delivery).toMatchObject({ status: 'succeeded', statusCode: 200, responseSnippet: 'ok', attempt: 1 });
+  });
+
+  it('should schedule a retry with backoff when an attempt fails', async () => {
+    fetchMock.mockResolvedValue(new Response('boom', { status: 500 }));
+    const before = Date.now();
+
+    await sendWebhook('https://example.com/hook', PAYLOAD, { historyId: 'job-1' });
+
+    const [retry, first] = getWebhookDeliveries({ jobId: 'job-1', limit: 10 });
+    expect(first).toMatchObject({ status: 'failed', statusCode: 500, attempt: 1 });
+    expect(retry).toMatchObject({ status: 'pending', attempt: 2, eventId: first.eventId, payload: first.payload });
+    expect(retry.scheduledAt).toBeGreaterThanOrEqual(before + 30 * 1000);
+  });
+
+  it('should redeliver as a manual attempt without scheduling retries', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    await sendWebhook('https://example.com/hook', PAYLOAD, { historyId: 'job-1' });
+    const [original] = getWebhookDeliveries({ jobId: 'job-1', limit: 10 });
+
+    fetchMock.mockResolvedValueOnce(new Response('down', { status: 503 }));
+    const outcome = await redeliverWebhook(original.id);
+
+    expect(outcome).toMatchObject({ succeeded: false, statusCode: 503 });
+    const deliveries = getWebhookDeliveries({ jobId: 'job-1', limit: 10 });
+    expect(deliveries).toHaveLength(2);
+    expect(deliveries[0]).toMatchObject({ attempt: 2, manual: true, status: 'failed', eventId: original.eventId });
+  });
+
+  it('should publish events to subscribed endpoints signed with their own secret', async () => {
+    const { encrypt } = await import('@/services/encryption.service');
+    const insert = db.prepare('INSERT INTO webhook_endpoints VALUES (?, ?, ?, NULL, ?, ?, ?, 0, 0)');
+    insert.run('ep-1', 'alice', 'https://a.example.com/hook', encrypt('whsec_a'), '["image.completed"]', 1);
+    insert.run('ep-2', 'alice', 'https://b.example.com/hook', encrypt('whsec_b'), '["image.failed"]', 1);
+    insert.run('ep-3', 'alice', 'https://c.example.com/hook', encrypt('whsec_c'), '["image.completed"]', 0);
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    await publishWebhookEvent('alice', 'image.completed', { historyId: 'job-1' }, { historyId: 'job-1' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://a.example.com/hook');
+    const [, timestamp] = /^t=(\d+),v1=/.exec(init.headers['X-Refashion-Signature'])!;
+    expect(init.headers['X-Refashion-Signature']).toBe(signWebhookPayload(init.body, Number(timestamp), 'whsec_a'));
+    expect(JSON.parse(init.body)).toMatchObject({ id: init.headers['X-Refashion-Event-Id'], type: 'image.completed', data: { historyId: 'job-1' } });
+
+    const [delivery] = getWebhookDeliveries({ jobId: 'job-1', limit: 10 });
+    expect(delivery).toMatchObject({ endpointId: 'ep-1', eventType: 'image.completed', status: 'succeeded' });
+  });
+
+  it('should drop retries to endpoints that were disabled in the meantime', async () => {
+    const { encrypt } = await import('@/services/encryption.service');
+    db.prepare('INSERT INTO webhook_endpoints VALUES (?, ?, ?, NULL, ?, ?, 1, 0, 0)')
+      .run('ep-1', 'alice', 'https://a.example.com/hook', encrypt('whsec_a'), '["image.failed"]');
+    fetchMock.mockResolvedValueOnce(new Response('boom', { status: 500 }));
+    await publishWebhookEvent('alice', 'image.failed', { historyId: 'job-1' }, { historyId: 'job-1' });
+
+    db.prepare('UPDATE webhook_endpoints SET enabled = 0').run();
+    const [retry] = getWebhookDeliveries({ jobId: 'job-1', limit: 10 });
+    const outcome = await redeliverWebhook(retry.id);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(outcome).toMatchObject({ succeeded: false, error: 'Endpoint was deleted or disabled' });
+  });
+});
@@ -3,7 +3,8 @@
 import 'server-only'; // Ensures this module is never included in client bundles
 import path from 'path';
 import { promises as fs } from 'fs';
-import { getDb } from './db';
+import { getDb, findCostEntries } from './db';
+import { getImageModelLabelByEndpoint } from './image-models.service';
 
 // --- Type Definitions for Analytics Data ---
 
@@ -18,23 +19,106 @@ export interface GenerationActivityData {
   day: string; // YYYY-MM-DD
   image_count: number;
   video_count: number;
+  cost: number; // Estimated USD
+}
+
+/** A time window in ms since epoch; `to` is exclusive. */
+export interface DateRange {
+  from: number;
+  to: number;
+}
+
+/** A date range picked as whole UTC days, as used by the dashboard URL. */
+export interface DayRange extends DateRange {
+  fromDay: string; // YYYY-MM-DD
+  toDay: string; // YYYY-MM-DD, inclusive
+}
+
+export interface SpendSummaryData {
+  total_cost: number;
+  calls: number;
+  generations: number;
+  cost_per_generation: number;
+}
+
+export interface CostBreakdownData {
+  key: string;
+  label: string;
+  calls: number;
+  amount: number;
 }
 
 export interface TopParameterUsageData {
   value: string;
   count: number;
+  /** Rated images among the generations with this value. */
+  rated_count: number;
+  /** Mean star rating of those images, or null when none are rated. */
+  average_rating: number | null;
+  favorite_count: number;
 }
 
+/**
+ * Generation attributes the insights can group by. `promptTemplate` is the prompt a
+ * generation was built from: the Studio template per fit, or the creative prompt builder per settings mode.
+ */
+export type InsightParameter = 'fashionStyle' | 'background' | 'poseStyle' | 'gender' | 'promptTemplate';
+
 export interface UserActivityData {
   username: string;
   total_generations: number;
   last_active: string; // Formatted date string
   failed_count: number;
   failureRate: string; // Formatted percentage
+  total_cost: number; // Estimated USD
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Image generation models are labelled from the model registry
+const MODEL_LABELS: Record<string, string> = {
+  'fal-ai/bytedance/seedance/v1/pro/fast/image-to-video': 'Seedance',
+  'fal-ai/rembg': 'Background Removal',
+  'comfy/opj161/sd-ultimateface': 'Upscale',
+  'comfy/opj161/face-detailer': 'Face Detailer',
+};
+
+const OPERATION_LABELS: Record<string, string> = {
+  image_generation: 'Image Generation',
+  background_removal: 'Background Removal',
+  upscale: 'Upscale',
+  face_detailer: 'Face Detailer',
+  garment_description: 'Garment Description',
+  video_generation: 'Video Generation',
+};
+
 // --- Helper Functions ---
 
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function parseDay(day: string | undefined): number | null {
+  if (!day || !DAY_PATTERN.test(day)) return null;
+  const timestamp = Date.parse(`${day}T00:00:00Z`);
+  return Number.isNaN(timestamp) ? null : timestamp;
+}
+
+function toDateRange(range: 7 | 30 | DateRange): DateRange {
+  return typeof range === 'number'
+    ? { from: Date.now() - range * DAY_MS, to: Number.MAX_SAFE_INTEGER }
+    : range;
+}
+
+function escapeCsvField(value: string | number | undefined): string {
+  let field = value === undefined ? '' : String(value);
+  // Keep spreadsheet apps from evaluating user-controlled text as a formula
+  if (/^[=+\-@]/.test(field)) field = `'${field}`;
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
 function formatBytes(bytes: number, decimals = 2): string {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
@@ -91,49 +175,113 @@ export async function getTotalMediaStorage(): Promise<string> {
     return formatBytes(totalSize);
 }
 
-export function getGenerationActivity(days: 7 | 30): GenerationActivityData[] {
+/**
+ * Parses the dashboard's `from`/`to` days (YYYY-MM-DD, UTC, both inclusive).
+ * Missing or invalid days fall back to the last 30 days.
+ */
+export function parseDayRange(fromDay?: string, toDayParam?: string, now: number = Date.now()): DayRange {
+  const todayStart = parseDay(toDay(now))!;
+  let to = parseDay(toDayParam) ?? todayStart;
+  let from = parseDay(fromDay) ?? to - (DEFAULT_RANGE_DAYS - 1) * DAY_MS;
+  if (from > to) [from, to] = [to, from];
+
+  return { from, to: to + DAY_MS, fromDay: toDay(from), toDay: toDay(to) };
+}
+
+export function getGenerationActivity(range: 7 | 30 | DateRange, username?: string): GenerationActivityData[] {
   const db = getDb();
-  const sinceTimestamp = Date.now() - days * 24 * 60 * 60 * 1000;
-  
-  const stmt = db.prepare(`
+  const { from, to } = toDateRange(range);
+  const userFilter = username ? 'AND username = ?' : '';
+  const params = username ? [from, to, username] : [from, to];
+
+  const counts = db.prepare(`
     SELECT 
       strftime('%Y-%m-%d', timestamp / 1000, 'unixepoch') as day,
       SUM(CASE WHEN videoGenerationParams IS NULL THEN 1 ELSE 0 END) as image_count,
       SUM(CASE WHEN videoGenerationParams IS NOT NULL THEN 1 ELSE 0 END) as video_count
     FROM history
-    WHERE timestamp >= ?
+    WHERE timestamp >= ? AND timestamp < ? ${userFilter}
     GROUP BY day
-    ORDER BY day ASC
-  `);
-  
-  return stmt.all(sinceTimestamp) as GenerationActivityData[];
+  `).all(...params) as Omit<GenerationActivityData, 'cost'>[];
+
+  const costs = db.prepare(`
+    SELECT strftime('%Y-%m-%d', created_at / 1000, 'unixepoch') as day, SUM(amount_usd) as cost
+    FROM cost_ledger
+    WHERE created_at >= ? AND created_at < ? ${userFilter}
+    GROUP BY day
+  `).all(...params) as { day: string; cost: number }[];
+
+  const byDay = new Map<string, GenerationActivityData>();
+  for (const row of counts) {
+    byDay.set(row.day, { ...row, cost: 0 });
+  }
+  for (const row of costs) {
+    const entry = byDay.get(row.day) ?? { day: row.day, image_count: 0, video_count: 0, cost: 0 };
+    entry.cost = row.cost;
+    byDay.set(row.day, entry);
+  }
+
+  return [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day));
 }
 
-export function getTopParameterUsage(parameter: 'fashionStyle' | 'background', limit: number = 5): TopParameterUsageData[] {
-  // Security: Validate the parameter against an allowlist to prevent SQL injection.
-  const allowedParameters = ['fashionStyle', 'background', 'poseStyle', 'gender'];
-  if (!allowedParameters.includes(parameter)) {
+const INSIGHT_VALUE_SQL: Record<InsightParameter, string> = {
+  fashionStyle: `json_extract(h.attributes, '$.fashionStyle')`,
+  background: `json_extract(h.attributes, '$.background')`,
+  poseStyle: `json_extract(h.attributes, '$.poseStyle')`,
+  gender: `json_extract(h.attributes, '$.gender')`,
+  promptTemplate: `CASE WHEN COALESCE(h.generation_mode, 'creative') = 'studio'
+    THEN 'studio_' || COALESCE(json_extract(h.attributes, '$.studioFit'), 'regular')
+    ELSE 'creative_' || COALESCE(h.settingsMode, 'basic') END`,
+};
+
+/**
+ * The most used values of a generation parameter, or with `sortBy: 'rating'` the values
+ * whose images users rated highest. Only values with rated images are ranked by rating.
+ */
+export function getTopParameterUsage(
+  parameter: InsightParameter,
+  limit: number = 5,
+  sortBy: 'usage' | 'rating' = 'usage'
+): TopParameterUsageData[] {
+  // Security: The SQL expression comes from an allowlist to prevent SQL injection.
+  if (!Object.hasOwn(INSIGHT_VALUE_SQL, parameter)) {
     throw new Error('Invalid parameter for analytics query.');
   }
+  const valueSql = INSIGHT_VALUE_SQL[parameter];
 
   const db = getDb();
   const stmt = db.prepare(`
+    WITH feedback AS (
+      SELECT history_id, COUNT(rating) as rated_count, SUM(rating) as rating_sum, SUM(is_favorite) as favorite_count
+      FROM history_images
+      WHERE type = 'edited'
+      GROUP BY history_id
+    )
     SELECT
-      json_extract(attributes, '$.${parameter}') as value,
-      COUNT(*) as count
-    FROM history
-    WHERE json_extract(attributes, '$.${parameter}') IS NOT NULL
-      AND json_extract(attributes, '$.${parameter}') != 'default'
+      ${valueSql} as value,
+      COUNT(*) as count,
+      COALESCE(SUM(f.rated_count), 0) as rated_count,
+      ROUND(CAST(SUM(f.rating_sum) AS REAL) / NULLIF(SUM(f.rated_count), 0), 2) as average_rating,
+      COALESCE(SUM(f.favorite_count), 0) as favorite_count
+    FROM history h
+    LEFT JOIN feedback f ON f.history_id = h.id
+    WHERE value IS NOT NULL
+      AND value != 'default'
     GROUP BY value
-    ORDER BY count DESC
+    ${sortBy === 'rating' ? 'HAVING rated_count > 0 ORDER BY average_rating DESC, rated_count DESC' : 'ORDER BY count DESC, value'}
     LIMIT ?
   `);
-  
+
   return stmt.all(limit) as TopParameterUsageData[];
 }
 
-export function getUserActivity(): UserActivityData[] {
+/**
+ * Generations and estimated spend per user, over all time or within `range`.
+ * Users who only incurred costs in the range (e.g. for deleted history) are included.
+ */
+export function getUserActivity(range?: DateRange): UserActivityData[] {
   const db = getDb();
+  const { from, to } = range ?? { from: 0, to: Number.MAX_SAFE_INTEGER };
   const stmt = db.prepare(`
     SELECT
       username,
@@ -141,20 +289,105 @@ export function getUserActivity(): UserActivityData[] {
       MAX(timestamp) as last_active_timestamp,
       SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed_count
     FROM history
+    WHERE timestamp >= ? AND timestamp < ?
     GROUP BY username
-    ORDER BY total_generations DESC
   `);
-  
-  const results = stmt.all() as { username: string; total_generations: number; last_active_timestamp: number; failed_count: number }[];
+  const costStmt = db.prepare(`
+    SELECT username, SUM(amount_usd) as total_cost, MAX(created_at) as last_active_timestamp
+    FROM cost_ledger
+    WHERE created_at >= ? AND created_at < ?
+    GROUP BY username
+  `);
+
+  const results = stmt.all(from, to) as { username: string; total_generations: number; last_active_timestamp: number; failed_count: number }[];
+  const costs = new Map(
+    (costStmt.all(from, to) as { username: string; total_cost: number; last_active_timestamp: number }[]).map(row => [row.username, row])
+  );
+  for (const [username, cost] of costs) {
+    if (!results.some(row => row.username === username)) {
+      results.push({ username, total_generations: 0, last_active_timestamp: cost.last_active_timestamp, failed_count: 0 });
+    }
+  }
 
-  return results.map(row => {
-    const failureRate = row.total_generations > 0 ? (row.failed_count / row.total_generations) * 100 : 0;
+  return results
+    .map(row => {
+      const failureRate = row.total_generations > 0 ? (row.failed_count / row.total_generations) * 100 : 0;
+      return {
+        username: row.username,
+        total_generations: row.total_generations,
+        last_active: new Date(row.last_active_timestamp).toLocaleString(),
+        failed_count: row.failed_count,
+        failureRate: `${failureRate.toFixed(1)}%`,
+        total_cost: costs.get(row.username)?.total_cost ?? 0,
+      };
+    })
+    .sort((a, b) => b.total_generations - a.total_generations || b.total_cost - a.total_cost);
+}
+
+export function getSpendSummary(range: DateRange, username?: string): SpendSummaryData {
+  const db = getDb();
+  const userFilter = username ? 'AND username = ?' : '';
+  const params = username ? [range.from, range.to, username] : [range.from, range.to];
+
+  const { total_cost, calls } = db.prepare(`
+    SELECT COALESCE(SUM(amount_usd), 0) as total_cost, COUNT(*) as calls
+    FROM cost_ledger
+    WHERE created_at >= ? AND created_at < ? ${userFilter}
+  `).get(...params) as { total_cost: number; calls: number };
+  const { generations } = db.prepare(`
+    SELECT COUNT(*) as generations FROM history WHERE timestamp >= ? AND timestamp < ? ${userFilter}
+  `).get(...params) as { generations: number };
+
+  return { total_cost, calls, generations, cost_per_generation: generations > 0 ? total_cost / generations : 0 };
+}
+
+/**
+ * Estimated spend grouped by model (including variants such as the Seedance resolution) or by operation.
+ */
+export function getCostBreakdown(range: DateRange, groupBy: 'model' | 'operation', username?: string): CostBreakdownData[] {
+  const db = getDb();
+  const userFilter = username ? 'AND username = ?' : '';
+  const params = username ? [range.from, range.to, username] : [range.from, range.to];
+  // Security: groupBy only ever selects one of these fixed column lists.
+  const columns = groupBy === 'model' ? 'model, variant' : 'operation';
+
+  const rows = db.prepare(`
+    SELECT ${columns}, COUNT(*) as calls, SUM(amount_usd) as amount
+    FROM cost_ledger
+    WHERE created_at >= ? AND created_at < ? ${userFilter}
+    GROUP BY ${columns}
+    ORDER BY amount DESC
+  `).all(...params) as { model?: string; variant?: string | null; operation?: string; calls: number; amount: number }[];
+
+  return rows.map(row => {
+    if (groupBy === 'operation') {
+      return { key: row.operation!, label: OPERATION_LABELS[row.operation!] ?? row.operation!, calls: row.calls, amount: row.amount };
+    }
+    const label = getImageModelLabelByEndpoint(row.model!) ?? MODEL_LABELS[row.model!] ?? row.model!;
     return {
-      username: row.username,
-      total_generations: row.total_generations,
-      last_active: new Date(row.last_active_timestamp).toLocaleString(),
-      failed_count: row.failed_count,
-      failureRate: `${failureRate.toFixed(1)}%`
+      key: row.variant ? `${row.model}:${row.variant}` : row.model!,
+      label: row.variant ? `${label} (${row.variant})` : label,
+      calls: row.calls,
+      amount: row.amount,
     };
   });
+}
+
+/**
+ * Every ledger entry in the range as CSV, one row per provider call, for chargeback.
+ */
+export function getCostLedgerCsv(range: DateRange, username?: string): string {
+  const header = ['created_at', 'username', 'history_id', 'provider', 'operation', 'model', 'variant', 'amount_usd'];
+  const rows = findCostEntries({ ...range, username }).map(entry => [
+    new Date(entry.createdAt).toISOString(),
+    entry.username,
+    entry.historyId,
+    entry.provider,
+    entry.operation,
+    entry.model,
+    entry.variant,
+    entry.amount.toFixed(6),
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
 }
\ No newline at end of file
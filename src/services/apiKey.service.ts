@@ -7,6 +7,7 @@ import 'server-only';
 import * as dbService from './db';
 import * as settingsService from './settings.service';
 import { decrypt } from './encryption.service';
+import { isMockProviderMode } from '@/lib/provider-mode';
 
 type ApiService = 'gemini' | 'fal';
 
@@ -29,6 +30,11 @@ export async function getApiKeyForUser(username: string, service: ApiService, in
     throw new Error('Index (1, 2, or 3) is required for Gemini API key retrieval.');
   }
 
+  // The mock providers accept any key, so none has to be configured
+  if (isMockProviderMode()) {
+    return `mock-${service}-key`;
+  }
+
   const keyModeField = service === 'gemini' ? `gemini_api_key_${index}_mode` : 'fal_api_key_mode';
   const userApiKeyField = service === 'gemini' ? `gemini_api_key_${index}` : 'fal_api_key';
 
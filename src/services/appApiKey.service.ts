@@ -0,0 +1,75 @@
+// src/services/appApiKey.service.ts
+// Keys that external integrations use to call the public API v1 (not the Fal/Gemini provider keys,
+// see apiKey.service.ts).
+
+import 'server-only';
+
+import crypto from 'crypto';
+import * as dbService from './db';
+import type { ApiKey } from './db';
+import type { ApiKeyInput, ApiKeyScope } from '@/lib/api-schemas';
+
+/** Characters of the key kept in clear text so users can tell their keys apart. */
+const DISPLAY_PREFIX_LENGTH = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isApiKeyActive(key: ApiKey, now: number = Date.now()): boolean {
+  return !key.revoked && (key.expiresAt === undefined || key.expiresAt > now);
+}
+
+/**
+ * Lists API keys, for one user or (without a username) for every user.
+ */
+export function listApiKeys(username?: string): ApiKey[] {
+  return dbService.findApiKeys(username);
+}
+
+/**
+ * Creates a named, scoped key for the user.
+ * The plaintext key is returned exactly once; only its SHA-256 hash is stored.
+ */
+export function createApiKey(username: string, input: ApiKeyInput): { apiKey: ApiKey; key: string } {
+  const key = `rf_${crypto.randomBytes(24).toString('hex')}`;
+  const id = crypto.randomUUID();
+
+  dbService.insertApiKey({
+    id,
+    username,
+    name: input.name,
+    keyHash: dbService.hashApiKey(key),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: input.scopes,
+    expiresAt: input.expiresInDays ? Date.now() + input.expiresInDays * DAY_MS : undefined,
+  });
+  console.log(`API key ${id} ('${input.name}') created for ${username} with scopes ${input.scopes.join(', ')}.`);
+  return { apiKey: dbService.findApiKeyById(id)!, key };
+}
+
+/**
+ * Revokes a key. When a username is given, keys of other users are treated as missing.
+ * @returns True if the key was active and is now revoked.
+ */
+export function revokeApiKey(id: string, username?: string): boolean {
+  const key = dbService.findApiKeyById(id);
+  if (!key || (username && key.username !== username)) {
+    return false;
+  }
+  return dbService.revokeApiKey(id);
+}
+
+/**
+ * Resolves a presented key and records its use.
+ * @returns The key, or null if it is unknown, revoked or expired.
+ */
+export function verifyApiKey(key: string): ApiKey | null {
+  const apiKey = dbService.findApiKeyByHash(dbService.hashApiKey(key));
+  if (!apiKey || !isApiKeyActive(apiKey)) {
+    return null;
+  }
+  dbService.touchApiKeyLastUsed(apiKey.id);
+  return apiKey;
+}
+
+export function hasScope(key: ApiKey, scope: ApiKeyScope): boolean {
+  return key.scopes.includes(scope);
+}
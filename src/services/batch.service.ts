@@ -0,0 +1,102 @@
+// src/services/batch.service.ts
+import 'server-only';
+
+import * as dbService from '@/services/db';
+import type { ApiBatch } from '@/services/db';
+import type { HistoryItem, JobStatus } from '@/lib/types';
+import { toAbsoluteImageUrls } from '@/services/media-access.service';
+import { publishWebhookEvent, sendWebhook } from '@/services/webhook.service';
+
+export interface BatchItemSummary {
+  jobId: string;
+  externalRef?: string;
+  status: JobStatus;
+  generatedImageUrls?: string[];
+  error?: string;
+}
+
+export interface BatchSummary {
+  batchId: string;
+  status: ApiBatch['status'];
+  createdAt: string;
+  completedAt?: string;
+  progress: Record<JobStatus, number> & { total: number; finished: number };
+  items: BatchItemSummary[];
+}
+
+function toItemSummary(item: HistoryItem): BatchItemSummary {
+  // Same fallback as the status endpoint for rows without a lifecycle status
+  const status: JobStatus = item.jobStatus
+    ?? (item.status === 'processing' ? 'running' : item.status ?? 'completed');
+  const hasImages = status === 'completed' || status === 'partial';
+
+  return {
+    jobId: item.id,
+    externalRef: item.externalRef,
+    status,
+    ...(hasImages && {
+      generatedImageUrls: toAbsoluteImageUrls(item.editedImageUrls).filter((url): url is string => !!url),
+    }),
+    ...(status !== 'completed' && item.error && { error: item.error }),
+  };
+}
+
+/**
+ * Aggregates the progress of a batch and the status of each of its items.
+ */
+export function buildBatchSummary(batch: ApiBatch): BatchSummary {
+  const items = dbService.findHistoryByBatchId(batch.id).map(toItemSummary);
+
+  const progress: BatchSummary['progress'] = {
+    total: batch.itemCount,
+    finished: 0,
+    queued: 0,
+    running: 0,
+    completed: 0,
+    partial: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  for (const item of items) {
+    progress[item.status]++;
+    if (item.status !== 'queued' && item.status !== 'running') {
+      progress.finished++;
+    }
+  }
+
+  return {
+    batchId: batch.id,
+    status: batch.status,
+    createdAt: new Date(batch.createdAt).toISOString(),
+    ...(batch.completedAt && { completedAt: new Date(batch.completedAt).toISOString() }),
+    progress,
+    items,
+  };
+}
+
+/**
+ * Completes the batch once its last item has finished and sends the batch webhook
+ * (or publishes `batch.completed` to the owner's endpoints).
+ * Called whenever a batch item settles; only the call that completes the batch sends it.
+ */
+export async function completeBatchIfFinished(batchId: string): Promise<void> {
+  if (!dbService.completeBatchIfFinished(batchId)) {
+    return;
+  }
+  const batch = dbService.findBatchById(batchId);
+  if (!batch) {
+    return;
+  }
+  console.log(`API Batch ${batchId} finished (${batch.itemCount} item(s)).`);
+
+  // A per-request webhookUrl overrides the user's registered endpoints
+  try {
+    if (batch.webhookUrl) {
+      await sendWebhook(batch.webhookUrl, buildBatchSummary(batch), { batchId });
+    } else {
+      await publishWebhookEvent(batch.username, 'batch.completed', buildBatchSummary(batch), { batchId });
+    }
+  } catch (webhookErr) {
+    console.error(`Failed to send webhook for batch ${batchId}:`, webhookErr);
+  }
+}
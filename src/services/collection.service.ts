@@ -0,0 +1,108 @@
+// src/services/collection.service.ts
+import 'server-only';
+
+import crypto from 'crypto';
+import * as dbService from '@/services/db';
+import type { Collection } from '@/services/db';
+import type { CollectionInput } from '@/lib/collections';
+
+function assertNameAvailable(username: string, name: string, exceptId?: string): void {
+  const existing = dbService.findCollectionByName(username, name);
+  if (existing && existing.id !== exceptId) {
+    throw new Error(`A collection named "${existing.name}" already exists.`);
+  }
+}
+
+/**
+ * @returns The history item, or null if it does not exist or belongs to another user.
+ */
+function getOwnHistoryItem(username: string, historyId: string) {
+  const item = dbService.findHistoryItemById(historyId);
+  return item?.username === username ? item : null;
+}
+
+export function listCollections(username: string): Collection[] {
+  return dbService.findCollectionsByUsername(username);
+}
+
+/**
+ * @returns The collection, or null if it does not exist or belongs to another user.
+ */
+export function getCollection(username: string, id: string): Collection | null {
+  const collection = dbService.findCollectionById(id);
+  return collection?.username === username ? collection : null;
+}
+
+export function createCollection(username: string, input: CollectionInput): Collection {
+  assertNameAvailable(username, input.name);
+  const id = crypto.randomUUID();
+  dbService.insertCollection({ id, username, name: input.name, description: input.description || undefined });
+  return dbService.findCollectionById(id)!;
+}
+
+/**
+ * Renames a collection or changes its description; an empty description removes it.
+ * @returns Null if the collection does not exist or belongs to another user.
+ */
+export function updateCollection(username: string, id: string, input: Partial<CollectionInput>): Collection | null {
+  if (!getCollection(username, id)) {
+    return null;
+  }
+  if (input.name !== undefined) {
+    assertNameAvailable(username, input.name, id);
+  }
+  dbService.updateCollection(id, {
+    name: input.name,
+    description: input.description === undefined ? undefined : input.description || null,
+  });
+  return dbService.findCollectionById(id);
+}
+
+/**
+ * Deletes a collection. The history items in it are kept.
+ * @returns False if the collection does not exist or belongs to another user.
+ */
+export function deleteCollection(username: string, id: string): boolean {
+  if (!getCollection(username, id)) {
+    return false;
+  }
+  return dbService.deleteCollection(id) > 0;
+}
+
+/**
+ * The IDs of the user's collections that contain a history item.
+ */
+export function getCollectionIdsForItem(username: string, historyId: string): string[] {
+  if (!getOwnHistoryItem(username, historyId)) {
+    return [];
+  }
+  return dbService.findCollectionIdsForHistoryItem(historyId);
+}
+
+/**
+ * Adds or removes a history item. Both must belong to the user.
+ * @returns False if the collection or the item was not found.
+ */
+export function setCollectionMembership(username: string, collectionId: string, historyId: string, isMember: boolean): boolean {
+  if (!getCollection(username, collectionId) || !getOwnHistoryItem(username, historyId)) {
+    return false;
+  }
+  if (isMember) {
+    dbService.addHistoryItemToCollection(collectionId, historyId);
+  } else {
+    dbService.removeHistoryItemFromCollection(collectionId, historyId);
+  }
+  return true;
+}
+
+/**
+ * Replaces the tags of a history item with an already normalized set.
+ * @returns False if the item does not exist or belongs to another user.
+ */
+export function setHistoryItemTags(username: string, historyId: string, tags: string[]): boolean {
+  if (!getOwnHistoryItem(username, historyId)) {
+    return false;
+  }
+  dbService.updateHistoryItem(historyId, { tags });
+  return true;
+}
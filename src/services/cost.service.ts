@@ -0,0 +1,58 @@
+// src/services/cost.service.ts
+import 'server-only';
+
+import * as dbService from '@/services/db';
+import type { CostEntry } from '@/services/db';
+
+/**
+ * Thrown when a generation would take a user over their monthly budget.
+ * The message is safe to show to the user.
+ */
+export class BudgetExceededError extends Error {
+  constructor(public readonly budget: number, public readonly spent: number) {
+    super(`Your monthly budget of $${budget.toFixed(2)} has been reached ($${spent.toFixed(2)} spent). Please contact an administrator.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Start of the current calendar month (UTC); budgets reset at this point.
+ */
+export function getMonthStart(now: number = Date.now()): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * Records the estimated cost of a provider call.
+ * Never throws: a ledger failure must not fail a generation that was already paid for.
+ */
+export function recordCost(entry: Omit<CostEntry, 'id' | 'createdAt'>): void {
+  try {
+    dbService.insertCostEntry(entry);
+  } catch (error) {
+    console.error(`Failed to record ${entry.operation} cost for ${entry.username}:`, error);
+  }
+}
+
+export function getMonthlySpend(username: string, now: number = Date.now()): number {
+  return dbService.sumCostsForUser(username, getMonthStart(now));
+}
+
+/**
+ * Refuses work whose estimated cost would take the user over their monthly budget.
+ * Users without a budget are never refused.
+ * @throws BudgetExceededError
+ */
+export function assertWithinBudget(username: string, estimatedCost: number): void {
+  const budget = dbService.findUserByUsername(username)?.monthly_budget_usd;
+  if (budget === undefined) {
+    return;
+  }
+
+  const spent = getMonthlySpend(username);
+  if (spent + estimatedCost > budget) {
+    console.warn(`Refusing work for ${username}: $${spent.toFixed(3)} spent + $${estimatedCost.toFixed(3)} estimated exceeds the $${budget} budget.`);
+    throw new BudgetExceededError(budget, spent);
+  }
+}
@@ -0,0 +1,57 @@
+import Database from 'better-sqlite3';
+import { getDb } from '../connection';
+import { insertBatch, findBatchById, completeBatchIfFinished, findUnfinishedBatchIds } from '../batch.repository';
+
+jest.mock('../connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+describe('batch.repository', () => {
+  let db: Database.Database;
+
+  function addItem(id: string, jobStatus: string) {
+    db.prepare(`INSERT INTO history (id, batch_id, job_status) VALUES (?, 'batch-1', ?)`).run(id, jobStatus);
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE history (id TEXT PRIMARY KEY, batch_id TEXT, job_status TEXT);
+      CREATE TABLE batches (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, webhook_url TEXT,
+        status TEXT NOT NULL DEFAULT 'processing', item_count INTEGER NOT NULL,
+        created_at INTEGER NOT NULL, completed_at INTEGER
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+    insertBatch({ id: 'batch-1', username: 'alice', webhookUrl: 'https://example.com/hook', itemCount: 3 });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should not complete a batch while items are unfinished or not yet created', () => {
+    addItem('a', 'completed');
+    addItem('b', 'running');
+    expect(completeBatchIfFinished('batch-1')).toBe(false);
+
+    db.prepare(`UPDATE history SET job_status = 'failed' WHERE id = 'b'`).run();
+    // Third item has not been inserted yet
+    expect(completeBatchIfFinished('batch-1')).toBe(false);
+    expect(findUnfinishedBatchIds()).toEqual(['batch-1']);
+  });
+
+  it('should complete a finished batch exactly once', () => {
+    addItem('a', 'completed');
+    addItem('b', 'partial');
+    addItem('c', 'cancelled');
+
+    expect(completeBatchIfFinished('batch-1')).toBe(true);
+    expect(completeBatchIfFinished('batch-1')).toBe(false);
+    expect(findBatchById('batch-1')).toMatchObject({ status: 'completed', webhookUrl: 'https://example.com/hook', itemCount: 3 });
+    expect(findUnfinishedBatchIds()).toEqual([]);
+  });
+});
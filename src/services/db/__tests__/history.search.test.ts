@@ -0,0 +1,215 @@
+/**
+ * @jest-environment node
+ */
+import Database from 'better-sqlite3';
+import { getDb } from '../connection';
+import { insertHistoryItem, updateHistoryItem, updateHistoryImageFeedback, deleteHistoryItemById, searchHistoryForUser, findHistoryItemById } from '../history.repository';
+import { insertCollection, addHistoryItemToCollection, findCollectionById } from '../collection.repository';
+import type { HistoryItem, ModelAttributes } from '@/lib/types';
+import { readHistorySearchFilters, type HistorySearchFilters } from '@/lib/history-search';
+
+jest.mock('../connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+const DAY = Date.UTC(2026, 2, 10);
+
+describe('searchHistoryForUser', () => {
+  // One database for the suite: the repository caches prepared statements
+  const db = new Database(':memory:');
+
+  function addItem(id: string, overrides: Partial<HistoryItem> = {}) {
+    insertHistoryItem({
+      id,
+      username: 'alice',
+      timestamp: DAY,
+      constructedPrompt: 'A model in a studio',
+      originalClothingUrl: '/uploads/a.png',
+      editedImageUrls: [],
+      settingsMode: 'basic',
+      attributes: { fashionStyle: 'default_style', background: 'studio_white' } as ModelAttributes,
+      status: 'completed',
+      imageGenerationModel: 'fal_gemini_2_5',
+      generation_mode: 'creative',
+      ...overrides,
+    });
+  }
+
+  function search(filters: HistorySearchFilters, type?: 'image' | 'video') {
+    return searchHistoryForUser({ username: 'alice', filters, page: 1, limit: 10, type }).items.map(item => item.id).sort();
+  }
+
+  beforeAll(() => {
+    db.exec(`
+      CREATE TABLE history (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, timestamp INTEGER NOT NULL, constructedPrompt TEXT,
+        originalClothingUrl TEXT, settingsMode TEXT, attributes TEXT, videoGenerationParams TEXT,
+        status TEXT DEFAULT 'completed', error TEXT, webhook_url TEXT, image_generation_model TEXT,
+        generation_mode TEXT, job_status TEXT, batch_id TEXT, external_ref TEXT, classification TEXT
+      );
+      CREATE TABLE history_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, history_id TEXT NOT NULL, url TEXT NOT NULL,
+        type TEXT NOT NULL, slot_index INTEGER NOT NULL, is_favorite INTEGER NOT NULL DEFAULT 0, rating INTEGER
+      );
+      CREATE TABLE history_video_slots (
+        history_id TEXT NOT NULL, slot_index INTEGER NOT NULL, params TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'processing',
+        error TEXT, seed INTEGER, local_video_url TEXT, fal_request_id TEXT, fal_submitted_at INTEGER, media TEXT, trimmed_from TEXT,
+        PRIMARY KEY (history_id, slot_index)
+      );
+      CREATE TABLE user_uploads (username TEXT, file_url TEXT, timestamp INTEGER);
+      CREATE TABLE collections (
+        id TEXT PRIMARY KEY, username TEXT NOT NULL, name TEXT NOT NULL COLLATE NOCASE, description TEXT,
+        created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL, UNIQUE(username, name)
+      );
+      CREATE TABLE collection_items (
+        collection_id TEXT NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+        history_id TEXT NOT NULL REFERENCES history(id) ON DELETE CASCADE,
+        added_at INTEGER NOT NULL, PRIMARY KEY (collection_id, history_id)
+      );
+      CREATE TABLE history_tags (
+        history_id TEXT NOT NULL REFERENCES history(id) ON DELETE CASCADE, tag TEXT NOT NULL,
+        PRIMARY KEY (history_id, tag)
+      );
+      CREATE VIRTUAL TABLE history_fts USING fts5(
+        history_id UNINDEXED, prompt, classification, tags,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+      CREATE TRIGGER history_fts_after_insert AFTER INSERT ON history BEGIN
+        DELETE FROM history_fts WHERE history_id = new.id;
+        INSERT INTO history_fts (history_id, prompt, classification, tags)
+        VALUES (new.id, new.constructedPrompt, new.classification, '');
+      END;
+      CREATE TRIGGER history_fts_after_update AFTER UPDATE OF constructedPrompt, classification ON history
+      WHEN old.constructedPrompt IS NOT new.constructedPrompt OR old.classification IS NOT new.classification BEGIN
+        UPDATE history_fts SET prompt = new.constructedPrompt, classification = new.classification
+        WHERE history_id = new.id;
+      END;
+      CREATE TRIGGER history_fts_after_delete AFTER DELETE ON history BEGIN
+        DELETE FROM history_fts WHERE history_id = old.id;
+      END;
+      CREATE TRIGGER history_fts_after_tag_insert AFTER INSERT ON history_tags BEGIN
+        UPDATE history_fts SET tags = (SELECT group_concat(tag, ' ') FROM history_tags WHERE history_id = new.history_id)
+        WHERE history_id = new.history_id;
+      END;
+      CREATE TRIGGER history_fts_after_tag_delete AFTER DELETE ON history_tags BEGIN
+        UPDATE history_fts SET tags = COALESCE((SELECT group_concat(tag, ' ') FROM history_tags WHERE history_id = old.history_id), '')
+        WHERE history_id = old.history_id;
+      END;
+    `);
+    db.pragma('foreign_keys = ON');
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  beforeEach(() => {
+    db.exec('DELETE FROM collections; DELETE FROM history; DELETE FROM history_fts;');
+  });
+
+  afterAll(() => {
+    db.close();
+  });
+
+  it('matches words as prefixes in prompts and classifications', () => {
+    addItem('beach', { constructedPrompt: 'A model walking along a sunlit beach' });
+    addItem('studio', { constructedPrompt: 'Studio portrait', generation_mode: 'studio' });
+    updateHistoryItem('studio', { classification: 'ribbed cropped cardigan' });
+
+    expect(search({ q: 'sunl' })).toEqual(['beach']);
+    expect(search({ q: 'cardigan' })).toEqual(['studio']);
+    expect(search({ q: 'model cardigan' })).toEqual([]);
+    expect(search({ q: '"OR' })).toEqual([]);
+  });
+
+  it('keeps the index in sync when prompts change, items are replaced or deleted', () => {
+    addItem('a', { constructedPrompt: 'pending' });
+    updateHistoryItem('a', { constructedPrompt: 'linen trousers on a rooftop' });
+    expect(search({ q: 'pending' })).toEqual([]);
+    expect(search({ q: 'rooftop' })).toEqual(['a']);
+
+    addItem('a', { constructedPrompt: 'velvet blazer' });
+    expect(search({ q: 'rooftop' })).toEqual([]);
+    expect(search({ q: 'velvet' })).toEqual(['a']);
+
+    deleteHistoryItemById('a');
+    expect(search({ q: 'velvet' })).toEqual([]);
+  });
+
+  it('filters by date range, status, mode, model and attributes', () => {
+    addItem('old', { timestamp: DAY - 2 * 24 * 60 * 60 * 1000 });
+    addItem('failed', { status: 'failed', generation_mode: 'studio' });
+    addItem('banana', { imageGenerationModel: 'fal_nano_banana_pro', attributes: { fashionStyle: 'lifestyle_street', background: 'urban_rooftop' } as ModelAttributes });
+    addItem('video', { videoGenerationParams: { status: 'processing' } as HistoryItem['videoGenerationParams'] });
+    addItem('other-user', { username: 'bob' });
+
+    expect(search({ from: '2026-03-10', to: '2026-03-10' })).toEqual(['banana', 'failed', 'video']);
+    expect(search({ to: '2026-03-09' })).toEqual(['old']);
+    expect(search({ status: 'failed' })).toEqual(['failed']);
+    expect(search({ status: 'processing' })).toEqual(['video']);
+    expect(search({ generation_mode: 'studio' })).toEqual(['failed']);
+    expect(search({ model: 'fal_nano_banana_pro' })).toEqual(['banana']);
+    expect(search({ fashionStyle: 'lifestyle_street', background: 'urban_rooftop' })).toEqual(['banana']);
+    expect(search({ background: 'studio_white' }, 'image')).toEqual(['failed', 'old']);
+  });
+
+  it('searches and filters by tags', () => {
+    addItem('tagged', { tags: ['client-x'] });
+    addItem('untagged');
+
+    expect(search({ q: 'client' })).toEqual(['tagged']);
+    expect(search({ tag: 'client-x' })).toEqual(['tagged']);
+
+    updateHistoryItem('untagged', { tags: ['approved', 'ss26-lookbook'] });
+    updateHistoryItem('tagged', { tags: [] });
+
+    expect(search({ q: 'lookbook' })).toEqual(['untagged']);
+    expect(search(readHistorySearchFilters(new URLSearchParams('tag=SS26 Lookbook')))).toEqual(['untagged']);
+    expect(search({ q: 'client' })).toEqual([]);
+    expect(findHistoryItemById('untagged')?.tags).toEqual(['approved', 'ss26-lookbook']);
+  });
+
+  it('limits results to a collection', () => {
+    const collectionId = '6f1c1f5e-8a0e-4b7a-9d1c-3f2b1a0e9c11';
+    addItem('in-collection');
+    addItem('elsewhere');
+    insertCollection({ id: collectionId, username: 'alice', name: 'SS26 lookbook' });
+
+    expect(addHistoryItemToCollection(collectionId, 'in-collection')).toBe(true);
+    expect(addHistoryItemToCollection(collectionId, 'in-collection')).toBe(false);
+    expect(search({ collection: collectionId })).toEqual(['in-collection']);
+    expect(findCollectionById(collectionId)?.itemCount).toBe(1);
+
+    deleteHistoryItemById('in-collection');
+    expect(findCollectionById(collectionId)?.itemCount).toBe(0);
+  });
+
+  it('stores image feedback per slot and filters by favorites', () => {
+    addItem('rated', { editedImageUrls: [null, '/uploads/b.png', '/uploads/c.png'] });
+    addItem('unrated', { editedImageUrls: ['/uploads/d.png'] });
+
+    expect(updateHistoryImageFeedback('rated', 1, { favorite: true, rating: 4 })).toBe(true);
+    expect(updateHistoryImageFeedback('rated', 2, { rating: 2 })).toBe(true);
+    expect(updateHistoryImageFeedback('rated', 0, { favorite: true })).toBe(false);
+    expect(search({ favorites: 'true' })).toEqual(['rated']);
+
+    // Replacing an image (e.g. after upscaling) keeps the slot's feedback
+    updateHistoryItem('rated', { editedImageUrls: [null, '/uploads/b-upscaled.png', '/uploads/c.png'] });
+    updateHistoryImageFeedback('rated', 2, { rating: null });
+    expect(findHistoryItemById('rated')?.imageFeedback).toEqual([
+      { slotIndex: 1, favorite: true, rating: 4 },
+      { slotIndex: 2, favorite: false, rating: null },
+    ]);
+  });
+
+  it('paginates matching items newest first', () => {
+    for (let i = 0; i < 3; i++) {
+      addItem(`item-${i}`, { timestamp: DAY + i });
+    }
+
+    const page = searchHistoryForUser({ username: 'alice', filters: {}, page: 2, limit: 2 });
+
+    expect(page.items.map(item => item.id)).toEqual(['item-0']);
+    expect(page.totalCount).toBe(3);
+    expect(page.hasMore).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import Database from 'better-sqlite3';
+import { getDb } from '../connection';
+import {
+  insertJob,
+  claimNextJob,
+  completeJob,
+  markJobWaiting,
+  findJobById,
+  failJob,
+  cancelJob,
+  requeueInterruptedJobs,
+  failOrphanedProcessingHistory,
+  expireWaitingJobs,
+} from '../job.repository';
+
+jest.mock('../connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+const LIMITS = { globalLimit: 2, perUserLimit: 1, types: ['image_generation'] };
+
+describe('job.repository', () => {
+  let db: Database.Database;
+  let clock: number;
+
+  function addJob(id: string, username: string, priority = 0, historyId: string | null = null) {
+    jest.spyOn(Date, 'now').mockReturnValue(clock++);
+    insertJob({ id, type: 'image_generation', username, historyId, payload: { id }, priority });
+  }
+
+  beforeEach(() => {
+    clock = 1000;
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE history (
+        id TEXT PRIMARY KEY, username TEXT, status TEXT, error TEXT,
+        videoGenerationParams TEXT, job_status TEXT
+      );
+      CREATE TABLE jobs (
+        id TEXT PRIMARY KEY, type TEXT NOT NULL, username TEXT NOT NULL, history_id TEXT,
+        payload TEXT, status TEXT NOT NULL DEFAULT 'queued', priority INTEGER NOT NULL DEFAULT 0,
+        attempts INTEGER NOT NULL DEFAULT 0, result TEXT, error TEXT,
+        created_at INTEGER NOT NULL, started_at INTEGER, finished_at INTEGER, external_id TEXT
+      );
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should claim higher priority jobs first, then the oldest', () => {
+    addJob('api-1', 'alice', 0);
+    addJob('ui-1', 'bob', 10);
+
+    expect(claimNextJob(LIMITS)?.id).toBe('ui-1');
+    expect(claimNextJob(LIMITS)?.id).toBe('api-1');
+  });
+
+  it('should skip users at their concurrency limit', () => {
+    addJob('a-1', 'alice');
+    addJob('a-2', 'alice');
+    addJob('b-1', 'bob');
+
+    expect(claimNextJob(LIMITS)?.id).toBe('a-1');
+    expect(claimNextJob(LIMITS)?.id).toBe('b-1');
+    // Global limit of 2 reached
+    expect(claimNextJob(LIMITS)).toBeNull();
+
+    completeJob('a-1', { ok: true });
+    expect(claimNextJob(LIMITS)?.id).toBe('a-2');
+  });
+
+  it('should count waiting jobs against the limits', () => {
+    addJob('a-1', 'alice');
+    addJob('a-2', 'alice');
+
+    claimNextJob(LIMITS);
+    markJobWaiting('a-1');
+    expect(claimNextJob(LIMITS)).toBeNull();
+  });
+
+  it('should ignore late results for cancelled jobs', () => {
+    addJob('a-1', 'alice');
+    claimNextJob(LIMITS);
+
+    expect(cancelJob('a-1')).toBe(true);
+    completeJob('a-1', { ok: true });
+    failJob('a-1', 'late failure');
+    markJobWaiting('a-1');
+
+    expect(findJobById('a-1')).toMatchObject({ status: 'cancelled', result: undefined, error: undefined });
+    expect(cancelJob('a-1')).toBe(false);
+  });
+
+  it('should expire waiting jobs after the timeout of their type', () => {
+    const MINUTE = 60 * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(clock);
+    insertJob({ id: 'video-1', type: 'video_generation', username: 'alice', historyId: null, payload: {}, priority: 0 });
+    addJob('image-1', 'bob');
+    const limits = { ...LIMITS, types: ['image_generation', 'video_generation'] };
+    claimNextJob(limits);
+    claimNextJob(limits);
+    markJobWaiting('video-1');
+    markJobWaiting('image-1');
+
+    jest.spyOn(Date, 'now').mockReturnValue(clock + 45 * MINUTE);
+    expect(expireWaitingJobs(30 * MINUTE, { video_generation: 120 * MINUTE })).toEqual(['image-1']);
+    expect(findJobById('video-1')?.status).toBe('waiting');
+
+    // The reconciler completes the clip after the default timeout
+    completeJob('video-1');
+    expect(findJobById('video-1')?.status).toBe('completed');
+    expect(findJobById('image-1')?.status).toBe('failed');
+  });
+
+  it('should requeue interrupted jobs and fail those out of attempts', () => {
+    addJob('a-1', 'alice');
+    addJob('b-1', 'bob');
+    claimNextJob(LIMITS);
+    claimNextJob(LIMITS);
+    db.prepare(`UPDATE jobs SET attempts = 3 WHERE id = 'b-1'`).run();
+
+    expect(requeueInterruptedJobs(3)).toEqual({ requeued: 1, failed: 1 });
+    expect(findJobById('a-1')?.status).toBe('queued');
+    expect(findJobById('b-1')?.status).toBe('failed');
+  });
+
+  it('should fail image history stuck in processing without an active job', () => {
+    db.exec(`
+      INSERT INTO history (id, username, status, job_status) VALUES ('orphan', 'alice', 'processing', 'running');
+      INSERT INTO history (id, username, status) VALUES ('queued', 'alice', 'processing');
+      INSERT INTO history (id, username, status, videoGenerationParams) VALUES ('video', 'alice', 'processing', '{}');
+    `);
+    addJob('job-1', 'alice', 0, 'queued');
+
+    expect(failOrphanedProcessingHistory()).toBe(1);
+    const orphan = db.prepare(`SELECT status, job_status FROM history WHERE id = 'orphan'`).get();
+    expect(orphan).toEqual({ status: 'failed', job_status: 'failed' });
+  });
+});
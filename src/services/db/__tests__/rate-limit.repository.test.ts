@@ -0,0 +1,51 @@
+import Database from 'better-sqlite3';
+import { getDb } from '../connection';
+import { consumeTokenBuckets, type TokenBucketSpec } from '../rate-limit.repository';
+
+jest.mock('../connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+describe('rate-limit.repository', () => {
+  let db: Database.Database;
+
+  // 2 tokens, refilling one token per second
+  const user: TokenBucketSpec = { key: 'user:alice', capacity: 2, refillPerMs: 1 / 1000, cost: 1 };
+  const apiKey: TokenBucketSpec = { key: 'api_key:k1', capacity: 5, refillPerMs: 5 / 1000, cost: 1 };
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`CREATE TABLE rate_limit_buckets (key TEXT PRIMARY KEY, tokens REAL NOT NULL, updated_at INTEGER NOT NULL)`);
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should allow bursts up to the capacity and refill over time', () => {
+    expect(consumeTokenBuckets([user], 0).allowed).toBe(true);
+    expect(consumeTokenBuckets([user], 0).allowed).toBe(true);
+
+    const rejected = consumeTokenBuckets([user], 500);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.buckets[0].tokens).toBeCloseTo(0.5);
+
+    expect(consumeTokenBuckets([user], 1000).allowed).toBe(true);
+    // Refill is capped at the capacity
+    expect(consumeTokenBuckets([user], 60_000).buckets[0].tokens).toBeCloseTo(1);
+  });
+
+  it('should take nothing from any bucket when one of them is short', () => {
+    consumeTokenBuckets([user], 0);
+    consumeTokenBuckets([user], 0);
+
+    expect(consumeTokenBuckets([apiKey, user], 0).allowed).toBe(false);
+
+    const { allowed, buckets } = consumeTokenBuckets([apiKey], 0);
+    expect(allowed).toBe(true);
+    expect(buckets[0].tokens).toBe(4);
+  });
+});
@@ -0,0 +1,73 @@
+import Database from 'better-sqlite3';
+import { getDb } from '../connection';
+import { updateVideoSlot, addVideoSlot, findVideoSlotByFalRequestId, setVideoSlotFalRequest } from '../video-slot.repository';
+
+jest.mock('../connection', () => ({
+  getDb: jest.fn(),
+}));
+
+jest.mock('server-only', () => ({}));
+
+describe('video-slot.repository', () => {
+  let db: Database.Database;
+
+  const videoParams = () => JSON.parse((db.prepare(`SELECT videoGenerationParams FROM history WHERE id = 'h1'`).get() as { videoGenerationParams: string }).videoGenerationParams);
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE history (id TEXT PRIMARY KEY, videoGenerationParams TEXT);
+      CREATE TABLE history_images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, history_id TEXT NOT NULL, url TEXT NOT NULL, type TEXT NOT NULL, slot_index INTEGER NOT NULL
+      );
+      CREATE TABLE history_video_slots (
+        history_id TEXT NOT NULL, slot_index INTEGER NOT NULL, params TEXT NOT NULL, status TEXT NOT NULL DEFAULT 'processing',
+        error TEXT, seed INTEGER, local_video_url TEXT, fal_request_id TEXT, fal_submitted_at INTEGER, media TEXT, trimmed_from TEXT,
+        PRIMARY KEY (history_id, slot_index)
+      );
+      INSERT INTO history (id, videoGenerationParams) VALUES ('h1', '{"prompt":"walk","seed":-1,"status":"processing"}');
+      INSERT INTO history_video_slots (history_id, slot_index, params) VALUES ('h1', 0, '{}'), ('h1', 1, '{}');
+    `);
+    (getDb as jest.Mock).mockReturnValue(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('fills one slot and summarizes the clips on the item', () => {
+    setVideoSlotFalRequest('h1', 1, 'req-1', 1000);
+    expect(findVideoSlotByFalRequestId('req-1')).toEqual({ historyId: 'h1', slotIndex: 1 });
+
+    expect(updateVideoSlot('h1', 1, { status: 'completed', seed: 7, localVideoUrl: '/uploads/generated_videos/b.mp4', videoUrl: 'https://fal.media/b.mp4' })).toBe(true);
+    expect(videoParams()).toEqual({ prompt: 'walk', seed: 7, status: 'processing', localVideoUrl: '/uploads/generated_videos/b.mp4' });
+    expect(db.prepare(`SELECT slot_index, url FROM history_images WHERE type = 'generated_video'`).all())
+      .toEqual([{ slot_index: 1, url: 'https://fal.media/b.mp4' }]);
+
+    updateVideoSlot('h1', 0, { status: 'failed', error: 'Content policy' });
+    expect(videoParams()).toMatchObject({ status: 'completed', localVideoUrl: '/uploads/generated_videos/b.mp4' });
+    expect(videoParams().error).toBeUndefined();
+
+    expect(updateVideoSlot('h1', 5, { status: 'completed' })).toBe(false);
+  });
+
+  it('fails the item only once every clip has failed', () => {
+    updateVideoSlot('h1', 0, { status: 'failed', error: 'Content policy' });
+    expect(videoParams().status).toBe('processing');
+
+    updateVideoSlot('h1', 1, { status: 'failed', error: 'Timed out' });
+    expect(videoParams()).toMatchObject({ status: 'failed', error: 'Content policy', seed: -1 });
+  });
+
+  it('summarizes the media details of the first finished clip and appends trimmed clips', () => {
+    updateVideoSlot('h1', 0, { status: 'completed', localVideoUrl: '/uploads/generated_videos/a.mp4', media: { posterUrl: '/uploads/video_posters/a.jpg', previewUrl: '/uploads/video_previews/a.webm' } });
+    updateVideoSlot('h1', 0, { media: { durationSeconds: 5 } });
+    expect(videoParams().media).toEqual({ durationSeconds: 5 });
+
+    const trimmedFrom = { sourceSlotIndex: 0, start: 1, end: 3 };
+    expect(addVideoSlot('h1', { params: { prompt: 'walk' } as any, status: 'completed', localVideoUrl: '/uploads/generated_videos/b.mp4', trimmedFrom })).toBe(2);
+    expect(db.prepare(`SELECT status, local_video_url, trimmed_from FROM history_video_slots WHERE slot_index = 2`).get())
+      .toEqual({ status: 'completed', local_video_url: '/uploads/generated_videos/b.mp4', trimmed_from: JSON.stringify(trimmedFrom) });
+    expect(videoParams()).toMatchObject({ status: 'processing', localVideoUrl: '/uploads/generated_videos/a.mp4' });
+  });
+});
@@ -0,0 +1,92 @@
+import 'server-only';
+
+import type { ApiKeyScope } from '@/lib/api-schemas';
+import { getDb } from './connection';
+import { safeJsonParse } from './json';
+
+/** An API v1 key. Only its SHA-256 hash is stored; `prefix` identifies it in listings. */
+export interface ApiKey {
+  id: string;
+  username: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+  revoked: boolean;
+}
+
+function rowToApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    username: row.username,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: safeJsonParse<ApiKeyScope[]>(row.scopes, []),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? undefined,
+    lastUsedAt: row.last_used_at ?? undefined,
+    revoked: row.revoked === 1,
+  };
+}
+
+// --- Public API ---
+
+export function insertApiKey(
+  key: Pick<ApiKey, 'id' | 'username' | 'name' | 'prefix' | 'scopes' | 'expiresAt'> & { keyHash: string }
+): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO api_keys (id, username, name, key_hash, prefix, scopes, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    key.id,
+    key.username,
+    key.name,
+    key.keyHash,
+    key.prefix,
+    JSON.stringify(key.scopes),
+    Date.now(),
+    key.expiresAt ?? null
+  );
+}
+
+export function findApiKeyById(id: string): ApiKey | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id);
+  return row ? rowToApiKey(row) : null;
+}
+
+/**
+ * Looks a key up by the hash of the presented key, whether or not it is still usable.
+ */
+export function findApiKeyByHash(keyHash: string): ApiKey | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash);
+  return row ? rowToApiKey(row) : null;
+}
+
+/**
+ * Lists keys newest first, for one user or (without a username) for everyone.
+ */
+export function findApiKeys(username?: string): ApiKey[] {
+  const db = getDb();
+  const rows = username
+    ? db.prepare('SELECT * FROM api_keys WHERE username = ? ORDER BY created_at DESC').all(username)
+    : db.prepare('SELECT * FROM api_keys ORDER BY created_at DESC').all();
+  return rows.map(rowToApiKey);
+}
+
+export function touchApiKeyLastUsed(id: string): void {
+  const db = getDb();
+  db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(Date.now(), id);
+}
+
+/**
+ * @returns True if the key was active and is now revoked.
+ */
+export function revokeApiKey(id: string): boolean {
+  const db = getDb();
+  return db.prepare('UPDATE api_keys SET revoked = 1 WHERE id = ? AND revoked = 0').run(id).changes > 0;
+}
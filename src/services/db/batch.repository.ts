@@ -0,0 +1,73 @@
+import 'server-only';
+
+import { getDb } from './connection';
+
+export type BatchStatus = 'processing' | 'completed';
+
+export interface ApiBatch {
+  id: string;
+  username: string;
+  webhookUrl?: string;
+  status: BatchStatus;
+  itemCount: number;
+  createdAt: number;
+  completedAt?: number;
+}
+
+function rowToApiBatch(row: any): ApiBatch {
+  return {
+    id: row.id,
+    username: row.username,
+    webhookUrl: row.webhook_url || undefined,
+    status: row.status as BatchStatus,
+    itemCount: row.item_count,
+    createdAt: row.created_at,
+    completedAt: row.completed_at || undefined,
+  };
+}
+
+// --- Public API ---
+
+export function insertBatch(batch: Pick<ApiBatch, 'id' | 'username' | 'webhookUrl' | 'itemCount'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO batches (id, username, webhook_url, status, item_count, created_at)
+    VALUES (?, ?, ?, 'processing', ?, ?)
+  `).run(batch.id, batch.username, batch.webhookUrl || null, batch.itemCount, Date.now());
+}
+
+export function findBatchById(id: string): ApiBatch | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM batches WHERE id = ?').get(id);
+  return row ? rowToApiBatch(row) : null;
+}
+
+/**
+ * Marks a batch completed once every item has reached a final job status.
+ * The check and the update happen in one statement, so when several items finish
+ * at the same time exactly one caller sees `true` (and sends the batch webhook).
+ * @returns True if this call completed the batch.
+ */
+export function completeBatchIfFinished(id: string): boolean {
+  const db = getDb();
+  const result = db.prepare(`
+    UPDATE batches SET status = 'completed', completed_at = ?
+    WHERE id = ? AND status = 'processing'
+      AND (SELECT COUNT(*) FROM history WHERE batch_id = batches.id) >= item_count
+      AND NOT EXISTS (
+        SELECT 1 FROM history
+        WHERE batch_id = batches.id AND (job_status IS NULL OR job_status IN ('queued', 'running'))
+      )
+  `).run(Date.now(), id);
+  return result.changes > 0;
+}
+
+/**
+ * IDs of batches that have not been completed yet, e.g. because the server stopped
+ * between the last item finishing and the batch being marked completed.
+ */
+export function findUnfinishedBatchIds(): string[] {
+  const db = getDb();
+  const rows = db.prepare(`SELECT id FROM batches WHERE status = 'processing'`).all() as { id: string }[];
+  return rows.map(row => row.id);
+}
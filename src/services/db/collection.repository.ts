@@ -0,0 +1,132 @@
+import 'server-only';
+
+import { getDb } from './connection';
+
+/** A named group of history items owned by one user. */
+export interface Collection {
+  id: string;
+  username: string;
+  name: string;
+  description?: string;
+  itemCount: number;
+  /** First generated image of the most recently added item, used as the cover. */
+  coverImageUrl?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function rowToCollection(row: any): Collection {
+  return {
+    id: row.id,
+    username: row.username,
+    name: row.name,
+    description: row.description || undefined,
+    itemCount: row.item_count ?? 0,
+    coverImageUrl: row.cover_image_url || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const SELECT_COLLECTIONS = `
+  SELECT c.*,
+         (SELECT COUNT(*) FROM collection_items WHERE collection_id = c.id) as item_count,
+         (SELECT hi.url FROM collection_items ci
+            JOIN history_images hi ON hi.history_id = ci.history_id AND hi.type = 'edited'
+          WHERE ci.collection_id = c.id
+          ORDER BY ci.added_at DESC, hi.slot_index
+          LIMIT 1) as cover_image_url
+  FROM collections c
+`;
+
+// --- Public API ---
+
+export function insertCollection(collection: Pick<Collection, 'id' | 'username' | 'name' | 'description'>): void {
+  const db = getDb();
+  const now = Date.now();
+  db.prepare(`
+    INSERT INTO collections (id, username, name, description, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(collection.id, collection.username, collection.name, collection.description ?? null, now, now);
+}
+
+export function findCollectionById(id: string): Collection | null {
+  const db = getDb();
+  const row = db.prepare(`${SELECT_COLLECTIONS} WHERE c.id = ?`).get(id);
+  return row ? rowToCollection(row) : null;
+}
+
+/**
+ * A user's collection with the given name; names are unique per user, ignoring case.
+ */
+export function findCollectionByName(username: string, name: string): Collection | null {
+  const db = getDb();
+  const row = db.prepare(`${SELECT_COLLECTIONS} WHERE c.username = ? AND c.name = ?`).get(username, name);
+  return row ? rowToCollection(row) : null;
+}
+
+/**
+ * A user's collections, most recently changed first.
+ */
+export function findCollectionsByUsername(username: string): Collection[] {
+  const db = getDb();
+  const rows = db.prepare(`${SELECT_COLLECTIONS} WHERE c.username = ? ORDER BY c.updated_at DESC, c.name`).all(username);
+  return rows.map(rowToCollection);
+}
+
+/**
+ * IDs of the collections that contain a history item.
+ */
+export function findCollectionIdsForHistoryItem(historyId: string): string[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT collection_id FROM collection_items WHERE history_id = ?').all(historyId) as { collection_id: string }[];
+  return rows.map(row => row.collection_id);
+}
+
+export function updateCollection(id: string, updates: { name?: string; description?: string | null }): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE collections
+    SET name = COALESCE(?, name),
+        description = CASE WHEN ? THEN ? ELSE description END,
+        updated_at = ?
+    WHERE id = ?
+  `).run(updates.name ?? null, updates.description !== undefined ? 1 : 0, updates.description ?? null, Date.now(), id);
+}
+
+export function deleteCollection(id: string): number {
+  const db = getDb();
+  return db.prepare('DELETE FROM collections WHERE id = ?').run(id).changes;
+}
+
+/**
+ * Adds a history item to a collection; adding an item twice has no effect.
+ * @returns Whether the item was added.
+ */
+export function addHistoryItemToCollection(collectionId: string, historyId: string): boolean {
+  const db = getDb();
+  const now = Date.now();
+  return db.transaction(() => {
+    const { changes } = db.prepare(`
+      INSERT OR IGNORE INTO collection_items (collection_id, history_id, added_at) VALUES (?, ?, ?)
+    `).run(collectionId, historyId, now);
+    if (changes > 0) {
+      db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').run(now, collectionId);
+    }
+    return changes > 0;
+  })();
+}
+
+/**
+ * @returns Whether the item was in the collection.
+ */
+export function removeHistoryItemFromCollection(collectionId: string, historyId: string): boolean {
+  const db = getDb();
+  return db.transaction(() => {
+    const { changes } = db.prepare('DELETE FROM collection_items WHERE collection_id = ? AND history_id = ?').run(collectionId, historyId);
+    if (changes > 0) {
+      db.prepare('UPDATE collections SET updated_at = ? WHERE id = ?').run(Date.now(), collectionId);
+    }
+    return changes > 0;
+  })();
+}
@@ -0,0 +1,93 @@
+import 'server-only';
+
+import crypto from 'crypto';
+import { getDb } from './connection';
+
+export type CostProvider = 'fal' | 'gemini';
+
+export type CostOperation =
+  | 'image_generation'
+  | 'background_removal'
+  | 'upscale'
+  | 'face_detailer'
+  | 'garment_description'
+  | 'video_generation';
+
+/** One estimated provider charge. Entries outlive the history items they point at. */
+export interface CostEntry {
+  id: string;
+  username: string;
+  historyId?: string;
+  provider: CostProvider;
+  operation: CostOperation;
+  model: string;
+  /** Model option that changes the price, e.g. the video resolution. */
+  variant?: string;
+  /** Estimated cost in USD. */
+  amount: number;
+  createdAt: number;
+}
+
+function rowToCostEntry(row: any): CostEntry {
+  return {
+    id: row.id,
+    username: row.username,
+    historyId: row.history_id || undefined,
+    provider: row.provider as CostProvider,
+    operation: row.operation as CostOperation,
+    model: row.model,
+    variant: row.variant || undefined,
+    amount: row.amount_usd,
+    createdAt: row.created_at,
+  };
+}
+
+// --- Public API ---
+
+export function insertCostEntry(entry: Omit<CostEntry, 'id' | 'createdAt'>): CostEntry {
+  const db = getDb();
+  const costEntry: CostEntry = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() };
+  db.prepare(`
+    INSERT INTO cost_ledger (id, username, history_id, provider, operation, model, variant, amount_usd, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    costEntry.id,
+    costEntry.username,
+    costEntry.historyId ?? null,
+    costEntry.provider,
+    costEntry.operation,
+    costEntry.model,
+    costEntry.variant ?? null,
+    costEntry.amount,
+    costEntry.createdAt
+  );
+  return costEntry;
+}
+
+/**
+ * Total estimated spend of a user since the given time.
+ */
+export function sumCostsForUser(username: string, since: number): number {
+  const db = getDb();
+  const { total } = db.prepare(
+    'SELECT COALESCE(SUM(amount_usd), 0) as total FROM cost_ledger WHERE username = ? AND created_at >= ?'
+  ).get(username, since) as { total: number };
+  return total;
+}
+
+/**
+ * Entries in `[from, to)`, oldest first, optionally of a single user.
+ */
+export function findCostEntries(range: { from: number; to: number; username?: string }): CostEntry[] {
+  const db = getDb();
+  const rows = range.username
+    ? db.prepare('SELECT * FROM cost_ledger WHERE username = ? AND created_at >= ? AND created_at < ? ORDER BY created_at').all(range.username, range.from, range.to)
+    : db.prepare('SELECT * FROM cost_ledger WHERE created_at >= ? AND created_at < ? ORDER BY created_at').all(range.from, range.to);
+  return rows.map(rowToCostEntry);
+}
+
+export function findCostEntriesByHistoryId(historyId: string): CostEntry[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT * FROM cost_ledger WHERE history_id = ? ORDER BY created_at').all(historyId);
+  return rows.map(rowToCostEntry);
+}
@@ -0,0 +1,41 @@
+import 'server-only';
+
+import { getDb } from './connection';
+
+export type FalRequestEventSource = 'webhook' | 'reconciler';
+
+// --- Public API ---
+
+/**
+ * Marks a Fal request as being applied to its history item, so that redelivered or replayed
+ * webhooks and overlapping reconciler runs do not apply it again. A claim that was never
+ * marked applied (e.g. the process died while storing the video) can be taken over once it
+ * is older than `staleBefore`.
+ * @returns False if the request was already applied or is claimed by a run still in progress.
+ */
+export function claimFalRequest(requestId: string, historyId: string, source: FalRequestEventSource, staleBefore: number): boolean {
+  const db = getDb();
+  const result = db.prepare(`
+    INSERT INTO fal_request_events (request_id, history_id, source, processed_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT (request_id) DO UPDATE SET source = excluded.source, processed_at = excluded.processed_at
+    WHERE applied_at IS NULL AND processed_at < ?
+  `).run(requestId, historyId, source, Date.now(), staleBefore);
+  return result.changes > 0;
+}
+
+/**
+ * Records that a claimed request's result has been stored, so that the claim never expires.
+ */
+export function markFalRequestApplied(requestId: string): void {
+  const db = getDb();
+  db.prepare(`UPDATE fal_request_events SET applied_at = ? WHERE request_id = ?`).run(Date.now(), requestId);
+}
+
+/**
+ * Gives up a claim after a transient failure, so that a retried delivery can apply the request.
+ */
+export function releaseFalRequest(requestId: string): void {
+  const db = getDb();
+  db.prepare(`DELETE FROM fal_request_events WHERE request_id = ?`).run(requestId);
+}
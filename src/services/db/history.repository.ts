@@ -3,12 +3,14 @@ import 'server-only';
 import { cache } from 'react';
 import Database from 'better-sqlite3';
 
-import type { HistoryItem, ModelAttributes } from '@/lib/types';
+import type { HistoryItem, ImageFeedback, JobStatus, ModelAttributes, VideoSlot } from '@/lib/types';
+import { SEARCHABLE_ATTRIBUTE_KEYS, toFtsQuery, toTimestampRange, type HistorySearchFilters } from '@/lib/history-search';
 import { getDb } from './connection';
+import { safeJsonParse } from './json';
 
 // Video status payload type for efficient polling
 export interface VideoStatusPayload {
-  status: 'processing' | 'completed' | 'failed' | 'unknown';
+  status: 'processing' | 'completed' | 'failed' | 'cancelled' | 'unknown';
   videoUrl?: string | null;
   localVideoUrl?: string | null;
   error?: string;
@@ -24,12 +26,13 @@ export interface PaginationResult {
 
 // Extended status payload for both video and image polling
 export interface HistoryStatusPayload {
-  status: 'processing' | 'completed' | 'failed' | 'unknown';
+  status: 'processing' | 'completed' | 'failed' | 'cancelled' | 'unknown';
   videoUrl?: string | null;
   localVideoUrl?: string | null;
   error?: string;
   seed?: number;
   editedImageUrls?: (string | null)[];
+  imageFeedback?: ImageFeedback[];
 }
 
 // --- Internal helpers ---
@@ -41,20 +44,18 @@ interface PaginationOptions {
   filter?: 'video' | 'image';
 }
 
-// Helper function to safely parse JSON with minimal overhead
-function safeJsonParse<T>(jsonString: string | null | undefined, fallback: T): T {
-  if (!jsonString) return fallback;
-  try {
-    return JSON.parse(jsonString);
-  } catch {
-    return fallback;
-  }
-}
+// The clips of history row h as a JSON array, parsed by parseVideoSlots
+const VIDEO_SLOTS_COLUMN = `(SELECT JSON_GROUP_ARRAY(JSON_OBJECT(
+  'slotIndex', slot_index, 'params', JSON(params), 'status', status, 'error', error, 'seed', seed,
+  'localVideoUrl', local_video_url, 'falRequestId', fal_request_id, 'media', JSON(media), 'trimmedFrom', JSON(trimmed_from)
+)) FROM (SELECT * FROM history_video_slots WHERE history_id = h.id ORDER BY slot_index)) as video_slots`;
 
 // Prepared statements
 let preparedStatements: {
   insertHistory?: Database.Statement;
   insertImage?: Database.Statement;
+  insertTag?: Database.Statement;
+  insertVideoSlot?: Database.Statement;
   findHistoryById?: Database.Statement;
   deleteImagesByHistoryId?: Database.Statement;
   findHistoryByUsername?: Database.Statement;
@@ -62,6 +63,7 @@ let preparedStatements: {
   findHistoryPaginated?: Database.Statement;
   findHistoryPaginatedWithVideoFilter?: Database.Statement;
   findHistoryPaginatedWithImageFilter?: Database.Statement;
+  findHistoryByBatchId?: Database.Statement;
   findRecentUploads?: Database.Statement;
   trackUpload?: Database.Statement;
 } = {};
@@ -73,20 +75,32 @@ function getPreparedStatements() {
     // Removed stray SQL code
   preparedStatements.insertHistory = db.prepare( `
       INSERT OR REPLACE INTO history 
-      (id, username, timestamp, constructedPrompt, originalClothingUrl, settingsMode, attributes, videoGenerationParams, status, error, webhook_url, image_generation_model, generation_mode)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, username, timestamp, constructedPrompt, originalClothingUrl, settingsMode, attributes, videoGenerationParams, status, error, webhook_url, image_generation_model, generation_mode, job_status, batch_id, external_ref, classification)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     preparedStatements.insertImage = db.prepare(`
       INSERT INTO history_images (history_id, url, type, slot_index)
       VALUES (?, ?, ?, ?)
     `);
+
+    preparedStatements.insertTag = db.prepare(`
+      INSERT OR IGNORE INTO history_tags (history_id, tag) VALUES (?, ?)
+    `);
+
+    preparedStatements.insertVideoSlot = db.prepare(`
+      INSERT OR REPLACE INTO history_video_slots (history_id, slot_index, params, status, error, seed, local_video_url, media, trimmed_from)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
     
     preparedStatements.findHistoryById = db.prepare(`
       SELECT h.*, 
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
-             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+             (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+             (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+             ${VIDEO_SLOTS_COLUMN}
       FROM history h
       WHERE h.id = ?
     `);
@@ -99,7 +113,10 @@ function getPreparedStatements() {
       SELECT h.*, 
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
-             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+             (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+             (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+             ${VIDEO_SLOTS_COLUMN}
       FROM history h
       WHERE h.username = ?
       ORDER BY h.timestamp DESC
@@ -113,7 +130,10 @@ function getPreparedStatements() {
       SELECT h.*, 
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
-             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+             (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+             (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+             ${VIDEO_SLOTS_COLUMN}
       FROM history h
       WHERE h.username = ?
       ORDER BY h.timestamp DESC
@@ -124,7 +144,10 @@ function getPreparedStatements() {
       SELECT h.*, 
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
-             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+             (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+             (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+             ${VIDEO_SLOTS_COLUMN}
       FROM history h
       WHERE h.username = ? AND h.videoGenerationParams IS NOT NULL
       ORDER BY h.timestamp DESC
@@ -135,13 +158,29 @@ function getPreparedStatements() {
       SELECT h.*, 
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
              (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
-             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+             (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+             (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+             ${VIDEO_SLOTS_COLUMN}
       FROM history h
       WHERE h.username = ? AND h.videoGenerationParams IS NULL
       ORDER BY h.timestamp DESC
       LIMIT ? OFFSET ?
     `);
 
+    preparedStatements.findHistoryByBatchId = db.prepare(`
+      SELECT h.*, 
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
+             (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+             (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+             (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+             ${VIDEO_SLOTS_COLUMN}
+      FROM history h
+      WHERE h.batch_id = ?
+      ORDER BY h.timestamp ASC, h.rowid ASC
+    `);
+
     preparedStatements.findRecentUploads = db.prepare(`
       SELECT file_url as originalClothingUrl
       FROM user_uploads 
@@ -160,6 +199,34 @@ function getPreparedStatements() {
   return preparedStatements;
 }
 
+/**
+ * Maps the image_feedback JSON column; SQLite stores the favorite flag as 0/1.
+ */
+function parseImageFeedback(json: string | null | undefined): ImageFeedback[] {
+  return safeJsonParse<any[]>(json, []).map(entry => ({
+    slotIndex: entry.slotIndex,
+    favorite: entry.favorite === 1,
+    rating: entry.rating ?? null,
+  }));
+}
+
+/**
+ * Maps the video_slots JSON column; SQLite returns NULL for unset columns.
+ */
+function parseVideoSlots(json: string | null | undefined): VideoSlot[] {
+  return safeJsonParse<any[]>(json, []).map(entry => ({
+    slotIndex: entry.slotIndex,
+    params: entry.params,
+    status: entry.status,
+    error: entry.error ?? undefined,
+    seed: entry.seed ?? undefined,
+    localVideoUrl: entry.localVideoUrl ?? undefined,
+    falRequestId: entry.falRequestId ?? undefined,
+    media: entry.media ?? undefined,
+    trimmedFrom: entry.trimmedFrom ?? undefined,
+  }));
+}
+
 // --- Public API ---
 
 export function rowToHistoryItem(row: any): HistoryItem { // Export for use in actions
@@ -170,6 +237,7 @@ export function rowToHistoryItem(row: any): HistoryItem { // Export for use in a
   const generatedVideoUrls = safeJsonParse<any[] | undefined>(row.video_urls, undefined);
   const attributes = safeJsonParse<ModelAttributes>(row.attributes, {} as ModelAttributes);
   const videoGenerationParams = safeJsonParse<any>(row.videoGenerationParams, undefined);
+  const tags = safeJsonParse<string[]>(row.tags, []);
 
   // Helper to safely cast or fallback legacy models
   let imageGenerationModel = row.image_generation_model;
@@ -189,11 +257,18 @@ export function rowToHistoryItem(row: any): HistoryItem { // Export for use in a
     originalImageUrls,
     generatedVideoUrls,
     videoGenerationParams,
-    status: row.status as 'processing' | 'completed' | 'failed',
+    status: row.status as 'processing' | 'completed' | 'failed' | 'cancelled',
+    jobStatus: (row.job_status as JobStatus) || undefined,
     error: row.error || undefined,
     webhookUrl: row.webhook_url || undefined,
-    imageGenerationModel: (imageGenerationModel as 'fal_nano_banana_pro' | 'fal_gemini_2_5') || 'fal_gemini_2_5',
+    videoSlots: videoGenerationParams ? parseVideoSlots(row.video_slots) : undefined,
+    batchId: row.batch_id || undefined,
+    externalRef: row.external_ref || undefined,
+    imageGenerationModel: imageGenerationModel || 'fal_gemini_2_5',
     generation_mode: row.generation_mode as 'creative' | 'studio' || 'creative',
+    classification: row.classification || undefined,
+    tags,
+    imageFeedback: parseImageFeedback(row.image_feedback),
   };
 }
 
@@ -216,7 +291,11 @@ export const insertHistoryItem = (item: HistoryItem): void => {
       item.error || null,
       item.webhookUrl || null,
       item.imageGenerationModel || 'fal_gemini_2_5',
-      item.generation_mode || 'creative' // ADD THIS
+      item.generation_mode || 'creative', // ADD THIS
+      item.jobStatus || null,
+      item.batchId || null,
+      item.externalRef || null,
+      item.classification || null
     );
     
     // Insert edited images
@@ -243,6 +322,22 @@ export const insertHistoryItem = (item: HistoryItem): void => {
         }
       });
     }
+
+    item.videoSlots?.forEach(slot => {
+      statements.insertVideoSlot?.run(
+        item.id,
+        slot.slotIndex,
+        JSON.stringify(slot.params),
+        slot.status,
+        slot.error || null,
+        slot.seed ?? null,
+        slot.localVideoUrl || null,
+        slot.media ? JSON.stringify(slot.media) : null,
+        slot.trimmedFrom ? JSON.stringify(slot.trimmedFrom) : null
+      );
+    });
+
+    item.tags?.forEach(tag => statements.insertTag?.run(item.id, tag));
   });
   
   insertTransaction();
@@ -254,6 +349,15 @@ export const findHistoryItemById = cache((id: string): HistoryItem | null => {
   return row ? rowToHistoryItem(row) : null;
 });
 
+/**
+ * Finds every history item created for an API batch, in submission order.
+ */
+export function findHistoryByBatchId(batchId: string): HistoryItem[] {
+  const statements = getPreparedStatements();
+  const rows = statements.findHistoryByBatchId?.all(batchId) || [];
+  return rows.map(rowToHistoryItem);
+}
+
 /**
  * Atomically updates a history item and its related images/videos.
  * This function is safe from race conditions.
@@ -265,13 +369,15 @@ export const updateHistoryItem = (id: string, updates: Partial<HistoryItem>): vo
 
   const updateTransaction = db.transaction(() => {
     // Update simple text fields if provided
-    if (updates.constructedPrompt !== undefined || updates.settingsMode !== undefined || updates.status !== undefined || updates.error !== undefined) {
+    if (updates.constructedPrompt !== undefined || updates.settingsMode !== undefined || updates.status !== undefined || updates.error !== undefined || updates.jobStatus !== undefined || updates.classification !== undefined) {
       const updateMainStmt = db.prepare(`
         UPDATE history
         SET constructedPrompt = COALESCE(?, constructedPrompt),
             settingsMode = COALESCE(?, settingsMode),
             status = COALESCE(?, status),
-            error = COALESCE(?, error)
+            error = COALESCE(?, error),
+            job_status = COALESCE(?, job_status),
+            classification = COALESCE(?, classification)
         WHERE id = ?
       `);
       updateMainStmt.run(
@@ -279,6 +385,8 @@ export const updateHistoryItem = (id: string, updates: Partial<HistoryItem>): vo
         updates.settingsMode,
         updates.status,
         updates.error,
+        updates.jobStatus,
+        updates.classification,
         id
       );
     }
@@ -296,13 +404,20 @@ export const updateHistoryItem = (id: string, updates: Partial<HistoryItem>): vo
     // Helper to replace an image/video array
     const replaceUrls = (urls: (string | null)[] | undefined, type: 'edited' | 'original_for_comparison' | 'generated_video') => {
       if (!urls) return;
+      // Favorites and ratings belong to the slot, so they survive e.g. a re-upscaled image
+      const feedbackRows = db.prepare(`
+        SELECT slot_index, is_favorite, rating FROM history_images
+        WHERE history_id = ? AND type = ? AND (is_favorite = 1 OR rating IS NOT NULL)
+      `).all(id, type) as { slot_index: number; is_favorite: number; rating: number | null }[];
+      const feedbackBySlot = new Map(feedbackRows.map(row => [row.slot_index, row]));
       const deleteStmt = db.prepare(`DELETE FROM history_images WHERE history_id = ? AND type = ?`);
-      const insertStmt = db.prepare(`INSERT INTO history_images (history_id, url, type, slot_index) VALUES (?, ?, ?, ?)`);
+      const insertStmt = db.prepare(`INSERT INTO history_images (history_id, url, type, slot_index, is_favorite, rating) VALUES (?, ?, ?, ?, ?, ?)`);
 
       deleteStmt.run(id, type);
       urls.forEach((url, index) => {
         if (url) {
-          insertStmt.run(id, url, type, index);
+          const feedback = feedbackBySlot.get(index);
+          insertStmt.run(id, url, type, index, feedback?.is_favorite ?? 0, feedback?.rating ?? null);
         }
       });
     };
@@ -311,6 +426,13 @@ export const updateHistoryItem = (id: string, updates: Partial<HistoryItem>): vo
     replaceUrls(updates.editedImageUrls, 'edited');
     replaceUrls(updates.originalImageUrls, 'original_for_comparison');
     replaceUrls(updates.generatedVideoUrls, 'generated_video');
+
+    // Tags are replaced as a set; history_fts is updated by triggers on history_tags
+    if (updates.tags) {
+      db.prepare(`DELETE FROM history_tags WHERE history_id = ?`).run(id);
+      const insertTagStmt = db.prepare(`INSERT OR IGNORE INTO history_tags (history_id, tag) VALUES (?, ?)`);
+      updates.tags.forEach(tag => insertTagStmt.run(id, tag));
+    }
   });
 
   updateTransaction();
@@ -329,6 +451,31 @@ export const updateHistoryImageSlot = (historyId: string, slotIndex: number, url
   stmt.run(historyId, url, slotIndex);
 };
 
+/**
+ * Sets the favorite flag and/or rating of an edited image. Omitted fields are unchanged;
+ * a null rating clears it.
+ * @returns False if the history item has no image in that slot.
+ */
+export function updateHistoryImageFeedback(
+  historyId: string,
+  slotIndex: number,
+  feedback: { favorite?: boolean; rating?: number | null }
+): boolean {
+  const db = getDb();
+  const result = db.prepare(`
+    UPDATE history_images
+    SET is_favorite = COALESCE(?, is_favorite),
+        rating = CASE WHEN ? THEN ? ELSE rating END
+    WHERE history_id = ? AND type = 'edited' AND slot_index = ?
+  `).run(
+    feedback.favorite === undefined ? null : Number(feedback.favorite),
+    Number(feedback.rating !== undefined),
+    feedback.rating ?? null,
+    historyId,
+    slotIndex
+  );
+  return result.changes > 0;
+}
 
 export const findHistoryByUsername = cache((username: string): HistoryItem[] => {
   const statements = getPreparedStatements();
@@ -376,6 +523,103 @@ export const getPaginatedHistoryForUser = cache((
   };
 });
 
+export interface HistorySearchOptions {
+  username: string;
+  filters: HistorySearchFilters;
+  page: number;
+  limit: number;
+  type?: 'video' | 'image';
+}
+
+/**
+ * Finds a user's history items matching the search filters, newest first.
+ * Free text goes through the history_fts index; the other filters are column and JSON conditions.
+ */
+export function searchHistoryForUser({ username, filters, page, limit, type }: HistorySearchOptions): PaginationResult {
+  const db = getDb();
+  const conditions = ['h.username = ?'];
+  const params: (string | number)[] = [username];
+
+  if (type === 'video') {
+    conditions.push('h.videoGenerationParams IS NOT NULL');
+  } else if (type === 'image') {
+    conditions.push('h.videoGenerationParams IS NULL');
+  }
+
+  const ftsQuery = toFtsQuery(filters.q);
+  if (ftsQuery) {
+    conditions.push('h.id IN (SELECT history_id FROM history_fts WHERE history_fts MATCH ?)');
+    params.push(ftsQuery);
+  }
+
+  const range = toTimestampRange(filters);
+  if (range.from !== undefined) {
+    conditions.push('h.timestamp >= ?');
+    params.push(range.from);
+  }
+  if (range.to !== undefined) {
+    conditions.push('h.timestamp < ?');
+    params.push(range.to);
+  }
+
+  if (filters.status) {
+    // Video progress lives in videoGenerationParams; a cancelled item stays cancelled
+    conditions.push(`(CASE WHEN h.status = 'cancelled' THEN 'cancelled'
+      ELSE COALESCE(CASE WHEN json_valid(h.videoGenerationParams) THEN json_extract(h.videoGenerationParams, '$.status') END, h.status, 'completed') END) = ?`);
+    params.push(filters.status);
+  }
+  if (filters.generation_mode) {
+    conditions.push(`COALESCE(h.generation_mode, 'creative') = ?`);
+    params.push(filters.generation_mode);
+  }
+  if (filters.model) {
+    conditions.push('h.image_generation_model = ?');
+    params.push(filters.model);
+  }
+  if (filters.collection) {
+    conditions.push('h.id IN (SELECT history_id FROM collection_items WHERE collection_id = ?)');
+    params.push(filters.collection);
+  }
+  if (filters.tag) {
+    conditions.push('h.id IN (SELECT history_id FROM history_tags WHERE tag = ?)');
+    params.push(filters.tag);
+  }
+  if (filters.favorites) {
+    conditions.push(`h.id IN (SELECT history_id FROM history_images WHERE type = 'edited' AND is_favorite = 1)`);
+  }
+  for (const key of SEARCHABLE_ATTRIBUTE_KEYS) {
+    const value = filters[key];
+    if (value) {
+      conditions.push('(CASE WHEN json_valid(h.attributes) THEN json_extract(h.attributes, ?) END) = ?');
+      params.push(`$.${key}`, value);
+    }
+  }
+
+  const where = conditions.join(' AND ');
+  const offset = (page - 1) * limit;
+  const { count: totalCount } = db.prepare(`SELECT COUNT(*) as count FROM history h WHERE ${where}`).get(...params) as { count: number };
+  const rows = db.prepare(`
+    SELECT h.*,
+           (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
+           (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
+           (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+           (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+           (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+           ${VIDEO_SLOTS_COLUMN}
+    FROM history h
+    WHERE ${where}
+    ORDER BY h.timestamp DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, limit, offset) as any[];
+
+  return {
+    items: rows.map(rowToHistoryItem),
+    totalCount,
+    hasMore: offset + limit < totalCount,
+    currentPage: page,
+  };
+}
+
 export const getAllUsersHistoryPaginated = cache((page: number = 1, limit: number = 10): PaginationResult => {
   const db = getDb();
   
@@ -386,7 +630,10 @@ export const getAllUsersHistoryPaginated = cache((page: number = 1, limit: numbe
     SELECT h.*, 
            (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
            (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'original_for_comparison' ORDER BY slot_index)) as original_images,
-           (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls
+           (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' ORDER BY slot_index)) as video_urls,
+           (SELECT JSON_GROUP_ARRAY(tag) FROM (SELECT tag FROM history_tags WHERE history_id = h.id ORDER BY tag)) as tags,
+           (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback,
+           ${VIDEO_SLOTS_COLUMN}
     FROM history h
     ORDER BY h.timestamp DESC
     LIMIT ? OFFSET ?
@@ -408,7 +655,8 @@ export const getHistoryItemStatus = cache((id: string, username: string): Histor
   const stmt = db.prepare(`
     SELECT h.status, h.error, h.videoGenerationParams,
            (SELECT url FROM history_images WHERE history_id = h.id AND type = 'generated_video' LIMIT 1) as video_url,
-           (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images
+           (SELECT JSON_GROUP_ARRAY(url) FROM (SELECT url FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as edited_images,
+           (SELECT JSON_GROUP_ARRAY(JSON_OBJECT('slotIndex', slot_index, 'favorite', is_favorite, 'rating', rating)) FROM (SELECT slot_index, is_favorite, rating FROM history_images WHERE history_id = h.id AND type = 'edited' ORDER BY slot_index)) as image_feedback
     FROM history h
     WHERE h.id = ? AND h.username = ?
   `);
@@ -421,6 +669,7 @@ export const getHistoryItemStatus = cache((id: string, username: string): Histor
   
   // Parse edited images
   const editedImageUrls = safeJsonParse<any[]>(row.edited_images, []);
+  const imageFeedback = parseImageFeedback(row.image_feedback);
 
   // If video params exist, it's a video generation
   if (row.videoGenerationParams) {
@@ -433,15 +682,17 @@ export const getHistoryItemStatus = cache((id: string, username: string): Histor
             error: params.error || row.error,
             seed: params.seed,
             editedImageUrls,
+            imageFeedback,
         };
     }
   }
 
   // Default to main record status (for image generation)
   return {
-    status: row.status as 'processing' | 'completed' | 'failed',
+    status: row.status as 'processing' | 'completed' | 'failed' | 'cancelled',
     error: row.error,
     editedImageUrls,
+    imageFeedback,
   };
 });
 
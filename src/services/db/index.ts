@@ -7,15 +7,19 @@ export {
   type VideoStatusPayload,
   type PaginationResult,
   type HistoryStatusPayload,
+  type HistorySearchOptions,
   rowToHistoryItem,
   insertHistoryItem,
   findHistoryItemById,
   updateHistoryItem,
   updateHistoryImageSlot,
+  updateHistoryImageFeedback,
   findHistoryByUsername,
   getPaginatedHistoryForUser,
+  searchHistoryForUser,
   getAllUsersHistoryPaginated,
   getHistoryItemStatus,
+  findHistoryByBatchId,
   deleteHistoryItemById,
   getRecentUploadsForUser,
   trackUserUpload,
@@ -25,10 +29,149 @@ export {
   type FullUser,
   findUserByUsername,
   hashApiKey,
-  findUserByApiKey,
   getAllUsersFromDb,
   createUserInDb,
   deleteUserFromDb,
   updateUserConfigInDb,
-  setApiKeyForUserInDb,
 } from './user.repository';
+
+export {
+  type QueueJob,
+  type QueueJobStatus,
+  type ClaimLimits,
+  insertJob,
+  findJobById,
+  findLatestJobForHistory,
+  findJobsForHistory,
+  findJobByExternalId,
+  claimNextJob,
+  completeJob,
+  markJobWaiting,
+  setJobExternalId,
+  cancelJob,
+  expireWaitingJobs,
+  failJob,
+  requeueInterruptedJobs,
+  failOrphanedProcessingHistory,
+  findActiveApiJobs,
+} from './job.repository';
+
+export {
+  type VideoSlotRef,
+  type VideoSlotUpdate,
+  type PendingFalVideo,
+  setVideoSlotFalRequest,
+  findVideoSlotByFalRequestId,
+  findPendingFalVideos,
+  findVideoSlotStates,
+  updateVideoSlot,
+  addVideoSlot,
+  cancelVideoSlots,
+} from './video-slot.repository';
+
+export {
+  type FalRequestEventSource,
+  claimFalRequest,
+  markFalRequestApplied,
+  releaseFalRequest,
+} from './fal-request-event.repository';
+
+export {
+  type ApiBatch,
+  type BatchStatus,
+  insertBatch,
+  findBatchById,
+  completeBatchIfFinished,
+  findUnfinishedBatchIds,
+} from './batch.repository';
+
+export {
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookAttemptResult,
+  insertWebhookDelivery,
+  findWebhookDeliveryById,
+  claimWebhookDelivery,
+  recordWebhookAttempt,
+  findDueWebhookDeliveries,
+  requeueInterruptedWebhookDeliveries,
+  getLatestWebhookAttempt,
+  getWebhookDeliveries,
+} from './webhook-delivery.repository';
+
+export {
+  type WebhookEndpoint,
+  insertWebhookEndpoint,
+  findWebhookEndpointById,
+  findWebhookEndpointsByUsername,
+  findSubscribedWebhookEndpoints,
+  findWebhookEndpointSecret,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+} from './webhook-endpoint.repository';
+
+export {
+  type ApiKey,
+  insertApiKey,
+  findApiKeyById,
+  findApiKeyByHash,
+  findApiKeys,
+  touchApiKeyLastUsed,
+  revokeApiKey,
+} from './api-key.repository';
+
+export {
+  type TokenBucketSpec,
+  type TokenBucketState,
+  consumeTokenBuckets,
+} from './rate-limit.repository';
+
+export {
+  type CostProvider,
+  type CostOperation,
+  type CostEntry,
+  insertCostEntry,
+  sumCostsForUser,
+  findCostEntries,
+  findCostEntriesByHistoryId,
+} from './cost-ledger.repository';
+
+export {
+  type Collection,
+  insertCollection,
+  findCollectionById,
+  findCollectionByName,
+  findCollectionsByUsername,
+  findCollectionIdsForHistoryItem,
+  updateCollection,
+  deleteCollection,
+  addHistoryItemToCollection,
+  removeHistoryItemFromCollection,
+} from './collection.repository';
+
+export {
+  type ShareLink,
+  type ShareLinkView,
+  type ShareReview,
+  insertShareLink,
+  findShareLinkById,
+  findShareLinksByTarget,
+  revokeShareLink,
+  recordShareLinkView,
+  findShareLinkViews,
+  insertShareReview,
+  findShareReviewsByLink,
+} from './share-link.repository';
+
+export {
+  addMediaOwner,
+  isMediaOwnedBy,
+} from './media.repository';
+
+export {
+  type Storyboard,
+  insertStoryboard,
+  findStoryboardById,
+  findActiveStoryboardByHistoryId,
+  transitionStoryboard,
+} from './storyboard.repository';
@@ -0,0 +1,260 @@
+import 'server-only';
+
+import { getDb } from './connection';
+import { safeJsonParse } from './json';
+
+/**
+ * 'waiting' jobs have handed their work to an external service (e.g. a Fal webhook)
+ * and keep their concurrency slot until the callback settles them.
+ */
+export type QueueJobStatus = 'queued' | 'processing' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+  id: string;
+  type: string;
+  username: string;
+  historyId: string | null;
+  payload: unknown;
+  status: QueueJobStatus;
+  priority: number;
+  attempts: number;
+  /** ID of the request at the external provider (e.g. the Fal request_id), once submitted. */
+  externalId?: string;
+  result?: unknown;
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface ClaimLimits {
+  /** Maximum number of jobs processing at once across all users. */
+  globalLimit: number;
+  /** Maximum number of jobs processing at once for a single user. */
+  perUserLimit: number;
+  /** Only jobs of these types are claimed (types without a registered handler stay queued). */
+  types: string[];
+}
+
+function rowToQueueJob(row: any): QueueJob {
+  return {
+    id: row.id,
+    type: row.type,
+    username: row.username,
+    historyId: row.history_id,
+    payload: safeJsonParse<unknown>(row.payload, null),
+    status: row.status as QueueJobStatus,
+    priority: row.priority,
+    attempts: row.attempts,
+    externalId: row.external_id || undefined,
+    result: safeJsonParse<unknown>(row.result, undefined),
+    error: row.error || undefined,
+    createdAt: row.created_at,
+    startedAt: row.started_at || undefined,
+    finishedAt: row.finished_at || undefined,
+  };
+}
+
+// --- Public API ---
+
+export function insertJob(job: Pick<QueueJob, 'id' | 'type' | 'username' | 'historyId' | 'payload' | 'priority'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO jobs (id, type, username, history_id, payload, status, priority, attempts, created_at)
+    VALUES (?, ?, ?, ?, ?, 'queued', ?, 0, ?)
+  `).run(job.id, job.type, job.username, job.historyId, JSON.stringify(job.payload ?? null), job.priority, Date.now());
+}
+
+export function findJobById(id: string): QueueJob | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(id);
+  return row ? rowToQueueJob(row) : null;
+}
+
+/**
+ * Returns the most recently created job for a history item, if any.
+ */
+export function findLatestJobForHistory(historyId: string): QueueJob | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM jobs WHERE history_id = ? ORDER BY created_at DESC LIMIT 1').get(historyId);
+  return row ? rowToQueueJob(row) : null;
+}
+
+/**
+ * Returns every job for a history item, oldest first. Videos with several clips have one job per clip.
+ */
+export function findJobsForHistory(historyId: string): QueueJob[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM jobs WHERE history_id = ? ORDER BY created_at, rowid').all(historyId).map(rowToQueueJob);
+}
+
+/**
+ * Finds the job that submitted an external request (e.g. a Fal queue request).
+ */
+export function findJobByExternalId(externalId: string): QueueJob | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM jobs WHERE external_id = ?').get(externalId);
+  return row ? rowToQueueJob(row) : null;
+}
+
+/**
+ * Atomically picks the next runnable job and marks it as processing.
+ * Highest priority first, then oldest first. Users already at their concurrency cap are skipped.
+ * @returns The claimed job, or null if nothing can run right now.
+ */
+export function claimNextJob(limits: ClaimLimits): QueueJob | null {
+  if (limits.types.length === 0) return null;
+
+  const db = getDb();
+  const claim = db.transaction((): QueueJob | null => {
+    const { count } = db.prepare(`SELECT COUNT(*) as count FROM jobs WHERE status IN ('processing', 'waiting')`).get() as { count: number };
+    if (count >= limits.globalLimit) {
+      return null;
+    }
+
+    const typePlaceholders = limits.types.map(() => '?').join(', ');
+    const row: any = db.prepare(`
+      SELECT * FROM jobs
+      WHERE status = 'queued'
+        AND type IN (${typePlaceholders})
+        AND username NOT IN (
+          SELECT username FROM jobs WHERE status IN ('processing', 'waiting')
+          GROUP BY username HAVING COUNT(*) >= ?
+        )
+      ORDER BY priority DESC, created_at ASC
+      LIMIT 1
+    `).get(...limits.types, limits.perUserLimit);
+
+    if (!row) {
+      return null;
+    }
+
+    const startedAt = Date.now();
+    db.prepare(`UPDATE jobs SET status = 'processing', attempts = attempts + 1, started_at = ? WHERE id = ?`)
+      .run(startedAt, row.id);
+
+    return rowToQueueJob({ ...row, status: 'processing', attempts: row.attempts + 1, started_at: startedAt });
+  });
+
+  return claim.immediate();
+}
+
+// Terminal updates only apply to unfinished jobs, so late results never overwrite a cancellation.
+const UNFINISHED = `status IN ('queued', 'processing', 'waiting')`;
+
+export function completeJob(id: string, result?: unknown): void {
+  const db = getDb();
+  db.prepare(`UPDATE jobs SET status = 'completed', result = ?, finished_at = ? WHERE id = ? AND ${UNFINISHED}`)
+    .run(result === undefined ? null : JSON.stringify(result), Date.now(), id);
+}
+
+export function markJobWaiting(id: string): void {
+  const db = getDb();
+  db.prepare(`UPDATE jobs SET status = 'waiting' WHERE id = ? AND status = 'processing'`).run(id);
+}
+
+export function setJobExternalId(id: string, externalId: string): void {
+  const db = getDb();
+  db.prepare(`UPDATE jobs SET external_id = ? WHERE id = ?`).run(externalId, id);
+}
+
+export function failJob(id: string, error: string): void {
+  const db = getDb();
+  db.prepare(`UPDATE jobs SET status = 'failed', error = ?, finished_at = ? WHERE id = ? AND ${UNFINISHED}`)
+    .run(error, Date.now(), id);
+}
+
+/**
+ * Marks an unfinished job as cancelled.
+ * @returns True if the job was still queued, processing or waiting.
+ */
+export function cancelJob(id: string): boolean {
+  const db = getDb();
+  return db.prepare(`UPDATE jobs SET status = 'cancelled', finished_at = ? WHERE id = ? AND ${UNFINISHED}`)
+    .run(Date.now(), id).changes > 0;
+}
+
+/**
+ * Fails jobs that have been waiting for an external callback for longer than maxAgeMs.
+ * @param maxAgeMsByType Timeouts of job types that wait longer or shorter than maxAgeMs.
+ * @returns The IDs of the expired jobs.
+ */
+export function expireWaitingJobs(maxAgeMs: number, maxAgeMsByType: Record<string, number> = {}): string[] {
+  const db = getDb();
+  const now = Date.now();
+  const rows = (db.prepare(`SELECT id, type, started_at FROM jobs WHERE status = 'waiting'`).all() as { id: string; type: string; started_at: number }[])
+    .filter(row => row.started_at < now - (maxAgeMsByType[row.type] ?? maxAgeMs));
+  if (rows.length === 0) return [];
+
+  const expire = db.prepare(`
+    UPDATE jobs SET status = 'failed', error = 'Timed out waiting for external callback', finished_at = ?
+    WHERE id = ? AND status = 'waiting'
+  `);
+  db.transaction(() => {
+    for (const row of rows) expire.run(Date.now(), row.id);
+  })();
+  return rows.map(row => row.id);
+}
+
+/**
+ * Puts jobs that were processing when the server stopped back in the queue.
+ * Jobs that already used up their attempts are failed instead. Waiting jobs are left alone.
+ * @returns The number of jobs requeued and failed.
+ */
+export function requeueInterruptedJobs(maxAttempts: number): { requeued: number; failed: number } {
+  const db = getDb();
+  const reset = db.transaction(() => {
+    const failed = db.prepare(`
+      UPDATE jobs SET status = 'failed', error = 'Interrupted by server restart', finished_at = ?
+      WHERE status = 'processing' AND attempts >= ?
+    `).run(Date.now(), maxAttempts).changes;
+    const requeued = db.prepare(`
+      UPDATE jobs SET status = 'queued', started_at = NULL
+      WHERE status = 'processing'
+    `).run().changes;
+    return { requeued, failed };
+  });
+  return reset();
+}
+
+/**
+ * Marks image history rows that are still 'processing' but have no queued or running job as failed.
+ * Video rows are left alone: they legitimately wait for the Fal webhook after submission.
+ * @returns The number of history rows reconciled.
+ */
+export function failOrphanedProcessingHistory(): number {
+  const db = getDb();
+  return db.prepare(`
+    UPDATE history
+    SET status = 'failed',
+        error = COALESCE(error, 'Generation was interrupted by a server restart'),
+        job_status = CASE WHEN job_status IS NOT NULL THEN 'failed' ELSE NULL END
+    WHERE status = 'processing'
+      AND videoGenerationParams IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM jobs j WHERE j.history_id = history.id AND j.status IN ('queued', 'processing', 'waiting')
+      )
+  `).run().changes;
+}
+
+/**
+ * Lists unfinished queue jobs that back API v1 requests (history rows with a job status).
+ * Used at startup to re-attach job status tracking and webhook delivery after a restart.
+ */
+export function findActiveApiJobs(): { jobId: string; historyId: string; username: string; webhookUrl?: string }[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT j.id as job_id, h.id as history_id, h.username, h.webhook_url
+    FROM jobs j
+    JOIN history h ON h.id = j.history_id
+    WHERE h.job_status IN ('queued', 'running')
+      AND j.status IN ('queued', 'processing', 'waiting')
+  `).all() as { job_id: string; history_id: string; username: string; webhook_url: string | null }[];
+
+  return rows.map(row => ({
+    jobId: row.job_id,
+    historyId: row.history_id,
+    username: row.username,
+    webhookUrl: row.webhook_url || undefined,
+  }));
+}
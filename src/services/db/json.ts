@@ -0,0 +1,9 @@
+/** Parses a JSON column, falling back for NULL or malformed values. */
+export function safeJsonParse<T>(jsonString: string | null | undefined, fallback: T): T {
+  if (!jsonString) return fallback;
+  try {
+    return JSON.parse(jsonString);
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,56 @@
+import 'server-only';
+
+import { getDb } from './connection';
+
+// --- Public API ---
+
+/**
+ * Records that a user may view a file, for files no history item or upload references.
+ */
+export function addMediaOwner(username: string, fileUrl: string): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR IGNORE INTO media_owners (file_url, username, created_at)
+    VALUES (?, ?, ?)
+  `).run(fileUrl, username, Date.now());
+}
+
+/**
+ * Whether a file under /uploads/ belongs to the user: one of their uploads, history items
+ * (source, results, video clips and their posters and previews) or files recorded with `addMediaOwner`.
+ * Runs for every media request, so each lookup is a separate EXISTS that can use its index from migrate.ts.
+ */
+export function isMediaOwnedBy(username: string, fileUrl: string): boolean {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT
+      EXISTS (SELECT 1 FROM media_owners WHERE file_url = @fileUrl AND username = @username)
+      OR EXISTS (SELECT 1 FROM user_uploads WHERE username = @username AND file_url = @fileUrl)
+      OR EXISTS (
+        SELECT 1 FROM history_images hi JOIN history h ON h.id = hi.history_id
+        WHERE hi.url = @fileUrl AND h.username = @username
+      )
+      OR EXISTS (SELECT 1 FROM history WHERE originalClothingUrl = @fileUrl AND username = @username)
+      OR EXISTS (
+        SELECT 1 FROM history
+        WHERE json_extract(videoGenerationParams, '$.sourceImageUrl') = @fileUrl AND username = @username
+      )
+      OR EXISTS (
+        SELECT 1 FROM history
+        WHERE json_extract(videoGenerationParams, '$.localVideoUrl') = @fileUrl AND username = @username
+      )
+      OR EXISTS (
+        SELECT 1 FROM history_video_slots s JOIN history h ON h.id = s.history_id
+        WHERE s.local_video_url = @fileUrl AND h.username = @username
+      )
+      OR EXISTS (
+        SELECT 1 FROM history_video_slots s JOIN history h ON h.id = s.history_id
+        WHERE json_extract(s.media, '$.posterUrl') = @fileUrl AND h.username = @username
+      )
+      OR EXISTS (
+        SELECT 1 FROM history_video_slots s JOIN history h ON h.id = s.history_id
+        WHERE json_extract(s.media, '$.previewUrl') = @fileUrl AND h.username = @username
+      ) AS owned
+  `).get({ username, fileUrl }) as { owned: number };
+  return row.owned === 1;
+}
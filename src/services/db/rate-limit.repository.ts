@@ -0,0 +1,57 @@
+import 'server-only';
+
+import { getDb } from './connection';
+
+/** A token bucket: holds up to `capacity` tokens and regains `refillPerMs` tokens per millisecond. */
+export interface TokenBucketSpec {
+  key: string;
+  capacity: number;
+  refillPerMs: number;
+  /** Tokens this request takes from the bucket. */
+  cost: number;
+}
+
+export interface TokenBucketState extends TokenBucketSpec {
+  /** Tokens left after this request (before it, if the request was rejected). */
+  tokens: number;
+}
+
+// --- Public API ---
+
+/**
+ * Atomically takes `cost` tokens from every bucket, or from none of them if any bucket is short.
+ * Buckets that have never been used start full.
+ */
+export function consumeTokenBuckets(
+  buckets: TokenBucketSpec[],
+  now: number = Date.now()
+): { allowed: boolean; buckets: TokenBucketState[] } {
+  const db = getDb();
+  const consume = db.transaction(() => {
+    const select = db.prepare('SELECT tokens, updated_at FROM rate_limit_buckets WHERE key = ?');
+    const states = buckets.map((bucket): TokenBucketState => {
+      const row = select.get(bucket.key) as { tokens: number; updated_at: number } | undefined;
+      const tokens = row
+        ? Math.min(bucket.capacity, row.tokens + Math.max(0, now - row.updated_at) * bucket.refillPerMs)
+        : bucket.capacity;
+      return { ...bucket, tokens };
+    });
+
+    const allowed = states.every(state => state.tokens >= state.cost);
+    if (!allowed) {
+      return { allowed, buckets: states };
+    }
+
+    const upsert = db.prepare(`
+      INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at
+    `);
+    for (const state of states) {
+      state.tokens -= state.cost;
+      upsert.run(state.key, state.tokens, now);
+    }
+    return { allowed, buckets: states };
+  });
+
+  return consume();
+}
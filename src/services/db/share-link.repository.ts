@@ -0,0 +1,178 @@
+import 'server-only';
+
+import type { ReviewDecision, ShareTargetType } from '@/lib/share-links';
+import { getDb } from './connection';
+
+/** A public review link for a history item or a collection. */
+export interface ShareLink {
+  id: string;
+  username: string;
+  targetType: ShareTargetType;
+  targetId: string;
+  label?: string;
+  showPrompt: boolean;
+  expiresAt: number;
+  revokedAt?: number;
+  createdAt: number;
+}
+
+/** A browser that opened a share link; the name is known once the visitor has left a review. */
+export interface ShareLinkView {
+  linkId: string;
+  visitorId: string;
+  reviewerName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  viewCount: number;
+  firstViewedAt: number;
+  lastViewedAt: number;
+}
+
+/** An approve/reject verdict left on a history item through a share link. */
+export interface ShareReview {
+  id: string;
+  linkId: string;
+  historyId: string;
+  reviewerName: string;
+  decision: ReviewDecision;
+  comment?: string;
+  createdAt: number;
+}
+
+function rowToShareLink(row: any): ShareLink {
+  return {
+    id: row.id,
+    username: row.username,
+    targetType: row.target_type as ShareTargetType,
+    targetId: row.target_id,
+    label: row.label || undefined,
+    showPrompt: row.show_prompt === 1,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToShareLinkView(row: any): ShareLinkView {
+  return {
+    linkId: row.link_id,
+    visitorId: row.visitor_id,
+    reviewerName: row.reviewer_name || undefined,
+    ipAddress: row.ip_address || undefined,
+    userAgent: row.user_agent || undefined,
+    viewCount: row.view_count,
+    firstViewedAt: row.first_viewed_at,
+    lastViewedAt: row.last_viewed_at,
+  };
+}
+
+function rowToShareReview(row: any): ShareReview {
+  return {
+    id: row.id,
+    linkId: row.link_id,
+    historyId: row.history_id,
+    reviewerName: row.reviewer_name,
+    decision: row.decision as ReviewDecision,
+    comment: row.comment || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// --- Public API ---
+
+export function insertShareLink(link: Omit<ShareLink, 'revokedAt' | 'createdAt'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO share_links (id, username, target_type, target_id, label, show_prompt, expires_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    link.id,
+    link.username,
+    link.targetType,
+    link.targetId,
+    link.label ?? null,
+    link.showPrompt ? 1 : 0,
+    link.expiresAt,
+    Date.now()
+  );
+}
+
+export function findShareLinkById(id: string): ShareLink | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM share_links WHERE id = ?').get(id);
+  return row ? rowToShareLink(row) : null;
+}
+
+/**
+ * A user's links to one history item or collection, newest first.
+ */
+export function findShareLinksByTarget(username: string, targetType: ShareTargetType, targetId: string): ShareLink[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT * FROM share_links
+    WHERE username = ? AND target_type = ? AND target_id = ?
+    ORDER BY created_at DESC
+  `).all(username, targetType, targetId);
+  return rows.map(rowToShareLink);
+}
+
+/**
+ * @returns True if the link was active and is now revoked.
+ */
+export function revokeShareLink(id: string): boolean {
+  const db = getDb();
+  return db.prepare('UPDATE share_links SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(Date.now(), id).changes > 0;
+}
+
+/**
+ * Counts a visit; repeat visits from the same browser update its row.
+ */
+export function recordShareLinkView(view: Pick<ShareLinkView, 'linkId' | 'visitorId' | 'ipAddress' | 'userAgent'>): void {
+  const db = getDb();
+  const now = Date.now();
+  db.prepare(`
+    INSERT INTO share_link_views (link_id, visitor_id, ip_address, user_agent, first_viewed_at, last_viewed_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (link_id, visitor_id) DO UPDATE SET
+      view_count = view_count + 1,
+      last_viewed_at = excluded.last_viewed_at,
+      ip_address = excluded.ip_address,
+      user_agent = excluded.user_agent
+  `).run(view.linkId, view.visitorId, view.ipAddress ?? null, view.userAgent ?? null, now, now);
+}
+
+/**
+ * Visitors of a link, most recent first.
+ */
+export function findShareLinkViews(linkId: string): ShareLinkView[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT * FROM share_link_views WHERE link_id = ? ORDER BY last_viewed_at DESC').all(linkId);
+  return rows.map(rowToShareLinkView);
+}
+
+/**
+ * Stores a review and names the visitor who left it.
+ */
+export function insertShareReview(review: Omit<ShareReview, 'createdAt'>, visitorId: string): ShareReview {
+  const db = getDb();
+  const now = Date.now();
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO share_reviews (id, link_id, history_id, reviewer_name, decision, comment, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(review.id, review.linkId, review.historyId, review.reviewerName, review.decision, review.comment ?? null, now);
+    db.prepare('UPDATE share_link_views SET reviewer_name = ? WHERE link_id = ? AND visitor_id = ?')
+      .run(review.reviewerName, review.linkId, visitorId);
+  })();
+  return { ...review, createdAt: now };
+}
+
+/**
+ * Reviews left through a link, newest first.
+ */
+export function findShareReviewsByLink(linkId: string): ShareReview[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT * FROM share_reviews WHERE link_id = ? ORDER BY created_at DESC').all(linkId);
+  return rows.map(rowToShareReview);
+}
+
@@ -0,0 +1,72 @@
+import 'server-only';
+
+import type { StoryboardStatus, StoryboardTransition } from '@/lib/storyboard';
+import { getDb } from './connection';
+
+/**
+ * A sequence of generated shots joined into one clip. The shots are the clips of one video
+ * history item; the joined clip fills the single clip of another.
+ */
+export interface Storyboard {
+  id: string;
+  username: string;
+  shotsHistoryId: string;
+  resultHistoryId: string;
+  transition: StoryboardTransition;
+  status: StoryboardStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function rowToStoryboard(row: any): Storyboard {
+  return {
+    id: row.id,
+    username: row.username,
+    shotsHistoryId: row.shots_history_id,
+    resultHistoryId: row.result_history_id,
+    transition: row.transition as StoryboardTransition,
+    status: row.status as StoryboardStatus,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// --- Public API ---
+
+export function insertStoryboard(storyboard: Pick<Storyboard, 'id' | 'username' | 'shotsHistoryId' | 'resultHistoryId' | 'transition'>): void {
+  const db = getDb();
+  const now = Date.now();
+  db.prepare(`
+    INSERT INTO storyboards (id, username, shots_history_id, result_history_id, transition, status, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, 'generating', ?, ?)
+  `).run(storyboard.id, storyboard.username, storyboard.shotsHistoryId, storyboard.resultHistoryId, storyboard.transition, now, now);
+}
+
+export function findStoryboardById(id: string): Storyboard | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM storyboards WHERE id = ?').get(id);
+  return row ? rowToStoryboard(row) : null;
+}
+
+/**
+ * Finds the unfinished storyboard a history item holds the shots or the joined clip of.
+ */
+export function findActiveStoryboardByHistoryId(historyId: string): Storyboard | null {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT * FROM storyboards
+    WHERE (shots_history_id = ? OR result_history_id = ?) AND status IN ('generating', 'stitching')
+  `).get(historyId, historyId);
+  return row ? rowToStoryboard(row) : null;
+}
+
+/**
+ * Moves a storyboard on from one status to the next. Only one caller wins a transition,
+ * so concurrent shot results cannot both start the stitching.
+ * @returns True if the storyboard was in the expected status.
+ */
+export function transitionStoryboard(id: string, from: StoryboardStatus, to: StoryboardStatus): boolean {
+  const db = getDb();
+  return db.prepare('UPDATE storyboards SET status = ?, updated_at = ? WHERE id = ? AND status = ?')
+    .run(to, Date.now(), id, from).changes > 0;
+}
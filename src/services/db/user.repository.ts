@@ -3,7 +3,6 @@ import 'server-only';
 import { cache } from 'react';
 
 import type { SessionUser } from '@/lib/types';
-import { hashApiKey } from './hash';
 import { getDb } from './connection';
 
 export type FullUser = SessionUser & {
@@ -12,7 +11,11 @@ export type FullUser = SessionUser & {
   gemini_api_key_2?: string; gemini_api_key_2_mode: 'global' | 'user_specific';
   gemini_api_key_3?: string; gemini_api_key_3_mode: 'global' | 'user_specific';
   fal_api_key?: string; fal_api_key_mode: 'global' | 'user_specific';
-  image_generation_model: 'fal_nano_banana_pro' | 'fal_gemini_2_5';
+  image_generation_model: string;
+  /** Generations per minute; undefined uses the limit of the user's role. */
+  rate_limit_per_minute?: number;
+  /** Monthly spending limit in USD; undefined means no budget. */
+  monthly_budget_usd?: number;
 };
 
 export const findUserByUsername = cache((username: string): FullUser | null => {
@@ -37,37 +40,13 @@ export const findUserByUsername = cache((username: string): FullUser | null => {
     fal_api_key: row.fal_api_key,
     fal_api_key_mode: row.fal_api_key_mode,
     image_generation_model: row.image_generation_model === 'google_gemini_2_0' ? 'fal_gemini_2_5' : row.image_generation_model,
+    rate_limit_per_minute: row.rate_limit_per_minute ?? undefined,
+    monthly_budget_usd: row.monthly_budget_usd ?? undefined,
   };
 });
 
 export { hashApiKey } from './hash';
 
-export const findUserByApiKey = cache((apiKey: string): FullUser | null => {
-  const db = getDb();
-  const hashedKey = hashApiKey(apiKey);
-  const stmt = db.prepare('SELECT * FROM users WHERE app_api_key = ?');
-  const row: any = stmt.get(hashedKey);
-
-  if (!row) {
-    return null;
-  }
-  return {
-    username: row.username,
-    passwordHash: row.password_hash,
-    role: row.role as 'admin' | 'user',
-    isLoggedIn: true, // For session compatibility
-    gemini_api_key_1: row.gemini_api_key_1,
-    gemini_api_key_1_mode: row.gemini_api_key_1_mode,
-    gemini_api_key_2: row.gemini_api_key_2,
-    gemini_api_key_2_mode: row.gemini_api_key_2_mode,
-    gemini_api_key_3: row.gemini_api_key_3,
-    gemini_api_key_3_mode: row.gemini_api_key_3_mode,
-    fal_api_key: row.fal_api_key,
-    fal_api_key_mode: row.fal_api_key_mode,
-    image_generation_model: row.image_generation_model === 'google_gemini_2_0' ? 'fal_gemini_2_5' : row.image_generation_model,
-  };
-});
-
 // --- Admin User DB Operations ---
 
 /**
@@ -76,7 +55,7 @@ export const findUserByApiKey = cache((apiKey: string): FullUser | null => {
 export function getAllUsersFromDb(): any[] {
   const db = getDb();
   const stmt = db.prepare(
-    'SELECT username, role, gemini_api_key_1_mode, gemini_api_key_2_mode, gemini_api_key_3_mode, fal_api_key_mode, image_generation_model FROM users ORDER BY username'
+    'SELECT username, role, gemini_api_key_1_mode, gemini_api_key_2_mode, gemini_api_key_3_mode, fal_api_key_mode, image_generation_model, rate_limit_per_minute, monthly_budget_usd FROM users ORDER BY username'
   );
   return stmt.all() as any[];
 }
@@ -112,13 +91,3 @@ export function updateUserConfigInDb(username: string, setClauses: string[], par
   const stmt = db.prepare(sql);
   stmt.run(...params, username);
 }
-
-/**
- * Sets the hashed API key for a user. Returns the number of rows affected.
- */
-export function setApiKeyForUserInDb(username: string, hashedKey: string): number {
-  const db = getDb();
-  const stmt = db.prepare('UPDATE users SET app_api_key = ? WHERE username = ?');
-  const result = stmt.run(hashedKey, username);
-  return result.changes;
-}
@@ -0,0 +1,229 @@
+import 'server-only';
+
+import type Database from 'better-sqlite3';
+
+import type { VideoMediaInfo, VideoSlot } from '@/lib/types';
+import { getDb } from './connection';
+
+export interface VideoSlotRef {
+  historyId: string;
+  slotIndex: number;
+}
+
+/**
+ * A change to one clip. Omitted fields are left as they are; null clears them.
+ */
+export interface VideoSlotUpdate {
+  status?: VideoSlot['status'];
+  error?: string | null;
+  seed?: number | null;
+  localVideoUrl?: string | null;
+  /** Remote (fal.ai) URL of the clip, stored as its 'generated_video' image. */
+  videoUrl?: string | null;
+  media?: VideoMediaInfo | null;
+}
+
+export interface PendingFalVideo extends VideoSlotRef {
+  username: string;
+  falRequestId: string;
+  falSubmittedAt: number;
+}
+
+// --- Internal helpers ---
+
+interface SlotSummaryRow {
+  status: VideoSlot['status'];
+  error: string | null;
+  seed: number | null;
+  local_video_url: string | null;
+  media: string | null;
+}
+
+/**
+ * The item-level video status: processing while any clip is, completed once one clip is.
+ * The first completed clip is the item's video. Null values remove the key in json_patch.
+ */
+function summarizeSlots(slots: SlotSummaryRow[]) {
+  const completed = slots.find(slot => slot.status === 'completed');
+  const media = completed?.media ? JSON.parse(completed.media) as VideoMediaInfo : null;
+  const status = slots.some(slot => slot.status === 'processing') ? 'processing'
+    : completed ? 'completed'
+    : slots.every(slot => slot.status === 'cancelled') ? 'cancelled'
+    : 'failed';
+
+  return {
+    status,
+    localVideoUrl: completed?.local_video_url ?? null,
+    ...(completed?.seed != null && { seed: completed.seed }),
+    ...(media && { media }),
+    error: status === 'failed' ? slots.find(slot => slot.error)?.error ?? 'Video generation failed' : null,
+  };
+}
+
+/**
+ * Rewrites the item-level summary of a video's clips in videoGenerationParams.
+ * The previous media details are removed first, since json_patch merges nested objects.
+ */
+function refreshVideoSummary(db: Database.Database, historyId: string): void {
+  const slots = db.prepare(`
+    SELECT status, error, seed, local_video_url, media FROM history_video_slots
+    WHERE history_id = ? ORDER BY slot_index
+  `).all(historyId) as SlotSummaryRow[];
+  db.prepare(`
+    UPDATE history SET videoGenerationParams = json_patch(json_remove(COALESCE(videoGenerationParams, '{}'), '$.media'), ?)
+    WHERE id = ?
+  `).run(JSON.stringify(summarizeSlots(slots)), historyId);
+}
+
+// --- Public API ---
+
+/**
+ * Records the Fal queue request a clip was submitted as.
+ */
+export function setVideoSlotFalRequest(historyId: string, slotIndex: number, requestId: string, submittedAt: number = Date.now()): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE history_video_slots SET fal_request_id = ?, fal_submitted_at = ?
+    WHERE history_id = ? AND slot_index = ?
+  `).run(requestId, submittedAt, historyId, slotIndex);
+}
+
+/**
+ * Finds the clip a Fal request was submitted for.
+ */
+export function findVideoSlotByFalRequestId(requestId: string): VideoSlotRef | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT history_id, slot_index FROM history_video_slots WHERE fal_request_id = ?`)
+    .get(requestId) as { history_id: string; slot_index: number } | undefined;
+  return row ? { historyId: row.history_id, slotIndex: row.slot_index } : null;
+}
+
+/**
+ * Reads the current state of a video's clips in slot order, bypassing the per-request
+ * history item cache.
+ */
+export function findVideoSlotStates(historyId: string): Pick<VideoSlot, 'slotIndex' | 'status' | 'error' | 'localVideoUrl'>[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT slot_index, status, error, local_video_url FROM history_video_slots
+    WHERE history_id = ? ORDER BY slot_index
+  `).all(historyId) as { slot_index: number; status: VideoSlot['status']; error: string | null; local_video_url: string | null }[];
+
+  return rows.map(row => ({
+    slotIndex: row.slot_index,
+    status: row.status,
+    error: row.error ?? undefined,
+    localVideoUrl: row.local_video_url ?? undefined,
+  }));
+}
+
+/**
+ * Finds clips submitted to Fal before the cutoff that are still processing, oldest first.
+ */
+export function findPendingFalVideos(submittedBefore: number, limit: number): PendingFalVideo[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT s.history_id, s.slot_index, h.username, s.fal_request_id, s.fal_submitted_at
+    FROM history_video_slots s
+    JOIN history h ON h.id = s.history_id
+    WHERE s.status = 'processing'
+      AND s.fal_request_id IS NOT NULL
+      AND s.fal_submitted_at < ?
+      AND h.status != 'cancelled'
+    ORDER BY s.fal_submitted_at
+    LIMIT ?
+  `).all(submittedBefore, limit) as { history_id: string; slot_index: number; username: string; fal_request_id: string; fal_submitted_at: number }[];
+
+  return rows.map(row => ({
+    historyId: row.history_id,
+    slotIndex: row.slot_index,
+    username: row.username,
+    falRequestId: row.fal_request_id,
+    falSubmittedAt: row.fal_submitted_at,
+  }));
+}
+
+/**
+ * Atomically updates one clip and the item-level status, error, seed and local video
+ * that summarize the item's clips in videoGenerationParams.
+ * @returns False if the history item has no clip in that slot.
+ */
+export function updateVideoSlot(historyId: string, slotIndex: number, update: VideoSlotUpdate): boolean {
+  const db = getDb();
+
+  const updateTransaction = db.transaction((): boolean => {
+    const result = db.prepare(`
+      UPDATE history_video_slots
+      SET status = COALESCE(?, status),
+          error = CASE WHEN ? THEN ? ELSE error END,
+          seed = CASE WHEN ? THEN ? ELSE seed END,
+          local_video_url = CASE WHEN ? THEN ? ELSE local_video_url END,
+          media = CASE WHEN ? THEN ? ELSE media END
+      WHERE history_id = ? AND slot_index = ?
+    `).run(
+      update.status ?? null,
+      Number(update.error !== undefined), update.error ?? null,
+      Number(update.seed !== undefined), update.seed ?? null,
+      Number(update.localVideoUrl !== undefined), update.localVideoUrl ?? null,
+      Number(update.media !== undefined), update.media ? JSON.stringify(update.media) : null,
+      historyId,
+      slotIndex
+    );
+    if (result.changes === 0) {
+      return false;
+    }
+
+    if (update.videoUrl !== undefined) {
+      db.prepare(`DELETE FROM history_images WHERE history_id = ? AND type = 'generated_video' AND slot_index = ?`).run(historyId, slotIndex);
+      if (update.videoUrl) {
+        db.prepare(`INSERT INTO history_images (history_id, url, type, slot_index) VALUES (?, ?, 'generated_video', ?)`)
+          .run(historyId, update.videoUrl, slotIndex);
+      }
+    }
+
+    refreshVideoSummary(db, historyId);
+    return true;
+  });
+
+  return updateTransaction();
+}
+
+/**
+ * Appends a clip to a video history item, e.g. a trimmed version of another clip.
+ * @returns The new clip's slot index.
+ */
+export function addVideoSlot(historyId: string, slot: Omit<VideoSlot, 'slotIndex' | 'falRequestId'>): number {
+  const db = getDb();
+
+  const addTransaction = db.transaction((): number => {
+    const { next } = db.prepare(`SELECT COALESCE(MAX(slot_index) + 1, 0) as next FROM history_video_slots WHERE history_id = ?`)
+      .get(historyId) as { next: number };
+    db.prepare(`
+      INSERT INTO history_video_slots (history_id, slot_index, params, status, error, seed, local_video_url, media, trimmed_from)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      historyId,
+      next,
+      JSON.stringify(slot.params),
+      slot.status,
+      slot.error ?? null,
+      slot.seed ?? null,
+      slot.localVideoUrl ?? null,
+      slot.media ? JSON.stringify(slot.media) : null,
+      slot.trimmedFrom ? JSON.stringify(slot.trimmedFrom) : null
+    );
+    refreshVideoSummary(db, historyId);
+    return next;
+  });
+
+  return addTransaction.immediate();
+}
+
+/**
+ * Marks the clips of a cancelled video that are still processing as cancelled.
+ */
+export function cancelVideoSlots(historyId: string): void {
+  const db = getDb();
+  db.prepare(`UPDATE history_video_slots SET status = 'cancelled', error = 'Cancelled by user' WHERE history_id = ? AND status = 'processing'`)
+    .run(historyId);
+}
@@ -0,0 +1,175 @@
+import 'server-only';
+
+import type { WebhookEventType } from '@/lib/api-schemas';
+import { getDb } from './connection';
+
+/**
+ * 'pending' attempts are due at `scheduledAt`; 'sending' attempts have been claimed by the
+ * retry worker or the request that created them.
+ */
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed';
+
+/** A single attempt to deliver a webhook. Retries and redeliveries are new rows with the same eventId. */
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  historyId?: string;
+  batchId?: string;
+  /** Registered endpoint the attempt is for; unset for one-off webhookUrl deliveries. */
+  endpointId?: string;
+  eventType?: WebhookEventType;
+  url: string;
+  payload: string;
+  attempt: number;
+  status: WebhookDeliveryStatus;
+  manual: boolean;
+  scheduledAt: number;
+  attemptedAt?: number;
+  statusCode?: number;
+  latencyMs?: number;
+  responseSnippet?: string;
+  error?: string;
+  createdAt: number;
+}
+
+export interface WebhookAttemptResult {
+  succeeded: boolean;
+  statusCode?: number;
+  latencyMs: number;
+  responseSnippet?: string;
+  error?: string;
+}
+
+function rowToWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    historyId: row.history_id || undefined,
+    batchId: row.batch_id || undefined,
+    endpointId: row.endpoint_id || undefined,
+    eventType: (row.event_type as WebhookEventType) || undefined,
+    url: row.url,
+    payload: row.payload,
+    attempt: row.attempt,
+    status: row.status as WebhookDeliveryStatus,
+    manual: row.manual === 1,
+    scheduledAt: row.scheduled_at,
+    attemptedAt: row.attempted_at || undefined,
+    statusCode: row.status_code ?? undefined,
+    latencyMs: row.latency_ms ?? undefined,
+    responseSnippet: row.response_snippet || undefined,
+    error: row.error || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// --- Public API ---
+
+export function insertWebhookDelivery(
+  delivery: Pick<WebhookDelivery, 'id' | 'eventId' | 'historyId' | 'batchId' | 'endpointId' | 'eventType' | 'url' | 'payload' | 'attempt' | 'scheduledAt'> & { manual?: boolean }
+): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO webhook_deliveries
+      (id, event_id, history_id, batch_id, endpoint_id, event_type, url, payload, attempt, status, manual, scheduled_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+  `).run(
+    delivery.id,
+    delivery.eventId,
+    delivery.historyId ?? null,
+    delivery.batchId ?? null,
+    delivery.endpointId ?? null,
+    delivery.eventType ?? null,
+    delivery.url,
+    delivery.payload,
+    delivery.attempt,
+    delivery.manual ? 1 : 0,
+    delivery.scheduledAt,
+    Date.now()
+  );
+}
+
+export function findWebhookDeliveryById(id: string): WebhookDelivery | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id);
+  return row ? rowToWebhookDelivery(row) : null;
+}
+
+/**
+ * Claims a pending attempt so that it is sent exactly once.
+ * @returns True if the attempt was pending and is now ours to send.
+ */
+export function claimWebhookDelivery(id: string): boolean {
+  const db = getDb();
+  const result = db.prepare(`UPDATE webhook_deliveries SET status = 'sending' WHERE id = ? AND status = 'pending'`).run(id);
+  return result.changes > 0;
+}
+
+export function recordWebhookAttempt(id: string, outcome: WebhookAttemptResult): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = ?, attempted_at = ?, status_code = ?, latency_ms = ?, response_snippet = ?, error = ?
+    WHERE id = ?
+  `).run(
+    outcome.succeeded ? 'succeeded' : 'failed',
+    Date.now(),
+    outcome.statusCode ?? null,
+    outcome.latencyMs,
+    outcome.responseSnippet ?? null,
+    outcome.error ?? null,
+    id
+  );
+}
+
+/**
+ * Pending attempts whose scheduled time has passed, oldest first.
+ */
+export function findDueWebhookDeliveries(now: number, limit: number): WebhookDelivery[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE status = 'pending' AND scheduled_at <= ?
+    ORDER BY scheduled_at
+    LIMIT ?
+  `).all(now, limit);
+  return rows.map(rowToWebhookDelivery);
+}
+
+/**
+ * Attempts left in 'sending' by a restart never got a result; send them again.
+ * @returns The number of attempts returned to 'pending'.
+ */
+export function requeueInterruptedWebhookDeliveries(): number {
+  const db = getDb();
+  return db.prepare(`UPDATE webhook_deliveries SET status = 'pending' WHERE status = 'sending'`).run().changes;
+}
+
+/**
+ * Highest attempt number recorded for an event, used to number retries and redeliveries.
+ */
+export function getLatestWebhookAttempt(eventId: string): number {
+  const db = getDb();
+  const row = db.prepare('SELECT MAX(attempt) as attempt FROM webhook_deliveries WHERE event_id = ?').get(eventId) as { attempt: number | null };
+  return row.attempt ?? 0;
+}
+
+/**
+ * Lists delivery attempts, newest first. `jobId` matches either the job (history) or the batch ID.
+ */
+export function getWebhookDeliveries(options: { jobId?: string; limit: number }): WebhookDelivery[] {
+  const db = getDb();
+  const rows = options.jobId
+    ? db.prepare(`
+        SELECT * FROM webhook_deliveries
+        WHERE history_id = ? OR batch_id = ?
+        ORDER BY created_at DESC, attempt DESC
+        LIMIT ?
+      `).all(options.jobId, options.jobId, options.limit)
+    : db.prepare(`
+        SELECT * FROM webhook_deliveries
+        ORDER BY created_at DESC, attempt DESC
+        LIMIT ?
+      `).all(options.limit);
+  return rows.map(rowToWebhookDelivery);
+}
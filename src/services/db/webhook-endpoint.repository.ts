@@ -0,0 +1,128 @@
+import 'server-only';
+
+import type { WebhookEventType } from '@/lib/api-schemas';
+import { getDb } from './connection';
+import { safeJsonParse } from './json';
+
+/** A webhook target registered by a user. The signing secret is stored encrypted and never returned here. */
+export interface WebhookEndpoint {
+  id: string;
+  username: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function rowToWebhookEndpoint(row: any): WebhookEndpoint {
+  return {
+    id: row.id,
+    username: row.username,
+    url: row.url,
+    description: row.description || undefined,
+    events: safeJsonParse<WebhookEventType[]>(row.events, []),
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// --- Public API ---
+
+export function insertWebhookEndpoint(
+  endpoint: Pick<WebhookEndpoint, 'id' | 'username' | 'url' | 'description' | 'events' | 'enabled'> & { encryptedSecret: string }
+): void {
+  const db = getDb();
+  const now = Date.now();
+  db.prepare(`
+    INSERT INTO webhook_endpoints (id, username, url, description, secret, events, enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    endpoint.id,
+    endpoint.username,
+    endpoint.url,
+    endpoint.description ?? null,
+    endpoint.encryptedSecret,
+    JSON.stringify(endpoint.events),
+    endpoint.enabled ? 1 : 0,
+    now,
+    now
+  );
+}
+
+export function findWebhookEndpointById(id: string): WebhookEndpoint | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM webhook_endpoints WHERE id = ?').get(id);
+  return row ? rowToWebhookEndpoint(row) : null;
+}
+
+export function findWebhookEndpointsByUsername(username: string): WebhookEndpoint[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT * FROM webhook_endpoints WHERE username = ? ORDER BY created_at').all(username);
+  return rows.map(rowToWebhookEndpoint);
+}
+
+/**
+ * Enabled endpoints of a user that subscribe to the given event type.
+ */
+export function findSubscribedWebhookEndpoints(username: string, eventType: WebhookEventType): WebhookEndpoint[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT * FROM webhook_endpoints
+    WHERE username = ? AND enabled = 1
+      AND EXISTS (SELECT 1 FROM json_each(webhook_endpoints.events) WHERE value = ?)
+    ORDER BY created_at
+  `).all(username, eventType);
+  return rows.map(rowToWebhookEndpoint);
+}
+
+/**
+ * @returns The encrypted signing secret, or null if the endpoint does not exist.
+ */
+export function findWebhookEndpointSecret(id: string): string | null {
+  const db = getDb();
+  const row = db.prepare('SELECT secret FROM webhook_endpoints WHERE id = ?').get(id) as { secret: string } | undefined;
+  return row?.secret ?? null;
+}
+
+export function updateWebhookEndpoint(
+  id: string,
+  updates: Partial<Pick<WebhookEndpoint, 'url' | 'events' | 'enabled'>> & { description?: string | null; encryptedSecret?: string }
+): void {
+  const db = getDb();
+  const setClauses: string[] = [];
+  const params: unknown[] = [];
+
+  if (updates.url !== undefined) {
+    setClauses.push('url = ?');
+    params.push(updates.url);
+  }
+  if (updates.description !== undefined) {
+    setClauses.push('description = ?');
+    params.push(updates.description);
+  }
+  if (updates.events !== undefined) {
+    setClauses.push('events = ?');
+    params.push(JSON.stringify(updates.events));
+  }
+  if (updates.enabled !== undefined) {
+    setClauses.push('enabled = ?');
+    params.push(updates.enabled ? 1 : 0);
+  }
+  if (updates.encryptedSecret !== undefined) {
+    setClauses.push('secret = ?');
+    params.push(updates.encryptedSecret);
+  }
+
+  setClauses.push('updated_at = ?');
+  params.push(Date.now());
+
+  db.prepare(`UPDATE webhook_endpoints SET ${setClauses.join(', ')} WHERE id = ?`).run(...params, id);
+}
+
+export function deleteWebhookEndpoint(id: string): number {
+  const db = getDb();
+  return db.prepare('DELETE FROM webhook_endpoints WHERE id = ?').run(id).changes;
+}
@@ -53,3 +53,23 @@ export function decrypt(encryptedText: string | null | undefined): string {
     return '';
   }
 }
+
+/**
+ * Signs a value with HMAC-SHA256, for tokens that must not be forged (e.g. share links).
+ * The key is derived from ENCRYPTION_SECRET per purpose, so a signature made for one purpose
+ * is never valid for another.
+ * @returns The base64url encoded signature.
+ */
+export function sign(value: string, purpose: string): string {
+  const key = crypto.createHmac('sha256', ENCRYPTION_KEY).update(purpose).digest();
+  return crypto.createHmac('sha256', key).update(value).digest('base64url');
+}
+
+/**
+ * Checks a signature made by `sign` in constant time.
+ */
+export function verifySignature(value: string, signature: string, purpose: string): boolean {
+  const expected = Buffer.from(sign(value, purpose));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,17 @@
+// src/services/fal-api/client.ts
+import 'server-only';
+
+import { createFalClient, type FalClient } from '@fal-ai/client';
+import { isMockProviderMode } from '@/lib/provider-mode';
+import { createMockFalClient } from '@/services/mock-provider/fal';
+
+/**
+ * A Fal.ai client scoped to one set of credentials (never the shared singleton),
+ * or the local mock in `PROVIDER_MODE=mock`.
+ */
+export function createScopedFalClient(credentials: string): FalClient {
+  if (isMockProviderMode()) {
+    return createMockFalClient();
+  }
+  return createFalClient({ credentials });
+}
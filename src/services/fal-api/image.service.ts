@@ -3,40 +3,90 @@
 
 import 'server-only';
 
-import { createFalClient } from '@fal-ai/client';
+import type { FalClient } from '@fal-ai/client';
+import { createScopedFalClient } from './client';
 import { createApiLogger } from '@/lib/api-logger';
 import { getApiKeyForUser } from '@/services/apiKey.service'; // Import key service
+import { recordCost } from '@/services/cost.service';
+import { getFalImageCost } from '@/lib/pricing';
+import type { CostOperation } from '@/services/db';
+import type { ImageModel } from '@/lib/image-models';
+import { isMockProviderMode } from '@/lib/provider-mode';
 
 /**
- * Generates an image using Fal.ai's Gemini 2.5 Flash Image model.
+ * Runs fal.subscribe and, when the signal aborts, stops polling and cancels the
+ * request on Fal.ai's queue so it is not billed or completed needlessly.
+ */
+async function subscribeWithCancellation(
+  fal: FalClient,
+  modelId: string,
+  options: Parameters<FalClient['subscribe']>[1],
+  signal?: AbortSignal
+): Promise<unknown> {
+  if (!signal) {
+    return fal.subscribe(modelId, options);
+  }
+  signal.throwIfAborted();
+
+  let requestId: string | undefined;
+  const cancelRequest = () => {
+    if (requestId) {
+      fal.queue.cancel(modelId, { requestId }).catch(err => {
+        console.warn(`Failed to cancel Fal.ai request ${requestId}:`, err);
+      });
+    }
+  };
+  signal.addEventListener('abort', cancelRequest, { once: true });
+
+  try {
+    return await fal.subscribe(modelId, {
+      ...options,
+      abortSignal: signal,
+      onEnqueue: (id: string) => {
+        requestId = id;
+        if (signal.aborted) cancelRequest();
+      },
+    });
+  } finally {
+    signal.removeEventListener('abort', cancelRequest);
+  }
+}
+
+/**
+ * Generates one image with a registered Fal edit model (see src/lib/image-models.ts).
+ * Only the options the model declares are sent.
  * @param prompt The text prompt for generation.
  * @param imageUrl The public URL of the source image.
  * @param username The user performing the action for authentication.
+ * @param model The registry entry of the model to use.
  * @returns Promise<{imageUrl: string, description?: string}> The result from FAL.AI
  */
 export async function generateWithFalEditModel(
   prompt: string,
   imageUrl: string, // MUST be a public URL
   username: string,
-  modelId: 'fal-ai/gemini-25-flash-image/edit' | 'fal-ai/nano-banana-pro/edit',
+  model: Pick<ImageModel, 'id' | 'endpoint' | 'options'>,
   apiKey?: string,
-  options?: { aspectRatio?: string } // NEW: Options argument
+  options?: { aspectRatio?: string; signal?: AbortSignal } // NEW: Options argument
 ): Promise<{ imageUrl: string; description?: string }> {
-  const logger = createApiLogger('FAL_IMAGE', `Generation (${modelId.split('/')[1]})`, {
+  const modelId = model.endpoint;
+  const logger = createApiLogger('FAL_IMAGE', `Generation (${model.id})`, {
     username,
     model: modelId,
   });
 
-  // Construct input with optional aspect ratio
   const input: any = {
     prompt: prompt,
     image_urls: [imageUrl],
-    num_images: 1,
-    output_format: "png",
   };
-
-  // Only add aspect_ratio if explicitly provided AND model supports it (Nano Banana)
-  if (options?.aspectRatio && modelId.includes('nano-banana-pro')) {
+  if (model.options.numImages) {
+    input.num_images = 1;
+  }
+  if (model.options.outputFormats.length > 0) {
+    input.output_format = model.options.outputFormats[0];
+  }
+  // Only add aspect_ratio if explicitly provided AND the model supports it
+  if (options?.aspectRatio && model.options.aspectRatio) {
     input.aspect_ratio = options.aspectRatio;
   }
 
@@ -55,12 +105,10 @@ export async function generateWithFalEditModel(
     }
 
     // REFACTORED: Create scoped client
-    const fal = createFalClient({
-      credentials: keyToUse,
-    });
+    const fal = createScopedFalClient(keyToUse);
 
     // Use scoped client
-    const result: any = await fal.subscribe(modelId, {
+    const result: any = await subscribeWithCancellation(fal, modelId, {
       input,
       logs: true,
       onQueueUpdate: (update: any) => {
@@ -68,7 +116,7 @@ export async function generateWithFalEditModel(
           update.logs.forEach((log: any) => logger.progress(`Queue: ${log.message}`));
         }
       },
-    });
+    }, options?.signal);
 
     // Parse response
     // Expected format from Fal: { images: [{ url: "..." }], description: "..." }
@@ -132,10 +180,19 @@ const NEGATIVE_FACE_DETAILER_PROMPT = "weird, ugly, make-up, cartoon, anime";
  * @param modelId The ID of the Fal.ai model to run.
  * @param input The input object for the model. Data URIs are automatically uploaded.
  * @param taskName A descriptive name for the task for logging purposes.
- * @param username The username (preserved for compatibility, not used for auth).
+ * @param username The user whose Fal key is used and who is charged for the call.
+ * @param operation The ledger operation the estimated cost is recorded under.
+ * @param historyId The history item the call belongs to, if any.
  * @returns Promise<string> The URL of the processed image from Fal.ai.
  */
-async function runFalImageWorkflow(modelId: string, input: any, taskName: string, username: string): Promise<string> {
+async function runFalImageWorkflow(
+  modelId: string,
+  input: any,
+  taskName: string,
+  username: string,
+  operation: CostOperation,
+  historyId?: string
+): Promise<string> {
   const logger = createApiLogger('FAL_IMAGE', taskName, {
     username,
     endpoint: modelId,
@@ -151,9 +208,7 @@ async function runFalImageWorkflow(modelId: string, input: any, taskName: string
     const apiKey = await getApiKeyForUser(username, 'fal');
 
     // 2. Create scoped client
-    const fal = createFalClient({
-      credentials: apiKey,
-    });
+    const fal = createScopedFalClient(apiKey);
 
     logger.progress('Submitting to Fal.ai queue');
 
@@ -186,6 +241,7 @@ async function runFalImageWorkflow(modelId: string, input: any, taskName: string
     if (!outputImageUrl) {
       throw new Error('Fal.ai did not return a valid image URL');
     }
+    recordCost({ username, historyId, provider: 'fal', operation, model: modelId, amount: getFalImageCost(modelId) });
 
     logger.success({
       imageUrl: outputImageUrl,
@@ -203,8 +259,8 @@ async function runFalImageWorkflow(modelId: string, input: any, taskName: string
  * @param imageUrlOrDataUri The image data URI or public URL to process
  * @returns Promise<string> The URL of the processed image from Fal.ai
  */
-export async function removeBackground(imageUrlOrDataUri: string, username: string): Promise<string> {
-  return runFalImageWorkflow("fal-ai/rembg", { image_url: imageUrlOrDataUri }, 'Background Removal', username);
+export async function removeBackground(imageUrlOrDataUri: string, username: string, historyId?: string): Promise<string> {
+  return runFalImageWorkflow("fal-ai/rembg", { image_url: imageUrlOrDataUri }, 'Background Removal', username, 'background_removal', historyId);
 }
 
 /**
@@ -212,7 +268,7 @@ export async function removeBackground(imageUrlOrDataUri: string, username: stri
  * @param imageUrlOrDataUri The image URL or data URI to process
  * @returns Promise<string> The URL of the processed image from Fal.ai
  */
-export async function upscaleAndEnhance(imageUrlOrDataUri: string, username: string): Promise<string> {
+export async function upscaleAndEnhance(imageUrlOrDataUri: string, username: string, historyId?: string): Promise<string> {
   const input = {
     loadimage_1: imageUrlOrDataUri,
     prompt_upscale: UPSCALE_PROMPT,
@@ -220,7 +276,7 @@ export async function upscaleAndEnhance(imageUrlOrDataUri: string, username: str
     prompt_face: UPSCALE_FACE_PROMPT,
     negative_face: NEGATIVE_UPSCALE_FACE_PROMPT,
   };
-  return runFalImageWorkflow("comfy/opj161/sd-ultimateface", input, 'Upscaling and Enhancement', username);
+  return runFalImageWorkflow("comfy/opj161/sd-ultimateface", input, 'Upscaling and Enhancement', username, 'upscale', historyId);
 }
 
 /**
@@ -228,13 +284,13 @@ export async function upscaleAndEnhance(imageUrlOrDataUri: string, username: str
  * @param imageUrlOrDataUri The image URL or data URI to process
  * @returns Promise<string> The URL of the processed image from Fal.ai
  */
-export async function detailFaces(imageUrlOrDataUri: string, username: string): Promise<string> {
+export async function detailFaces(imageUrlOrDataUri: string, username: string, historyId?: string): Promise<string> {
   const input = {
     loadimage_1: imageUrlOrDataUri,
     prompt_face: FACE_DETAILER_PROMPT,
     negative_face: NEGATIVE_FACE_DETAILER_PROMPT,
   };
-  return runFalImageWorkflow("comfy/opj161/face-detailer", input, 'Face Detailing', username);
+  return runFalImageWorkflow("comfy/opj161/face-detailer", input, 'Face Detailing', username, 'face_detailer', historyId);
 }
 
 /**
@@ -243,8 +299,8 @@ export async function detailFaces(imageUrlOrDataUri: string, username: string):
  * @returns {Promise<boolean>} True if the service is available, otherwise false.
  */
 export async function isServiceAvailable(): Promise<boolean> {
-  // Check environment variable first
-  if (process.env.FAL_KEY) return true;
+  // Check environment variable first; mock mode needs no key
+  if (process.env.FAL_KEY || isMockProviderMode()) return true;
   
   // Also check if a global key is configured in the database
   try {
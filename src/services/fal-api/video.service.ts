@@ -5,11 +5,15 @@
 import 'server-only';
 
 // FIX: Use factory function instead of global singleton
-import { createFalClient } from '@fal-ai/client';
+import { ApiError } from '@fal-ai/client';
+import { createScopedFalClient } from './client';
 
 import { createApiLogger } from '@/lib/api-logger';
 import { getApiKeyForUser } from '@/services/apiKey.service';
 import { getBooleanSetting } from '@/services/settings.service';
+import { recordCost } from '@/services/cost.service';
+import { estimateVideoGenerationCost } from '@/lib/pricing';
+import { isMockProviderMode } from '@/lib/provider-mode';
 
 // Strict adherence to the documentation provided
 const FAL_MODEL_ID = 'fal-ai/bytedance/seedance/v1/pro/fast/image-to-video';
@@ -33,6 +37,11 @@ export interface VideoGenerationResult {
   seed?: number;
 }
 
+/** A finished request, as Fal.ai posts it to the webhook. */
+export type VideoGenerationOutcome =
+  | { status: 'OK'; payload?: VideoGenerationResult; error?: undefined }
+  | { status: 'ERROR'; payload?: undefined; error: string };
+
 /**
  * Starts a video generation task using a webhook for completion notification
  * Enforces use of Seedance Pro Fast model.
@@ -40,7 +49,8 @@ export interface VideoGenerationResult {
 export async function startVideoGenerationWithWebhook(
   input: VideoGenerationInput, 
   webhookUrl: string, 
-  username: string
+  username: string,
+  historyId?: string
 ): Promise<string> {
   const logger = createApiLogger('FAL_VIDEO', 'Video Generation (Webhook)', {
     username,
@@ -51,9 +61,7 @@ export async function startVideoGenerationWithWebhook(
   const apiKey = await getApiKeyForUser(username, 'fal');
 
   // 2. Create a scoped client instance (Fixes Singleton Mutation)
-  const fal = createFalClient({
-    credentials: apiKey,
-  });
+  const fal = createScopedFalClient(apiKey);
 
   // 3. Construct payload strictly according to docs
   const falInput: any = {
@@ -92,6 +100,15 @@ export async function startVideoGenerationWithWebhook(
     logger.success({
       requestId: request_id,
     });
+    recordCost({
+      username,
+      historyId,
+      provider: 'fal',
+      operation: 'video_generation',
+      model: FAL_MODEL_ID,
+      variant: input.resolution || '1080p',
+      amount: estimateVideoGenerationCost(input.resolution, input.duration),
+    });
     
     return request_id;
   } catch (error) {
@@ -100,10 +117,34 @@ export async function startVideoGenerationWithWebhook(
   }
 }
 
+/**
+ * Cancels a queued or running video generation task.
+ * Fal.ai may still finish a request that is already running; callers must ignore late results.
+ */
+export async function cancelVideoGeneration(taskId: string, username: string): Promise<void> {
+  const logger = createApiLogger('FAL_VIDEO', 'Video Generation Cancel', {
+    username,
+    model: FAL_MODEL_ID,
+  });
+
+  const apiKey = await getApiKeyForUser(username, 'fal');
+  const fal = createScopedFalClient(apiKey);
+
+  logger.start({ requestId: taskId });
+  try {
+    await fal.queue.cancel(FAL_MODEL_ID, { requestId: taskId });
+    logger.success({ requestId: taskId });
+  } catch (error) {
+    logger.error(error);
+    throw error;
+  }
+}
+
 /**
  * Gets the status and result of a video generation task
+ * @returns The outcome in the shape Fal.ai posts to the webhook, or null while the request is still queued or running.
  */
-export async function getVideoGenerationResult(taskId: string, username?: string): Promise<VideoGenerationResult | null> {
+export async function getVideoGenerationResult(taskId: string, username?: string): Promise<VideoGenerationOutcome | null> {
   // Use user-scoped key if username is provided, otherwise fall back to global env key
   let credentials: string | undefined;
   if (username) {
@@ -117,36 +158,42 @@ export async function getVideoGenerationResult(taskId: string, username?: string
     credentials = process.env.FAL_KEY;
   }
 
-  if (!credentials) {
+  if (!credentials && !isMockProviderMode()) {
     throw new Error('No FAL API key available for video status check. Configure a global FAL_KEY or per-user key.');
   }
 
-  const fal = createFalClient({ credentials });
+  const fal = createScopedFalClient(credentials ?? '');
   
   try {
     console.log(`Checking status of video generation task: ${taskId}`);
     
-    const result = await fal.queue.status(FAL_MODEL_ID, {
+    const status = await fal.queue.status(FAL_MODEL_ID, {
       requestId: taskId,
       logs: process.env.NODE_ENV === 'development'
     });
     
-    if (result.status === 'COMPLETED') {
-      console.log('Video generation completed successfully');
-      const responseBody = (result as any).responseBody;
-      if (!responseBody) {
-        throw new Error('Video generation completed but response body is missing');
-      }
-      return responseBody as VideoGenerationResult;
-    } else {
-      console.log(`Video generation still in progress. Status: ${result.status}`);
+    if (status.status !== 'COMPLETED') {
+      console.log(`Video generation still in progress. Status: ${status.status}`);
       return null; 
     }
-    
   } catch (error) {
     console.error('Error checking video generation status:', error);
     throw new Error(`Failed to check video generation status: ${(error as Error).message}`);
   }
+
+  // A completed request that failed on Fal's side answers the result request with an error status
+  try {
+    const { data } = await fal.queue.result(FAL_MODEL_ID, { requestId: taskId });
+    console.log('Video generation completed successfully');
+    return { status: 'OK', payload: data as VideoGenerationResult };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      console.warn(`Video generation ${taskId} failed on fal.ai:`, error.message);
+      return { status: 'ERROR', error: error.message };
+    }
+    console.error('Error fetching video generation result:', error);
+    throw new Error(`Failed to fetch video generation result: ${(error as Error).message}`);
+  }
 }
 
 /**
@@ -154,7 +201,7 @@ export async function getVideoGenerationResult(taskId: string, username?: string
  * @returns Promise<boolean> True if the service is configured and available
  */
 export async function isVideoServiceAvailable(): Promise<boolean> {
-  // Check if the feature flag is enabled AND FAL_KEY is set
+  // Check if the feature flag is enabled AND FAL_KEY is set (mock mode needs no key)
   const featureEnabled = await getBooleanSetting('feature_video_generation');
-  return featureEnabled && !!process.env.FAL_KEY;
+  return featureEnabled && (!!process.env.FAL_KEY || isMockProviderMode());
 }
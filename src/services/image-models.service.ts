@@ -0,0 +1,47 @@
+// src/services/image-models.service.ts
+import 'server-only';
+
+import * as settingsService from '@/services/settings.service';
+import {
+  BUILT_IN_IMAGE_MODELS,
+  DEFAULT_IMAGE_MODEL_ID,
+  applyImageModelsConfig,
+  type ImageModel,
+} from '@/lib/image-models';
+
+/**
+ * Every registered image model: the built-ins plus the `image_models_config` setting.
+ * An invalid setting is ignored (and logged) so generation keeps working with the built-ins.
+ */
+export function getImageModels(): ImageModel[] {
+  try {
+    return applyImageModelsConfig(BUILT_IN_IMAGE_MODELS, settingsService.getSetting('image_models_config'));
+  } catch (error) {
+    console.error('Ignoring image model configuration:', (error as Error).message);
+    return BUILT_IN_IMAGE_MODELS;
+  }
+}
+
+export function getAvailableImageModels(): ImageModel[] {
+  return getImageModels().filter(model => model.available);
+}
+
+/**
+ * The model to generate with for a user's `image_generation_model`. Unknown or unavailable
+ * models fall back to the default model, then to any available model.
+ * @returns null when no model is available at all.
+ */
+export function resolveImageModel(modelId: string | undefined): ImageModel | null {
+  const available = getAvailableImageModels();
+  return available.find(model => model.id === modelId)
+    ?? available.find(model => model.id === DEFAULT_IMAGE_MODEL_ID)
+    ?? available[0]
+    ?? null;
+}
+
+/**
+ * Display name of a Fal endpoint if it belongs to a registered model.
+ */
+export function getImageModelLabelByEndpoint(endpoint: string): string | undefined {
+  return getImageModels().find(model => model.endpoint === endpoint)?.label;
+}
@@ -0,0 +1,323 @@
+// src/services/job-queue.service.ts
+import 'server-only';
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as dbService from '@/services/db';
+import type { QueueJob } from '@/services/db';
+import type { HistoryItem } from '@/lib/types';
+import * as settingsService from '@/services/settings.service';
+
+/**
+ * Runs a claimed job. Resolve to complete the job (the value is stored as its result),
+ * throw to fail it, or resolve to AWAIT_CALLBACK to keep the slot occupied until an
+ * external callback (e.g. the Fal webhook) calls settleWaitingJob.
+ * The signal is aborted when the job is cancelled; handlers should stop and skip persisting results.
+ */
+export type JobHandler<TPayload = unknown> = (payload: TPayload, job: QueueJob, signal: AbortSignal) => Promise<unknown>;
+
+export interface JobHandlerOptions {
+  /** Called when a job waiting for an external callback is cancelled, e.g. to cancel the Fal request. */
+  onCancelWaiting?: (job: QueueJob) => Promise<void>;
+  /** How long a job may wait for its external callback before it is failed; defaults to WAITING_JOB_TIMEOUT_MS. */
+  waitingTimeoutMs?: number;
+}
+
+/** Sentinel returned by handlers whose work finishes outside the process (webhooks). */
+export const AWAIT_CALLBACK = Symbol('await-callback');
+
+/** Higher priority jobs are claimed first; interactive web UI requests jump ahead of API traffic. */
+export const JOB_PRIORITY = {
+  interactive: 10,
+  api: 0,
+} as const;
+
+/** Jobs interrupted this many times by a restart are failed instead of retried. */
+const MAX_ATTEMPTS = 3;
+/** Safety net for jobs whose work finishes outside the process but whose callback never arrives. */
+const WAITING_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+const POLL_INTERVAL_MS = 5000;
+
+export interface JobLifecycle {
+  /** Resolves when a worker picks the job up. */
+  started: Promise<void>;
+  /** Resolves (never rejects) with the final job record once it completes, fails or is cancelled. */
+  settled: Promise<QueueJob>;
+}
+
+interface RegisteredHandler {
+  run: JobHandler<any>;
+  options: JobHandlerOptions;
+}
+
+interface QueueState {
+  handlers: Map<string, RegisteredHandler>;
+  /** Abort controllers for jobs running in this process. */
+  controllers: Map<string, AbortController>;
+  events: EventEmitter;
+  workerStarted: boolean;
+  pollTimer?: NodeJS.Timeout;
+}
+
+// Queue state lives on globalThis so that every bundle (instrumentation, routes, actions)
+// and HMR reloads share one handler registry and one worker.
+const globalForQueue = globalThis as unknown as { jobQueue?: QueueState };
+
+function getState(): QueueState {
+  if (!globalForQueue.jobQueue) {
+    const events = new EventEmitter();
+    events.setMaxListeners(0);
+    globalForQueue.jobQueue = { handlers: new Map(), controllers: new Map(), events, workerStarted: false };
+  }
+  return globalForQueue.jobQueue;
+}
+
+function emitSettled(jobId: string): void {
+  const job = dbService.findJobById(jobId);
+  if (job) {
+    getState().events.emit(`settled:${jobId}`, job);
+  }
+}
+
+async function runJob(job: QueueJob): Promise<void> {
+  const state = getState();
+  const handler = state.handlers.get(job.type);
+  const controller = new AbortController();
+  state.controllers.set(job.id, controller);
+  state.events.emit(`started:${job.id}`);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type '${job.type}'`);
+    }
+    const result = await handler.run(job.payload, job, controller.signal);
+    if (controller.signal.aborted) {
+      // cancelQueuedJob already settled the job; ignore whatever the handler produced.
+      return;
+    }
+    if (result === AWAIT_CALLBACK) {
+      dbService.markJobWaiting(job.id);
+      console.log(`[JobQueue] Job ${job.id} (${job.type}) is waiting for an external callback.`);
+      return;
+    }
+    dbService.completeJob(job.id, result);
+    console.log(`[JobQueue] Job ${job.id} (${job.type}) completed.`);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[JobQueue] Job ${job.id} (${job.type}) failed:`, message);
+    dbService.failJob(job.id, message);
+  } finally {
+    state.controllers.delete(job.id);
+  }
+
+  emitSettled(job.id);
+  // A slot has been freed; let the next job in.
+  processQueue();
+}
+
+/**
+ * Claims and starts as many queued jobs as the concurrency limits allow.
+ * Safe to call at any time; it never waits for the jobs it starts.
+ */
+export function processQueue(): void {
+  const state = getState();
+  const types = [...state.handlers.keys()];
+  const limits = {
+    globalLimit: settingsService.getIntegerSetting('queue_global_concurrency'),
+    perUserLimit: settingsService.getIntegerSetting('queue_per_user_concurrency'),
+    types,
+  };
+
+  let job = dbService.claimNextJob(limits);
+  while (job) {
+    void runJob(job);
+    job = dbService.claimNextJob(limits);
+  }
+}
+
+/**
+ * Registers the function that executes jobs of the given type.
+ * Must be called at module load time of the module that owns the work.
+ */
+export function registerJobHandler<TPayload>(type: string, handler: JobHandler<TPayload>, options: JobHandlerOptions = {}): void {
+  getState().handlers.set(type, { run: handler as JobHandler<any>, options });
+}
+
+/**
+ * Persists a job and tries to start it immediately.
+ * @returns The new job ID.
+ */
+export function enqueueJob<TPayload>(params: {
+  type: string;
+  username: string;
+  historyId?: string;
+  payload: TPayload;
+  priority?: number;
+}): string {
+  const id = crypto.randomUUID();
+  dbService.insertJob({
+    id,
+    type: params.type,
+    username: params.username,
+    historyId: params.historyId ?? null,
+    payload: params.payload,
+    priority: params.priority ?? JOB_PRIORITY.interactive,
+  });
+  console.log(`[JobQueue] Enqueued job ${id} (${params.type}) for ${params.username}.`);
+  processQueue();
+  return id;
+}
+
+/**
+ * Follows a job that may be queued, running or already finished.
+ * Listeners are attached before the database is checked so no transition is missed.
+ */
+export function getJobLifecycle(jobId: string): JobLifecycle {
+  const { events } = getState();
+  const { promise: started, resolve: markStarted } = Promise.withResolvers<void>();
+  const { promise: settled, resolve: settle } = Promise.withResolvers<QueueJob>();
+
+  events.once(`started:${jobId}`, () => markStarted());
+  events.once(`settled:${jobId}`, (job: QueueJob) => {
+    markStarted();
+    settle(job);
+  });
+
+  const job = dbService.findJobById(jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} not found.`);
+  }
+  if (job.status !== 'queued') {
+    markStarted();
+  }
+  if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+    settle(job);
+  }
+
+  return { started, settled };
+}
+
+/**
+ * Cancels a job wherever it is: queued jobs never start, running jobs are aborted through
+ * their signal and waiting jobs have their external request cancelled. Results that arrive
+ * afterwards are ignored because terminal updates only apply to unfinished jobs.
+ * @returns True if the job was still unfinished.
+ */
+export async function cancelQueuedJob(jobId: string): Promise<boolean> {
+  const state = getState();
+  const job = dbService.findJobById(jobId);
+  if (!job || !dbService.cancelJob(jobId)) {
+    return false;
+  }
+  console.log(`[JobQueue] Job ${jobId} (${job.type}) cancelled while ${job.status}.`);
+
+  state.controllers.get(jobId)?.abort(new Error('Job cancelled'));
+
+  const onCancelWaiting = state.handlers.get(job.type)?.options.onCancelWaiting;
+  if (job.status === 'waiting' && onCancelWaiting) {
+    try {
+      await onCancelWaiting(job);
+    } catch (error) {
+      console.error(`[JobQueue] Failed to cancel external request for job ${jobId}:`, error);
+    }
+  }
+
+  emitSettled(jobId);
+  processQueue();
+  return true;
+}
+
+/**
+ * Cancels the generation behind a history item owned by the given user.
+ * The history row is marked 'cancelled' first so that late results are ignored,
+ * then the backing queue jobs (if still unfinished) are cancelled.
+ */
+export async function cancelGeneration(historyId: string, username: string): Promise<{ success: boolean; error?: string }> {
+  const item = dbService.findHistoryItemById(historyId);
+  if (!item || item.username !== username) {
+    return { success: false, error: 'History item not found' };
+  }
+  // Video rows track their progress inside videoGenerationParams
+  const currentStatus = item.videoGenerationParams ? item.videoGenerationParams.status : item.status;
+  if (currentStatus !== 'processing') {
+    return { success: false, error: `Only processing items can be cancelled (current status: ${currentStatus ?? 'unknown'}).` };
+  }
+
+  dbService.updateHistoryItem(historyId, {
+    status: 'cancelled',
+    error: 'Cancelled by user',
+    ...(item.jobStatus && { jobStatus: 'cancelled' as const }),
+    // json_patch merges this into the stored params
+    ...(item.videoGenerationParams && { videoGenerationParams: { status: 'cancelled', error: 'Cancelled by user' } as HistoryItem['videoGenerationParams'] }),
+  });
+  if (item.videoGenerationParams) {
+    dbService.cancelVideoSlots(historyId);
+  }
+
+  // Videos with several clips have a job per clip
+  for (const job of dbService.findJobsForHistory(historyId)) {
+    await cancelQueuedJob(job.id);
+  }
+  console.log(`[JobQueue] Generation ${historyId} cancelled by ${username}.`);
+  return { success: true };
+}
+
+/**
+ * Completes or fails a job that was left waiting for an external callback.
+ * Frees its concurrency slot and starts the next queued job.
+ * @param externalId The external request the job is waiting for; without it, the item's latest job is settled.
+ * @returns True if a waiting job was found for the history item.
+ */
+export function settleWaitingJob(historyId: string, outcome: { error?: string; result?: unknown }, externalId?: string): boolean {
+  const job = externalId ? dbService.findJobByExternalId(externalId) : dbService.findLatestJobForHistory(historyId);
+  if (!job || job.historyId !== historyId || job.status !== 'waiting') {
+    return false;
+  }
+
+  if (outcome.error) {
+    dbService.failJob(job.id, outcome.error);
+  } else {
+    dbService.completeJob(job.id, outcome.result);
+  }
+  emitSettled(job.id);
+  processQueue();
+  return true;
+}
+
+/**
+ * Starts the background worker once per process: recovers jobs interrupted by a restart,
+ * reconciles history rows left in 'processing', then polls for runnable jobs.
+ * Call after every job handler has been registered.
+ */
+export function startJobWorker(): void {
+  const state = getState();
+  if (state.workerStarted) {
+    return;
+  }
+  state.workerStarted = true;
+
+  const { requeued, failed } = dbService.requeueInterruptedJobs(MAX_ATTEMPTS);
+  const orphaned = dbService.failOrphanedProcessingHistory();
+  console.log(`[JobQueue] Worker started. Requeued ${requeued} interrupted job(s), failed ${failed}, reconciled ${orphaned} stuck history item(s).`);
+
+  const poll = () => {
+    try {
+      const timeoutsByType = Object.fromEntries([...state.handlers]
+        .filter(([, handler]) => handler.options.waitingTimeoutMs !== undefined)
+        .map(([type, handler]) => [type, handler.options.waitingTimeoutMs!]));
+      for (const jobId of dbService.expireWaitingJobs(WAITING_JOB_TIMEOUT_MS, timeoutsByType)) {
+        emitSettled(jobId);
+      }
+      processQueue();
+    } catch (error) {
+      console.error('[JobQueue] Poll failed:', error);
+    }
+  };
+
+  state.pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+  state.pollTimer.unref();
+  poll();
+}
@@ -0,0 +1,63 @@
+// src/services/media-access.service.ts
+import 'server-only';
+
+import * as dbService from '@/services/db';
+import type { SessionUser } from '@/lib/types';
+import { sign, verifySignature } from '@/services/encryption.service';
+
+const SIGNATURE_PURPOSE = 'media-url';
+const UPLOADS_PREFIX = '/uploads/';
+/** Signed URLs stay valid for at least this long, and at most twice as long. */
+const SIGNED_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Media the browser loads with the session cookie needs no signature: owners and admins may view it.
+ */
+export function canAccessMedia(user: Pick<SessionUser, 'username' | 'role'>, fileUrl: string): boolean {
+  return user.role === 'admin' || dbService.isMediaOwnedBy(user.username, fileUrl);
+}
+
+/**
+ * Appends an expiry and signature to a local media URL, for viewers without a session:
+ * API consumers, webhook receivers and share link reviewers. Other URLs are returned unchanged.
+ * The expiry is rounded up to a whole TTL period, so the URL of a file stays the same
+ * for a while and browsers can cache it.
+ */
+export function signMediaUrl(fileUrl: string, now: number = Date.now()): string {
+  if (!fileUrl.startsWith(UPLOADS_PREFIX)) {
+    return fileUrl;
+  }
+  const expires = Math.ceil((now + SIGNED_URL_TTL_MS) / SIGNED_URL_TTL_MS) * SIGNED_URL_TTL_MS;
+  const signature = sign(`${fileUrl}:${expires}`, SIGNATURE_PURPOSE);
+  return `${fileUrl}?expires=${expires}&signature=${signature}`;
+}
+
+/**
+ * Checks the `expires` and `signature` query parameters added by `signMediaUrl`.
+ */
+export function verifyMediaUrl(fileUrl: string, searchParams: URLSearchParams, now: number = Date.now()): boolean {
+  const expires = searchParams.get('expires');
+  const signature = searchParams.get('signature');
+  if (!expires || !signature || !(Number(expires) > now)) {
+    return false;
+  }
+  return verifySignature(`${fileUrl}:${expires}`, signature, SIGNATURE_PURPOSE);
+}
+
+/**
+ * Lets a user view a file they created that nothing else records, e.g. a cropped or background-removed image.
+ */
+export function grantMediaAccess(username: string, fileUrl: string): void {
+  if (fileUrl.startsWith(UPLOADS_PREFIX)) {
+    dbService.addMediaOwner(username, fileUrl);
+  }
+}
+
+/**
+ * Builds absolute, signed URLs for delivery to external systems (API responses, webhooks).
+ * Requires NEXT_PUBLIC_APP_URL.
+ */
+export function toAbsoluteImageUrls(urls: (string | null)[]): (string | null)[] {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL!;
+  return urls.map(url => url ? (url.startsWith('http') ? url : `${baseUrl}${signMediaUrl(url)}`) : null);
+}
@@ -0,0 +1,179 @@
+// src/services/mock-provider/fal.ts
+import 'server-only';
+
+import crypto from 'crypto';
+import type { FalClient } from '@fal-ai/client';
+import { getMockProviderDelayMs } from '@/lib/provider-mode';
+import { createPlaceholderPng, toDataUri } from './placeholder';
+
+/** Sent as X-Fal-Webhook-User-Id on mock deliveries. */
+const MOCK_FAL_USER_ID = 'mock-fal-user';
+
+interface MockVideoRequest {
+  timer?: NodeJS.Timeout;
+  result?: { video: { url: string }; seed: number };
+}
+
+// Signing key and pending requests live on globalThis so every bundle (actions, routes)
+// signs and verifies with the same key and can cancel the same requests.
+const globalForMockFal = globalThis as unknown as {
+  mockFalWebhookKeys?: crypto.KeyPairKeyObjectResult;
+  mockFalVideoRequests?: Map<string, MockVideoRequest>;
+};
+
+function getWebhookKeys(): crypto.KeyPairKeyObjectResult {
+  globalForMockFal.mockFalWebhookKeys ??= crypto.generateKeyPairSync('ed25519');
+  return globalForMockFal.mockFalWebhookKeys;
+}
+
+function getVideoRequests(): Map<string, MockVideoRequest> {
+  globalForMockFal.mockFalVideoRequests ??= new Map();
+  return globalForMockFal.mockFalVideoRequests;
+}
+
+/**
+ * The JWKS the mock signs webhooks with; generated once per server process.
+ */
+export function getMockWebhookJwks(): crypto.JsonWebKey[] {
+  return [getWebhookKeys().publicKey.export({ format: 'jwk' })];
+}
+
+/**
+ * Signs a webhook the way Fal.ai does: Ed25519 over `requestId\nuserId\ntimestamp\nsha256(body)`.
+ */
+export function signMockWebhook(requestId: string, userId: string, timestamp: string, body: string): string {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  const message = Buffer.from([requestId, userId, timestamp, bodyHash].join('\n'), 'utf-8');
+  return crypto.sign(null, message, getWebhookKeys().privateKey).toString('hex');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function seedFor(endpointId: string, input: unknown): string {
+  return `${endpointId}:${JSON.stringify(input ?? {})}`;
+}
+
+async function deliverVideoResult(requestId: string, endpointId: string, input: any, webhookUrl: string) {
+  const request = getVideoRequests().get(requestId);
+  if (!request) {
+    return; // Cancelled
+  }
+
+  const frame = await createPlaceholderPng(seedFor(endpointId, input), 'Mock video');
+  const seed = typeof input?.seed === 'number' ? input.seed : parseInt(crypto.createHash('sha256').update(seedFor(endpointId, input)).digest('hex').slice(0, 8), 16);
+  request.result = { video: { url: toDataUri(frame, 'video/mp4') }, seed };
+  request.timer = undefined;
+
+  const body = JSON.stringify({ request_id: requestId, gateway_request_id: requestId, status: 'OK', payload: request.result });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  try {
+    // CACHE-STRATEGY: Policy: Dynamic - This POST request simulates a webhook delivery and must never be cached.
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      cache: 'no-store',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Fal-Webhook-Request-Id': requestId,
+        'X-Fal-Webhook-User-Id': MOCK_FAL_USER_ID,
+        'X-Fal-Webhook-Timestamp': timestamp,
+        'X-Fal-Webhook-Signature': signMockWebhook(requestId, MOCK_FAL_USER_ID, timestamp, body),
+      },
+      body,
+    });
+    console.log(`[MOCK FAL] Delivered video result for ${requestId}: HTTP ${response.status}`);
+  } catch (error) {
+    console.error(`[MOCK FAL] Failed to deliver video result for ${requestId}:`, error);
+  }
+}
+
+/**
+ * Stand-in for `createFalClient()` that never leaves the machine:
+ * - `subscribe` returns a deterministic placeholder image for the endpoint and input.
+ * - `queue.submit` delivers a synthetic video result to the request's `webhookUrl`,
+ *   signed like a real Fal.ai webhook, after a delay; `queue.cancel` stops the delivery.
+ *   `queue.status` and `queue.result` report the same result to pollers.
+ * - `storage.upload` returns a fake URL derived from the file contents.
+ */
+export function createMockFalClient(): FalClient {
+  const client = {
+    async subscribe(endpointId: string, options: any) {
+      const requestId = crypto.randomUUID();
+      options?.onEnqueue?.(requestId);
+      options?.onQueueUpdate?.({ status: 'IN_PROGRESS', request_id: requestId, logs: [{ message: 'Mock generation started' }] });
+      await sleep(getMockProviderDelayMs('image'), options?.abortSignal);
+
+      const image = await createPlaceholderPng(seedFor(endpointId, options?.input), endpointId);
+      return {
+        requestId,
+        data: {
+          images: [{ url: toDataUri(image, 'image/png'), content_type: 'image/png' }],
+          description: `Mock result from ${endpointId}`,
+        },
+      };
+    },
+
+    queue: {
+      async submit(endpointId: string, options: any) {
+        const requestId = crypto.randomUUID();
+        const request: MockVideoRequest = {};
+        getVideoRequests().set(requestId, request);
+        if (options?.webhookUrl) {
+          request.timer = setTimeout(() => {
+            void deliverVideoResult(requestId, endpointId, options.input, options.webhookUrl);
+          }, getMockProviderDelayMs('video'));
+        }
+        return { status: 'IN_QUEUE', request_id: requestId, response_url: '', status_url: '', cancel_url: '', queue_position: 0 };
+      },
+
+      async cancel(_endpointId: string, { requestId }: { requestId: string }) {
+        const request = getVideoRequests().get(requestId);
+        if (request?.timer) {
+          clearTimeout(request.timer);
+        }
+        getVideoRequests().delete(requestId);
+      },
+
+      async status(_endpointId: string, { requestId }: { requestId: string }) {
+        const request = getVideoRequests().get(requestId);
+        if (!request) {
+          throw new Error(`Unknown mock request ${requestId}`);
+        }
+        return request.result
+          ? { status: 'COMPLETED', request_id: requestId, response_url: '', logs: [] }
+          : { status: 'IN_PROGRESS', request_id: requestId, response_url: '', logs: [] };
+      },
+
+      async result(_endpointId: string, { requestId }: { requestId: string }) {
+        const result = getVideoRequests().get(requestId)?.result;
+        if (!result) {
+          throw new Error(`Mock request ${requestId} has no result yet`);
+        }
+        return { requestId, data: result };
+      },
+    },
+
+    storage: {
+      async upload(file: Blob) {
+        const hash = crypto.createHash('sha256').update(Buffer.from(await file.arrayBuffer())).digest('hex');
+        return `https://mock-fal.invalid/storage/${hash}`;
+      },
+    },
+  };
+  return client as unknown as FalClient;
+}
@@ -0,0 +1,53 @@
+// src/services/mock-provider/gemini.ts
+import 'server-only';
+
+import crypto from 'crypto';
+import type { GoogleGenAI } from '@google/genai';
+import { getMockProviderDelayMs } from '@/lib/provider-mode';
+
+const CANNED_CLASSIFICATIONS = [
+  'matte slim-fit midi dress',
+  'ribbed cropped cardigan',
+  'denim relaxed straight jeans',
+  'satin oversized button-up shirt',
+  'knit regular-fit crewneck sweater',
+  'linen wide-leg trousers',
+];
+
+function pick<T>(items: T[], seed: string): T {
+  const hash = crypto.createHash('sha256').update(seed).digest();
+  return items[hash.readUInt32BE(0) % items.length];
+}
+
+/**
+ * The parameter block that generatePromptWithAI sends, echoed back so the prompt reflects the request.
+ */
+function buildCannedPrompt(contents: unknown): string {
+  const text = (Array.isArray(contents) ? contents : [])
+    .flatMap((content: any) => content?.parts ?? [])
+    .map((part: any) => part?.text)
+    .filter(Boolean)
+    .join('\n');
+  const parameters = /```\n([\s\S]*?)\n```/.exec(text)?.[1]?.split('\n').join(', ');
+  return `A full-body fashion photograph of a model wearing the garment from the reference image${parameters ? `, ${parameters}` : ''}. Soft natural light, clean background, sharp focus on the fabric.`;
+}
+
+/**
+ * Stand-in for the GoogleGenAI client that answers `models.generateContent` with canned text:
+ * a prompt when a system instruction is given (prompt enhancement), otherwise a garment classification.
+ * Answers depend only on the request, so runs are repeatable.
+ */
+export function createMockGeminiClient(): GoogleGenAI {
+  const client = {
+    models: {
+      async generateContent({ config, contents }: { config?: { systemInstruction?: unknown }; contents: unknown }) {
+        await new Promise(resolve => setTimeout(resolve, getMockProviderDelayMs('text')));
+        const text = config?.systemInstruction
+          ? buildCannedPrompt(contents)
+          : pick(CANNED_CLASSIFICATIONS, JSON.stringify(contents));
+        return { text, candidates: [{ finishReason: 'STOP', content: { role: 'model', parts: [{ text }] } }] };
+      },
+    },
+  };
+  return client as unknown as GoogleGenAI;
+}
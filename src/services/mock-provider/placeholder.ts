@@ -0,0 +1,33 @@
+// src/services/mock-provider/placeholder.ts
+import 'server-only';
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+// Portrait 3:4, the aspect ratio of most generations
+const WIDTH = 768;
+const HEIGHT = 1024;
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Renders a placeholder PNG whose colour and fingerprint are derived from `seed`,
+ * so the same request always produces the same image.
+ */
+export async function createPlaceholderPng(seed: string, label: string): Promise<Buffer> {
+  const hash = crypto.createHash('sha256').update(seed).digest('hex');
+  const hue = parseInt(hash.slice(0, 4), 16) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}">
+  <rect width="100%" height="100%" fill="hsl(${hue}, 45%, 55%)"/>
+  <rect x="48" y="48" width="${WIDTH - 96}" height="${HEIGHT - 96}" fill="none" stroke="white" stroke-width="4" stroke-dasharray="24 16"/>
+  <text x="50%" y="47%" text-anchor="middle" font-family="sans-serif" font-size="40" fill="white">${escapeXml(label)}</text>
+  <text x="50%" y="53%" text-anchor="middle" font-family="monospace" font-size="28" fill="white">${hash.slice(0, 12)}</text>
+</svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+export function toDataUri(buffer: Buffer, mimeType: string): string {
+  return `data:${mimeType};base64,${buffer.toString('base64')}`;
+}
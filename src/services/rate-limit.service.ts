@@ -0,0 +1,94 @@
+// src/services/rate-limit.service.ts
+import 'server-only';
+
+import * as dbService from '@/services/db';
+import type { TokenBucketSpec } from '@/services/db';
+import * as settingsService from '@/services/settings.service';
+import type { SessionUser } from '@/lib/types';
+
+/** Buckets refill completely over this window, so limits read as "generations per minute". */
+const REFILL_WINDOW_MS = 60 * 1000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Capacity of the most exhausted bucket. */
+  limit: number;
+  /** Whole tokens left in the most exhausted bucket. */
+  remaining: number;
+  /** When the most exhausted bucket is full again (ms since epoch). */
+  resetAt: number;
+  /** Seconds until the request would be allowed; 0 when it was allowed or can never be. */
+  retryAfterSeconds: number;
+  /** The request costs more than a full bucket holds, so it is rejected however long the caller waits. */
+  exceedsLimit: boolean;
+}
+
+/**
+ * Generations per minute for a user: their own override, otherwise the limit of their role.
+ */
+export function getUserRateLimit(user: Pick<SessionUser, 'username' | 'role'>): number {
+  const override = dbService.findUserByUsername(user.username)?.rate_limit_per_minute;
+  if (override && override > 0) {
+    return override;
+  }
+  return settingsService.getIntegerSetting(user.role === 'admin' ? 'rate_limit_admin_per_minute' : 'rate_limit_user_per_minute');
+}
+
+function toBucket(key: string, perMinute: number, cost: number): TokenBucketSpec {
+  return {
+    key,
+    capacity: perMinute,
+    refillPerMs: perMinute / REFILL_WINDOW_MS,
+    cost,
+  };
+}
+
+/**
+ * Takes `cost` generations from the user's bucket and, for API requests, from the key's bucket.
+ * Nothing is taken unless every bucket can cover the cost. Requests costing more than a bucket
+ * holds (e.g. a batch larger than the limit) are always rejected and have to be split up.
+ */
+export function consumeGenerationQuota(
+  user: Pick<SessionUser, 'username' | 'role'>,
+  options: { apiKeyId?: string; cost?: number } = {}
+): RateLimitResult {
+  const cost = options.cost ?? 1;
+  const buckets = [toBucket(`user:${user.username}`, getUserRateLimit(user), cost)];
+  if (options.apiKeyId) {
+    buckets.push(toBucket(`api_key:${options.apiKeyId}`, settingsService.getIntegerSetting('rate_limit_api_key_per_minute'), cost));
+  }
+
+  const now = Date.now();
+  const { allowed, buckets: states } = dbService.consumeTokenBuckets(buckets, now);
+  const tightest = states.reduce((min, state) => (state.tokens < min.tokens ? state : min));
+  const exceedsLimit = states.some(state => state.cost > state.capacity);
+  const retryAfterMs = allowed || exceedsLimit
+    ? 0
+    : Math.max(...states.map(state => Math.max(0, (state.cost - state.tokens) / state.refillPerMs)));
+
+  if (exceedsLimit) {
+    console.warn(`Rejected ${cost} generations for ${user.username}${options.apiKeyId ? ` (API key ${options.apiKeyId})` : ''}: more than the rate limit allows.`);
+  } else if (!allowed) {
+    console.warn(`Rate limit hit for ${user.username}${options.apiKeyId ? ` (API key ${options.apiKeyId})` : ''}; retry in ${Math.ceil(retryAfterMs / 1000)}s.`);
+  }
+
+  return {
+    allowed,
+    limit: tightest.capacity,
+    remaining: Math.floor(tightest.tokens),
+    resetAt: now + Math.ceil((tightest.capacity - tightest.tokens) / tightest.refillPerMs),
+    retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+    exceedsLimit,
+  };
+}
+
+/**
+ * User-facing explanation for a rejected generation.
+ */
+export function getRateLimitMessage(result: RateLimitResult): string {
+  if (result.exceedsLimit) {
+    return 'This request starts more generations than your rate limit allows per minute. Please split it into smaller requests.';
+  }
+  const seconds = result.retryAfterSeconds;
+  return `You're generating too quickly. Please wait ${seconds} second${seconds === 1 ? '' : 's'} and try again.`;
+}
@@ -18,6 +18,15 @@ const DEFAULTS = {
   // AI System Prompts
   'ai_prompt_engineer_system': '',
   'ai_studio_mode_prompt_template': STUDIO_MODE_PROMPT_TEMPLATE.trim(),
+  // Generation queue
+  'queue_global_concurrency': '4',
+  'queue_per_user_concurrency': '2',
+  // Rate limits (generations per minute; token buckets that refill over a minute)
+  'rate_limit_user_per_minute': '20',
+  'rate_limit_admin_per_minute': '60',
+  'rate_limit_api_key_per_minute': '20',
+  // Image models: JSON array of models added to or changing the built-in registry (see src/lib/image-models.ts)
+  'image_models_config': '',
 };
 
 // Type for keys to ensure type safety
@@ -45,6 +54,17 @@ export function getBooleanSetting(key: SettingKey): boolean {
   return getSetting(key) === 'true';
 }
 
+/**
+ * Gets a positive integer representation of a setting.
+ * Falls back to the default value if the stored value is not a positive integer.
+ * @param key The key of the setting to retrieve.
+ * @returns The setting value as an integer.
+ */
+export function getIntegerSetting(key: SettingKey): number {
+  const value = Number.parseInt(getSetting(key), 10);
+  return Number.isInteger(value) && value > 0 ? value : Number.parseInt(DEFAULTS[key], 10);
+}
+
 /**
  * Sets the value for a specific setting key in the database.
  * @param key The key of the setting to update.
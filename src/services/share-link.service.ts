@@ -0,0 +1,204 @@
+// src/services/share-link.service.ts
+import 'server-only';
+
+import crypto from 'crypto';
+import * as dbService from '@/services/db';
+import type { ShareLink, ShareLinkView, ShareReview } from '@/services/db';
+import type { HistoryItem } from '@/lib/types';
+import type { ShareLinkInput, ShareReviewInput, ShareTargetType } from '@/lib/share-links';
+import { sign, verifySignature } from '@/services/encryption.service';
+import { signMediaUrl } from '@/services/media-access.service';
+
+const SIGNATURE_PURPOSE = 'share-link';
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Collections are shared up to this many items, newest first. */
+const MAX_SHARED_ITEMS = 100;
+
+/** A link as its owner sees it, with the URL token and its activity. */
+export interface ShareLinkDetails {
+  link: ShareLink;
+  token: string;
+  active: boolean;
+  views: ShareLinkView[];
+  reviews: ShareReview[];
+}
+
+/**
+ * A history item as a reviewer sees it. Nothing but the media, and the prompt if the owner chose to show it.
+ * Media URLs are signed, as reviewers have no session.
+ */
+export interface SharedItem {
+  id: string;
+  timestamp: number;
+  imageUrls: string[];
+  videoUrls: string[];
+  prompt?: string;
+  reviews: ShareReview[];
+}
+
+export interface SharedContent {
+  title: string;
+  description?: string;
+  items: SharedItem[];
+}
+
+export function isShareLinkActive(link: ShareLink, now: number = Date.now()): boolean {
+  return !link.revokedAt && link.expiresAt > now;
+}
+
+/**
+ * The URL token of a link: its ID and expiry, signed so neither can be altered.
+ * Tokens are derived rather than stored, so the owner can copy a link again at any time.
+ */
+export function getShareToken(link: Pick<ShareLink, 'id' | 'expiresAt'>): string {
+  const payload = `${link.id}.${link.expiresAt}`;
+  return `${payload}.${sign(payload, SIGNATURE_PURPOSE)}`;
+}
+
+/**
+ * @returns The active link the token was issued for, or null if the token is forged, expired or revoked.
+ */
+export function resolveShareToken(token: string, now: number = Date.now()): ShareLink | null {
+  const [id, expiresAt, signature, ...rest] = token.split('.');
+  if (!id || !expiresAt || !signature || rest.length > 0) {
+    return null;
+  }
+  if (!verifySignature(`${id}.${expiresAt}`, signature, SIGNATURE_PURPOSE) || Number(expiresAt) <= now) {
+    return null;
+  }
+  const link = dbService.findShareLinkById(id);
+  return link && isShareLinkActive(link, now) ? link : null;
+}
+
+function ownsTarget(username: string, targetType: ShareTargetType, targetId: string): boolean {
+  const target = targetType === 'history'
+    ? dbService.findHistoryItemById(targetId)
+    : dbService.findCollectionById(targetId);
+  return target?.username === username;
+}
+
+function toDetails(link: ShareLink): ShareLinkDetails {
+  return {
+    link,
+    token: getShareToken(link),
+    active: isShareLinkActive(link),
+    views: dbService.findShareLinkViews(link.id),
+    reviews: dbService.findShareReviewsByLink(link.id),
+  };
+}
+
+/**
+ * Links the user created for a history item or collection, newest first, including revoked and expired ones.
+ */
+export function listShareLinks(username: string, targetType: ShareTargetType, targetId: string): ShareLinkDetails[] {
+  return dbService.findShareLinksByTarget(username, targetType, targetId).map(toDetails);
+}
+
+/**
+ * @returns Null if the history item or collection does not exist or belongs to another user.
+ */
+export function createShareLink(username: string, input: ShareLinkInput): ShareLinkDetails | null {
+  if (!ownsTarget(username, input.targetType, input.targetId)) {
+    return null;
+  }
+  const id = crypto.randomUUID();
+  dbService.insertShareLink({
+    id,
+    username,
+    targetType: input.targetType,
+    targetId: input.targetId,
+    label: input.label || undefined,
+    showPrompt: input.showPrompt,
+    expiresAt: Date.now() + input.expiresInDays * DAY_MS,
+  });
+  console.log(`Share link ${id} created by ${username} for ${input.targetType} ${input.targetId}.`);
+  return toDetails(dbService.findShareLinkById(id)!);
+}
+
+/**
+ * @returns False if the link does not exist, belongs to another user or was already revoked.
+ */
+export function revokeShareLink(username: string, id: string): boolean {
+  const link = dbService.findShareLinkById(id);
+  if (!link || link.username !== username) {
+    return false;
+  }
+  return dbService.revokeShareLink(id);
+}
+
+/**
+ * The stored files of the item's finished clips. Fal's own video URLs expire, and trimmed or
+ * stitched clips have none.
+ */
+function getClipUrls(item: HistoryItem): string[] {
+  const urls = item.videoSlots?.length
+    ? item.videoSlots.map(slot => slot.localVideoUrl)
+    : [item.videoGenerationParams?.localVideoUrl];
+  return urls.filter((url): url is string => !!url);
+}
+
+function toSharedItem(item: HistoryItem, link: ShareLink, reviews: ShareReview[]): SharedItem {
+  return {
+    id: item.id,
+    timestamp: item.timestamp,
+    imageUrls: item.editedImageUrls.filter((url): url is string => !!url).map(url => signMediaUrl(url)),
+    videoUrls: getClipUrls(item).map(url => signMediaUrl(url)),
+    ...(link.showPrompt && { prompt: item.videoGenerationParams?.prompt || item.constructedPrompt }),
+    reviews: reviews.filter(review => review.historyId === item.id),
+  };
+}
+
+/**
+ * What the link shows. Items that no longer belong to the owner are left out.
+ * @returns Null if the shared history item or collection was deleted.
+ */
+export function getSharedContent(link: ShareLink): SharedContent | null {
+  const reviews = dbService.findShareReviewsByLink(link.id);
+
+  if (link.targetType === 'history') {
+    const item = dbService.findHistoryItemById(link.targetId);
+    if (item?.username !== link.username) {
+      return null;
+    }
+    return { title: link.label || 'Generated result', items: [toSharedItem(item, link, reviews)] };
+  }
+
+  const collection = dbService.findCollectionById(link.targetId);
+  if (collection?.username !== link.username) {
+    return null;
+  }
+  const { items } = dbService.searchHistoryForUser({
+    username: link.username,
+    filters: { collection: collection.id },
+    page: 1,
+    limit: MAX_SHARED_ITEMS,
+  });
+  return {
+    title: collection.name,
+    description: collection.description,
+    items: items.map(item => toSharedItem(item, link, reviews)),
+  };
+}
+
+export function recordShareView(link: ShareLink, visitor: { visitorId: string; ipAddress?: string; userAgent?: string }): void {
+  dbService.recordShareLinkView({ linkId: link.id, ...visitor });
+}
+
+/**
+ * Stores a reviewer's verdict on one of the link's items.
+ * @returns Null if the item is not part of what the link shows.
+ */
+export function submitShareReview(link: ShareLink, visitorId: string, input: ShareReviewInput): ShareReview | null {
+  const content = getSharedContent(link);
+  if (!content?.items.some(item => item.id === input.historyId)) {
+    return null;
+  }
+  return dbService.insertShareReview({
+    id: crypto.randomUUID(),
+    linkId: link.id,
+    historyId: input.historyId,
+    reviewerName: input.reviewerName,
+    decision: input.decision,
+    comment: input.comment || undefined,
+  }, visitorId);
+}
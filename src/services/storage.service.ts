@@ -17,7 +17,12 @@ import 'server-only';
 import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import sharp from 'sharp';
 import { triggerMegaBackup } from './megaBackup.service';
+import type { MediaVariant } from '@/lib/media-variants';
+
+/** Resized copies are cached in this folder next to their original. */
+const VARIANTS_FOLDER = '.variants';
 
 /**
  * Sets file permissions (chmod 664) and ownership (PUID:PGID) on a saved file.
@@ -337,3 +342,48 @@ export async function downloadAndSaveImageFromUrl(
     throw new Error(`Failed to download and save FAL.AI image: ${(error as Error).message}`);
   }
 }
+
+/**
+ * Maps a server-relative path such as /uploads/generated_videos/a.mp4 to the file on disk.
+ * @throws Error if the path points outside the uploads directory
+ */
+export function resolveUploadPath(fileUrl: string): string {
+  // SECURITY: Validate path is within uploads
+  return validateUploadPath(path.join(process.cwd(), fileUrl));
+}
+
+/**
+ * Returns a resized copy of an uploaded image, creating it with sharp on first request.
+ * Variants are cached next to the original, e.g. /uploads/a/.variants/b.png.w384.q75.webp.
+ * Originals never change (UUID names), so the parameters are a sufficient cache key.
+ * Derived files are not backed up to MEGA; they are recreated on demand.
+ * @param fileUrl The original's server-relative path, e.g. /uploads/generated_images/b.png
+ * @returns The variant's server-relative path
+ */
+export async function getOrCreateImageVariant(fileUrl: string, variant: MediaVariant): Promise<string> {
+  const variantUrl = `${path.posix.dirname(fileUrl)}/${VARIANTS_FOLDER}/${path.posix.basename(fileUrl)}.w${variant.w}.q${variant.q}.${variant.format}`;
+  // SECURITY: Validate path is within uploads
+  const variantPath = validateUploadPath(path.join(process.cwd(), variantUrl));
+
+  try {
+    await fs.access(variantPath);
+    return variantUrl;
+  } catch {
+    // Not created yet
+  }
+
+  const original = await fs.readFile(validateUploadPath(path.join(process.cwd(), fileUrl)));
+  const buffer = await sharp(original)
+    .rotate() // Apply EXIF orientation before resizing
+    .resize({ width: variant.w, withoutEnlargement: true })
+    .toFormat(variant.format, { quality: variant.q })
+    .toBuffer();
+
+  await fs.mkdir(path.dirname(variantPath), { recursive: true });
+  // Write under a temporary name first, so concurrent requests never serve a partial file
+  const tempPath = `${variantPath}.${crypto.randomUUID()}.tmp`;
+  await fs.writeFile(tempPath, buffer);
+  await setFilePermissions(tempPath);
+  await fs.rename(tempPath, variantPath);
+  return variantUrl;
+}
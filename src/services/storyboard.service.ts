@@ -0,0 +1,123 @@
+// src/services/storyboard.service.ts
+import 'server-only';
+
+import * as dbService from '@/services/db';
+import { enqueueJob, registerJobHandler, JOB_PRIORITY } from '@/services/job-queue.service';
+import { createVideoMedia, stitchVideos } from '@/services/video-processing.service';
+
+interface StoryboardStitchJobPayload {
+  storyboardId: string;
+}
+
+const STORYBOARD_STITCH_JOB = 'storyboard_stitch';
+
+/**
+ * Fails the storyboard's joined clip, unless the storyboard has already moved on.
+ */
+function failStoryboard(storyboardId: string, resultHistoryId: string, from: 'generating' | 'stitching', error: string): void {
+  if (dbService.transitionStoryboard(storyboardId, from, 'failed')) {
+    dbService.updateVideoSlot(resultHistoryId, 0, { status: 'failed', error });
+  }
+}
+
+// Queue handler: joins the finished shots of a storyboard and stores the result as the clip
+// of the storyboard's history item.
+registerJobHandler<StoryboardStitchJobPayload>(STORYBOARD_STITCH_JOB, async ({ storyboardId }, job, signal) => {
+  const storyboard = dbService.findStoryboardById(storyboardId);
+  if (!storyboard || storyboard.status !== 'stitching') {
+    return null;
+  }
+
+  try {
+    const shots = dbService.findVideoSlotStates(storyboard.shotsHistoryId);
+    const shotUrls = shots.map(shot => shot.localVideoUrl).filter((url): url is string => !!url);
+    if (shots.length === 0 || shotUrls.length !== shots.length) {
+      throw new Error(`Storyboard ${storyboardId} is missing shot videos`);
+    }
+
+    const localVideoUrl = await stitchVideos(shotUrls, storyboard.transition);
+    signal.throwIfAborted();
+    const media = await createVideoMedia(localVideoUrl).catch(error => {
+      console.warn(`Could not post-process video ${localVideoUrl}:`, error);
+      return undefined;
+    });
+    signal.throwIfAborted();
+
+    dbService.updateVideoSlot(storyboard.resultHistoryId, 0, { status: 'completed', localVideoUrl, media });
+    dbService.transitionStoryboard(storyboardId, 'stitching', 'completed');
+    return { localVideoUrl };
+  } catch (error) {
+    if (signal.aborted) {
+      dbService.transitionStoryboard(storyboardId, 'stitching', 'cancelled');
+    } else {
+      console.error(`Failed to stitch storyboard ${storyboardId}:`, error);
+      failStoryboard(storyboardId, storyboard.resultHistoryId, 'stitching', 'Failed to join the shots');
+    }
+    throw error;
+  }
+});
+
+/**
+ * Moves a storyboard on once none of its shots is processing any more: queues the stitching
+ * if every shot was generated, otherwise fails the storyboard. Does nothing for history items
+ * that are not the shots of a generating storyboard, so it can be called for any video.
+ * @param shotsHistoryId The history item whose clips are the shots.
+ */
+export function advanceStoryboard(shotsHistoryId: string): void {
+  const storyboard = dbService.findActiveStoryboardByHistoryId(shotsHistoryId);
+  if (storyboard?.status !== 'generating' || storyboard.shotsHistoryId !== shotsHistoryId) {
+    return;
+  }
+  const shots = dbService.findVideoSlotStates(shotsHistoryId);
+  if (shots.some(shot => shot.status === 'processing')) {
+    return;
+  }
+
+  // The joined clip was cancelled or deleted while the shots were generated
+  const [result] = dbService.findVideoSlotStates(storyboard.resultHistoryId);
+  if (result?.status !== 'processing') {
+    dbService.transitionStoryboard(storyboard.id, 'generating', 'cancelled');
+    return;
+  }
+
+  const unfinished = shots.find(shot => shot.status !== 'completed');
+  if (unfinished) {
+    const shotNumber = unfinished.slotIndex + 1;
+    failStoryboard(storyboard.id, storyboard.resultHistoryId, 'generating', unfinished.status === 'cancelled'
+      ? `Shot ${shotNumber} was cancelled`
+      : `Shot ${shotNumber} failed: ${unfinished.error || 'Video generation failed'}`);
+    return;
+  }
+
+  if (!dbService.transitionStoryboard(storyboard.id, 'generating', 'stitching')) {
+    return;
+  }
+  try {
+    enqueueJob<StoryboardStitchJobPayload>({
+      type: STORYBOARD_STITCH_JOB,
+      username: storyboard.username,
+      historyId: storyboard.resultHistoryId,
+      payload: { storyboardId: storyboard.id },
+      priority: JOB_PRIORITY.interactive,
+    });
+  } catch (error) {
+    console.error(`Failed to queue stitching of storyboard ${storyboard.id}:`, error);
+    failStoryboard(storyboard.id, storyboard.resultHistoryId, 'stitching', 'Failed to queue joining the shots');
+  }
+}
+
+/**
+ * Updates the storyboard behind a history item that was just cancelled: cancelling the joined
+ * clip cancels the storyboard, cancelling the shots fails it.
+ */
+export function handleStoryboardCancellation(historyId: string): void {
+  const storyboard = dbService.findActiveStoryboardByHistoryId(historyId);
+  if (!storyboard) {
+    return;
+  }
+  if (storyboard.resultHistoryId === historyId) {
+    dbService.transitionStoryboard(storyboard.id, storyboard.status, 'cancelled');
+  } else {
+    advanceStoryboard(historyId);
+  }
+}
@@ -0,0 +1,198 @@
+// src/services/video-completion.service.ts
+import 'server-only';
+
+import { updateVideoHistoryItem } from '@/actions/historyActions';
+import { saveFileFromUrl } from '@/services/storage.service';
+import { createVideoMedia } from '@/services/video-processing.service';
+import { findHistoryItemById, findVideoSlotByFalRequestId, claimFalRequest, markFalRequestApplied, releaseFalRequest, updateVideoSlot, type FalRequestEventSource } from '@/services/db';
+import { publishWebhookEvent } from '@/services/webhook.service';
+import { toAbsoluteImageUrls } from '@/services/media-access.service';
+import type { VideoGenerationOutcome } from '@/services/fal-api/video.service';
+import type { HistoryItem } from '@/lib/types';
+
+/**
+ * How a Fal result was applied. Requests that were already applied (`duplicate`) and clips that
+ * are no longer processing (cancelled, or settled otherwise) are left alone.
+ */
+export type VideoCompletion = 'completed' | 'unknown_request' | 'duplicate' | 'cancelled' | 'settled' | 'error' | 'unexpected_status' | 'no_video';
+
+/** Runs work that should not hold up the caller, e.g. next/server's `after` in a route handler. */
+type Defer = (task: () => Promise<void>) => void;
+
+/**
+ * A claim not marked applied after this long is assumed to belong to a run that died, e.g. in
+ * a deploy, and may be taken over. Applying a result takes at most a video download.
+ */
+const CLAIM_LEASE_MS = 15 * 60 * 1000;
+
+const runDetached: Defer = task => {
+  void task();
+};
+
+/**
+ * Publishes `video.completed` / `video.failed` for a clip to the owner's registered endpoints.
+ * Skipped when the generation has a per-request webhookUrl.
+ */
+function publishVideoEvent(historyItemId: string, slotIndex: number, username: string, result: { localVideoUrl?: string; seed?: number | null; error?: string }, defer: Defer) {
+  if (findHistoryItemById(historyItemId)?.webhookUrl) {
+    return;
+  }
+  const type = result.error ? 'video.failed' : 'video.completed';
+  defer(() => publishWebhookEvent(username, type, {
+    historyId: historyItemId,
+    slotIndex,
+    ...(result.localVideoUrl && { videoUrl: toAbsoluteImageUrls([result.localVideoUrl])[0] }),
+    ...(result.seed != null && { seed: result.seed }),
+    ...(result.error && { error: result.error }),
+  }, { historyId: historyItemId }).catch(error => {
+    console.error(`Failed to publish webhook event for video ${historyItemId}:`, error);
+  }));
+}
+
+async function failVideo(historyItemId: string, slotIndex: number, username: string, error: string, seedUsed: number | null, defer: Defer) {
+  await updateVideoHistoryItem({
+    username,
+    historyItemId,
+    slotIndex,
+    videoUrl: null,
+    localVideoUrl: null,
+    seedUsed,
+    status: 'failed',
+    error,
+  });
+  publishVideoEvent(historyItemId, slotIndex, username, { seed: seedUsed, error }, defer);
+}
+
+/**
+ * Creates the poster and preview of a completed clip. They are extras: a clip without them is
+ * still usable, so this runs after the result was stored and only logs failures.
+ */
+async function addVideoMedia(historyItemId: string, slotIndex: number, localVideoUrl: string): Promise<void> {
+  try {
+    const media = await createVideoMedia(localVideoUrl);
+    updateVideoSlot(historyItemId, slotIndex, { media });
+  } catch (error) {
+    console.warn(`Could not post-process video ${localVideoUrl}:`, error);
+  }
+}
+
+async function applyVideoResult(
+  item: HistoryItem,
+  slotIndex: number,
+  result: Partial<VideoGenerationOutcome> & { status?: string },
+  defer: Defer
+): Promise<VideoCompletion> {
+  const { id: historyItemId, username } = item;
+
+  // Ignore late results for generations the user cancelled or clips that were already settled
+  if (item.status === 'cancelled') {
+    console.log(`Ignoring video result for cancelled history item ${historyItemId}`);
+    return 'cancelled';
+  }
+  const currentStatus = item.videoSlots?.find(slot => slot.slotIndex === slotIndex)?.status;
+  if (currentStatus && currentStatus !== 'processing') {
+    console.log(`Ignoring video result for history item ${historyItemId} slot ${slotIndex} (already ${currentStatus})`);
+    return 'settled';
+  }
+
+  // Check if the result indicates an error (Fal.ai webhook format)
+  if (result.status === 'ERROR' || result.error) {
+    console.error('fal.ai returned error:', result.error || 'Unknown error');
+    await failVideo(historyItemId, slotIndex, username, result.error || 'Video generation failed', null, defer);
+    return 'error';
+  }
+
+  if (result.status !== 'OK') {
+    console.error('Unexpected status from fal.ai:', result.status);
+    await failVideo(historyItemId, slotIndex, username, `Unexpected status: ${result.status}`, null, defer);
+    return 'unexpected_status';
+  }
+
+  const falVideoUrl = result.payload?.video?.url;
+  const seedUsed = result.payload?.seed ?? null;
+
+  if (!falVideoUrl) {
+    console.error('No video URL in successful result:', result.payload);
+    await failVideo(historyItemId, slotIndex, username, 'No video URL returned from fal.ai', seedUsed, defer);
+    return 'no_video';
+  }
+
+  try {
+    // Download the video from the temporary fal.ai URL and save it locally
+    const { relativeUrl: localVideoUrl } = await saveFileFromUrl(falVideoUrl, 'RefashionAI_video', 'generated_videos', 'mp4');
+
+    await updateVideoHistoryItem({
+      username,
+      historyItemId,
+      slotIndex,
+      videoUrl: falVideoUrl, // Store remote URL for potential future use
+      localVideoUrl: localVideoUrl,
+      seedUsed: seedUsed,
+      status: 'completed'
+    });
+    publishVideoEvent(historyItemId, slotIndex, username, { localVideoUrl, seed: seedUsed }, defer);
+    defer(() => addVideoMedia(historyItemId, slotIndex, localVideoUrl));
+    return 'completed';
+  } catch (error) {
+    // Leave the item processing so that a webhook retry or the reconciler can finish it
+    if (isRetryableCompletionError(error)) {
+      throw error;
+    }
+    try {
+      await failVideo(historyItemId, slotIndex, username, 'Video processing failed', seedUsed, defer);
+    } catch (updateError) {
+      console.error('Failed to update history item with error status:', updateError);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Applies a finished Fal.ai request to the clip it was submitted for: downloads the video,
+ * stores it in the clip's slot and notifies the owner's webhook endpoints, or marks the clip failed.
+ * The poster and preview are created afterwards through `defer`.
+ * Shared by the Fal webhook and the stuck-video reconciler. Each request is applied at most once.
+ * @throws If the video could not be stored; the clip is then marked failed unless the error is retryable.
+ */
+export async function completeVideoGeneration(
+  requestId: string,
+  result: Partial<VideoGenerationOutcome> & { status?: string },
+  options: { source: FalRequestEventSource; defer?: Defer }
+): Promise<VideoCompletion> {
+  const defer = options.defer ?? runDetached;
+
+  const slot = findVideoSlotByFalRequestId(requestId);
+  const item = slot && findHistoryItemById(slot.historyId);
+  if (!slot || !item) {
+    console.warn(`No video clip is bound to fal.ai request ${requestId}`);
+    return 'unknown_request';
+  }
+  const historyItemId = item.id;
+
+  if (!claimFalRequest(requestId, historyItemId, options.source, Date.now() - CLAIM_LEASE_MS)) {
+    console.log(`Ignoring repeated result for fal.ai request ${requestId} (history item ${historyItemId})`);
+    return 'duplicate';
+  }
+
+  try {
+    const completion = await applyVideoResult(item, slot.slotIndex, result, defer);
+    markFalRequestApplied(requestId);
+    return completion;
+  } catch (error) {
+    // Let a retried delivery or the reconciler apply the request
+    // Otherwise the claim expires and a later run finds the clip settled, or still processing
+    // if marking it failed did not work either
+    if (isRetryableCompletionError(error)) {
+      releaseFalRequest(requestId);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Transient errors (a busy database, file system hiccups, timeouts) are worth trying again.
+ */
+export function isRetryableCompletionError(error: unknown): boolean {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return errorMessage.includes('SQLITE_BUSY') || errorMessage.includes('EACCES') || errorMessage.includes('ETIMEDOUT');
+}
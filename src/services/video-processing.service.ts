@@ -0,0 +1,227 @@
+// src/services/video-processing.service.ts
+import 'server-only';
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpegPath from 'ffmpeg-static';
+import { resolveUploadPath, saveFileFromBuffer } from '@/services/storage.service';
+import { STORYBOARD_TRANSITION_SECONDS, type StoryboardTransition } from '@/lib/storyboard';
+import type { VideoMediaInfo } from '@/lib/types';
+
+/** ffmpeg runs longer than this are killed; generated clips are at most a few seconds of HD video. */
+const FFMPEG_TIMEOUT_MS = 2 * 60 * 1000;
+/** Stitching re-encodes up to a minute of HD video. */
+const STITCH_TIMEOUT_MS = 10 * 60 * 1000;
+/** Frame rate of stitched clips; every shot is converted to it so the shots can be joined. */
+const STITCH_FPS = 24;
+
+/** Length of the looping preview, in seconds. */
+const PREVIEW_SECONDS = 3;
+const PREVIEW_HEIGHT = 360;
+const PREVIEW_FPS = 12;
+
+/** Length and frame size of a clip. */
+type ClipFormat = Required<Pick<VideoMediaInfo, 'durationSeconds' | 'width' | 'height'>>;
+
+interface FfmpegRun {
+  code: number | null;
+  stderr: string;
+}
+
+/**
+ * Runs the bundled ffmpeg binary and collects its log output.
+ * Resolves with the exit code; a timeout kills the process.
+ */
+function runFfmpeg(args: string[], timeoutMs = FFMPEG_TIMEOUT_MS): Promise<FfmpegRun> {
+  const binary = ffmpegPath;
+  if (!binary) {
+    return Promise.reject(new Error('ffmpeg is not available on this platform'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, ['-hide_banner', '-nostdin', ...args], { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+    child.stderr.on('data', chunk => {
+      stderr += chunk;
+    });
+    const timer = setTimeout(() => child.kill('SIGKILL'), timeoutMs);
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({ code, stderr });
+    });
+  });
+}
+
+/**
+ * Runs an ffmpeg conversion that only logs errors.
+ * @throws If ffmpeg exits with an error, with its last log line as the message.
+ */
+async function convert(args: string[], timeoutMs?: number): Promise<void> {
+  const { code, stderr } = await runFfmpeg(['-loglevel', 'error', '-y', ...args], timeoutMs);
+  if (code !== 0) {
+    const lastLine = stderr.trim().split('\n').pop();
+    throw new Error(`ffmpeg failed (exit code ${code}): ${lastLine || 'no output'}`);
+  }
+}
+
+/**
+ * Reads the duration and frame size from the stream summary ffmpeg prints for an input, e.g.
+ * `Duration: 00:00:05.04, ...` and `Stream #0:0: Video: h264 (High), yuv420p, 1080x1920, ...`.
+ */
+export function parseVideoProbe(stderr: string): Pick<VideoMediaInfo, 'durationSeconds' | 'width' | 'height'> {
+  const duration = stderr.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  const size = stderr.match(/Stream #\S+.*?Video: .*?(\d{2,5})x(\d{2,5})/);
+
+  return {
+    ...(duration && {
+      durationSeconds: Math.round((Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3])) * 100) / 100,
+    }),
+    ...(size && { width: Number(size[1]), height: Number(size[2]) }),
+  };
+}
+
+async function probeVideo(inputPath: string): Promise<Pick<VideoMediaInfo, 'durationSeconds' | 'width' | 'height'>> {
+  // Without an output ffmpeg only prints the input summary (and exits with an error)
+  const { stderr } = await runFfmpeg(['-i', inputPath]);
+  const probe = parseVideoProbe(stderr);
+  if (probe.durationSeconds === undefined) {
+    throw new Error(`Could not read video ${path.basename(inputPath)}`);
+  }
+  return probe;
+}
+
+/**
+ * Runs ffmpeg into a file in a temporary folder and stores the result under /uploads/.
+ * @returns The stored file's server-relative path.
+ */
+async function convertToUpload(
+  args: (outputPath: string) => string[],
+  fileNamePrefix: string,
+  subfolder: string,
+  extension: string,
+  timeoutMs?: number
+): Promise<string> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'refashion-ffmpeg-'));
+  try {
+    const outputPath = path.join(workDir, `output.${extension}`);
+    await convert(args(outputPath), timeoutMs);
+    const { relativeUrl } = await saveFileFromBuffer(await fs.readFile(outputPath), fileNamePrefix, subfolder, extension);
+    return relativeUrl;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Post-processes a stored clip: reads its duration and frame size, extracts a poster JPEG
+ * and encodes a short, silent WebM preview meant to be played in a loop.
+ * @param localVideoUrl The clip's server-relative path, e.g. /uploads/generated_videos/a.mp4
+ */
+export async function createVideoMedia(localVideoUrl: string): Promise<VideoMediaInfo> {
+  const inputPath = resolveUploadPath(localVideoUrl);
+  const probe = await probeVideo(inputPath);
+
+  // Skip the first frames, which are often a fade-in
+  const posterTime = Math.min(1, (probe.durationSeconds ?? 0) / 2);
+  const posterUrl = await convertToUpload(output => [
+    '-ss', posterTime.toFixed(2), '-i', inputPath,
+    '-frames:v', '1', '-q:v', '3',
+    output,
+  ], 'RefashionAI_poster', 'video_posters', 'jpg');
+
+  const previewUrl = await convertToUpload(output => [
+    '-t', String(PREVIEW_SECONDS), '-i', inputPath,
+    '-vf', `fps=${PREVIEW_FPS},scale=-2:${PREVIEW_HEIGHT}`,
+    '-an', '-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '40', '-deadline', 'good', '-cpu-used', '5', '-row-mt', '1',
+    output,
+  ], 'RefashionAI_preview', 'video_previews', 'webm');
+
+  return { posterUrl, previewUrl, ...probe };
+}
+
+/**
+ * Cuts a stored clip to a time range and stores the result as a new MP4.
+ * The clip is re-encoded, so the cut is frame-accurate rather than snapped to keyframes.
+ * @param start Start of the range, in seconds.
+ * @param end End of the range, in seconds.
+ * @returns The new clip's server-relative path.
+ */
+export async function trimVideo(localVideoUrl: string, start: number, end: number): Promise<string> {
+  const inputPath = resolveUploadPath(localVideoUrl);
+  return convertToUpload(output => [
+    '-ss', start.toFixed(3), '-i', inputPath, '-t', (end - start).toFixed(3),
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '18', '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-movflags', '+faststart',
+    output,
+  ], 'RefashionAI_video', 'generated_videos', 'mp4');
+}
+
+/**
+ * Builds the ffmpeg filter graph that joins clips in order. Every clip is scaled and padded to
+ * the first clip's frame size and converted to a common frame rate, which concat and xfade
+ * require; fades overlap the end of one clip with the start of the next.
+ * @param clips Duration and frame size of each input, in input order.
+ * @returns The filter graph; its output is labelled `[out]`.
+ */
+export function buildStitchFilter(
+  clips: ClipFormat[],
+  transition: StoryboardTransition
+): string {
+  // libx264 needs even frame dimensions
+  const width = Math.round(clips[0].width / 2) * 2;
+  const height = Math.round(clips[0].height / 2) * 2;
+  const filters = clips.map((_, index) =>
+    `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${STITCH_FPS},format=yuv420p,settb=AVTB[v${index}]`
+  );
+
+  if (transition === 'cut' || clips.length === 1) {
+    filters.push(`${clips.map((_, index) => `[v${index}]`).join('')}concat=n=${clips.length}:v=1:a=0[out]`);
+    return filters.join(';');
+  }
+
+  // A fade can take at most half of the shortest clip
+  const fadeSeconds = Math.min(STORYBOARD_TRANSITION_SECONDS, ...clips.map(clip => clip.durationSeconds / 2));
+  let offset = 0;
+  let previous = 'v0';
+  for (let index = 1; index < clips.length; index++) {
+    // Each fade starts before the end of everything joined so far
+    offset += clips[index - 1].durationSeconds - fadeSeconds;
+    const label = index === clips.length - 1 ? 'out' : `x${index}`;
+    filters.push(`[${previous}][v${index}]xfade=transition=${transition}:duration=${fadeSeconds}:offset=${offset.toFixed(3)}[${label}]`);
+    previous = label;
+  }
+  return filters.join(';');
+}
+
+/**
+ * Joins stored clips in order into one silent MP4.
+ * @param localVideoUrls The clips' server-relative paths, in playback order.
+ * @returns The joined clip's server-relative path.
+ */
+export async function stitchVideos(localVideoUrls: string[], transition: StoryboardTransition): Promise<string> {
+  const inputPaths = localVideoUrls.map(resolveUploadPath);
+  const clips: ClipFormat[] = [];
+  for (const inputPath of inputPaths) {
+    const { durationSeconds = 0, width, height } = await probeVideo(inputPath);
+    if (!width || !height) {
+      throw new Error(`Could not read the frame size of ${path.basename(inputPath)}`);
+    }
+    clips.push({ durationSeconds, width, height });
+  }
+
+  return convertToUpload(output => [
+    ...inputPaths.flatMap(inputPath => ['-i', inputPath]),
+    '-filter_complex', buildStitchFilter(clips, transition),
+    '-map', '[out]', '-an',
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '18',
+    '-movflags', '+faststart',
+    output,
+  ], 'RefashionAI_storyboard', 'generated_videos', 'mp4', STITCH_TIMEOUT_MS);
+}
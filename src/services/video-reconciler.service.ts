@@ -0,0 +1,106 @@
+// src/services/video-reconciler.service.ts
+import 'server-only';
+
+import * as dbService from '@/services/db';
+import { getVideoGenerationResult, type VideoGenerationOutcome } from '@/services/fal-api/video.service';
+import { completeVideoGeneration } from '@/services/video-completion.service';
+
+/** Videos still processing this long after submission are polled; Seedance usually finishes within a few minutes. */
+const STUCK_AFTER_MS = 10 * 60 * 1000;
+/** Videos Fal has not finished this long after submission are failed. */
+export const FAL_VIDEO_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+const POLL_BATCH_SIZE = 20;
+
+export interface VideoReconcileSummary {
+  /** Clips polled on Fal.ai. */
+  checked: number;
+  completed: number;
+  failed: number;
+  /** Clips still queued or running on Fal.ai, or whose status could not be fetched. */
+  pending: number;
+}
+
+// Worker state lives on globalThis so HMR reloads do not start a second poller
+// and a manual run does not overlap a scheduled one.
+const globalForReconciler = globalThis as unknown as {
+  videoReconcilerTimer?: NodeJS.Timeout;
+  videoReconcileRun?: Promise<VideoReconcileSummary>;
+};
+
+async function reconcile(now: number): Promise<VideoReconcileSummary> {
+  const summary: VideoReconcileSummary = { checked: 0, completed: 0, failed: 0, pending: 0 };
+
+  for (const video of dbService.findPendingFalVideos(now - STUCK_AFTER_MS, POLL_BATCH_SIZE)) {
+    summary.checked++;
+    const timedOut = now - video.falSubmittedAt > FAL_VIDEO_TIMEOUT_MS;
+
+    let outcome: VideoGenerationOutcome | null = null;
+    try {
+      outcome = await getVideoGenerationResult(video.falRequestId, video.username);
+    } catch (error) {
+      console.error(`[VideoReconciler] Failed to poll fal.ai request ${video.falRequestId} for ${video.historyId} slot ${video.slotIndex}:`, error);
+    }
+    if (!outcome && !timedOut) {
+      summary.pending++;
+      continue;
+    }
+
+    try {
+      const handled = await completeVideoGeneration(
+        video.falRequestId,
+        outcome ?? { status: 'ERROR', error: 'Timed out waiting for fal.ai' },
+        { source: 'reconciler' }
+      );
+      if (handled === 'completed') {
+        summary.completed++;
+      } else if (handled === 'error' || handled === 'unexpected_status' || handled === 'no_video') {
+        summary.failed++;
+      }
+      console.log(`[VideoReconciler] Settled ${video.historyId} slot ${video.slotIndex} from fal.ai request ${video.falRequestId}: ${handled}.`);
+    } catch (error) {
+      console.error(`[VideoReconciler] Failed to settle ${video.historyId} slot ${video.slotIndex}:`, error);
+      summary.pending++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Finishes video generations whose Fal webhook never arrived (e.g. during a deploy, or when
+ * NEXT_PUBLIC_APP_URL is unreachable) by polling the Fal queue. Completed requests go through
+ * the same path as the webhook; requests unfinished after the timeout are failed.
+ * Concurrent calls share one run.
+ */
+export function reconcileStuckVideos(now: number = Date.now()): Promise<VideoReconcileSummary> {
+  globalForReconciler.videoReconcileRun ??= reconcile(now).finally(() => {
+    globalForReconciler.videoReconcileRun = undefined;
+  });
+  return globalForReconciler.videoReconcileRun;
+}
+
+/**
+ * Starts the background worker that reconciles stuck videos once per process.
+ */
+export function startVideoReconcilerWorker(): void {
+  if (globalForReconciler.videoReconcilerTimer) {
+    return;
+  }
+  console.log('[VideoReconciler] Worker started.');
+
+  const poll = async () => {
+    try {
+      const summary = await reconcileStuckVideos();
+      if (summary.checked > 0) {
+        console.log(`[VideoReconciler] Checked ${summary.checked} stuck video clip(s): ${summary.completed} completed, ${summary.failed} failed, ${summary.pending} pending.`);
+      }
+    } catch (error) {
+      console.error('[VideoReconciler] Poll failed:', error);
+    }
+  };
+
+  globalForReconciler.videoReconcilerTimer = setInterval(poll, POLL_INTERVAL_MS);
+  globalForReconciler.videoReconcilerTimer.unref();
+  void poll();
+}
@@ -0,0 +1,92 @@
+// src/services/webhook-endpoint.service.ts
+import 'server-only';
+
+import crypto from 'crypto';
+import * as dbService from '@/services/db';
+import type { WebhookEndpoint } from '@/services/db';
+import type { WebhookEndpointInput, WebhookEndpointUpdate } from '@/lib/api-schemas';
+import { encrypt } from '@/services/encryption.service';
+
+/** The plaintext secret is only ever returned when it is created or rotated. */
+export interface WebhookEndpointWithSecret {
+  endpoint: WebhookEndpoint;
+  secret?: string;
+}
+
+/**
+ * Shape returned by the v1 API; timestamps are ISO strings and the owner is implied by the key.
+ */
+export function toWebhookEndpointResponse({ endpoint, secret }: WebhookEndpointWithSecret) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: endpoint.events,
+    enabled: endpoint.enabled,
+    createdAt: new Date(endpoint.createdAt).toISOString(),
+    updatedAt: new Date(endpoint.updatedAt).toISOString(),
+    ...(secret && { secret }),
+  };
+}
+
+function generateSigningSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+export function listWebhookEndpoints(username: string): WebhookEndpoint[] {
+  return dbService.findWebhookEndpointsByUsername(username);
+}
+
+/**
+ * @returns The endpoint, or null if it does not exist or belongs to another user.
+ */
+export function getWebhookEndpoint(username: string, id: string): WebhookEndpoint | null {
+  const endpoint = dbService.findWebhookEndpointById(id);
+  return endpoint?.username === username ? endpoint : null;
+}
+
+export function createWebhookEndpoint(username: string, input: WebhookEndpointInput): Required<WebhookEndpointWithSecret> {
+  const id = crypto.randomUUID();
+  const secret = generateSigningSecret();
+  dbService.insertWebhookEndpoint({
+    id,
+    username,
+    url: input.url,
+    description: input.description,
+    events: input.events,
+    enabled: input.enabled,
+    encryptedSecret: encrypt(secret),
+  });
+  console.log(`Webhook endpoint ${id} registered for user ${username}.`);
+  return { endpoint: dbService.findWebhookEndpointById(id)!, secret };
+}
+
+/**
+ * Applies a partial update; `rotateSecret` replaces the signing secret and returns the new one.
+ * @returns Null if the endpoint does not exist or belongs to another user.
+ */
+export function updateWebhookEndpoint(username: string, id: string, update: WebhookEndpointUpdate): WebhookEndpointWithSecret | null {
+  if (!getWebhookEndpoint(username, id)) {
+    return null;
+  }
+
+  const secret = update.rotateSecret ? generateSigningSecret() : undefined;
+  dbService.updateWebhookEndpoint(id, {
+    url: update.url,
+    description: update.description,
+    events: update.events,
+    enabled: update.enabled,
+    ...(secret && { encryptedSecret: encrypt(secret) }),
+  });
+  return { endpoint: dbService.findWebhookEndpointById(id)!, ...(secret && { secret }) };
+}
+
+/**
+ * @returns True if the endpoint was deleted, false if it does not exist or belongs to another user.
+ */
+export function deleteWebhookEndpoint(username: string, id: string): boolean {
+  if (!getWebhookEndpoint(username, id)) {
+    return false;
+  }
+  return dbService.deleteWebhookEndpoint(id) > 0;
+}
@@ -1,62 +1,286 @@
 // src/services/webhook.service.ts
 import 'server-only';
 
+import crypto from 'crypto';
+import * as dbService from '@/services/db';
+import type { WebhookDelivery, WebhookAttemptResult } from '@/services/db';
+import type { BatchSummary } from '@/services/batch.service';
+import type { WebhookEventType } from '@/lib/api-schemas';
+
 interface WebhookPayload {
-  status: 'completed' | 'failed';
+  status: 'completed' | 'partial' | 'failed' | 'cancelled';
   generatedImageUrls?: (string | null)[];
+  videoUrl?: string | null;
+  seed?: number;
   error?: string;
-  historyId: string; 
+  historyId: string;
+}
+
+/** Body sent to registered endpoints; `id` is also sent as the event ID header. */
+export interface WebhookEventEnvelope<TData = unknown> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: TData;
 }
 
+/** What a delivery is about, so the admin delivery log can be filtered per job. */
+export interface WebhookRefs {
+  historyId?: string;
+  batchId?: string;
+}
 
-const WEBHOOK_SECRET = (() => {
+/** Automatic attempts per notification, including the first one. */
+const MAX_ATTEMPTS = 8;
+/** Delay before the first retry; doubled for every further retry (30s, 1m, 2m, ... 32m). */
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 15000;
+const RESPONSE_SNIPPET_LENGTH = 500;
+const POLL_INTERVAL_MS = 15000;
+const POLL_BATCH_SIZE = 20;
+
+export const SIGNATURE_HEADER = 'X-Refashion-Signature';
+export const EVENT_ID_HEADER = 'X-Refashion-Event-Id';
+
+function getWebhookSecret(): string {
   const secret = process.env.WEBHOOK_SECRET;
   if (!secret) {
-    console.warn('CRITICAL: WEBHOOK_SECRET is not set in environment variables. Webhook calls will be insecure and likely fail.');
+    console.warn('CRITICAL: WEBHOOK_SECRET is not set in environment variables. Webhooks cannot be signed.');
     throw new Error('WEBHOOK_SECRET is not configured.');
   }
   return secret;
-})();
+}
+
+/**
+ * Builds the signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Receivers recompute the HMAC over the raw body with their copy of the secret and reject
+ * old timestamps to prevent replays.
+ */
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function getRetryDelayMs(attempt: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+}
+
+/**
+ * Registered endpoints sign with their own secret; one-off webhookUrl deliveries use WEBHOOK_SECRET.
+ * @returns The secret, or null if the endpoint has been deleted or disabled since the event.
+ */
+async function resolveSigningSecret(delivery: WebhookDelivery): Promise<string | null> {
+  if (!delivery.endpointId) {
+    return getWebhookSecret();
+  }
+  const endpoint = dbService.findWebhookEndpointById(delivery.endpointId);
+  const encryptedSecret = dbService.findWebhookEndpointSecret(delivery.endpointId);
+  if (!endpoint?.enabled || !encryptedSecret) {
+    return null;
+  }
+  const { decrypt } = await import('@/services/encryption.service');
+  return decrypt(encryptedSecret);
+}
+
+async function postSignedPayload(delivery: WebhookDelivery, secret: string): Promise<WebhookAttemptResult> {
+  const startedAt = Date.now();
+  try {
+    const signature = signWebhookPayload(delivery.payload, Math.floor(startedAt / 1000), secret);
+    // CACHE-STRATEGY: Policy: Dynamic - This POST request sends a notification and must never be cached.
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: signature,
+        [EVENT_ID_HEADER]: delivery.eventId,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      cache: 'no-store',
+    });
+    const responseBody = await response.text().catch(() => '');
+
+    return {
+      succeeded: response.ok,
+      statusCode: response.status,
+      latencyMs: Date.now() - startedAt,
+      responseSnippet: responseBody.slice(0, RESPONSE_SNIPPET_LENGTH) || undefined,
+      ...(!response.ok && { error: `Webhook failed with status ${response.status}` }),
+    };
+  } catch (error) {
+    return {
+      succeeded: false,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Sends one pending attempt and records its outcome. A failed automatic attempt schedules
+ * the next one with exponential backoff; manual redeliveries are never retried.
+ * @returns The outcome, or null if the attempt was already claimed elsewhere.
+ */
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookAttemptResult | null> {
+  if (!dbService.claimWebhookDelivery(delivery.id)) {
+    return null;
+  }
+
+  const secret = await resolveSigningSecret(delivery);
+  if (secret === null) {
+    const outcome: WebhookAttemptResult = { succeeded: false, latencyMs: 0, error: 'Endpoint was deleted or disabled' };
+    dbService.recordWebhookAttempt(delivery.id, outcome);
+    console.warn(`[Webhook] Dropping event ${delivery.eventId}: endpoint ${delivery.endpointId} is no longer active.`);
+    return outcome;
+  }
+
+  console.log(`[Webhook] Attempt ${delivery.attempt}: Sending event ${delivery.eventId} to: ${delivery.url}`);
+  const outcome = await postSignedPayload(delivery, secret);
+  dbService.recordWebhookAttempt(delivery.id, outcome);
+
+  if (outcome.succeeded) {
+    console.log(`[Webhook] Attempt ${delivery.attempt}: Delivered event ${delivery.eventId}. Status: ${outcome.statusCode}`);
+    return outcome;
+  }
 
-export async function sendWebhook(url: string, payload: WebhookPayload): Promise<void> {
-  const sendRequest = async (attempt: number) => {
-    console.log(`[Webhook] Attempt ${attempt}: Sending webhook to: ${url}`);
+  console.error(`[Webhook] Attempt ${delivery.attempt} failed for ${delivery.url}:`, outcome.error);
+  if (delivery.manual) {
+    return outcome;
+  }
+  if (delivery.attempt >= MAX_ATTEMPTS) {
+    console.error(`[Webhook] Giving up on event ${delivery.eventId} after ${delivery.attempt} attempts.`);
+    return outcome;
+  }
+
+  const delayMs = getRetryDelayMs(delivery.attempt);
+  dbService.insertWebhookDelivery({
+    id: crypto.randomUUID(),
+    eventId: delivery.eventId,
+    historyId: delivery.historyId,
+    batchId: delivery.batchId,
+    endpointId: delivery.endpointId,
+    eventType: delivery.eventType,
+    url: delivery.url,
+    payload: delivery.payload,
+    attempt: delivery.attempt + 1,
+    scheduledAt: Date.now() + delayMs,
+  });
+  console.log(`[Webhook] Event ${delivery.eventId} will be retried in ${Math.round(delayMs / 1000)}s.`);
+  return outcome;
+}
+
+/**
+ * Records a signed webhook delivery and makes the first attempt right away.
+ * Failed attempts are retried in the background (see startWebhookRetryWorker), so this
+ * only throws if the delivery could not be recorded.
+ */
+export async function sendWebhook(url: string, payload: WebhookPayload | BatchSummary, refs: WebhookRefs = {}): Promise<void> {
+  const delivery: WebhookDelivery = {
+    id: crypto.randomUUID(),
+    eventId: crypto.randomUUID(),
+    historyId: refs.historyId,
+    batchId: refs.batchId,
+    url,
+    payload: JSON.stringify(payload),
+    attempt: 1,
+    status: 'pending',
+    manual: false,
+    scheduledAt: Date.now(),
+    createdAt: Date.now(),
+  };
+  dbService.insertWebhookDelivery(delivery);
+  await attemptDelivery(delivery);
+}
+
+/**
+ * Delivers an event to every enabled endpoint the user has subscribed to it.
+ * Each endpoint gets its own delivery (and event ID) so retries are tracked independently.
+ */
+export async function publishWebhookEvent<TData>(username: string, type: WebhookEventType, data: TData, refs: WebhookRefs = {}): Promise<void> {
+  const endpoints = dbService.findSubscribedWebhookEndpoints(username, type);
+  if (endpoints.length === 0) {
+    return;
+  }
+
+  await Promise.all(endpoints.map(async endpoint => {
+    const eventId = crypto.randomUUID();
+    const envelope: WebhookEventEnvelope<TData> = { id: eventId, type, createdAt: new Date().toISOString(), data };
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      eventId,
+      historyId: refs.historyId,
+      batchId: refs.batchId,
+      endpointId: endpoint.id,
+      eventType: type,
+      url: endpoint.url,
+      payload: JSON.stringify(envelope),
+      attempt: 1,
+      status: 'pending',
+      manual: false,
+      scheduledAt: Date.now(),
+      createdAt: Date.now(),
+    };
+    dbService.insertWebhookDelivery(delivery);
+    await attemptDelivery(delivery);
+  }));
+  console.log(`[Webhook] Published ${type} to ${endpoints.length} endpoint(s) of ${username}.`);
+}
+
+/**
+ * Sends a recorded notification again as a new, manual attempt with the original body.
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookAttemptResult> {
+  const original = dbService.findWebhookDeliveryById(deliveryId);
+  if (!original) {
+    throw new Error('Webhook delivery not found.');
+  }
+
+  const delivery: WebhookDelivery = {
+    ...original,
+    id: crypto.randomUUID(),
+    attempt: dbService.getLatestWebhookAttempt(original.eventId) + 1,
+    status: 'pending',
+    manual: true,
+    scheduledAt: Date.now(),
+    createdAt: Date.now(),
+  };
+  dbService.insertWebhookDelivery(delivery);
+  const outcome = await attemptDelivery(delivery);
+  // The row was inserted just above, so nobody else can have claimed it
+  return outcome!;
+}
+
+// Worker state lives on globalThis so HMR reloads do not start a second poller.
+const globalForWebhooks = globalThis as unknown as { webhookRetryTimer?: NodeJS.Timeout };
+
+/**
+ * Starts the background worker that sends due retries. Attempts interrupted by a restart
+ * are sent again, so receivers should de-duplicate on the event ID header.
+ */
+export function startWebhookRetryWorker(): void {
+  if (globalForWebhooks.webhookRetryTimer) {
+    return;
+  }
+
+  const requeued = dbService.requeueInterruptedWebhookDeliveries();
+  console.log(`[Webhook] Retry worker started. Requeued ${requeued} interrupted attempt(s).`);
+
+  let polling = false;
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
     try {
-      // CACHE-STRATEGY: Policy: Dynamic - This POST request sends a notification and must never be cached.
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Refashion-Secret': WEBHOOK_SECRET,
-        },
-        body: JSON.stringify(payload),
-        signal: AbortSignal.timeout(15000),
-        cache: 'no-store',
-      });
-
-      if (!response.ok) {
-        const responseBody = await response.text();
-        throw new Error(`Webhook failed with status ${response.status}: ${responseBody}`);
+      for (const delivery of dbService.findDueWebhookDeliveries(Date.now(), POLL_BATCH_SIZE)) {
+        await attemptDelivery(delivery);
       }
-      
-      console.log(`[Webhook] Attempt ${attempt}: Successfully sent webhook to ${url}. Status: ${response.status}`);
-      return true;
     } catch (error) {
-      console.error(`[Webhook] Attempt ${attempt} failed for ${url}:`, error);
-      return false;
+      console.error('[Webhook] Retry poll failed:', error);
+    } finally {
+      polling = false;
     }
   };
 
-  for (let i = 1; i <= 3; i++) {
-    const success = await sendRequest(i);
-    if (success) {
-      return;
-    }
-    if (i < 3) {
-      await new Promise(resolve => setTimeout(resolve, 5000 * i));
-    }
-  }
-
-  console.error(`[Webhook] Final attempt failed. Giving up on sending webhook to ${url}.`);
-  throw new Error(`Webhook delivery failed after 3 attempts to ${url}`);
+  globalForWebhooks.webhookRetryTimer = setInterval(poll, POLL_INTERVAL_MS);
+  globalForWebhooks.webhookRetryTimer.unref();
+  void poll();
 }
@@ -18,9 +18,18 @@ export interface VideoParameters {
   aspect_ratio?: string;
 }
 
+/** An extra clip generated next to the main video settings for side-by-side comparison. */
+export interface VideoVariantSettings {
+  seed: string;
+  duration: VideoParameters['duration'];
+  cameraAction: string;
+  modelMovement: string;
+}
+
 export interface GenerationSettingsState {
   imageSettings: ModelAttributes;
   videoSettings: VideoParameters;
+  videoVariants: VideoVariantSettings[];
   settingsMode: 'basic' | 'advanced';
   generationMode: 'creative' | 'studio';
   studioFit: 'slim' | 'regular' | 'relaxed';
@@ -46,6 +55,7 @@ export interface GenerationSettingsState {
 export interface GenerationSettingsActions {
   setImageSettings: (settings: Partial<ModelAttributes>) => void;
   setVideoSettings: (settings: Partial<VideoParameters>) => void;
+  setVideoVariants: (variants: VideoVariantSettings[]) => void;
   setSettingsMode: (mode: 'basic' | 'advanced') => void;
   setGenerationMode: (mode: 'creative' | 'studio') => void;
   setStudioFit: (fit: 'slim' | 'regular' | 'relaxed') => void;
@@ -104,6 +114,7 @@ const defaultVideoSettings: VideoParameters = {
 const initialState: GenerationSettingsState = {
   imageSettings: defaultImageSettings,
   videoSettings: defaultVideoSettings,
+  videoVariants: [],
   settingsMode: 'basic',
   generationMode: 'studio',
   studioFit: 'regular',
@@ -135,6 +146,9 @@ export const useGenerationSettingsStore = create<GenerationSettingsState & Gener
           videoSettings: { ...state.videoSettings, ...settings }
         }), false, 'setVideoSettings'),
 
+      setVideoVariants: (variants) =>
+        set({ videoVariants: variants }, false, 'setVideoVariants'),
+
       setSettingsMode: (mode) =>
         set({ settingsMode: mode }, false, 'setSettingsMode'),
 
@@ -188,6 +202,13 @@ export const useGenerationSettingsStore = create<GenerationSettingsState & Gener
               seed: item.videoGenerationParams.seed?.toString() || defaultVideoSettings.seed,
               cameraFixed: item.videoGenerationParams.cameraFixed ?? defaultVideoSettings.cameraFixed,
             };
+            // The first clip is the main settings; the others become variants again
+            newState.videoVariants = (item.videoSlots ?? []).slice(1).map(slot => ({
+              seed: slot.params.seed?.toString() || defaultVideoSettings.seed,
+              duration: (slot.params.duration as VideoParameters['duration']) || defaultVideoSettings.duration,
+              cameraAction: slot.params.cameraAction || defaultVideoSettings.cameraAction,
+              modelMovement: slot.params.modelMovement || defaultVideoSettings.modelMovement,
+            }));
           }
           return newState;
         }, false, 'loadFromHistory'),